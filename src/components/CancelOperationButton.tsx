@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface CancelOperationButtonProps {
+  onCancel: () => void;
+  label?: string;
+}
+
+const CancelOperationButton: React.FC<CancelOperationButtonProps> = ({
+  onCancel,
+  label = 'Cancel'
+}) => {
+  return (
+    <button
+      onClick={onCancel}
+      className="w-full mt-3 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors font-medium"
+    >
+      <span className="flex items-center justify-center">
+        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+        {label}
+      </span>
+    </button>
+  );
+};
+
+export default CancelOperationButton;
@@ -0,0 +1,38 @@
+import React, { useState, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import DocumentPropertiesDialog from './DocumentPropertiesDialog';
+
+interface DocumentPropertiesButtonProps {
+  file: File;
+  className?: string;
+}
+
+/**
+ * Opens the title, author and other metadata of a loaded PDF for editing.
+ * Shared by every tool so properties can be fixed without switching modes.
+ */
+const DocumentPropertiesButton: React.FC<DocumentPropertiesButtonProps> = ({
+  file,
+  className = 'w-10 h-10 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 hover:border-gray-400 transition-all duration-200 flex items-center justify-center hover:scale-105 shadow-md'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={className}
+        title="Document Properties"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+      </button>
+      {/* Rendered on the body so draggable or clipped file cards don't affect the dialog */}
+      {isOpen && createPortal(<DocumentPropertiesDialog file={file} onClose={close} />, document.body)}
+    </>
+  );
+};
+
+export default DocumentPropertiesButton;
@@ -0,0 +1,256 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import {
+  readFileBytes,
+  readMetadata,
+  updateMetadata,
+  stripMetadata,
+  describeProgress,
+  isCancelledError
+} from '../engine';
+import type { DocumentMetadata, OperationOptions } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+
+interface DocumentPropertiesDialogProps {
+  file: File;
+  onClose: () => void;
+}
+
+type TextField = 'title' | 'author' | 'subject' | 'keywords' | 'creator' | 'producer';
+type DateField = 'creationDate' | 'modificationDate';
+
+const TEXT_FIELDS: { id: TextField; label: string; placeholder: string }[] = [
+  { id: 'title', label: 'Title', placeholder: 'Shown in the viewer title bar' },
+  { id: 'author', label: 'Author', placeholder: 'Person or team' },
+  { id: 'subject', label: 'Subject', placeholder: 'What the document is about' },
+  { id: 'keywords', label: 'Keywords', placeholder: 'e.g., invoice, 2024, acme' },
+  { id: 'creator', label: 'Creator', placeholder: 'Application it was written in' },
+  { id: 'producer', label: 'Producer', placeholder: 'Software that made the PDF' }
+];
+
+const DATE_FIELDS: { id: DateField; label: string }[] = [
+  { id: 'creationDate', label: 'Created' },
+  { id: 'modificationDate', label: 'Modified' }
+];
+
+// datetime-local inputs work in local time without a zone suffix
+const toDateTimeInput = (date: Date | null): string => {
+  if (!date) return '';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const DocumentPropertiesDialog: React.FC<DocumentPropertiesDialogProps> = ({ file, onClose }) => {
+  const [metadata, setMetadata] = useState<DocumentMetadata | null>(null);
+  const [hasXmp, setHasXmp] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Cancel a save that is still running when the dialog goes away
+  useEffect(() => {
+    return () => {
+      operationControllerRef.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const report = await readMetadata(await readFileBytes(file, { signal: controller.signal }));
+        if (controller.signal.aborted) return;
+        setMetadata(report.metadata);
+        setHasXmp(report.hasXmp);
+      } catch (loadError: unknown) {
+        if (isCancelledError(loadError)) return;
+        console.error('Error reading document properties:', loadError);
+        toast.error('Could not read the document properties. Please check if the file is valid.');
+        onClose();
+      }
+    };
+    load();
+
+    return () => controller.abort();
+  }, [file, onClose]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isSaving) {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSaving, onClose]);
+
+  const updateField = <K extends keyof DocumentMetadata>(field: K, value: DocumentMetadata[K]) => {
+    setMetadata(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const saveCopy = async (mode: 'update' | 'strip') => {
+    if (!metadata) return;
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsSaving(true);
+    const loadingToast = toast.loading(mode === 'strip' ? 'Removing metadata...' : 'Saving properties...');
+
+    try {
+      const bytes = await readFileBytes(file, { signal });
+      const options: OperationOptions = {
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      };
+      const output = mode === 'strip'
+        ? await stripMetadata(bytes, options)
+        : await updateMetadata(bytes, metadata, options);
+
+      const suffix = mode === 'strip' ? 'clean' : 'edited';
+      downloadBytes(output, `${getBaseName(file.name)}-${suffix}.pdf`);
+      toast.success(mode === 'strip' ? 'All metadata removed! Download started.' : 'Properties saved! Download started.', { id: loadingToast });
+      onClose();
+    } catch (saveError: unknown) {
+      if (isCancelledError(saveError)) {
+        toast('Cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error saving document properties:', saveError);
+      const errorMessage = saveError instanceof Error ? saveError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to save the document. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onClick={() => !isSaving && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="document-properties-title"
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white rounded-3xl shadow-2xl border border-gray-200/50"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div className="min-w-0">
+            <h3 id="document-properties-title" className="text-2xl font-bold text-gray-800">Document Properties</h3>
+            <p className="text-sm text-gray-500 truncate mt-1" title={file.name}>{file.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            title="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Fields */}
+        {metadata ? (
+          <div className="p-6 space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {TEXT_FIELDS.map(field => (
+                <div key={field.id} className={field.id === 'title' || field.id === 'keywords' ? 'sm:col-span-2' : ''}>
+                  <label htmlFor={`metadata-${field.id}`} className="block text-sm font-semibold text-gray-700 mb-1">
+                    {field.label}
+                  </label>
+                  <input
+                    id={`metadata-${field.id}`}
+                    type="text"
+                    value={metadata[field.id]}
+                    onChange={(e) => updateField(field.id, e.target.value)}
+                    placeholder={field.placeholder}
+                    disabled={isSaving}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-slate-500 focus:border-slate-500 transition-all duration-200"
+                  />
+                </div>
+              ))}
+              {DATE_FIELDS.map(field => (
+                <div key={field.id}>
+                  <div className="flex justify-between mb-1">
+                    <label htmlFor={`metadata-${field.id}`} className="text-sm font-semibold text-gray-700">
+                      {field.label}
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => updateField(field.id, new Date())}
+                      disabled={isSaving}
+                      className="text-xs font-medium text-slate-600 hover:text-slate-800"
+                    >
+                      Set to now
+                    </button>
+                  </div>
+                  <input
+                    id={`metadata-${field.id}`}
+                    type="datetime-local"
+                    value={toDateTimeInput(metadata[field.id])}
+                    onChange={(e) => updateField(field.id, e.target.value ? new Date(e.target.value) : null)}
+                    disabled={isSaving}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-slate-500 focus:border-slate-500 transition-all duration-200"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Blank fields are removed from the file.
+              {hasXmp && ' This file also carries XMP metadata, which is replaced by the values above when you save.'}
+            </p>
+
+            {/* Actions */}
+            <div className="flex flex-col-reverse sm:flex-row sm:items-center sm:justify-between gap-3 pt-2">
+              <button
+                onClick={() => saveCopy('strip')}
+                disabled={isSaving}
+                className="px-4 py-3 text-red-600 border border-red-300 rounded-xl hover:bg-red-50 transition-colors font-semibold disabled:opacity-50"
+                title="Remove the document information, XMP metadata and application data"
+              >
+                Strip All Metadata
+              </button>
+              <div className="flex flex-col-reverse sm:flex-row gap-3">
+                <button
+                  onClick={onClose}
+                  disabled={isSaving}
+                  className="px-4 py-3 text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors font-medium disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => saveCopy('update')}
+                  disabled={isSaving}
+                  className={`px-6 py-3 rounded-xl font-bold transition-all duration-200 ${
+                    isSaving
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-slate-700 to-slate-900 text-white hover:from-slate-800 hover:to-black shadow-xl'
+                  }`}
+                >
+                  {isSaving ? 'Saving...' : 'Save as New File'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-slate-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Reading properties...</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPropertiesDialog;
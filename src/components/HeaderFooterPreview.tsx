@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { placeStamp, slotsFit, fillHeaderFooterTemplate } from '../engine';
+import type { HeaderFooter, HeaderFooterSlots, StampFont, StampPosition } from '../engine';
+
+interface HeaderFooterPreviewProps {
+  thumbnail: string;
+  // Page size in PDF points as displayed
+  pageWidth: number;
+  pageHeight: number;
+  headerFooter: HeaderFooter;
+  pageNumber: number;
+  totalPages: number;
+  alt: string;
+}
+
+// Browser stand-ins for the standard PDF fonts, with each font's ascender as a share of its size
+const FONT_STYLES: Record<StampFont, { weight: string; family: string; ascent: number }> = {
+  helvetica: { weight: 'normal', family: 'Helvetica, Arial, sans-serif', ascent: 0.718 },
+  'helvetica-bold': { weight: 'bold', family: 'Helvetica, Arial, sans-serif', ascent: 0.718 },
+  'times-roman': { weight: 'normal', family: '"Times New Roman", Times, serif', ascent: 0.683 },
+  courier: { weight: 'normal', family: '"Courier New", Courier, monospace', ascent: 0.629 }
+};
+
+const LINES: { id: 'header' | 'footer'; positions: Record<keyof HeaderFooterSlots, StampPosition> }[] = [
+  { id: 'header', positions: { left: 'top-left', center: 'top', right: 'top-right' } },
+  { id: 'footer', positions: { left: 'bottom-left', center: 'bottom', right: 'bottom-right' } }
+];
+
+const SLOTS: (keyof HeaderFooterSlots)[] = ['left', 'center', 'right'];
+
+// Lines too wide for the page are drawn in red, since saving would stop on them
+const OVERFLOW_COLOR = '#dc2626';
+
+/**
+ * Draws a page thumbnail with its header and footer on top, laid out the way the PDF worker draws them
+ */
+const HeaderFooterPreview: React.FC<HeaderFooterPreviewProps> = ({ thumbnail, pageWidth, pageHeight, headerFooter, pageNumber, totalPages, alt }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [page, setPage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const pageImage = new Image();
+    pageImage.onload = () => {
+      if (!cancelled) setPage(pageImage);
+    };
+    pageImage.src = thumbnail;
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnail]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !page) return;
+
+    canvas.width = page.naturalWidth;
+    canvas.height = page.naturalHeight;
+    context.drawImage(page, 0, 0);
+
+    const { fontSize, font } = headerFooter;
+    const style = FONT_STYLES[font];
+    const scale = canvas.width / pageWidth;
+    context.save();
+    context.scale(scale, scale);
+    // Measured in PDF points
+    context.font = `${style.weight} ${fontSize}px ${style.family}`;
+    context.textBaseline = 'alphabetic';
+
+    for (const line of LINES) {
+      const texts = SLOTS.map(slot => fillHeaderFooterTemplate(headerFooter[line.id][slot], headerFooter, pageNumber, totalPages));
+      const widths = texts.map(text => (text ? context.measureText(text).width : 0));
+      context.fillStyle = slotsFit(pageWidth, widths[0], widths[1], widths[2]) ? headerFooter.color : OVERFLOW_COLOR;
+
+      SLOTS.forEach((slot, index) => {
+        if (!texts[index]) return;
+        const { x, y } = placeStamp(pageWidth, pageHeight, widths[index], fontSize * style.ascent, line.positions[slot]);
+        // Canvas y runs down, the opposite of PDF
+        context.fillText(texts[index], x, pageHeight - y);
+      });
+    }
+    context.restore();
+  }, [page, pageWidth, pageHeight, headerFooter, pageNumber, totalPages]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={alt} className="w-full h-full object-contain" />;
+};
+
+export default HeaderFooterPreview;
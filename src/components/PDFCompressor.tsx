@@ -0,0 +1,327 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import CancelOperationButton from './CancelOperationButton';
+import {
+  readFileBytes,
+  compressPdf,
+  describeProgress,
+  generatePageThumbnail,
+  generateFileIconThumbnail,
+  isCancelledError
+} from '../engine';
+import type { CompressionPreset, CompressionStats } from '../engine';
+import { formatFileSize } from '../utils/fileValidation';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+
+const PRESETS: { id: CompressionPreset; label: string; description: string }[] = [
+  { id: 'lossless', label: 'Lossless', description: 'Clean up structure only; images are untouched' },
+  { id: 'high', label: 'High Quality', description: 'Images up to 2400px, light JPEG compression' },
+  { id: 'balanced', label: 'Balanced', description: 'Images up to 1600px, good for sharing and email' },
+  { id: 'small', label: 'Smallest File', description: 'Images up to 1000px, strong JPEG compression' }
+];
+
+const PDFCompressor: React.FC = () => {
+  const [preset, setPreset] = useState<CompressionPreset>('balanced');
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+  // Result of the last run, shown until another file is loaded
+  const [lastResult, setLastResult] = useState<{ preset: CompressionPreset; stats: CompressionStats } | null>(null);
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Stop any running compression when component unmounts
+  useEffect(() => {
+    return () => {
+      operationControllerRef.current?.abort();
+    };
+  }, []);
+
+  const upload = usePdfUpload(async pdf => {
+    let firstPage: string;
+    try {
+      firstPage = await generatePageThumbnail(await readFileBytes(pdf.file), 1, { width: 200, height: 260 });
+    } catch {
+      firstPage = generateFileIconThumbnail(pdf.name);
+    }
+    setThumbnail(firstPage);
+    setLastResult(null);
+  });
+  const { pdfFile, isLoading, setIsLoading } = upload;
+
+  const removeFile = () => {
+    operationControllerRef.current?.abort();
+    upload.removeFile();
+    setLastResult(null);
+    setThumbnail(null);
+  };
+
+  const compressFile = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Compressing PDF...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const { output, stats } = await compressPdf(bytes, preset, {
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      setLastResult({ preset, stats });
+
+      if (stats.compressedSize >= stats.originalSize) {
+        toast('This PDF is already well optimized. No smaller version could be made, so nothing was downloaded.', {
+          id: loadingToast,
+          icon: 'ℹ️',
+          duration: 6000
+        });
+        return;
+      }
+
+      downloadBytes(output, `${getBaseName(pdfFile.name)}-compressed.pdf`);
+      const savedPercent = Math.round((1 - stats.compressedSize / stats.originalSize) * 100);
+      toast.success(
+        `Compressed ${formatFileSize(stats.originalSize)} → ${formatFileSize(stats.compressedSize)} (${savedPercent}% smaller)! File downloaded.`,
+        { id: loadingToast }
+      );
+    } catch (compressError: unknown) {
+      if (isCancelledError(compressError)) {
+        toast('Compression cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error compressing PDF:', compressError);
+      const errorMessage = compressError instanceof Error ? compressError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to compress PDF. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const savedBytes = lastResult ? lastResult.stats.originalSize - lastResult.stats.compressedSize : 0;
+  const savedPercent = lastResult && lastResult.stats.originalSize > 0
+    ? Math.max(0, Math.round((savedBytes / lastResult.stats.originalSize) * 100))
+    : 0;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-teal-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-teal-50/50 to-cyan-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="Compress PDF"
+                subtitle="Reduce the file size of a PDF"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="teal"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="teal"
+              />
+            )}
+
+            {/* Compress Controls */}
+            {pdfFile && (
+              <div className="border-2 border-teal-200 rounded-2xl p-6 bg-gradient-to-br from-teal-50 to-cyan-50">
+                <h4 className="font-bold text-teal-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+                  </svg>
+                  Compress PDF
+                </h4>
+
+                {/* Preset Selection */}
+                <div className="mb-6 space-y-2">
+                  <p className="block text-sm font-semibold text-gray-700 mb-3">Quality</p>
+                  {PRESETS.map(option => (
+                    <label
+                      key={option.id}
+                      className={`flex items-start p-3 rounded-xl border cursor-pointer transition-colors ${
+                        preset === option.id ? 'border-teal-500 bg-white shadow-sm' : 'border-gray-200 hover:bg-white/60'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="compression-preset"
+                        value={option.id}
+                        checked={preset === option.id}
+                        onChange={() => setPreset(option.id)}
+                        className="mt-1 mr-3 h-4 w-4 text-teal-600 focus:ring-teal-500"
+                      />
+                      <span>
+                        <span className="block text-sm font-semibold text-gray-800">{option.label}</span>
+                        <span className="block text-xs text-gray-500">{option.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+
+                {/* Compress Button */}
+                <button
+                  onClick={compressFile}
+                  disabled={isLoading}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-teal-600 to-cyan-600 text-white hover:from-teal-700 hover:to-cyan-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Compressing...
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Compress PDF
+                    </span>
+                  )}
+                </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel Compression" />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - File Overview and Results */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile ? (
+            <div className="max-w-3xl mx-auto">
+              <h3 className="text-2xl font-bold text-gray-800 mb-2">Size Report</h3>
+              <p className="text-gray-600 mb-8">
+                Choose a quality preset and compress. The report below compares the original with the compressed file.
+              </p>
+
+              <div className="flex flex-col sm:flex-row gap-6">
+                {thumbnail && (
+                  <div className="w-40 flex-shrink-0 mx-auto sm:mx-0">
+                    <div className="aspect-[3/4] rounded-xl overflow-hidden bg-gray-100 border border-gray-200 shadow">
+                      <img src={thumbnail} alt={pdfFile.name} className="w-full h-full object-cover" />
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex-1 space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="bg-white border border-gray-200 rounded-xl p-4">
+                      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Before</p>
+                      <p className="text-2xl font-bold text-gray-800 mt-1">
+                        {lastResult ? formatFileSize(lastResult.stats.originalSize) : pdfFile.size}
+                      </p>
+                    </div>
+                    <div className={`border rounded-xl p-4 ${lastResult ? 'bg-teal-50 border-teal-200' : 'bg-white border-gray-200'}`}>
+                      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">After</p>
+                      <p className={`text-2xl font-bold mt-1 ${lastResult ? 'text-teal-700' : 'text-gray-300'}`}>
+                        {lastResult ? formatFileSize(lastResult.stats.compressedSize) : '—'}
+                      </p>
+                    </div>
+                  </div>
+
+                  {lastResult ? (
+                    <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-2 text-sm text-gray-700">
+                      <p className="font-semibold text-gray-800">
+                        {savedBytes > 0
+                          ? `${formatFileSize(savedBytes)} saved (${savedPercent}% smaller) with "${PRESETS.find(option => option.id === lastResult.preset)?.label}"`
+                          : 'No reduction possible: the original was kept'}
+                      </p>
+                      <p>• {lastResult.stats.imagesRecompressed} image{lastResult.stats.imagesRecompressed !== 1 ? 's' : ''} downsampled or re-encoded</p>
+                      <p>• {lastResult.stats.duplicateStreamsRemoved} duplicate stream{lastResult.stats.duplicateStreamsRemoved !== 1 ? 's' : ''} merged</p>
+                      <p>• {lastResult.stats.unusedObjectsRemoved} unused object{lastResult.stats.unusedObjectsRemoved !== 1 ? 's' : ''} dropped</p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      Scanned documents and photo-heavy PDFs shrink the most. Text-only files mostly benefit from the structural clean-up.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-teal-100 to-cyan-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to compress your PDF
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file using the upload area to reduce its size for email or storage.
+                </p>
+                <div className="bg-gradient-to-br from-teal-50 to-cyan-50 rounded-2xl p-6 text-left border border-teal-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-teal-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to compress a PDF:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-teal-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-teal-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Pick a quality preset: Lossless keeps images untouched, Smallest File shrinks them the most</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-teal-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Click "Compress PDF" to download the smaller file and see the before/after sizes</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFCompressor;
@@ -0,0 +1,525 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import VirtualPageGrid from './VirtualPageGrid';
+import CancelOperationButton from './CancelOperationButton';
+import HeaderFooterPreview from './HeaderFooterPreview';
+import {
+  readFileBytes,
+  readMetadata,
+  addHeaderFooter,
+  parsePageRange,
+  formatPageRange,
+  describeProgress,
+  isCancelledError
+} from '../engine';
+import type { HeaderFooter, HeaderFooterSlots, StampFont } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
+
+const FONTS: { id: StampFont; label: string }[] = [
+  { id: 'helvetica', label: 'Helvetica' },
+  { id: 'helvetica-bold', label: 'Helvetica Bold' },
+  { id: 'times-roman', label: 'Times Roman' },
+  { id: 'courier', label: 'Courier' }
+];
+
+const VARIABLES = ['{filename}', '{title}', '{date}', '{page}', '{total}'];
+
+const SLOT_LABELS: { id: keyof HeaderFooterSlots; label: string }[] = [
+  { id: 'left', label: 'Left' },
+  { id: 'center', label: 'Center' },
+  { id: 'right', label: 'Right' }
+];
+
+const DEFAULT_HEADER_FOOTER: HeaderFooter = {
+  header: { left: '{title}', center: '', right: '{date}' },
+  footer: { left: '{filename}', center: '', right: 'Page {page} of {total}' },
+  font: 'helvetica',
+  fontSize: 9,
+  color: '#000000',
+  fileName: '',
+  title: '',
+  date: new Date().toLocaleDateString()
+};
+
+const PDFHeaderFooter: React.FC = () => {
+  const [pageRange, setPageRange] = useState('');
+  // Pages left without a header and footer, such as a cover page
+  const [skippedPages, setSkippedPages] = useState<number[]>([]);
+  const [headerFooter, setHeaderFooter] = useState<HeaderFooter>(DEFAULT_HEADER_FOOTER);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Cleanup function when component unmounts
+  useEffect(() => {
+    return () => {
+      operationControllerRef.current?.abort();
+    };
+  }, []);
+
+  // {title} starts as the document's own title, or the file name when it has none
+  const getDocumentTitle = async (file: File): Promise<string> => {
+    try {
+      const { metadata } = await readMetadata(await readFileBytes(file));
+      return metadata.title.trim() || getBaseName(file.name);
+    } catch {
+      return getBaseName(file.name);
+    }
+  };
+
+  const upload = usePdfUpload(async pdf => {
+    const title = await getDocumentTitle(pdf.file);
+    setHeaderFooter(prev => ({ ...prev, fileName: pdf.name, title }));
+    setSkippedPages([]);
+    setPageRange('');
+  });
+  const { pdfFile, isLoading, setIsLoading } = upload;
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, true);
+
+  const removeFile = () => {
+    operationControllerRef.current?.abort();
+
+    upload.removeFile();
+    setPageRange('');
+    setSkippedPages([]);
+  };
+
+  const updateHeaderFooter = <K extends keyof HeaderFooter>(field: K, value: HeaderFooter[K]) => {
+    setHeaderFooter(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateSlot = (line: 'header' | 'footer', slot: keyof HeaderFooterSlots, value: string) => {
+    setHeaderFooter(prev => ({ ...prev, [line]: { ...prev[line], [slot]: value } }));
+  };
+
+  const updatePageRangeFromSelection = (pages: number[]) => {
+    setPageRange(formatPageRange(pages));
+  };
+
+  const handlePageClick = (pageNumber: number) => {
+    setSkippedPages(prev => {
+      const newSkipped = prev.includes(pageNumber)
+        ? prev.filter(p => p !== pageNumber)
+        : [...prev, pageNumber].sort((a, b) => a - b);
+
+      updatePageRangeFromSelection(newSkipped);
+      return newSkipped;
+    });
+  };
+
+  const handlePageRangeChange = (range: string) => {
+    setPageRange(range);
+    const parsedPages = parsePageRange(range);
+    const validPages = parsedPages.filter(p => p >= 1 && p <= (pdfFile?.pageCount || 0));
+    setSkippedPages(validPages);
+  };
+
+  const stampedPageCount = (pdfFile?.pageCount || 0) - skippedPages.length;
+  const hasText = (['header', 'footer'] as const).some(line => SLOT_LABELS.some(slot => headerFooter[line][slot.id].trim() !== ''));
+
+  const saveHeaderFooterPDF = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    if (!hasText) {
+      toast.error('Enter the header or footer text.');
+      return;
+    }
+
+    if (stampedPageCount <= 0) {
+      toast.error('Every page is skipped. Leave at least one page for the header and footer.');
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Adding header and footer...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const pdfBytes = await addHeaderFooter(bytes, skippedPages, headerFooter, {
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      downloadBytes(pdfBytes, `${getBaseName(pdfFile.name)}-header-footer.pdf`);
+
+      toast.success(`Added the header and footer to ${stampedPageCount} page${stampedPageCount !== 1 ? 's' : ''}! File downloaded.`, { id: loadingToast });
+    } catch (headerFooterError: unknown) {
+      if (isCancelledError(headerFooterError)) {
+        toast('Cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error adding header and footer:', headerFooterError);
+      const errorMessage = headerFooterError instanceof Error ? headerFooterError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to add the header and footer. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const canSave = !isLoading && hasText && stampedPageCount > 0;
+
+  const renderPageCard = (pageNumber: number) => {
+    const isSkipped = skippedPages.includes(pageNumber);
+    const thumbnail = pageThumbnails.thumbnails.get(pageNumber);
+    const pageSize = pageThumbnails.pageSizes.get(pageNumber);
+
+    return (
+      <div
+        onClick={() => handlePageClick(pageNumber)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-pointer hover:shadow-xl ${
+          isSkipped
+            ? 'ring-4 ring-gray-300 ring-opacity-75 opacity-60'
+            : 'hover:shadow-lg'
+        }`}
+      >
+        {/* Skip Badge */}
+        {isSkipped && (
+          <div className="absolute -top-2 -right-2 z-20 px-2 py-1 rounded-full bg-gray-700 text-white text-xs font-semibold shadow-lg">
+            Skipped
+          </div>
+        )}
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative overflow-hidden">
+            {thumbnail && pageSize && !isSkipped ? (
+              <HeaderFooterPreview
+                thumbnail={thumbnail}
+                pageWidth={pageSize.width}
+                pageHeight={pageSize.height}
+                headerFooter={headerFooter}
+                pageNumber={pageNumber}
+                totalPages={pdfFile?.pageCount ?? 0}
+                alt={`Page ${pageNumber} with header and footer`}
+              />
+            ) : thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${pageNumber}`}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+              </div>
+            )}
+
+            {/* Page number overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {pageNumber}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-violet-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-violet-50/50 to-fuchsia-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="Header & Footer"
+                subtitle="Add running headers and footers"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="violet"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="violet"
+              />
+            )}
+
+            {/* Header & Footer Controls */}
+            {pdfFile && (
+              <div className="border-2 border-violet-200 rounded-2xl p-6 bg-gradient-to-br from-violet-50 to-fuchsia-50">
+                <h4 className="font-bold text-violet-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 5h16M4 19h16M8 9h8v6H8z" />
+                  </svg>
+                  Header & Footer
+                </h4>
+
+                {/* Slots */}
+                {(['header', 'footer'] as const).map(line => (
+                  <div key={line} className="mb-6">
+                    <p className="block text-sm font-semibold text-gray-700 mb-2">{line === 'header' ? 'Header' : 'Footer'}</p>
+                    <div className="space-y-2">
+                      {SLOT_LABELS.map(slot => (
+                        <div key={slot.id} className="flex items-center gap-2">
+                          <label htmlFor={`${line}-${slot.id}`} className="w-14 text-xs text-gray-500 flex-shrink-0">{slot.label}</label>
+                          <input
+                            id={`${line}-${slot.id}`}
+                            type="text"
+                            value={headerFooter[line][slot.id]}
+                            onChange={(e) => updateSlot(line, slot.id, e.target.value)}
+                            placeholder="Empty"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <div className="mb-6">
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {VARIABLES.map(variable => (
+                      <code key={variable} className="px-2 py-0.5 bg-white border border-violet-200 text-violet-700 rounded text-xs">{variable}</code>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Use these variables in any slot. {'{page}'} and {'{total}'} count every page, including skipped ones.
+                  </p>
+                </div>
+
+                {/* Variable Values */}
+                <div className="mb-6 space-y-3">
+                  <div>
+                    <label htmlFor="header-footer-title" className="block text-sm text-gray-700 mb-1">{'{title}'}</label>
+                    <input
+                      id="header-footer-title"
+                      type="text"
+                      value={headerFooter.title}
+                      onChange={(e) => updateHeaderFooter('title', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="header-footer-date" className="block text-sm text-gray-700 mb-1">{'{date}'}</label>
+                    <input
+                      id="header-footer-date"
+                      type="text"
+                      value={headerFooter.date}
+                      onChange={(e) => updateHeaderFooter('date', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                    />
+                  </div>
+                </div>
+
+                {/* Appearance */}
+                <div className="mb-6">
+                  <div className="flex items-end gap-3">
+                    <div className="flex-1">
+                      <label htmlFor="header-footer-font" className="block text-sm text-gray-700 mb-1">Font</label>
+                      <select
+                        id="header-footer-font"
+                        value={headerFooter.font}
+                        onChange={(e) => updateHeaderFooter('font', e.target.value as StampFont)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                      >
+                        {FONTS.map(font => (
+                          <option key={font.id} value={font.id}>{font.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="w-20">
+                      <label htmlFor="header-footer-font-size" className="block text-sm text-gray-700 mb-1">Size</label>
+                      <input
+                        id="header-footer-font-size"
+                        type="number"
+                        min={6}
+                        max={36}
+                        value={headerFooter.fontSize}
+                        onChange={(e) => updateHeaderFooter('fontSize', Math.min(36, Math.max(6, Number(e.target.value) || 6)))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="header-footer-color" className="block text-sm text-gray-700 mb-1">Color</label>
+                      <input
+                        id="header-footer-color"
+                        type="color"
+                        value={headerFooter.color}
+                        onChange={(e) => updateHeaderFooter('color', e.target.value)}
+                        className="w-12 h-9 p-0.5 border border-gray-300 rounded-lg cursor-pointer bg-white"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Text is measured with the chosen font; lines shown in red in the preview are too wide for the page.
+                  </p>
+                </div>
+
+                {/* Skipped Pages Input */}
+                <div className="mb-6">
+                  <label htmlFor="header-footer-skip" className="block text-sm font-semibold text-gray-700 mb-3">
+                    Pages to Skip
+                  </label>
+                  <input
+                    id="header-footer-skip"
+                    type="text"
+                    value={pageRange}
+                    onChange={(e) => handlePageRangeChange(e.target.value)}
+                    placeholder="None, or e.g., 1 for the cover"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-violet-500 transition-all duration-200"
+                  />
+                  <p className="mt-3 text-sm text-violet-600 font-medium">
+                    {skippedPages.length > 0
+                      ? `${skippedPages.length} page${skippedPages.length !== 1 ? 's' : ''} skipped`
+                      : 'Every page gets the header and footer'}
+                  </p>
+                </div>
+
+                {/* Save Button */}
+                <button
+                  onClick={saveHeaderFooterPDF}
+                  disabled={!canSave}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    !canSave
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white hover:from-violet-700 hover:to-fuchsia-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isOperationRunning ? 'Stamping...' : 'Loading...'}
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Save PDF
+                    </span>
+                  )}
+                </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel" />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Pages Grid - Full Width */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Preview ({pdfFile.pageCount || 0} total pages)
+                  </h3>
+                  <p className="text-gray-600">
+                    Click pages to skip them; the preview updates as you edit the text
+                    {pageThumbnails.isRendering && (
+                      <span className="text-violet-600 ml-2">
+                        • Rendering previews...
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {skippedPages.length > 0 && (
+                  <button
+                    onClick={() => {
+                      setSkippedPages([]);
+                      setPageRange('');
+                    }}
+                    className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Skip None
+                  </button>
+                )}
+              </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                pageCount={pdfFile.pageCount}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-violet-100 to-fuchsia-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-violet-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 5h16M4 19h16M8 9h8v6H8z" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to add headers and footers
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file using the upload area to add a running header and footer to its pages.
+                </p>
+                <div className="bg-gradient-to-br from-violet-50 to-fuchsia-50 rounded-2xl p-6 text-left border border-violet-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-violet-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to add a header and footer:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-violet-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-violet-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Fill the left, center and right slots with text and variables such as {'{title}'} or {'{page}'}</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-violet-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Pick the font, size and color while watching the preview</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-violet-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Click pages such as the cover to skip them, then click "Save PDF"</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFHeaderFooter;
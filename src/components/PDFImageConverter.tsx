@@ -0,0 +1,539 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import CancelOperationButton from './CancelOperationButton';
+import {
+  readFileBytes,
+  imagesToPdf,
+  describeProgress,
+  isCancelledError,
+  generateImageThumbnail,
+  layoutImagePage
+} from '../engine';
+import type { ImagePageSize, PageOrientation, ImagePageLayout } from '../engine';
+import { validateFile, formatFileSize, IMAGE_VALIDATION_OPTIONS } from '../utils/fileValidation';
+import { downloadBytes } from '../utils/download';
+
+interface ImageFile {
+  file: File;
+  id: string;
+  name: string;
+  size: string;
+  thumbnail: string;
+  // Upright size in pixels
+  width: number;
+  height: number;
+}
+
+type MarginSize = 'none' | 'small' | 'large';
+
+const PAGE_SIZE_OPTIONS: { id: ImagePageSize; label: string }[] = [
+  { id: 'a4', label: 'A4' },
+  { id: 'letter', label: 'Letter' },
+  { id: 'fit', label: 'Fit Image' }
+];
+
+const ORIENTATION_OPTIONS: { id: PageOrientation; label: string }[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: 'portrait', label: 'Portrait' },
+  { id: 'landscape', label: 'Landscape' }
+];
+
+// Margins in PDF points (72 per inch)
+const MARGIN_OPTIONS: { id: MarginSize; label: string; points: number }[] = [
+  { id: 'none', label: 'None', points: 0 },
+  { id: 'small', label: 'Small', points: 18 },
+  { id: 'large', label: 'Large', points: 54 }
+];
+
+// Width / height of the preview frame each page is drawn in
+const PREVIEW_FRAME_RATIO = 3 / 4;
+
+/**
+ * Strips the extension from an image file name
+ */
+const getImageBaseName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
+
+const PDFImageConverter: React.FC = () => {
+  const [images, setImages] = useState<ImageFile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [pageSize, setPageSize] = useState<ImagePageSize>('a4');
+  const [orientation, setOrientation] = useState<PageOrientation>('auto');
+  const [marginSize, setMarginSize] = useState<MarginSize>('small');
+  const [isConverting, setIsConverting] = useState(false);
+
+  const convertControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any running conversion when component unmounts
+  useEffect(() => {
+    return () => {
+      convertControllerRef.current?.abort();
+    };
+  }, []);
+
+  const layout: ImagePageLayout = {
+    pageSize,
+    orientation,
+    margin: MARGIN_OPTIONS.find(option => option.id === marginSize)?.points ?? 0
+  };
+
+  const processFiles = async (files: FileList | File[]) => {
+    setIsLoading(true);
+    const newImages: ImageFile[] = [];
+
+    for (const file of Array.from(files)) {
+      const validation = await validateFile(file, IMAGE_VALIDATION_OPTIONS);
+      if (!validation.isValid) {
+        toast.error(`"${file.name}" was skipped. ${validation.error ?? ''}`);
+        continue;
+      }
+
+      try {
+        const preview = await generateImageThumbnail(file, { width: 240, height: 320 });
+        newImages.push({
+          file,
+          id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          name: file.name,
+          size: formatFileSize(file.size),
+          ...preview
+        });
+      } catch (previewError) {
+        console.error('Error reading image:', previewError);
+        toast.error(`Failed to read "${file.name}". The image may be corrupted.`);
+      }
+    }
+
+    if (newImages.length > 0) {
+      setImages(prev => [...prev, ...newImages]);
+      toast.success(`Added ${newImages.length} image${newImages.length > 1 ? 's' : ''}`);
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files) return;
+    await processFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+
+    const files = e.dataTransfer.files;
+    if (files.length > 0) {
+      await processFiles(files);
+    }
+  };
+
+  const removeImage = (id: string) => {
+    setImages(prev => prev.filter(image => image.id !== id));
+  };
+
+  const clearAllImages = () => {
+    setImages([]);
+    toast.success('All images cleared');
+  };
+
+  const moveImage = (fromIndex: number, toIndex: number) => {
+    const newImages = [...images];
+    const [movedImage] = newImages.splice(fromIndex, 1);
+    newImages.splice(toIndex, 0, movedImage);
+    setImages(newImages);
+  };
+
+  // Image reordering drag and drop handlers for grid
+  const handleGridDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    setDraggedIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/html', '');
+  };
+
+  const handleGridDragOver = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDragOverIndex(index);
+  };
+
+  const handleGridDragLeave = () => {
+    setDragOverIndex(null);
+  };
+
+  const handleGridDrop = (e: React.DragEvent<HTMLDivElement>, dropIndex: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (draggedIndex !== null && draggedIndex !== dropIndex) {
+      moveImage(draggedIndex, dropIndex);
+    }
+
+    setDraggedIndex(null);
+    setDragOverIndex(null);
+  };
+
+  const handleGridDragEnd = () => {
+    setDraggedIndex(null);
+    setDragOverIndex(null);
+  };
+
+  const convertImages = async () => {
+    if (images.length === 0) {
+      toast.error('Please add at least one image.');
+      return;
+    }
+
+    const controller = new AbortController();
+    convertControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsConverting(true);
+    const loadingToast = toast.loading('Creating PDF...');
+
+    try {
+      const inputs: Uint8Array[] = [];
+      for (const image of images) {
+        inputs.push(await readFileBytes(image.file, { signal }));
+      }
+
+      const pdfBytes = await imagesToPdf(inputs, {
+        ...layout,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      const fileName = images.length === 1
+        ? `${getImageBaseName(images[0].name)}.pdf`
+        : `images-${new Date().toISOString().split('T')[0]}.pdf`;
+      downloadBytes(pdfBytes, fileName);
+
+      toast.success(`PDF with ${images.length} page${images.length !== 1 ? 's' : ''} created! Download started.`, { id: loadingToast });
+    } catch (err) {
+      if (isCancelledError(err)) {
+        toast('Conversion cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error converting images:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Please ensure all files are valid JPG or PNG images.';
+      toast.error(`Failed to create PDF. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      convertControllerRef.current = null;
+      setIsConverting(false);
+      setIsLoading(false);
+    }
+  };
+
+  const cancelConversion = () => {
+    convertControllerRef.current?.abort();
+  };
+
+  /**
+   * Sizes a page preview like the page the image will get, with the image box inside it
+   */
+  const getPagePreviewStyles = (image: ImageFile) => {
+    const placement = layoutImagePage(image.width, image.height, layout);
+    const pageRatio = placement.pageWidth / placement.pageHeight;
+    return {
+      fillsWidth: pageRatio > PREVIEW_FRAME_RATIO,
+      page: { aspectRatio: `${placement.pageWidth} / ${placement.pageHeight}` },
+      // PDF coordinates start at the bottom; percentages of an absolute box follow the page size
+      image: {
+        left: `${(placement.x / placement.pageWidth) * 100}%`,
+        bottom: `${(placement.y / placement.pageHeight) * 100}%`,
+        width: `${(placement.width / placement.pageWidth) * 100}%`,
+        height: `${(placement.height / placement.pageHeight) * 100}%`
+      }
+    };
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-pink-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-pink-50/50 to-rose-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section */}
+            <UploadCard
+              isLoading={isLoading}
+              isDragOver={isDragOver}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+              onFileChange={handleFileUpload}
+              accept=".jpg,.jpeg,.png,image/jpeg,image/png"
+              multiple={true}
+              title="Images to PDF"
+              subtitle="Turn photos and scans into one PDF"
+              loadingText="Processing images..."
+              loadingSubtext="Please wait while we read your images"
+              supportedFormats="JPG and PNG images"
+              theme="pink"
+            />
+
+            {/* Conversion Controls */}
+            {images.length > 0 && (
+              <div className="border-2 border-pink-200 rounded-2xl p-6 bg-gradient-to-br from-pink-50 to-rose-50">
+                <h4 className="font-bold text-pink-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  Page Setup
+                </h4>
+
+                <div className="mb-4">
+                  <p className="text-sm text-gray-700 mb-2">
+                    <strong>{images.length}</strong> image{images.length !== 1 ? 's' : ''}, one per page
+                  </p>
+                  {images.length > 1 && (
+                    <p className="text-xs text-pink-600">
+                      💡 Drag images in the grid to reorder them
+                    </p>
+                  )}
+                </div>
+
+                {/* Page Size */}
+                <p className="text-sm font-semibold text-gray-700 mb-2">Page size</p>
+                <div className="grid grid-cols-3 gap-1 p-1 mb-4 bg-white rounded-xl border border-pink-200">
+                  {PAGE_SIZE_OPTIONS.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setPageSize(option.id)}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        pageSize === option.id ? 'bg-pink-600 text-white shadow-md' : 'text-gray-600 hover:bg-pink-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Orientation */}
+                <p className="text-sm font-semibold text-gray-700 mb-2">Orientation</p>
+                <div className="grid grid-cols-3 gap-1 p-1 mb-1 bg-white rounded-xl border border-pink-200">
+                  {ORIENTATION_OPTIONS.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setOrientation(option.id)}
+                      disabled={pageSize === 'fit'}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                        orientation === option.id && pageSize !== 'fit' ? 'bg-pink-600 text-white shadow-md' : 'text-gray-600 hover:bg-pink-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mb-4">
+                  {pageSize === 'fit'
+                    ? 'Each page takes the shape of its image.'
+                    : 'Auto turns each page to match its image.'}
+                </p>
+
+                {/* Margins */}
+                <p className="text-sm font-semibold text-gray-700 mb-2">Margins</p>
+                <div className="grid grid-cols-3 gap-1 p-1 mb-6 bg-white rounded-xl border border-pink-200">
+                  {MARGIN_OPTIONS.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => setMarginSize(option.id)}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        marginSize === option.id ? 'bg-pink-600 text-white shadow-md' : 'text-gray-600 hover:bg-pink-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                <button
+                  onClick={convertImages}
+                  disabled={isLoading}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-pink-600 to-rose-600 text-white hover:from-pink-700 hover:to-rose-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isConverting ? 'Creating PDF...' : 'Processing...'}
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Create PDF
+                    </span>
+                  )}
+                </button>
+
+                {isConverting && (
+                  <CancelOperationButton onCancel={cancelConversion} label="Cancel Conversion" />
+                )}
+
+                <button
+                  onClick={clearAllImages}
+                  className="w-full mt-3 px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium"
+                >
+                  Clear All Images
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Page Grid */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {images.length > 0 ? (
+            <div>
+              <div className="mb-8">
+                <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                  Pages ({images.length})
+                </h3>
+                <p className="text-gray-600">
+                  Preview of each page with the current setup
+                  {images.length > 1 && (
+                    <span className="text-pink-600 ml-2">• Drag to reorder</span>
+                  )}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                {images.map((image, index) => {
+                  const preview = getPagePreviewStyles(image);
+                  return (
+                    <div
+                      key={image.id}
+                      draggable
+                      onDragStart={(e) => handleGridDragStart(e, index)}
+                      onDragOver={(e) => handleGridDragOver(e, index)}
+                      onDragLeave={handleGridDragLeave}
+                      onDrop={(e) => handleGridDrop(e, index)}
+                      onDragEnd={handleGridDragEnd}
+                      className={`group relative bg-white border-2 border-gray-200 hover:border-pink-400 rounded-xl p-3 transition-all duration-200 hover:shadow-lg cursor-move ${
+                        draggedIndex === index ? 'opacity-50 scale-95' : ''
+                      } ${
+                        dragOverIndex === index && draggedIndex !== index ? 'border-pink-500 bg-pink-50 transform scale-105' : ''
+                      }`}
+                    >
+                      {/* Order Badge */}
+                      <div className="absolute -top-2 -left-2 w-8 h-8 bg-pink-600 text-white rounded-full flex items-center justify-center text-sm font-bold shadow-lg z-10">
+                        {index + 1}
+                      </div>
+
+                      {/* Remove Button */}
+                      <button
+                        onClick={() => removeImage(image.id)}
+                        className="absolute -top-2 -right-2 w-8 h-8 bg-red-500 hover:bg-red-600 text-white rounded-full flex items-center justify-center shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10"
+                        title="Remove image"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+
+                      {/* Page Preview */}
+                      <div className="aspect-[3/4] mb-3 rounded-lg bg-gray-100 flex items-center justify-center p-2">
+                        <div
+                          className={`relative bg-white shadow-md border border-gray-200 ${preview.fillsWidth ? 'w-full' : 'h-full'}`}
+                          style={preview.page}
+                        >
+                          <img
+                            src={image.thumbnail}
+                            alt={image.name}
+                            className="absolute object-fill"
+                            style={preview.image}
+                            draggable={false}
+                          />
+                        </div>
+                      </div>
+
+                      {/* Image Info */}
+                      <div className="text-center">
+                        <h4 className="font-semibold text-gray-900 text-sm truncate mb-1" title={image.name}>
+                          {image.name}
+                        </h4>
+                        <div className="text-xs text-gray-500">
+                          {image.width} × {image.height} px • {image.size}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-20 h-20 mx-auto mb-4 bg-gradient-to-br from-pink-100 to-pink-200 rounded-full flex items-center justify-center">
+                  <svg className="w-10 h-10 text-pink-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to convert your images
+                </h4>
+                <p className="text-gray-600 mb-6 text-base">
+                  Upload JPG or PNG images using the upload area to combine them into a single PDF.
+                </p>
+
+                <div className="bg-gradient-to-br from-pink-50 to-rose-50 rounded-2xl p-5 text-left border border-pink-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-sm">
+                    <span className="w-6 h-6 bg-pink-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to convert images to PDF:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-pink-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload JPG or PNG images by clicking "Choose Files" or dragging them into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-pink-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Drag the images in the grid to put the pages in order</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-pink-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Choose the page size, orientation and margins; the previews update as you go</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-pink-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Click "Create PDF" to download the document</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PDFImageConverter;
@@ -0,0 +1,470 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import VirtualPageGrid from './VirtualPageGrid';
+import CancelOperationButton from './CancelOperationButton';
+import {
+  readFileBytes,
+  exportPagesAsImages,
+  describeProgress,
+  parsePageRange,
+  formatPageRange,
+  isCancelledError
+} from '../engine';
+import type { PageImageFormat } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
+
+const IMAGE_FORMATS: { id: PageImageFormat; label: string; description: string }[] = [
+  { id: 'png', label: 'PNG', description: 'Lossless, sharpest text, largest files' },
+  { id: 'jpeg', label: 'JPEG', description: 'Small files, best for scans and photos' },
+  { id: 'webp', label: 'WebP', description: 'Smaller than JPEG at the same quality' }
+];
+
+const DPI_PRESETS = [72, 150, 300, 600];
+const MIN_DPI = 36;
+const MAX_DPI = 1200;
+
+const PDFImageExporter: React.FC = () => {
+  const [pageRange, setPageRange] = useState('');
+  const [selectedPages, setSelectedPages] = useState<number[]>([]);
+  const [imageFormat, setImageFormat] = useState<PageImageFormat>('png');
+  const [dpi, setDpi] = useState(150);
+  // Percent, used for JPEG and WebP
+  const [quality, setQuality] = useState(90);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Cleanup function when component unmounts
+  useEffect(() => {
+    return () => {
+      operationControllerRef.current?.abort();
+    };
+  }, []);
+
+  const upload = usePdfUpload(() => {
+    setSelectedPages([]);
+    setPageRange('');
+  });
+  const { pdfFile, isLoading, setIsLoading } = upload;
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, true);
+
+  const removeFile = () => {
+    operationControllerRef.current?.abort();
+
+    upload.removeFile();
+    setPageRange('');
+    setSelectedPages([]);
+  };
+
+  const updatePageRangeFromSelection = (pages: number[]) => {
+    setPageRange(formatPageRange(pages));
+  };
+
+  const handlePageClick = (pageNumber: number) => {
+    setSelectedPages(prev => {
+      const newSelected = prev.includes(pageNumber)
+        ? prev.filter(p => p !== pageNumber)
+        : [...prev, pageNumber].sort((a, b) => a - b);
+
+      updatePageRangeFromSelection(newSelected);
+      return newSelected;
+    });
+  };
+
+  const handlePageRangeChange = (range: string) => {
+    setPageRange(range);
+    const parsedPages = parsePageRange(range);
+    const validPages = parsedPages.filter(p => p >= 1 && p <= (pdfFile?.pageCount || 0));
+    setSelectedPages(validPages);
+  };
+
+  const handleDpiChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed)) {
+      setDpi(parsed);
+    }
+  };
+
+  const isDpiValid = dpi >= MIN_DPI && dpi <= MAX_DPI;
+  // No selection exports every page
+  const pagesToExport = selectedPages.length > 0
+    ? selectedPages
+    : Array.from({ length: pdfFile?.pageCount || 0 }, (_, index) => index + 1);
+
+  const exportImages = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    if (!isDpiValid) {
+      toast.error(`Please choose a resolution between ${MIN_DPI} and ${MAX_DPI} DPI.`);
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Exporting pages...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const baseName = getBaseName(pdfFile.name);
+      const { archive, downscaledPages } = await exportPagesAsImages(bytes, pagesToExport, baseName, {
+        dpi,
+        format: imageFormat,
+        quality: quality / 100,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      downloadBytes(archive, `${baseName}-images.zip`, 'application/zip');
+
+      toast.success(`Exported ${pagesToExport.length} page${pagesToExport.length !== 1 ? 's' : ''} as ${imageFormat.toUpperCase()}! ZIP downloaded.`, { id: loadingToast });
+      if (downscaledPages.length > 0) {
+        toast(`⚠️ Page${downscaledPages.length !== 1 ? 's' : ''} ${formatPageRange(downscaledPages)} ${downscaledPages.length !== 1 ? 'were' : 'was'} too large for ${dpi} DPI and ${downscaledPages.length !== 1 ? 'were' : 'was'} exported at a lower resolution.`, {
+          duration: 8000
+        });
+      }
+    } catch (exportError: unknown) {
+      if (isCancelledError(exportError)) {
+        toast('Export cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error exporting pages:', exportError);
+      const errorMessage = exportError instanceof Error ? exportError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to export pages. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const renderPageCard = (pageNumber: number) => {
+    const isSelected = selectedPages.includes(pageNumber);
+    const thumbnail = pageThumbnails.thumbnails.get(pageNumber);
+
+    return (
+      <div
+        onClick={() => handlePageClick(pageNumber)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-pointer hover:shadow-xl ${
+          isSelected
+            ? 'ring-4 ring-indigo-400 ring-opacity-75 shadow-xl'
+            : 'hover:shadow-lg'
+        }`}
+      >
+        {/* Selection Checkbox */}
+        <div className="absolute -top-2 -right-2 z-20">
+          <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
+            isSelected
+              ? 'bg-indigo-500 border-indigo-500 text-white'
+              : 'bg-white border-gray-300 hover:border-indigo-400'
+          }`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative overflow-hidden">
+            {thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${pageNumber}`}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+              </div>
+            )}
+
+            {/* Page number overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {pageNumber}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-indigo-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-indigo-50/50 to-violet-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="PDF to Images"
+                subtitle="Save pages as PNG, JPEG or WebP"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="indigo"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="indigo"
+              />
+            )}
+
+            {/* Export Controls */}
+            {pdfFile && (
+              <div className="border-2 border-indigo-200 rounded-2xl p-6 bg-gradient-to-br from-indigo-50 to-violet-50">
+                <h4 className="font-bold text-indigo-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                  Export as Images
+                </h4>
+
+                {/* Page Range Input */}
+                <div className="mb-6">
+                  <label htmlFor="export-page-range" className="block text-sm font-semibold text-gray-700 mb-3">
+                    Pages to Export
+                  </label>
+                  <input
+                    id="export-page-range"
+                    type="text"
+                    value={pageRange}
+                    onChange={(e) => handlePageRangeChange(e.target.value)}
+                    placeholder="All pages (or e.g., 1-3, 5)"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+                  />
+                  <p className="mt-2 text-sm text-indigo-600 font-medium">
+                    {selectedPages.length > 0
+                      ? `${selectedPages.length} page${selectedPages.length !== 1 ? 's' : ''} selected`
+                      : `All ${pdfFile.pageCount || 0} pages`}
+                  </p>
+                </div>
+
+                {/* Format */}
+                <p className="text-sm font-semibold text-gray-700 mb-2">Format</p>
+                <div className="grid grid-cols-3 gap-1 p-1 mb-1 bg-white rounded-xl border border-indigo-200">
+                  {IMAGE_FORMATS.map(format => (
+                    <button
+                      key={format.id}
+                      onClick={() => setImageFormat(format.id)}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        imageFormat === format.id ? 'bg-indigo-600 text-white shadow-md' : 'text-gray-600 hover:bg-indigo-50'
+                      }`}
+                    >
+                      {format.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mb-4">
+                  {IMAGE_FORMATS.find(format => format.id === imageFormat)?.description}
+                </p>
+
+                {/* Resolution */}
+                <label htmlFor="export-dpi" className="block text-sm font-semibold text-gray-700 mb-2">Resolution (DPI)</label>
+                <div className="grid grid-cols-4 gap-2 mb-2">
+                  {DPI_PRESETS.map(preset => (
+                    <button
+                      key={preset}
+                      onClick={() => setDpi(preset)}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold border transition-all duration-200 ${
+                        dpi === preset ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-700 border-indigo-300 hover:bg-indigo-50'
+                      }`}
+                    >
+                      {preset}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  id="export-dpi"
+                  type="number"
+                  min={MIN_DPI}
+                  max={MAX_DPI}
+                  step={1}
+                  value={dpi}
+                  onChange={(e) => handleDpiChange(e.target.value)}
+                  className={`w-full px-4 py-2 border rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 ${
+                    isDpiValid ? 'border-gray-300' : 'border-red-400'
+                  }`}
+                />
+                <p className={`text-xs mt-1 mb-4 ${isDpiValid ? 'text-gray-500' : 'text-red-600'}`}>
+                  {isDpiValid
+                    ? '150 DPI suits slides and screens; 300 DPI suits print'
+                    : `Choose a value between ${MIN_DPI} and ${MAX_DPI}`}
+                </p>
+
+                {/* Quality */}
+                {imageFormat !== 'png' && (
+                  <div className="mb-6">
+                    <label htmlFor="export-quality" className="flex justify-between text-sm font-semibold text-gray-700 mb-2">
+                      <span>Quality</span>
+                      <span className="text-indigo-600">{quality}%</span>
+                    </label>
+                    <input
+                      id="export-quality"
+                      type="range"
+                      min={10}
+                      max={100}
+                      step={5}
+                      value={quality}
+                      onChange={(e) => setQuality(parseInt(e.target.value, 10))}
+                      className="w-full accent-indigo-600"
+                    />
+                  </div>
+                )}
+
+                {/* Export Button */}
+                <button
+                  onClick={exportImages}
+                  disabled={isLoading || !isDpiValid}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading || !isDpiValid
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-indigo-600 to-violet-600 text-white hover:from-indigo-700 hover:to-violet-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isOperationRunning ? 'Exporting...' : 'Processing...'}
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Export {pagesToExport.length} Page{pagesToExport.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel Export" />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Pages Grid - Full Width */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Preview ({pdfFile.pageCount || 0} total pages)
+                  </h3>
+                  <p className="text-gray-600">
+                    Click pages to export only those, or leave everything unselected to export all pages
+                    {pageThumbnails.isRendering && (
+                      <span className="text-indigo-600 ml-2">
+                        • Rendering previews...
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {selectedPages.length > 0 && (
+                  <button
+                    onClick={() => {
+                      setSelectedPages([]);
+                      setPageRange('');
+                    }}
+                    className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Clear Selection
+                  </button>
+                )}
+              </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                pageCount={pdfFile.pageCount}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-indigo-100 to-violet-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to export your pages
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file using the upload area to save its pages as image files for slides, tickets or the web.
+                </p>
+                <div className="bg-gradient-to-br from-indigo-50 to-violet-50 rounded-2xl p-6 text-left border border-indigo-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-indigo-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to export pages as images:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-indigo-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-indigo-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Select pages by clicking them or enter page ranges, or keep all pages</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-indigo-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Pick PNG, JPEG or WebP, the resolution and, for JPEG and WebP, the quality</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-indigo-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Click "Export" to download the images as a ZIP archive</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFImageExporter;
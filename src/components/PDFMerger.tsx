@@ -1,12 +1,31 @@
-import React, { useState, useRef } from 'react';
-import { PDFDocument } from 'pdf-lib';
-import * as pdfjsLib from 'pdfjs-dist';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import toast from 'react-hot-toast';
 import UploadCard from './UploadCard';
-import { isMemoryPressure, triggerGarbageCollection, getMemoryUsage, formatMemorySize } from '../utils/memoryManagement';
-
-// Set up PDF.js worker with local file
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+import DocumentPropertiesButton from './DocumentPropertiesButton';
+import CancelOperationButton from './CancelOperationButton';
+import PasswordProtectionOptions from './PasswordProtectionOptions';
+import PageViewer from './PageViewer';
+import {
+  readFileBytes,
+  getPageCount as getDocumentPageCount,
+  mergePdfs,
+  interleavePdfs,
+  describeProgress,
+  isCancelledError,
+  parsePageRange,
+  formatPageRange,
+  findInvalidPages,
+  findProtectionProblem,
+  loadRenderDocument,
+  renderPageThumbnail,
+  generatePageThumbnail,
+  generateFileIconThumbnail
+} from '../engine';
+import type { OperationProgress, PasswordProtection, RenderDocument } from '../engine';
+import { formatFileSize } from '../utils/fileValidation';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { isMemoryPressure, triggerGarbageCollection } from '../utils/memoryManagement';
+import { usePDFUnlock } from '../hooks/usePDFUnlock';
 
 interface PDFFile {
   file: File;
@@ -15,8 +34,34 @@ interface PDFFile {
   size: string;
   pageCount?: number;
   thumbnail?: string;
+  // Sorted 1-based pages to merge; undefined means every page
+  selectedPages?: number[];
 }
 
+interface PageInfo {
+  pageNumber: number;
+  thumbnail?: string;
+}
+
+// Append joins files one after another; interleave alternates their pages, e.g. for duplex scans
+type MergeStrategy = 'append' | 'interleave';
+
+const MERGE_STRATEGIES: { id: MergeStrategy; label: string }[] = [
+  { id: 'append', label: 'Append' },
+  { id: 'interleave', label: 'Interleave' }
+];
+
+// Pages beyond this are listed by number only in the page picker
+const MAX_PAGE_PREVIEWS = 100;
+
+const getAllPages = (pdf: PDFFile): number[] =>
+  Array.from({ length: pdf.pageCount || 0 }, (_, index) => index + 1);
+
+/**
+ * Pages of a file that will go into the merge
+ */
+const getSelectedPages = (pdf: PDFFile): number[] => pdf.selectedPages ?? getAllPages(pdf);
+
 const PDFMerger: React.FC = () => {
   const [pdfFiles, setPdfFiles] = useState<PDFFile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -24,131 +69,51 @@ const PDFMerger: React.FC = () => {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('grid');
+  const [isMerging, setIsMerging] = useState(false);
+  const [addFileBookmarks, setAddFileBookmarks] = useState(true);
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>('append');
+  const [reverseSecondFile, setReverseSecondFile] = useState(true);
+  const [padWithBlankPages, setPadWithBlankPages] = useState(false);
+  const [protection, setProtection] = useState<PasswordProtection | null>(null);
+  // File expanded into its pages for picking, with the page thumbnails and the typed range
+  const [expandedFileId, setExpandedFileId] = useState<string | null>(null);
+  const [expandedPages, setExpandedPages] = useState<PageInfo[]>([]);
+  const [pageRangeDraft, setPageRangeDraft] = useState('');
+  // Page open in the full-size viewer
+  const [viewedPage, setViewedPage] = useState<{ fileId: string; pageNumber: number } | null>(null);
+  const closeViewer = useCallback(() => setViewedPage(null), []);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
-  const getPageCount = async (file: File): Promise<number> => {
+  const { unlockPdf, passwordPrompt } = usePDFUnlock();
+  // Cancellation control for the running merge
+  const mergeControllerRef = useRef<AbortController | null>(null);
+  // Cancellation control for page thumbnails of the expanded file
+  const pagePreviewControllerRef = useRef<AbortController | null>(null);
+  // Stop any running merge or page rendering when component unmounts
+  useEffect(() => {
+    return () => {
+      mergeControllerRef.current?.abort();
+      pagePreviewControllerRef.current?.abort();
+    };
+  }, []);
+
+  const getPageCount = async (bytes: Uint8Array): Promise<number> => {
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await PDFDocument.load(arrayBuffer);
-      return pdf.getPageCount();
+      return await getDocumentPageCount(bytes);
     } catch {
       return 0;
     }
-  };  const generateThumbnail = async (file: File): Promise<string> => {
-    try {
-      // Check memory pressure before starting heavy operations
-      const memoryUsage = getMemoryUsage();
-      if (memoryUsage.used && memoryUsage.limit && (memoryUsage.used / memoryUsage.limit) > 0.85) {
-        console.warn(`Memory pressure detected (${formatMemorySize(memoryUsage.used)}/${formatMemorySize(memoryUsage.limit)}). Using fallback thumbnail.`);
-        // Force garbage collection and use fallback
-        triggerGarbageCollection();
-        return createFallbackThumbnail(file);
-      }
+  };
 
-      // Load PDF with PDF.js
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ 
-        data: arrayBuffer,
-        verbosity: 0,
-        disableStream: true, // Force complete loading for better memory management
-        disableAutoFetch: true, // Prevent prefetching other pages
-        disableFontFace: true, // Reduce font loading overhead
-        cMapPacked: true, // Use packed CMaps for better performance
-        useSystemFonts: true // Use system fonts when available
-      }).promise;
-      
-      // Get the first page
-      const page = await pdf.getPage(1);
-      
-      // Set up canvas for rendering
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      
-      if (!context) {
-        throw new Error('Could not get canvas context');
-      }
-      
-      // Calculate scale to fit thumbnail size with memory considerations
-      const viewport = page.getViewport({ scale: 1 });
-      const isUnderPressure = isMemoryPressure();
-      const maxWidth = isUnderPressure ? 150 : 200;
-      const maxHeight = isUnderPressure ? 195 : 260;
-      const scale = Math.min(maxWidth / viewport.width, maxHeight / viewport.height);
-      const scaledViewport = page.getViewport({ scale });
-      
-      canvas.width = scaledViewport.width;
-      canvas.height = scaledViewport.height;
-      
-      // Render page to canvas
-      const renderContext = {
-        canvasContext: context,
-        viewport: scaledViewport,
-        renderInteractiveForms: false,
-        intent: 'print' // Use print intent for better performance
-      };
-      
-      await page.render(renderContext).promise;
-      
-      // Clean up PDF document to free memory
-      pdf.destroy();
-      
-      // Use lower quality for thumbnails under memory pressure
-      const quality = isUnderPressure ? 0.6 : 0.8;
-      return canvas.toDataURL('image/jpeg', quality); // Use JPEG for better compression
+  const generateThumbnail = async (bytes: Uint8Array, fileName: string): Promise<string> => {
+    try {
+      return await generatePageThumbnail(bytes, 1, { width: 200, height: 260 });
     } catch (thumbnailError) {
       console.error('Error generating thumbnail:', thumbnailError);
-      return createFallbackThumbnail(file);
+      return generateFileIconThumbnail(fileName);
     }
   };
 
-  const createFallbackThumbnail = (file: File): string => {
-    // Fallback to simple PDF icon
-    const canvas = document.createElement('canvas');
-    canvas.width = 200;
-    canvas.height = 260;
-    const ctx = canvas.getContext('2d');
-    
-    if (ctx) {
-      // Draw PDF icon background
-      ctx.fillStyle = '#f3f4f6';
-      ctx.fillRect(0, 0, 200, 260);
-      
-      // Draw PDF icon
-      ctx.fillStyle = '#ef4444';
-      ctx.fillRect(40, 40, 120, 160);
-      
-      // Draw fold corner
-      ctx.fillStyle = '#dc2626';
-      ctx.beginPath();
-      ctx.moveTo(140, 40);
-      ctx.lineTo(160, 40);
-      ctx.lineTo(160, 60);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Draw text
-      ctx.fillStyle = '#ffffff';
-      ctx.font = 'bold 20px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('PDF', 100, 130);
-      
-      // Draw filename
-      ctx.fillStyle = '#374151';
-      ctx.font = '12px Arial';
-      const fileName = file.name.length > 20 ? file.name.substring(0, 17) + '...' : file.name;
-      ctx.fillText(fileName, 100, 230);
-    }
-    
-    return canvas.toDataURL();
-  };  const processFiles = async (files: FileList | File[]) => {
+  const processFiles = async (files: FileList | File[]) => {
     setIsLoading(true);
     const newPdfFiles: PDFFile[] = [];
     const fileArray = Array.from(files);
@@ -189,13 +154,19 @@ const PDFMerger: React.FC = () => {
             await new Promise(resolve => setTimeout(resolve, 100));
           }
           
-          const pageCount = await getPageCount(file);
-          const thumbnail = await generateThumbnail(file);
+          // Password-protected files carry on as a decrypted copy
+          const unlockedFile = await unlockPdf(file);
+          if (!unlockedFile) continue;
+
+          const bytes = await readFileBytes(unlockedFile);
+          // Render first: counting pages hands the bytes over to the PDF worker
+          const thumbnail = await generateThumbnail(bytes, unlockedFile.name);
+          const pageCount = await getPageCount(bytes);
           const pdfFile: PDFFile = {
-            file,
+            file: unlockedFile,
             id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            name: file.name,
-            size: formatFileSize(file.size),
+            name: unlockedFile.name,
+            size: formatFileSize(unlockedFile.size),
             pageCount,
             thumbnail
           };
@@ -254,15 +225,98 @@ const PDFMerger: React.FC = () => {
     }
   };
   const removeFile = (id: string) => {
+    if (expandedFileId === id) {
+      collapsePagePicker();
+    }
     setPdfFiles(prev => prev.filter(file => file.id !== id));
     toast.success('File removed successfully');
   };
 
   const clearAllFiles = () => {
+    collapsePagePicker();
     setPdfFiles([]);
     toast.success('All files cleared');
   };
 
+  const collapsePagePicker = () => {
+    pagePreviewControllerRef.current?.abort();
+    pagePreviewControllerRef.current = null;
+    setExpandedFileId(null);
+    setExpandedPages([]);
+  };
+
+  const togglePagePicker = async (pdf: PDFFile) => {
+    const wasExpanded = expandedFileId === pdf.id;
+    collapsePagePicker();
+    if (wasExpanded) return;
+
+    const controller = new AbortController();
+    pagePreviewControllerRef.current = controller;
+    const { signal } = controller;
+
+    const pageCount = pdf.pageCount || 0;
+    setExpandedFileId(pdf.id);
+    setPageRangeDraft(formatPageRange(getSelectedPages(pdf)));
+    // Numbered cards first so pages can be picked straight away
+    setExpandedPages(Array.from({ length: pageCount }, (_, index) => ({ pageNumber: index + 1 })));
+
+    let renderDocument: RenderDocument | null = null;
+    try {
+      renderDocument = await loadRenderDocument(await readFileBytes(pdf.file, { signal }));
+      for (let pageNumber = 1; pageNumber <= Math.min(pageCount, MAX_PAGE_PREVIEWS); pageNumber++) {
+        const thumbnail = await renderPageThumbnail(renderDocument, pageNumber, { width: 160, height: 220, signal });
+        setExpandedPages(prev => prev.map(page => (page.pageNumber === pageNumber ? { ...page, thumbnail } : page)));
+      }
+    } catch (previewError: unknown) {
+      if (isCancelledError(previewError)) return;
+      console.error('Error rendering page previews:', previewError);
+      toast.error(`Could not render page previews for "${pdf.name}". Pages can still be picked by number.`);
+    } finally {
+      renderDocument?.destroy();
+      if (pagePreviewControllerRef.current === controller) {
+        pagePreviewControllerRef.current = null;
+      }
+    }
+  };
+
+  const updateSelectedPages = (id: string, pages: number[]) => {
+    const sortedPages = [...new Set(pages)].sort((a, b) => a - b);
+    setPdfFiles(prev => prev.map(file => {
+      if (file.id !== id) return file;
+      // Store "every page" as undefined so the file is merged untouched
+      return { ...file, selectedPages: sortedPages.length === (file.pageCount || 0) ? undefined : sortedPages };
+    }));
+    // Pages can also be picked in the viewer for a file whose picker is closed
+    if (id === expandedFileId) {
+      setPageRangeDraft(formatPageRange(sortedPages));
+    }
+  };
+
+  const togglePageInclusion = (pdf: PDFFile, pageNumber: number) => {
+    const selectedPages = getSelectedPages(pdf);
+    updateSelectedPages(
+      pdf.id,
+      selectedPages.includes(pageNumber) ? selectedPages.filter(page => page !== pageNumber) : [...selectedPages, pageNumber]
+    );
+  };
+
+  const applyPageRangeDraft = (pdf: PDFFile) => {
+    const maxPages = pdf.pageCount || 0;
+    const pages = parsePageRange(pageRangeDraft);
+    if (pages.length === 0) {
+      toast.error('Please enter valid page numbers, e.g. 1-3, 5.');
+      return;
+    }
+
+    const invalidPages = findInvalidPages(pages, maxPages);
+    if (invalidPages.length > 0) {
+      toast.error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${maxPages} pages.`);
+      return;
+    }
+
+    updateSelectedPages(pdf.id, pages);
+  };
+
   const moveFile = (fromIndex: number, toIndex: number) => {
     const newFiles = [...pdfFiles];
     const [movedFile] = newFiles.splice(fromIndex, 1);
@@ -309,41 +363,89 @@ const PDFMerger: React.FC = () => {
       return;
     }
 
+    // Files with every page excluded are left out entirely
+    const filesToMerge = pdfFiles.filter(pdf => getSelectedPages(pdf).length > 0);
+    if (filesToMerge.length === 0) {
+      toast.error('No pages selected. Include at least one page to merge.');
+      return;
+    }
+
+    const protectionProblem = protection && findProtectionProblem(protection);
+    if (protectionProblem) {
+      toast.error(protectionProblem);
+      return;
+    }
+
+    const controller = new AbortController();
+    mergeControllerRef.current = controller;
+    const { signal } = controller;
+
     setIsLoading(true);
+    setIsMerging(true);
     const loadingToast = toast.loading('Merging PDFs...');
 
     try {
-      const mergedPdf = await PDFDocument.create();
-
-      for (const pdfFile of pdfFiles) {
-        const arrayBuffer = await pdfFile.file.arrayBuffer();
-        const pdf = await PDFDocument.load(arrayBuffer);
-        const pages = await mergedPdf.copyPages(pdf, pdf.getPageIndices());
-        pages.forEach((page) => mergedPdf.addPage(page));
+      const inputs: Uint8Array[] = [];
+      for (const pdfFile of filesToMerge) {
+        inputs.push(await readFileBytes(pdfFile.file, { signal }));
       }
 
-      const pdfBytes = await mergedPdf.save();
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
+      const pageSelections = filesToMerge.map(pdfFile => pdfFile.selectedPages ?? null);
+      const onProgress = (progress: OperationProgress) => toast.loading(describeProgress(progress), { id: loadingToast });
+      const date = new Date().toISOString().split('T')[0];
+
+      if (mergeStrategy === 'interleave') {
+        // The second file of the list, even when a file before it has no pages selected
+        const reversedFile = reverseSecondFile ? pdfFiles[1] : undefined;
+        const pdfBytes = await interleavePdfs(inputs, pageSelections, {
+          reverse: filesToMerge.map(pdfFile => pdfFile === reversedFile),
+          padWithBlankPages,
+          protection: protection ?? undefined,
+          signal,
+          onProgress
+        });
+        downloadBytes(pdfBytes, `interleaved-pdf-${date}.pdf`);
+        toast.success('PDFs interleaved successfully! Download started.', { id: loadingToast });
+        return;
+      }
 
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `merged-pdf-${new Date().toISOString().split('T')[0]}.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      const pdfBytes = await mergePdfs(inputs, pageSelections, {
+        bookmarkTitles: addFileBookmarks ? filesToMerge.map(pdfFile => getBaseName(pdfFile.name)) : undefined,
+        protection: protection ?? undefined,
+        signal,
+        onProgress
+      });
+      downloadBytes(pdfBytes, `merged-pdf-${date}.pdf`);
 
-      URL.revokeObjectURL(url);
-      
       toast.success('PDFs merged successfully! Download started.', { id: loadingToast });
       
     } catch (err) {
+      if (isCancelledError(err)) {
+        toast('Merge cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
       console.error('Error merging PDFs:', err);
-      toast.error('Failed to merge PDFs. Please ensure all files are valid PDF documents.', { id: loadingToast });
+      const errorMessage = err instanceof Error ? err.message : 'Please ensure all files are valid PDF documents.';
+      toast.error(`Failed to merge PDFs. ${errorMessage}`, { id: loadingToast });
     } finally {
+      mergeControllerRef.current = null;
+      setIsMerging(false);
       setIsLoading(false);
     }
-  };  return (
+  };
+
+  const cancelMerge = () => {
+    mergeControllerRef.current?.abort();
+  };
+
+  const totalPages = pdfFiles.reduce((total, pdf) => total + (pdf.pageCount || 0), 0);
+  const selectedPageTotal = pdfFiles.reduce((total, pdf) => total + getSelectedPages(pdf).length, 0);
+  // Pages each file contributes, to warn about uneven counts when interleaving
+  const selectedPageCounts = pdfFiles.map(pdf => getSelectedPages(pdf).length).filter(count => count > 0);
+  const hasUnevenPageCounts = new Set(selectedPageCounts).size > 1;
+  const expandedFile = pdfFiles.find(pdf => pdf.id === expandedFileId) ?? null;
+  const viewedFile = viewedPage ? pdfFiles.find(pdf => pdf.id === viewedPage.fileId) ?? null : null;
+  const expandedSelection = expandedFile ? new Set(getSelectedPages(expandedFile)) : new Set<number>();  return (
     <div className="bg-white rounded-3xl shadow-2xl shadow-blue-500/10 border border-gray-200/50 backdrop-blur-sm">
       {/* Main Content - Full Width Horizontal Layout */}
       <div className="flex flex-col xl:flex-row min-h-[600px]">{/* Left Side - Upload Area & Controls */}
@@ -379,7 +481,7 @@ const PDFMerger: React.FC = () => {
                     <strong>{pdfFiles.length}</strong> file{pdfFiles.length !== 1 ? 's' : ''} ready to merge
                   </p>
                   <p className="text-xs text-gray-500">
-                    Total pages: {pdfFiles.reduce((total, pdf) => total + (pdf.pageCount || 0), 0)}
+                    Total pages: {selectedPageTotal === totalPages ? totalPages : `${selectedPageTotal} of ${totalPages} selected`}
                   </p>
                   {pdfFiles.length > 1 && (
                     <p className="text-xs text-blue-600 mt-2">
@@ -388,6 +490,75 @@ const PDFMerger: React.FC = () => {
                   )}
                 </div>
 
+                {/* Merge Strategy Toggle */}
+                <div className="grid grid-cols-2 gap-1 p-1 mb-4 bg-white rounded-xl border border-blue-200">
+                  {MERGE_STRATEGIES.map(strategy => (
+                    <button
+                      key={strategy.id}
+                      onClick={() => setMergeStrategy(strategy.id)}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        mergeStrategy === strategy.id ? 'bg-blue-600 text-white shadow-md' : 'text-gray-600 hover:bg-blue-50'
+                      }`}
+                    >
+                      {strategy.label}
+                    </button>
+                  ))}
+                </div>
+
+                {mergeStrategy === 'append' && (
+                  <label className="flex items-start mb-4 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={addFileBookmarks}
+                      onChange={(e) => setAddFileBookmarks(e.target.checked)}
+                      className="mt-0.5 mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span>
+                      Add a bookmark for each file
+                      <span className="block text-xs text-gray-500">Each file's own bookmarks are kept underneath</span>
+                    </span>
+                  </label>
+                )}
+
+                {mergeStrategy === 'interleave' && (
+                  <div className="mb-4 space-y-3">
+                    <p className="text-xs text-gray-500">
+                      Takes page 1 of every file, then page 2 of every file, and so on. Useful for rebuilding duplex scans from a fronts file and a backs file.
+                    </p>
+                    <label className="flex items-start text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={reverseSecondFile}
+                        onChange={(e) => setReverseSecondFile(e.target.checked)}
+                        className="mt-0.5 mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span>
+                        Reverse the second file
+                        <span className="block text-xs text-gray-500">For backs scanned last page first</span>
+                      </span>
+                    </label>
+                    <div>
+                      <label htmlFor="uneven-pages" className="block text-sm text-gray-700 mb-1">When page counts differ</label>
+                      <select
+                        id="uneven-pages"
+                        value={padWithBlankPages ? 'blank' : 'append'}
+                        onChange={(e) => setPadWithBlankPages(e.target.value === 'blank')}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="append">Add the remaining pages at the end</option>
+                        <option value="blank">Insert blank pages to keep alternating</option>
+                      </select>
+                    </div>
+                    {hasUnevenPageCounts && (
+                      <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+                        Files have different page counts ({selectedPageCounts.join(' / ')}).
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <PasswordProtectionOptions value={protection} onChange={setProtection} theme="blue" disabled={isMerging} />
+
                 <button
                   onClick={mergePDFs}
                   disabled={isLoading || pdfFiles.length < 2}
@@ -410,10 +581,14 @@ const PDFMerger: React.FC = () => {
                       <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                       </svg>
-                      Merge {pdfFiles.length} PDF{pdfFiles.length !== 1 ? 's' : ''}
+                      {mergeStrategy === 'interleave' ? 'Interleave' : 'Merge'} {pdfFiles.length} PDF{pdfFiles.length !== 1 ? 's' : ''}
                     </span>
                   )}
                 </button>
+
+                {isMerging && (
+                  <CancelOperationButton onCancel={cancelMerge} label="Cancel Merge" />
+                )}
                 
                 {pdfFiles.length === 1 && (
                   <p className="text-gray-500 mt-3 text-sm text-center">
@@ -442,7 +617,7 @@ const PDFMerger: React.FC = () => {
                     Uploaded Files ({pdfFiles.length})
                   </h3>
                   <p className="text-gray-600">
-                    {pdfFiles.reduce((total, pdf) => total + (pdf.pageCount || 0), 0)} total pages
+                    {totalPages} total pages
                     {pdfFiles.length > 1 && (
                       <span className="text-blue-600 ml-2">• Drag to reorder</span>
                     )}
@@ -504,6 +679,8 @@ const PDFMerger: React.FC = () => {
                       onDragEnd={handleGridDragEnd}
                       className={`group relative bg-white border-2 border-gray-200 hover:border-blue-400 rounded-xl p-3 transition-all duration-200 hover:shadow-lg cursor-move ${
                         draggedIndex === index ? 'opacity-50 scale-95' : ''
+                      } ${
+                        expandedFileId === pdf.id ? 'ring-2 ring-blue-500' : ''
                       } ${
                         dragOverIndex === index && draggedIndex !== index ? 'border-blue-500 bg-blue-50 transform scale-105' : ''
                       }`}
@@ -525,7 +702,7 @@ const PDFMerger: React.FC = () => {
                       </button>
                       
                       {/* Thumbnail */}
-                      <div className="aspect-[3/4] mb-3 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center">
+                      <div className="relative aspect-[3/4] mb-3 rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center">
                         {pdf.thumbnail ? (
                           <img 
                             src={pdf.thumbnail} 
@@ -539,6 +716,18 @@ const PDFMerger: React.FC = () => {
                             </svg>
                           </div>
                         )}
+                        {(pdf.pageCount || 0) > 0 && (
+                          <button
+                            onClick={() => setViewedPage({ fileId: pdf.id, pageNumber: 1 })}
+                            className="absolute bottom-2 right-2 w-8 h-8 bg-white/90 text-gray-700 rounded-lg shadow-md flex items-center justify-center hover:bg-white sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                            title="View pages full size"
+                            aria-label={`View pages of ${pdf.name} full size`}
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                       
                       {/* File Info */}
@@ -549,9 +738,25 @@ const PDFMerger: React.FC = () => {
                         <div className="text-xs text-gray-500 space-y-1">
                           <div>{pdf.size}</div>
                           <div className="text-blue-600 font-medium">
-                            {pdf.pageCount || 0} page{(pdf.pageCount || 0) !== 1 ? 's' : ''}
+                            {pdf.selectedPages
+                              ? `${pdf.selectedPages.length} of ${pdf.pageCount || 0} pages`
+                              : `${pdf.pageCount || 0} page${(pdf.pageCount || 0) !== 1 ? 's' : ''}`}
                           </div>
                         </div>
+                        <div className="mt-2 flex gap-1">
+                          <button
+                            onClick={() => togglePagePicker(pdf)}
+                            className={`flex-1 px-2 py-1 text-xs font-medium rounded-lg border transition-colors ${
+                              expandedFileId === pdf.id ? 'bg-blue-600 text-white border-blue-600' : 'text-blue-700 border-blue-300 hover:bg-blue-50'
+                            }`}
+                          >
+                            {expandedFileId === pdf.id ? 'Hide Pages' : 'Choose Pages'}
+                          </button>
+                          <DocumentPropertiesButton
+                            file={pdf.file}
+                            className="px-1.5 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                          />
+                        </div>
                       </div>
                       
                       {/* Drag Handle */}
@@ -588,7 +793,9 @@ const PDFMerger: React.FC = () => {
                             <div className="flex items-center space-x-4 mt-1">
                               <span className="text-sm text-gray-500">{pdf.size}</span>
                               <span className="text-sm text-blue-600 font-medium">
-                                {pdf.pageCount || 0} page{(pdf.pageCount || 0) !== 1 ? 's' : ''}
+                                {pdf.selectedPages
+                                  ? `${pdf.selectedPages.length} of ${pdf.pageCount || 0} pages`
+                                  : `${pdf.pageCount || 0} page${(pdf.pageCount || 0) !== 1 ? 's' : ''}`}
                               </span>
                               <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full font-medium">
                                 #{index + 1}
@@ -598,6 +805,29 @@ const PDFMerger: React.FC = () => {
                         </div>
                         
                         <div className="flex items-center space-x-2 ml-4">
+                          <button
+                            onClick={() => togglePagePicker(pdf)}
+                            className={`px-3 py-1 text-sm font-medium rounded-lg border transition-colors ${
+                              expandedFileId === pdf.id ? 'bg-blue-600 text-white border-blue-600' : 'text-blue-700 border-blue-300 hover:bg-blue-50'
+                            }`}
+                          >
+                            {expandedFileId === pdf.id ? 'Hide Pages' : 'Choose Pages'}
+                          </button>
+                          {(pdf.pageCount || 0) > 0 && (
+                            <button
+                              onClick={() => setViewedPage({ fileId: pdf.id, pageNumber: 1 })}
+                              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all duration-200"
+                              title="View pages full size"
+                            >
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+                              </svg>
+                            </button>
+                          )}
+                          <DocumentPropertiesButton
+                            file={pdf.file}
+                            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all duration-200"
+                          />
                           <button
                             onClick={() => removeFile(pdf.id)}
                             className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-lg transition-all duration-200"
@@ -613,6 +843,113 @@ const PDFMerger: React.FC = () => {
                   ))}
                 </div>
               )}
+
+              {/* Page Picker for the expanded file */}
+              {expandedFile && (
+                <div className="mt-8 border-2 border-blue-200 rounded-2xl p-5 bg-white">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <div className="min-w-0">
+                      <h4 className="font-bold text-gray-800 truncate" title={expandedFile.name}>
+                        Pages of {expandedFile.name}
+                      </h4>
+                      <p className="text-sm text-blue-600 font-medium">
+                        {expandedSelection.size} of {expandedFile.pageCount || 0} pages included
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => updateSelectedPages(expandedFile.id, getAllPages(expandedFile))}
+                        className="px-3 py-1 text-sm font-medium text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors"
+                      >
+                        Include All
+                      </button>
+                      <button
+                        onClick={() => updateSelectedPages(expandedFile.id, [])}
+                        className="px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                      >
+                        Exclude All
+                      </button>
+                      <button
+                        onClick={collapsePagePicker}
+                        className="p-1 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                        title="Close"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Per-file Range Input */}
+                  <div className="flex items-center gap-2 mb-4">
+                    <label htmlFor="merge-page-range" className="text-sm font-semibold text-gray-700 flex-shrink-0">
+                      Pages to include
+                    </label>
+                    <input
+                      id="merge-page-range"
+                      type="text"
+                      value={pageRangeDraft}
+                      onChange={(e) => setPageRangeDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') applyPageRangeDraft(expandedFile);
+                      }}
+                      placeholder="e.g., 1-3, 5, 7-10"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      onClick={() => applyPageRangeDraft(expandedFile)}
+                      className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Apply
+                    </button>
+                  </div>
+
+                  <p className="text-xs text-gray-500 mb-3">Click a page to include or exclude it from the merge.</p>
+                  <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-8 gap-3 max-h-[480px] overflow-y-auto p-1">
+                    {expandedPages.map(page => {
+                      const isIncluded = expandedSelection.has(page.pageNumber);
+                      return (
+                        <div key={page.pageNumber} className="group relative">
+                          <button
+                            onClick={() => togglePageInclusion(expandedFile, page.pageNumber)}
+                            className={`relative w-full rounded-lg border-2 p-1 transition-all duration-200 ${
+                              isIncluded ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-gray-50 opacity-50 hover:opacity-75'
+                            }`}
+                            title={`${isIncluded ? 'Exclude' : 'Include'} page ${page.pageNumber}`}
+                          >
+                            <div className="aspect-[3/4] rounded overflow-hidden bg-gray-100 flex items-center justify-center">
+                              {page.thumbnail ? (
+                                <img src={page.thumbnail} alt={`Page ${page.pageNumber}`} className="w-full h-full object-contain" />
+                              ) : (
+                                <span className="text-lg font-bold text-gray-400">{page.pageNumber}</span>
+                              )}
+                            </div>
+                            <span className="block mt-1 text-xs font-medium text-gray-700">{page.pageNumber}</span>
+                            {isIncluded && (
+                              <span className="absolute top-1 right-1 w-5 h-5 bg-blue-600 text-white rounded-full flex items-center justify-center">
+                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" />
+                                </svg>
+                              </span>
+                            )}
+                          </button>
+                          <button
+                            onClick={() => setViewedPage({ fileId: expandedFile.id, pageNumber: page.pageNumber })}
+                            className="absolute top-1 left-1 w-6 h-6 bg-white/90 text-gray-700 rounded shadow flex items-center justify-center hover:bg-white sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                            title={`View page ${page.pageNumber} full size`}
+                            aria-label={`View page ${page.pageNumber} full size`}
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+                            </svg>
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
             </div>          ) : (            <div className="flex items-center justify-center h-[450px] text-center py-8">
               <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
                 <div className="w-20 h-20 mx-auto mb-4 bg-gradient-to-br from-blue-100 to-blue-200 rounded-full flex items-center justify-center">
@@ -658,6 +995,21 @@ const PDFMerger: React.FC = () => {
           )}
         </div>
       </div>
+      {viewedFile && viewedPage && (
+        <PageViewer
+          key={viewedFile.id}
+          file={viewedFile.file}
+          pageCount={viewedFile.pageCount || 0}
+          initialPage={viewedPage.pageNumber}
+          onClose={closeViewer}
+          isSelected={pageNumber => getSelectedPages(viewedFile).includes(pageNumber)}
+          onToggleSelect={pageNumber => togglePageInclusion(viewedFile, pageNumber)}
+          selectLabel="Include in Merge"
+          selectedLabel="Included"
+          theme="blue"
+        />
+      )}
+      {passwordPrompt}
     </div>
   );
 };
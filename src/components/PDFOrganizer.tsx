@@ -0,0 +1,474 @@
+import React, { useState, useRef, useMemo } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import VirtualPageGrid from './VirtualPageGrid';
+import { readFileBytes, reorderPages } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
+
+// One tile in the organizer grid. Duplicated pages share a sourcePage but get their own id.
+interface PageItem {
+  id: string;
+  sourcePage: number;
+}
+
+const PDFOrganizer: React.FC = () => {
+  const [items, setItems] = useState<PageItem[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [draggedIds, setDraggedIds] = useState<string[]>([]);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+
+  const lastClickedIdRef = useRef<string | null>(null);
+  const itemCounterRef = useRef(0);
+
+  const createItem = (sourcePage: number): PageItem => {
+    itemCounterRef.current += 1;
+    return { id: `page-${sourcePage}-${itemCounterRef.current}`, sourcePage };
+  };
+
+  const resetOrder = (pageCount: number) => {
+    const initialItems: PageItem[] = [];
+    for (let i = 1; i <= pageCount; i++) {
+      initialItems.push(createItem(i));
+    }
+    setItems(initialItems);
+    setSelectedIds([]);
+    lastClickedIdRef.current = null;
+  };
+
+  const upload = usePdfUpload(pdf => resetOrder(pdf.pageCount));
+  const { pdfFile, isLoading, setIsLoading } = upload;
+  // Thumbnails are keyed by source page so duplicates reuse the same render
+  const pageOrder = useMemo(() => items.map(item => item.sourcePage), [items]);
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, true, { pageOrder });
+
+  const removeFile = () => {
+    upload.removeFile();
+    setItems([]);
+    setSelectedIds([]);
+  };
+
+  const handleItemClick = (e: React.MouseEvent, id: string) => {
+    // Shift-click selects everything between the last clicked tile and this one
+    if (e.shiftKey && lastClickedIdRef.current) {
+      const from = items.findIndex(item => item.id === lastClickedIdRef.current);
+      const to = items.findIndex(item => item.id === id);
+      if (from !== -1 && to !== -1) {
+        const rangeIds = items.slice(Math.min(from, to), Math.max(from, to) + 1).map(item => item.id);
+        setSelectedIds(prev => [...new Set([...prev, ...rangeIds])]);
+        return;
+      }
+    }
+
+    lastClickedIdRef.current = id;
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  // Moves a block of tiles so it lands where the target tile is, keeping their relative order
+  const moveItems = (ids: string[], targetId: string) => {
+    if (ids.includes(targetId)) return;
+
+    setItems(prev => {
+      const firstIndex = prev.findIndex(item => ids.includes(item.id));
+      const targetIndex = prev.findIndex(item => item.id === targetId);
+      const moving = prev.filter(item => ids.includes(item.id));
+      const rest = prev.filter(item => !ids.includes(item.id));
+
+      let insertAt = rest.findIndex(item => item.id === targetId);
+      // Dropping onto a later tile places the block after it, like PDFMerger's moveFile
+      if (targetIndex > firstIndex) {
+        insertAt += 1;
+      }
+      rest.splice(insertAt, 0, ...moving);
+      return rest;
+    });
+  };
+
+  // Page reordering drag and drop handlers for grid
+  const handleGridDragStart = (e: React.DragEvent<HTMLDivElement>, id: string) => {
+    // Dragging a selected tile carries the whole selection with it
+    setDraggedIds(selectedIds.includes(id) ? selectedIds : [id]);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/html', '');
+  };
+
+  const handleGridDragOver = (e: React.DragEvent<HTMLDivElement>, id: string) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDragOverId(id);
+  };
+
+  const handleGridDragLeave = () => {
+    setDragOverId(null);
+  };
+
+  const handleGridDrop = (e: React.DragEvent<HTMLDivElement>, targetId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (draggedIds.length > 0) {
+      moveItems(draggedIds, targetId);
+    }
+
+    setDraggedIds([]);
+    setDragOverId(null);
+  };
+
+  const handleGridDragEnd = () => {
+    setDraggedIds([]);
+    setDragOverId(null);
+  };
+
+  const duplicateSelected = () => {
+    setItems(prev => {
+      const next: PageItem[] = [];
+      for (const item of prev) {
+        next.push(item);
+        if (selectedIds.includes(item.id)) {
+          next.push(createItem(item.sourcePage));
+        }
+      }
+      return next;
+    });
+    toast.success(`Duplicated ${selectedIds.length} page${selectedIds.length !== 1 ? 's' : ''}`);
+  };
+
+  const deleteSelected = () => {
+    if (selectedIds.length >= items.length) {
+      toast.error('Cannot delete all pages. At least one page must remain.');
+      return;
+    }
+    setItems(prev => prev.filter(item => !selectedIds.includes(item.id)));
+    toast.success(`Deleted ${selectedIds.length} page${selectedIds.length !== 1 ? 's' : ''}`);
+    setSelectedIds([]);
+  };
+
+  const isReordered = items.length !== (pdfFile?.pageCount ?? 0) ||
+    items.some((item, index) => item.sourcePage !== index + 1);
+
+  const saveOrganizedPDF = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    if (items.length === 0) {
+      toast.error('At least one page must remain in the PDF.');
+      return;
+    }
+
+    setIsLoading(true);
+    const loadingToast = toast.loading('Building reorganized PDF...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file);
+      // Duplicated tiles repeat a source page number and become independent pages
+      const pdfBytes = await reorderPages(bytes, items.map(item => item.sourcePage));
+      downloadBytes(pdfBytes, `${getBaseName(pdfFile.name)}-organized.pdf`);
+
+      toast.success(`Saved ${items.length} page${items.length !== 1 ? 's' : ''} in the new order! File downloaded.`, { id: loadingToast });
+    } catch (organizeError: unknown) {
+      console.error('Error organizing PDF:', organizeError);
+      const errorMessage = organizeError instanceof Error ? organizeError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to save PDF. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Grid positions count from 1; the tile at each position can show any source page
+  const renderPageCard = (position: number) => {
+    const item = items[position - 1];
+    const isSelected = selectedIds.includes(item.id);
+    const thumbnail = pageThumbnails.thumbnails.get(item.sourcePage);
+
+    return (
+      <div
+        draggable
+        onDragStart={(e) => handleGridDragStart(e, item.id)}
+        onDragOver={(e) => handleGridDragOver(e, item.id)}
+        onDragLeave={handleGridDragLeave}
+        onDrop={(e) => handleGridDrop(e, item.id)}
+        onDragEnd={handleGridDragEnd}
+        onClick={(e) => handleItemClick(e, item.id)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-move select-none ${
+          isSelected ? 'ring-4 ring-orange-400 ring-opacity-75 shadow-xl' : 'hover:shadow-lg'
+        } ${
+          draggedIds.includes(item.id) ? 'opacity-50 scale-95' : ''
+        } ${
+          dragOverId === item.id && !draggedIds.includes(item.id) ? 'ring-4 ring-orange-500 transform scale-105' : ''
+        }`}
+      >
+        {/* Position Badge */}
+        <div className="absolute -top-2 -left-2 w-8 h-8 bg-orange-600 text-white rounded-full flex items-center justify-center text-sm font-bold shadow-lg z-10">
+          {position}
+        </div>
+
+        {/* Selection Checkbox */}
+        <div className="absolute -top-2 -right-2 z-20">
+          <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
+            isSelected
+              ? 'bg-orange-500 border-orange-500 text-white'
+              : 'bg-white border-gray-300 hover:border-orange-400'
+          }`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative">
+            {thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${item.sourcePage}`}
+                className="w-full h-full object-contain pointer-events-none"
+              />
+            ) : (
+              <div className="w-full h-full flex flex-col items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 text-gray-500">
+                <svg className="w-10 h-10 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                <span className="text-sm font-semibold">Page {item.sourcePage}</span>
+              </div>
+            )}
+
+            {/* Source page overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              p. {item.sourcePage}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-orange-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-orange-50/50 to-amber-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="Organize PDF Pages"
+                subtitle="Reorder, duplicate and delete pages"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="orange"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="orange"
+              />
+            )}
+
+            {/* Organize Controls */}
+            {pdfFile && (
+              <div className="border-2 border-orange-200 rounded-2xl p-6 bg-gradient-to-br from-orange-50 to-amber-50">
+                <h4 className="font-bold text-orange-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+                  </svg>
+                  Organize Pages
+                </h4>
+
+                <div className="mb-6 space-y-3">
+                  <p className="text-sm text-gray-700">
+                    <strong>{items.length}</strong> page{items.length !== 1 ? 's' : ''} in the new document
+                    {selectedIds.length > 0 && (
+                      <span className="text-orange-600 font-medium"> • {selectedIds.length} selected</span>
+                    )}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={duplicateSelected}
+                      disabled={isLoading || selectedIds.length === 0}
+                      className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        isLoading || selectedIds.length === 0
+                          ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                          : 'bg-white text-orange-700 border border-orange-300 hover:bg-orange-100'
+                      }`}
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={deleteSelected}
+                      disabled={isLoading || selectedIds.length === 0}
+                      className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        isLoading || selectedIds.length === 0
+                          ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                          : 'bg-white text-red-600 border border-red-300 hover:bg-red-50'
+                      }`}
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => setSelectedIds(items.map(item => item.id))}
+                      disabled={isLoading}
+                      className="px-3 py-2 rounded-lg text-sm font-medium bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-all duration-200"
+                    >
+                      Select All
+                    </button>
+                    <button
+                      onClick={() => resetOrder(pdfFile.pageCount)}
+                      disabled={isLoading || !isReordered}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                        isLoading || !isReordered
+                          ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                          : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      Reset Order
+                    </button>
+                  </div>
+                  <div className="text-xs text-gray-500 space-y-1">
+                    <p><strong>How to use:</strong></p>
+                    <p>• Drag a page onto another page to move it there</p>
+                    <p>• Click to select, Shift+click to select a run of pages</p>
+                    <p>• Dragging a selected page moves the whole selection</p>
+                  </div>
+                </div>
+
+                {/* Save Button */}
+                <button
+                  onClick={saveOrganizedPDF}
+                  disabled={isLoading || items.length === 0 || !isReordered}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading || items.length === 0 || !isReordered
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-orange-600 to-amber-600 text-white hover:from-orange-700 hover:to-amber-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Saving...
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Save Organized PDF
+                    </span>
+                  )}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Pages Grid - Full Width */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile && items.length > 0 ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Arrange Pages ({items.length} pages)
+                  </h3>
+                  <p className="text-gray-600">
+                    Drag pages to reorder them
+                    {pageThumbnails.isRendering && (
+                      <span className="text-orange-600 ml-2">
+                        • Rendering previews...
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {selectedIds.length > 0 && (
+                  <button
+                    onClick={() => setSelectedIds([])}
+                    className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Clear Selection
+                  </button>
+                )}
+              </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                pageCount={items.length}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-orange-100 to-amber-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-orange-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to organize your PDF
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file using the upload area to rearrange, duplicate or delete its pages.
+                </p>
+                <div className="bg-gradient-to-br from-orange-50 to-amber-50 rounded-2xl p-6 text-left border border-orange-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-orange-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to organize pages:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-orange-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-orange-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Drag pages to their new position, or select several pages and drag them together</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-orange-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Duplicate or delete the selected pages as needed</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-orange-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Click "Save Organized PDF" to download the reordered document</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFOrganizer;
@@ -0,0 +1,584 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import DocumentPropertiesButton from './DocumentPropertiesButton';
+import CancelOperationButton from './CancelOperationButton';
+import StampPositionPicker from './StampPositionPicker';
+import {
+  readFileBytes,
+  addPageNumbers,
+  parsePageRange,
+  formatPageLabel,
+  describeProgress,
+  isCancelledError
+} from '../engine';
+import type { NumeralStyle, PageNumbering, StampFont } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { createZip } from '../utils/zip';
+import { usePdfBatchUpload } from '../hooks/usePdfUpload';
+import type { BatchPdf } from '../hooks/usePdfUpload';
+
+/**
+ * What one file of the batch gets: its pages to number (empty for all) and the first number
+ */
+interface FilePlan {
+  pageNumbers: number[];
+  count: number;
+  startNumber: number;
+}
+
+const TEMPLATE_PRESETS = ['{n}', 'Page {n}', 'Page {n} of {total}', '{n} / {total}', '- {n} -'];
+
+const NUMERAL_STYLES: { id: NumeralStyle; label: string }[] = [
+  { id: 'arabic', label: '1, 2, 3' },
+  { id: 'lower-roman', label: 'i, ii, iii' },
+  { id: 'upper-roman', label: 'I, II, III' }
+];
+
+const FONTS: { id: StampFont; label: string }[] = [
+  { id: 'helvetica', label: 'Helvetica' },
+  { id: 'helvetica-bold', label: 'Helvetica Bold' },
+  { id: 'times-roman', label: 'Times Roman' },
+  { id: 'courier', label: 'Courier' }
+];
+
+const DEFAULT_NUMBERING: PageNumbering = {
+  kind: 'page',
+  template: 'Page {n} of {total}',
+  numeralStyle: 'arabic',
+  batesPrefix: '',
+  batesDigits: 6,
+  startNumber: 1,
+  position: 'bottom',
+  font: 'helvetica',
+  fontSize: 10,
+  color: '#000000'
+};
+
+/**
+ * Works out which pages of each file get numbers and where each file starts counting.
+ * Page numbers restart for every file; Bates numbers carry on from the previous file.
+ */
+const planBatch = (files: BatchPdf[], pageRange: string, numbering: PageNumbering): FilePlan[] => {
+  const rangePages = pageRange.trim() ? parsePageRange(pageRange) : [];
+  let nextBatesNumber = numbering.startNumber;
+
+  return files.map(pdf => {
+    const pageCount = pdf.pageCount || 0;
+    const pageNumbers = rangePages.filter(page => page >= 1 && page <= pageCount);
+    const count = rangePages.length > 0 ? pageNumbers.length : pageCount;
+    const startNumber = numbering.kind === 'bates' ? nextBatesNumber : numbering.startNumber;
+    nextBatesNumber += count;
+    return { pageNumbers, count, startNumber };
+  });
+};
+
+/**
+ * Appends a counter to repeated file names so ZIP entries don't overwrite each other
+ */
+const makeUniqueNames = (names: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const uses = (seen.get(name) || 0) + 1;
+    seen.set(name, uses);
+    return uses === 1 ? name : name.replace(/\.pdf$/i, ` (${uses}).pdf`);
+  });
+};
+
+const PDFPageNumberer: React.FC = () => {
+  const [pdfFiles, setPdfFiles] = useState<BatchPdf[]>([]);
+  const [pageRange, setPageRange] = useState('');
+  const [numbering, setNumbering] = useState<PageNumbering>(DEFAULT_NUMBERING);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Stop any running numbering when component unmounts
+  useEffect(() => {
+    return () => {
+      operationControllerRef.current?.abort();
+    };
+  }, []);
+
+  const upload = usePdfBatchUpload(pdfs => setPdfFiles(prev => [...prev, ...pdfs]));
+  const { isLoading, setIsLoading } = upload;
+
+  const removeFile = (id: string) => {
+    setPdfFiles(prev => prev.filter(pdf => pdf.id !== id));
+  };
+
+  const clearAll = () => {
+    operationControllerRef.current?.abort();
+    setPdfFiles([]);
+    toast.success('All files cleared');
+  };
+
+  const moveFile = (fromIndex: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= pdfFiles.length) return;
+    const newFiles = [...pdfFiles];
+    const [movedFile] = newFiles.splice(fromIndex, 1);
+    newFiles.splice(toIndex, 0, movedFile);
+    setPdfFiles(newFiles);
+  };
+
+  const updateNumbering = <K extends keyof PageNumbering>(field: K, value: PageNumbering[K]) => {
+    setNumbering(prev => ({ ...prev, [field]: value }));
+  };
+
+  const plans = planBatch(pdfFiles, pageRange, numbering);
+  const describePlan = (plan: FilePlan): string => {
+    if (plan.count === 0) {
+      return 'No pages in range';
+    }
+    const lastNumber = plan.startNumber + plan.count - 1;
+    const first = formatPageLabel(numbering, plan.startNumber, lastNumber);
+    return plan.count === 1 ? first : `${first} … ${formatPageLabel(numbering, lastNumber, lastNumber)}`;
+  };
+
+  const numberPages = async () => {
+    if (pdfFiles.length === 0) {
+      toast.error('Please add at least one PDF file.');
+      return;
+    }
+
+    if (numbering.kind === 'page' && !numbering.template.trim()) {
+      toast.error('Enter the page number format.');
+      return;
+    }
+
+    if (pageRange.trim() && plans.every(plan => plan.count === 0)) {
+      toast.error('None of the files have pages in that range.');
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Numbering pages...');
+
+    try {
+      const outputs: Uint8Array[] = [];
+      for (let i = 0; i < pdfFiles.length; i++) {
+        const bytes = await readFileBytes(pdfFiles[i].file, { signal });
+        const plan = plans[i];
+        // Files without pages in the range go into the batch unchanged
+        if (plan.count === 0) {
+          outputs.push(bytes);
+          continue;
+        }
+        const subject = pdfFiles.length > 1 ? `file ${i + 1} of ${pdfFiles.length}` : 'PDF';
+        outputs.push(await addPageNumbers(bytes, plan.pageNumbers, { ...numbering, startNumber: plan.startNumber }, {
+          signal,
+          onProgress: progress => toast.loading(describeProgress(progress, subject), { id: loadingToast })
+        }));
+      }
+
+      const suffix = numbering.kind === 'bates' ? 'bates' : 'numbered';
+      const fileNames = makeUniqueNames(pdfFiles.map(pdf => `${getBaseName(pdf.name)}-${suffix}.pdf`));
+      if (outputs.length === 1) {
+        downloadBytes(outputs[0], fileNames[0]);
+      } else {
+        const archive = createZip(outputs.map((data, index) => ({ name: fileNames[index], data })));
+        downloadBytes(archive, `${suffix}-pdfs.zip`, 'application/zip');
+      }
+
+      const pageTotal = plans.reduce((sum, plan) => sum + plan.count, 0);
+      toast.success(
+        `Numbered ${pageTotal} page${pageTotal !== 1 ? 's' : ''} in ${pdfFiles.length} file${pdfFiles.length !== 1 ? 's' : ''}! Download started.`,
+        { id: loadingToast }
+      );
+    } catch (numberingError: unknown) {
+      if (isCancelledError(numberingError)) {
+        toast('Numbering cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error numbering pages:', numberingError);
+      const errorMessage = numberingError instanceof Error ? numberingError.message : 'Please ensure the files are valid PDF documents.';
+      toast.error(`Failed to number pages. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-lime-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-lime-50/50 to-green-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section */}
+            <UploadCard
+              isLoading={isLoading}
+              isDragOver={upload.isDragOver}
+              onDragOver={upload.handleDragOver}
+              onDragLeave={upload.handleDragLeave}
+              onDrop={upload.handleDrop}
+              onFileChange={upload.handleFileUpload}
+              multiple={true}
+              title="Number PDF Pages"
+              subtitle="Add page numbers or Bates numbers"
+              loadingText="Processing PDFs..."
+              loadingSubtext="Please wait while we analyze your files"
+              supportedFormats="One or more PDF files"
+              theme="lime"
+            />
+
+            {/* Numbering Controls */}
+            {pdfFiles.length > 0 && (
+              <div className="border-2 border-lime-200 rounded-2xl p-6 bg-gradient-to-br from-lime-50 to-green-50">
+                <h4 className="font-bold text-lime-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />
+                  </svg>
+                  Number Pages
+                </h4>
+
+                {/* Page Numbers or Bates */}
+                <div className="mb-6">
+                  <div className="flex bg-white rounded-xl p-1 border border-lime-200">
+                    {(['page', 'bates'] as const).map(kind => (
+                      <button
+                        key={kind}
+                        onClick={() => updateNumbering('kind', kind)}
+                        className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                          numbering.kind === kind ? 'bg-lime-600 text-white shadow' : 'text-gray-600 hover:bg-lime-50'
+                        }`}
+                      >
+                        {kind === 'page' ? 'Page Numbers' : 'Bates Numbers'}
+                      </button>
+                    ))}
+                  </div>
+                  {numbering.kind === 'bates' && pdfFiles.length > 1 && (
+                    <p className="text-xs text-gray-500 mt-2">The counter carries on from one file to the next, in the order listed.</p>
+                  )}
+                </div>
+
+                {numbering.kind === 'page' ? (
+                  <div className="mb-6 space-y-3">
+                    <div>
+                      <label htmlFor="numbering-template" className="block text-sm font-semibold text-gray-700 mb-3">
+                        Format
+                      </label>
+                      <input
+                        id="numbering-template"
+                        type="text"
+                        value={numbering.template}
+                        onChange={(e) => updateNumbering('template', e.target.value)}
+                        placeholder="e.g., Exhibit A - Page {n}"
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-lime-500 focus:border-lime-500 transition-all duration-200"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        {'{n}'} is the page number and {'{total}'} the last number; anything else is printed as typed.
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {TEMPLATE_PRESETS.map(preset => (
+                        <button
+                          key={preset}
+                          onClick={() => updateNumbering('template', preset)}
+                          className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                            numbering.template === preset
+                              ? 'bg-lime-600 text-white border-lime-600'
+                              : 'bg-white text-lime-700 border-lime-300 hover:bg-lime-100'
+                          }`}
+                        >
+                          {preset}
+                        </button>
+                      ))}
+                    </div>
+                    <div>
+                      <label htmlFor="numbering-style" className="block text-sm text-gray-700 mb-1">Numerals</label>
+                      <select
+                        id="numbering-style"
+                        value={numbering.numeralStyle}
+                        onChange={(e) => updateNumbering('numeralStyle', e.target.value as NumeralStyle)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-lime-500 focus:border-lime-500"
+                      >
+                        {NUMERAL_STYLES.map(style => (
+                          <option key={style.id} value={style.id}>{style.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mb-6 grid grid-cols-3 gap-3">
+                    <div className="col-span-2">
+                      <label htmlFor="bates-prefix" className="block text-sm font-semibold text-gray-700 mb-1">Prefix</label>
+                      <input
+                        id="bates-prefix"
+                        type="text"
+                        value={numbering.batesPrefix}
+                        onChange={(e) => updateNumbering('batesPrefix', e.target.value)}
+                        placeholder="e.g., SMITH"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-lime-500 focus:border-lime-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="bates-digits" className="block text-sm font-semibold text-gray-700 mb-1">Digits</label>
+                      <input
+                        id="bates-digits"
+                        type="number"
+                        min={1}
+                        max={12}
+                        value={numbering.batesDigits}
+                        onChange={(e) => updateNumbering('batesDigits', Math.min(12, Math.max(1, Number(e.target.value) || 1)))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-lime-500 focus:border-lime-500"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Start and Pages */}
+                <div className="mb-6 grid grid-cols-3 gap-3">
+                  <div>
+                    <label htmlFor="numbering-start" className="block text-sm font-semibold text-gray-700 mb-1">Start at</label>
+                    <input
+                      id="numbering-start"
+                      type="number"
+                      min={0}
+                      value={numbering.startNumber}
+                      onChange={(e) => updateNumbering('startNumber', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-lime-500 focus:border-lime-500"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label htmlFor="numbering-page-range" className="block text-sm font-semibold text-gray-700 mb-1">Pages to number</label>
+                    <input
+                      id="numbering-page-range"
+                      type="text"
+                      value={pageRange}
+                      onChange={(e) => setPageRange(e.target.value)}
+                      placeholder="All, or e.g., 2-20"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-lime-500 focus:border-lime-500"
+                    />
+                  </div>
+                </div>
+
+                {/* Appearance */}
+                <div className="mb-6 space-y-3">
+                  <div className="flex items-end gap-3">
+                    <div className="flex-1">
+                      <label htmlFor="numbering-font" className="block text-sm text-gray-700 mb-1">Font</label>
+                      <select
+                        id="numbering-font"
+                        value={numbering.font}
+                        onChange={(e) => updateNumbering('font', e.target.value as StampFont)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-lime-500 focus:border-lime-500"
+                      >
+                        {FONTS.map(font => (
+                          <option key={font.id} value={font.id}>{font.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="w-20">
+                      <label htmlFor="numbering-font-size" className="block text-sm text-gray-700 mb-1">Size</label>
+                      <input
+                        id="numbering-font-size"
+                        type="number"
+                        min={6}
+                        max={72}
+                        value={numbering.fontSize}
+                        onChange={(e) => updateNumbering('fontSize', Math.min(72, Math.max(6, Number(e.target.value) || 6)))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-lime-500 focus:border-lime-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="numbering-color" className="block text-sm text-gray-700 mb-1">Color</label>
+                      <input
+                        id="numbering-color"
+                        type="color"
+                        value={numbering.color}
+                        onChange={(e) => updateNumbering('color', e.target.value)}
+                        className="w-12 h-9 p-0.5 border border-gray-300 rounded-lg cursor-pointer bg-white"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <p className="block text-sm text-gray-700 mb-1">Position</p>
+                    <StampPositionPicker
+                      value={numbering.position}
+                      onChange={position => updateNumbering('position', position)}
+                      theme="lime"
+                    />
+                  </div>
+                </div>
+
+                {/* Number Button */}
+                <button
+                  onClick={numberPages}
+                  disabled={isLoading}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-lime-600 to-green-600 text-white hover:from-lime-700 hover:to-green-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isOperationRunning ? 'Numbering...' : 'Loading...'}
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      {pdfFiles.length > 1 ? `Number ${pdfFiles.length} PDFs` : 'Number PDF'}
+                    </span>
+                  )}
+                </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel Numbering" />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Batch Overview */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFiles.length > 0 ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Files ({pdfFiles.length})
+                  </h3>
+                  <p className="text-gray-600">
+                    {numbering.kind === 'bates'
+                      ? 'Bates numbers run through the files in this order; use the arrows to reorder them'
+                      : 'Every file is numbered on its own, starting from the start number'}
+                  </p>
+                </div>
+                <button
+                  onClick={clearAll}
+                  className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                  Clear All
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                {pdfFiles.map((pdf, index) => (
+                  <div key={pdf.id} className="flex items-center gap-4 bg-white border-2 border-gray-200 rounded-xl p-3">
+                    <div className="w-8 h-8 bg-lime-600 text-white rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0">
+                      {index + 1}
+                    </div>
+                    <div className="w-12 h-16 rounded-md overflow-hidden bg-gray-100 flex-shrink-0">
+                      {pdf.thumbnail && <img src={pdf.thumbnail} alt={pdf.name} className="w-full h-full object-cover" />}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-semibold text-gray-900 text-sm truncate" title={pdf.name}>{pdf.name}</h4>
+                      <p className="text-xs text-gray-500">
+                        {pdf.size} • {pdf.pageCount || 0} page{(pdf.pageCount || 0) !== 1 ? 's' : ''}
+                      </p>
+                      <p className={`text-xs font-medium mt-1 truncate ${plans[index].count === 0 ? 'text-gray-400' : 'text-lime-700'}`}>
+                        {describePlan(plans[index])}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => moveFile(index, index - 1)}
+                        disabled={index === 0 || isOperationRunning}
+                        className="w-8 h-8 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed flex items-center justify-center"
+                        title="Move up"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 15l7-7 7 7" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => moveFile(index, index + 1)}
+                        disabled={index === pdfFiles.length - 1 || isOperationRunning}
+                        className="w-8 h-8 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed flex items-center justify-center"
+                        title="Move down"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                        </svg>
+                      </button>
+                      <DocumentPropertiesButton file={pdf.file} />
+                      <button
+                        onClick={() => removeFile(pdf.id)}
+                        disabled={isOperationRunning}
+                        className="w-8 h-8 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:cursor-not-allowed flex items-center justify-center"
+                        title="Remove file"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-lime-100 to-green-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-lime-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to number your PDFs
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload one or more PDF files to add page numbers, or Bates numbers that run through the whole batch.
+                </p>
+                <div className="bg-gradient-to-br from-lime-50 to-green-50 rounded-2xl p-6 text-left border border-lime-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-lime-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to number pages:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-lime-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload one or more PDF files and put them in order</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-lime-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Choose page numbers with a format such as "Page {'{n}'} of {'{total}'}", or Bates numbers with a prefix</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-lime-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Set the start number, the pages to number, the font and the position</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-lime-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Check the numbers listed for each file, then download the numbered PDFs</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFPageNumberer;
@@ -0,0 +1,751 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import CancelOperationButton from './CancelOperationButton';
+import RedactionPageEditor from './RedactionPageEditor';
+import {
+  readFileBytes,
+  loadRenderDocument,
+  renderPageThumbnail,
+  getPageSize,
+  generatePlaceholderThumbnail,
+  findTextMatches,
+  redactPdf,
+  formatRedactionReport,
+  describeProgress,
+  isCancelledError
+} from '../engine';
+import type { RedactionArea, RedactionReport, RenderDocument } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { isMemoryPressure, triggerGarbageCollection } from '../utils/memoryManagement';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+
+interface PageInfo {
+  pageNumber: number;
+  thumbnail?: string;
+  // Displayed size in PDF points, used to place the marked areas
+  width?: number;
+  height?: number;
+}
+
+interface EditedPage {
+  pageNumber: number;
+  image: string;
+  width: number;
+  height: number;
+}
+
+const SEARCH_PRESETS: { label: string; pattern: string }[] = [
+  { label: 'Account numbers', pattern: '\\b\\d{8,17}\\b' },
+  { label: 'Card numbers', pattern: '\\b(?:\\d[ -]?){12,18}\\d\\b' },
+  { label: 'Email addresses', pattern: '[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+' },
+  { label: 'US SSNs', pattern: '\\b\\d{3}-\\d{2}-\\d{4}\\b' }
+];
+
+const DPI_OPTIONS = [150, 200, 300];
+
+const escapePattern = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const PDFRedactor: React.FC = () => {
+  const [pages, setPages] = useState<PageInfo[]>([]);
+  const [thumbnailProgress, setThumbnailProgress] = useState({ current: 0, total: 0 });
+  const [areas, setAreas] = useState<RedactionArea[]>([]);
+  const [searchText, setSearchText] = useState(SEARCH_PRESETS[0].pattern);
+  const [isRegex, setIsRegex] = useState(true);
+  const [matchCase, setMatchCase] = useState(false);
+  // Pattern of the last search, checked again in the redacted output
+  const [searchPattern, setSearchPattern] = useState<RegExp | undefined>(undefined);
+  const [dpi, setDpi] = useState(200);
+  const [removeMetadata, setRemoveMetadata] = useState(true);
+  const [editedPage, setEditedPage] = useState<EditedPage | null>(null);
+  const [report, setReport] = useState<RedactionReport | null>(null);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+
+  // The document stays open for searching and for the full-size page view
+  const renderDocumentRef = useRef<RenderDocument | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isProcessingRef = useRef(false);
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Cleanup function when component unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      operationControllerRef.current?.abort();
+      renderDocumentRef.current?.destroy();
+    };
+  }, []);
+
+  const closeRenderDocument = () => {
+    renderDocumentRef.current?.destroy();
+    renderDocumentRef.current = null;
+  };
+
+  const generatePageInfo = async (pdf: RenderDocument, pageNumber: number, signal?: AbortSignal): Promise<PageInfo> => {
+    try {
+      const thumbnail = await renderPageThumbnail(pdf, pageNumber, { signal });
+      const { width, height } = await getPageSize(pdf, pageNumber);
+      return { pageNumber, thumbnail, width, height };
+    } catch (thumbnailError: unknown) {
+      if (isCancelledError(thumbnailError)) {
+        throw thumbnailError;
+      }
+      console.error(`Error generating page thumbnail for page ${pageNumber}:`, thumbnailError);
+      return { pageNumber, thumbnail: generatePlaceholderThumbnail(pageNumber) };
+    }
+  };
+
+  const generatePages = async (pdf: RenderDocument, fileSize: number) => {
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+    isProcessingRef.current = true;
+
+    try {
+      const isLargeFile = fileSize > 50 * 1024 * 1024;
+      const maxThumbnails = isLargeFile ? 50 : 100;
+      const thumbnailCount = Math.min(pdf.numPages, maxThumbnails);
+
+      const pageList: PageInfo[] = [];
+      for (let i = 1; i <= thumbnailCount; i++) {
+        pageList.push({ pageNumber: i, thumbnail: undefined });
+      }
+      if (pdf.numPages > maxThumbnails) {
+        pageList.push({ pageNumber: -1, thumbnail: 'SUMMARY_CARD' });
+      }
+      setPages([...pageList]);
+      setThumbnailProgress({ current: 0, total: thumbnailCount });
+
+      const batchSize = isMemoryPressure() ? 1 : (isLargeFile ? 2 : 3);
+      for (let i = 0; i < thumbnailCount; i += batchSize) {
+        if (signal.aborted) {
+          return;
+        }
+
+        if (isMemoryPressure()) {
+          console.warn('Memory pressure detected, cleaning up before next batch');
+          triggerGarbageCollection();
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
+
+        const batch = [];
+        for (let j = i; j < Math.min(i + batchSize, thumbnailCount); j++) {
+          batch.push(generatePageInfo(pdf, j + 1, signal));
+        }
+
+        const batchResults = await Promise.all(batch);
+        if (signal.aborted) {
+          return;
+        }
+
+        batchResults.forEach(result => {
+          pageList[result.pageNumber - 1] = result;
+        });
+        setThumbnailProgress({ current: Math.min(i + batchSize, thumbnailCount), total: thumbnailCount });
+        setPages([...pageList]);
+
+        await new Promise(resolve => setTimeout(resolve, isLargeFile ? 100 : 50));
+      }
+    } catch (processError: unknown) {
+      if (!isCancelledError(processError)) {
+        console.error('Error during thumbnail generation:', processError);
+      }
+    } finally {
+      isProcessingRef.current = false;
+    }
+  };
+
+  const upload = usePdfUpload(async pdf => {
+    // Cancel any existing processing before loading the new file
+    if (abortControllerRef.current && isProcessingRef.current) {
+      abortControllerRef.current.abort();
+      isProcessingRef.current = false;
+    }
+
+    const renderDocument = await loadRenderDocument(await readFileBytes(pdf.file));
+    closeRenderDocument();
+    renderDocumentRef.current = renderDocument;
+    setAreas([]);
+    setSearchPattern(undefined);
+    setEditedPage(null);
+    setReport(null);
+    generatePages(renderDocument, pdf.file.size);
+  });
+  const { pdfFile, isLoading, setIsLoading } = upload;
+
+  const removeFile = () => {
+    abortControllerRef.current?.abort();
+    operationControllerRef.current?.abort();
+    closeRenderDocument();
+
+    upload.removeFile();
+    setPages([]);
+    setAreas([]);
+    setSearchPattern(undefined);
+    setEditedPage(null);
+    setReport(null);
+    isProcessingRef.current = false;
+  };
+
+  const openPage = async (pageNumber: number) => {
+    const pdf = renderDocumentRef.current;
+    if (!pdf || pageNumber < 1 || pageNumber > pdf.numPages) return;
+    try {
+      const image = await renderPageThumbnail(pdf, pageNumber, { width: 1000, height: 1300 });
+      const { width, height } = await getPageSize(pdf, pageNumber);
+      setEditedPage({ pageNumber, image, width, height });
+    } catch (renderError) {
+      console.error(`Error rendering page ${pageNumber}:`, renderError);
+      toast.error(`Failed to show page ${pageNumber}.`);
+    }
+  };
+
+  const addArea = (area: RedactionArea) => {
+    setAreas(prev => [...prev, area]);
+    setReport(null);
+  };
+
+  const removeArea = (area: RedactionArea) => {
+    setAreas(prev => prev.filter(existing => existing !== area));
+    setReport(null);
+  };
+
+  const clearAreas = () => {
+    setAreas([]);
+    setSearchPattern(undefined);
+    setReport(null);
+  };
+
+  const buildPattern = (): RegExp | null => {
+    const source = isRegex ? searchText : escapePattern(searchText);
+    try {
+      return new RegExp(source, matchCase ? 'g' : 'gi');
+    } catch {
+      return null;
+    }
+  };
+
+  const findAndMark = async () => {
+    const pdf = renderDocumentRef.current;
+    if (!pdf || !searchText.trim()) {
+      toast.error('Enter the text or pattern to search for.');
+      return;
+    }
+
+    const pattern = buildPattern();
+    if (!pattern) {
+      toast.error('The search pattern is not a valid regular expression.');
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Searching...');
+
+    try {
+      const matches = await findTextMatches(pdf, pattern, {
+        signal: controller.signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      // A new search replaces the marks of the previous one; drawn areas stay
+      setAreas(prev => [...prev.filter(area => area.match === undefined), ...matches]);
+      setSearchPattern(pattern);
+      setReport(null);
+
+      const matchCount = new Set(matches.map(area => `${area.pageNumber}:${area.match}`)).size;
+      const pageCount = new Set(matches.map(area => area.pageNumber)).size;
+      if (matches.length === 0) {
+        toast('No matches found.', { id: loadingToast });
+      } else {
+        toast.success(`Marked ${matchCount} match${matchCount !== 1 ? 'es' : ''} on ${pageCount} page${pageCount !== 1 ? 's' : ''}.`, { id: loadingToast });
+      }
+    } catch (searchError: unknown) {
+      if (isCancelledError(searchError)) {
+        toast('Search cancelled.', { id: loadingToast });
+        return;
+      }
+      console.error('Error searching text:', searchError);
+      toast.error('Failed to search the text. The PDF may have no text layer.', { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const redactedPageCount = new Set(areas.map(area => area.pageNumber)).size;
+
+  const saveRedactedPDF = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    if (areas.length === 0) {
+      toast.error('Mark at least one area to redact.');
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Redacting...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const result = await redactPdf(bytes, areas, {
+        dpi,
+        removeMetadata,
+        pattern: searchPattern,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      setReport(result.report);
+      downloadBytes(result.bytes, `${getBaseName(pdfFile.name)}-redacted.pdf`);
+
+      if (result.report.passed) {
+        toast.success(`Redacted ${redactedPageCount} page${redactedPageCount !== 1 ? 's' : ''} and verified the result. File downloaded.`, { id: loadingToast });
+      } else {
+        toast.error('The redacted file was downloaded, but verification found text that is still present. Check the report.', { id: loadingToast });
+      }
+    } catch (redactError: unknown) {
+      if (isCancelledError(redactError)) {
+        toast('Redaction cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error redacting PDF:', redactError);
+      const errorMessage = redactError instanceof Error ? redactError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to redact PDF. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!report || !pdfFile) return;
+    const text = formatRedactionReport(report, `${getBaseName(pdfFile.name)}-redacted.pdf`);
+    downloadBytes(new TextEncoder().encode(text), `${getBaseName(pdfFile.name)}-redaction-report.txt`, 'text/plain');
+  };
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const toAreaStyle = (area: RedactionArea, page: PageInfo): React.CSSProperties => ({
+    left: `${(area.x / (page.width || 1)) * 100}%`,
+    top: `${(area.y / (page.height || 1)) * 100}%`,
+    width: `${(area.width / (page.width || 1)) * 100}%`,
+    height: `${(area.height / (page.height || 1)) * 100}%`
+  });
+
+  const canSave = !isLoading && areas.length > 0;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-slate-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-slate-50/50 to-gray-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="Redact PDF"
+                subtitle="Permanently remove sensitive text"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="slate"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="slate"
+              />
+            )}
+
+            {/* Redaction Controls */}
+            {pdfFile && (
+              <div className="border-2 border-slate-200 rounded-2xl p-6 bg-gradient-to-br from-slate-50 to-gray-50">
+                <h4 className="font-bold text-slate-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                  </svg>
+                  Redact
+                </h4>
+
+                {/* Search */}
+                <div className="mb-6 space-y-3">
+                  <label htmlFor="redact-search" className="block text-sm font-semibold text-gray-700">
+                    Find Text to Redact
+                  </label>
+                  <input
+                    id="redact-search"
+                    type="text"
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && !isLoading && findAndMark()}
+                    placeholder={isRegex ? 'e.g., \\b\\d{8,17}\\b' : 'e.g., Jane Doe'}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl font-mono text-sm focus:ring-2 focus:ring-slate-500 focus:border-slate-500 transition-all duration-200"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {SEARCH_PRESETS.map(preset => (
+                      <button
+                        key={preset.label}
+                        onClick={() => {
+                          setSearchText(preset.pattern);
+                          setIsRegex(true);
+                        }}
+                        className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                          isRegex && searchText === preset.pattern
+                            ? 'bg-slate-700 text-white border-slate-700'
+                            : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-100'
+                        }`}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input type="checkbox" checked={isRegex} onChange={(e) => setIsRegex(e.target.checked)} className="accent-slate-700" />
+                      Regular expression
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} className="accent-slate-700" />
+                      Match case
+                    </label>
+                  </div>
+                  <button
+                    onClick={findAndMark}
+                    disabled={isLoading}
+                    className="w-full px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-100 transition-colors text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Find & Mark All Matches
+                  </button>
+                  <p className="text-xs text-gray-500">
+                    Searches the text layer. Scanned pages without text can be marked by drawing on them.
+                  </p>
+                </div>
+
+                {/* Marked Areas */}
+                <div className="mb-6 p-4 bg-white rounded-xl border border-slate-200">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-slate-700 font-medium">
+                      {areas.length > 0
+                        ? `${areas.length} area${areas.length !== 1 ? 's' : ''} on ${redactedPageCount} page${redactedPageCount !== 1 ? 's' : ''}`
+                        : 'Nothing marked yet'}
+                    </p>
+                    {areas.length > 0 && (
+                      <button onClick={clearAreas} className="text-xs text-red-600 hover:underline font-medium">
+                        Clear all
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Open a page to draw areas by hand or remove marks.</p>
+                </div>
+
+                {/* Output Options */}
+                <div className="mb-6 space-y-3">
+                  <div>
+                    <label htmlFor="redact-dpi" className="block text-sm text-gray-700 mb-1">Redacted page resolution</label>
+                    <select
+                      id="redact-dpi"
+                      value={dpi}
+                      onChange={(e) => setDpi(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-slate-500 focus:border-slate-500"
+                    >
+                      {DPI_OPTIONS.map(option => (
+                        <option key={option} value={option}>{option} DPI</option>
+                      ))}
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input type="checkbox" checked={removeMetadata} onChange={(e) => setRemoveMetadata(e.target.checked)} className="accent-slate-700" />
+                    Remove document metadata
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Pages with marks are turned into images, so none of their text can be copied or searched afterwards. Other pages are kept as they are.
+                  </p>
+                </div>
+
+                {/* Redact Button */}
+                <button
+                  onClick={saveRedactedPDF}
+                  disabled={!canSave}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    !canSave
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-slate-700 to-gray-900 text-white hover:from-slate-800 hover:to-black transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isOperationRunning ? 'Working...' : 'Loading...'}
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Redact & Verify
+                    </span>
+                  )}
+                </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel" />
+                )}
+
+                {/* Verification Report */}
+                {report && (
+                  <div className={`mt-6 p-4 rounded-xl border-2 ${report.passed ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'}`}>
+                    <h5 className={`font-bold mb-2 ${report.passed ? 'text-green-800' : 'text-red-800'}`}>
+                      {report.passed ? 'Verification passed' : 'Verification failed'}
+                    </h5>
+                    <ul className="text-xs text-gray-700 space-y-1 mb-3">
+                      <li>{report.redactedPages.length} page{report.redactedPages.length !== 1 ? 's' : ''} rasterized: {report.redactedPages.join(', ')}</li>
+                      <li>Text left on redacted pages: {report.textOnRedactedPages} characters</li>
+                      <li>
+                        Redacted text found again: {report.checks.filter(check => check.found).length} of {report.checks.length}
+                      </li>
+                      {report.pattern && (
+                        <li>Search matches left in the file: {report.remainingMatches.length}</li>
+                      )}
+                      {report.remainingMatches.slice(0, 5).map((match, index) => (
+                        <li key={index} className="text-red-700">Page {match.pageNumber}: {match.text}</li>
+                      ))}
+                      <li>Found in bookmarks, annotations, form fields and metadata: {report.leftovers.length}</li>
+                      {report.leftovers.slice(0, 5).map((leftover, index) => (
+                        <li key={index} className="text-red-700">{leftover.location}: {leftover.text}</li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={downloadReport}
+                      className="px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-100 transition-colors text-sm font-semibold"
+                    >
+                      Download Report
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Pages Grid or Page Editor */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile && editedPage ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-6 gap-4 flex-wrap">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Page {editedPage.pageNumber} of {pdfFile.pageCount}
+                  </h3>
+                  <p className="text-gray-600">Drag on the page to mark an area; hover a mark to remove it</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openPage(editedPage.pageNumber - 1)}
+                    disabled={editedPage.pageNumber <= 1}
+                    className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed text-sm font-medium"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() => openPage(editedPage.pageNumber + 1)}
+                    disabled={editedPage.pageNumber >= (pdfFile.pageCount)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed text-sm font-medium"
+                  >
+                    Next
+                  </button>
+                  <button
+                    onClick={() => setEditedPage(null)}
+                    className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-colors text-sm font-medium"
+                  >
+                    All Pages
+                  </button>
+                </div>
+              </div>
+              <div className="flex justify-center">
+                <RedactionPageEditor
+                  image={editedPage.image}
+                  pageNumber={editedPage.pageNumber}
+                  pageWidth={editedPage.width}
+                  pageHeight={editedPage.height}
+                  areas={areas.filter(area => area.pageNumber === editedPage.pageNumber)}
+                  onAddArea={addArea}
+                  onRemoveArea={removeArea}
+                />
+              </div>
+            </div>
+          ) : pdfFile && pages.length > 0 ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Pages ({pdfFile.pageCount} total)
+                  </h3>
+                  <p className="text-gray-600">
+                    Click a page to open it full size and draw redaction areas
+                    {thumbnailProgress.total > 0 && thumbnailProgress.current < thumbnailProgress.total && (
+                      <span className="text-slate-600 ml-2">
+                        • Rendering {Math.round((thumbnailProgress.current / thumbnailProgress.total) * 100)}%
+                      </span>
+                    )}
+                  </p>
+                </div>
+              </div>
+
+              {/* Pages Grid */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-8">
+                {pages.map((page) => {
+                  const pageAreas = areas.filter(area => area.pageNumber === page.pageNumber);
+
+                  return (
+                    <div
+                      key={page.pageNumber === -1 ? 'summary' : page.pageNumber}
+                      onClick={() => page.pageNumber !== -1 && openPage(page.pageNumber)}
+                      className={`group relative rounded-2xl transition-all duration-200 ${
+                        page.pageNumber === -1
+                          ? 'cursor-default'
+                          : `cursor-pointer hover:shadow-xl ${pageAreas.length > 0 ? 'ring-4 ring-slate-500 ring-opacity-75 shadow-xl' : 'hover:shadow-lg'}`
+                      }`}
+                    >
+                      {/* Marked Areas Badge */}
+                      {pageAreas.length > 0 && (
+                        <div className="absolute -top-2 -right-2 z-20 min-w-8 h-8 px-2 rounded-full bg-slate-800 text-white text-xs font-bold flex items-center justify-center shadow-lg">
+                          {pageAreas.length}
+                        </div>
+                      )}
+
+                      {/* Page content */}
+                      <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+                        {page.pageNumber === -1 ? (
+                          // Summary card for remaining pages
+                          <div className="aspect-[3/4] flex flex-col items-center justify-center p-4 bg-gradient-to-br from-gray-50 to-gray-100">
+                            <svg className="w-12 h-12 text-gray-400 mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                            </svg>
+                            <div className="text-center">
+                              <div className="text-lg font-semibold text-gray-700 mb-1">
+                                +{(pdfFile.pageCount) - (pages.length - 1)} more
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                Pages {pages.length}-{pdfFile.pageCount}
+                              </div>
+                              <div className="text-xs text-gray-400 mt-2">
+                                Use Next in the page view to reach them
+                              </div>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="aspect-[3/4] relative overflow-hidden flex items-center justify-center">
+                            {page.thumbnail ? (
+                              <div className="relative max-w-full max-h-full">
+                                <img
+                                  src={page.thumbnail}
+                                  alt={`Page ${page.pageNumber}`}
+                                  className="block max-w-full max-h-full object-contain"
+                                />
+                                {page.width && page.height && pageAreas.map((area, index) => (
+                                  <div key={index} className="absolute bg-black" style={toAreaStyle(area, page)}></div>
+                                ))}
+                              </div>
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+                              </div>
+                            )}
+
+                            {/* Page number overlay */}
+                            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+                              {page.pageNumber}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ) : pdfFile ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-slate-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading pages...</p>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-slate-100 to-gray-200 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-slate-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to redact your PDF
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file to black out account numbers, names or anything else, with the text underneath removed for good.
+                </p>
+                <div className="bg-gradient-to-br from-slate-50 to-gray-100 rounded-2xl p-6 text-left border border-slate-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-slate-600 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to redact:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-slate-600 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-slate-600 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Search for text or a pattern such as account numbers to mark every match</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-slate-600 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Open pages full size to draw extra areas or remove marks you don't need</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-slate-600 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Click "Redact & Verify" to download the redacted PDF and check its verification report</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFRedactor;
@@ -1,12 +1,30 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { PDFDocument } from 'pdf-lib';
-import * as pdfjsLib from 'pdfjs-dist';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import toast from 'react-hot-toast';
 import UploadCard from './UploadCard';
-import { isMemoryPressure, triggerGarbageCollection, getMemoryUsage, formatMemorySize } from '../utils/memoryManagement';
-
-// Set up PDF.js worker with local file
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+import DocumentPropertiesButton from './DocumentPropertiesButton';
+import CancelOperationButton from './CancelOperationButton';
+import PasswordProtectionOptions from './PasswordProtectionOptions';
+import PageSearchBox from './PageSearchBox';
+import PageViewer from './PageViewer';
+import VirtualPageGrid from './VirtualPageGrid';
+import type { VirtualPageGridHandle } from './VirtualPageGrid';
+import {
+  readFileBytes,
+  getPageCount as getDocumentPageCount,
+  removePages,
+  parsePageRange,
+  formatPageRange,
+  findInvalidPages,
+  findProtectionProblem,
+  describeProgress,
+  isCancelledError
+} from '../engine';
+import type { PasswordProtection } from '../engine';
+import { formatFileSize } from '../utils/fileValidation';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePDFUnlock } from '../hooks/usePDFUnlock';
+import { usePageSearch } from '../hooks/usePageSearch';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
 
 interface PDFFile {
   file: File;
@@ -17,423 +35,43 @@ interface PDFFile {
   thumbnail?: string;
 }
 
-interface PageInfo {
-  pageNumber: number;
-  thumbnail?: string;
-}
-
 const PDFRemover: React.FC = () => {
   const [pdfFile, setPdfFile] = useState<PDFFile | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [pageRange, setPageRange] = useState('');
   const [selectedPages, setSelectedPages] = useState<number[]>([]);
-  const [pages, setPages] = useState<PageInfo[]>([]);  // Add preview mode toggle
+  // Add preview mode toggle
   const [useRealPreviews, setUseRealPreviews] = useState(false);
-  // Add thumbnail generation progress tracking
-  const [thumbnailProgress, setThumbnailProgress] = useState({ current: 0, total: 0 });
-  const [showReadyStatus, setShowReadyStatus] = useState(false);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+  const [protection, setProtection] = useState<PasswordProtection | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  // Add cancellation control
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const isProcessingRef = useRef(false);
+  const { unlockPdf, passwordPrompt } = usePDFUnlock();
+  const pageSearch = usePageSearch(pdfFile?.file ?? null);
+  // Page open in the full-size viewer
+  const [viewedPage, setViewedPage] = useState<number | null>(null);
+  const closeViewer = useCallback(() => setViewedPage(null), []);
+  // Thumbnails are rendered only for the pages scrolled into view; simple ones carry a "DELETE" indicator
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, useRealPreviews, { badge: 'DELETE' });
+  const gridRef = useRef<VirtualPageGridHandle>(null);
+  const operationControllerRef = useRef<AbortController | null>(null);
   // Cleanup function when component unmounts
   useEffect(() => {
     return () => {
       // Cancel any ongoing processing when component unmounts
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
+      operationControllerRef.current?.abort();
     };
   }, []);
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
-  const parsePageRange = (range: string): number[] => {
-    const pages: number[] = [];
-    const parts = range.split(',').map(part => part.trim());
-    
-    for (const part of parts) {
-      if (part.includes('-')) {
-        const [start, end] = part.split('-').map(num => parseInt(num.trim()));
-        if (!isNaN(start) && !isNaN(end) && start <= end) {
-          for (let i = start; i <= end; i++) {
-            pages.push(i);
-          }
-        }
-      } else {
-        const pageNum = parseInt(part);
-        if (!isNaN(pageNum)) {
-          pages.push(pageNum);
-        }
-      }
-    }
-    
-    return [...new Set(pages)].sort((a, b) => a - b);
-  };
-
   const getPageCount = async (file: File): Promise<number> => {
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await PDFDocument.load(arrayBuffer);
-      return pdf.getPageCount();
+      return await getDocumentPageCount(await readFileBytes(file));
     } catch {
       return 0;
     }
   };
 
-  // Simple thumbnail generator for performance mode
-  const generateSimpleThumbnail = (pageNumber: number, fileName: string): string => {
-    const canvas = document.createElement('canvas');
-    canvas.width = 240;
-    canvas.height = 340;
-    const ctx = canvas.getContext('2d');
-    
-    if (ctx) {
-      // Draw clean background
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, 240, 340);
-      
-      // Draw border
-      ctx.strokeStyle = '#e5e7eb';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(1, 1, 238, 338);
-      
-      // Draw document icon background
-      ctx.fillStyle = '#f8fafc';
-      ctx.fillRect(20, 30, 200, 260);
-      
-      // Draw document fold
-      ctx.fillStyle = '#e2e8f0';
-      ctx.beginPath();
-      ctx.moveTo(180, 30);
-      ctx.lineTo(220, 70);
-      ctx.lineTo(220, 290);
-      ctx.lineTo(20, 290);
-      ctx.lineTo(20, 30);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Draw fold triangle
-      ctx.fillStyle = '#cbd5e1';
-      ctx.beginPath();
-      ctx.moveTo(180, 30);
-      ctx.lineTo(220, 70);
-      ctx.lineTo(180, 70);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Draw page lines
-      ctx.strokeStyle = '#e2e8f0';
-      ctx.lineWidth = 1;
-      for (let i = 0; i < 8; i++) {
-        const y = 80 + (i * 25);
-        ctx.beginPath();
-        ctx.moveTo(40, y);
-        ctx.lineTo(200, y);
-        ctx.stroke();
-      }
-      
-      // Draw page number with "DELETE" indicator for remover
-      ctx.fillStyle = '#dc2626';
-      ctx.font = 'bold 18px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('DELETE', 120, 320);
-      
-      ctx.fillStyle = '#1f2937';
-      ctx.font = 'bold 24px Arial';
-      ctx.fillText(`${pageNumber}`, 120, 290);
-      
-      // Draw file name (truncated)
-      ctx.fillStyle = '#6b7280';
-      ctx.font = '12px Arial';
-      const truncatedName = fileName.length > 25 ? fileName.substring(0, 22) + '...' : fileName;
-      ctx.fillText(truncatedName, 120, 50);
-    }
-    
-    return canvas.toDataURL('image/jpeg', 0.8);
-  };
-
-  const generatePageThumbnail = async (file: File, pageNumber: number, signal?: AbortSignal): Promise<string> => {
-    try {
-      // Check if operation was cancelled
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
-      }
-
-      // Check memory pressure before starting heavy operations
-      const memoryUsage = getMemoryUsage();
-      if (memoryUsage.used && memoryUsage.limit && (memoryUsage.used / memoryUsage.limit) > 0.85) {
-        console.warn(`Memory pressure detected (${formatMemorySize(memoryUsage.used)}/${formatMemorySize(memoryUsage.limit)}). Delaying thumbnail generation.`);
-        // Force garbage collection and wait a bit
-        triggerGarbageCollection();
-        await new Promise(resolve => setTimeout(resolve, 200));
-        
-        // If still under pressure, use a simplified placeholder
-        if (isMemoryPressure()) {
-          throw new Error('Memory pressure - using placeholder');
-        }
-      }
-
-      console.log(`Generating thumbnail for page ${pageNumber}`);
-      const arrayBuffer = await file.arrayBuffer();
-      
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
-      }
-
-      const loadingTask = pdfjsLib.getDocument({ 
-        data: arrayBuffer,
-        verbosity: 0,
-        disableStream: true, // Force complete loading for better memory management
-        disableAutoFetch: true, // Prevent prefetching other pages
-        disableFontFace: true, // Reduce font loading overhead
-        cMapPacked: true, // Use packed CMaps for better performance
-        useSystemFonts: true // Use system fonts when available
-      });
-      const pdf = await loadingTask.promise;
-      
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
-      }
-
-      const page = await pdf.getPage(pageNumber);
-      
-      const viewport = page.getViewport({ scale: 1.0 });
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      
-      if (!context) {
-        throw new Error('Could not get canvas context');
-      }
-        // Use larger thumbnails for better visual appeal, smaller under memory pressure
-      const isUnderPressure = isMemoryPressure();
-      const targetWidth = isUnderPressure ? 180 : 240;
-      const targetHeight = isUnderPressure ? 250 : 340;
-      const scale = Math.min(targetWidth / viewport.width, targetHeight / viewport.height);
-      const scaledViewport = page.getViewport({ scale });
-      
-      canvas.width = scaledViewport.width;
-      canvas.height = scaledViewport.height;
-      
-      context.fillStyle = '#ffffff';
-      context.fillRect(0, 0, canvas.width, canvas.height);
-        const renderContext = {
-        canvasContext: context,
-        viewport: scaledViewport,
-        // Use lower quality under memory pressure
-        renderInteractiveForms: false,
-        intent: 'print' // Use print intent for better performance
-      };
-      
-      const renderTask = page.render(renderContext);
-      await renderTask.promise;
-      
-      // Final check before returning
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
-      }
-      
-      // Clean up PDF document to free memory
-      pdf.destroy();
-        console.log(`Successfully generated thumbnail for page ${pageNumber}`);
-      // Use lower quality for thumbnails under memory pressure
-      const quality = isUnderPressure ? 0.6 : 0.8;
-      return canvas.toDataURL('image/jpeg', quality); // Use JPEG for better compression
-    } catch (thumbnailError: unknown) {
-      // Don't log errors for cancelled operations
-      if (thumbnailError instanceof Error && thumbnailError.message === 'Operation cancelled') {
-        throw thumbnailError;      }
-      
-      console.error(`Error generating page thumbnail for page ${pageNumber}:`, thumbnailError);
-      
-      return new Promise((resolve) => {        const canvas = document.createElement('canvas');
-        canvas.width = 240;
-        canvas.height = 340;
-        const ctx = canvas.getContext('2d');
-        
-        if (ctx) {          ctx.fillStyle = '#ffffff';
-          ctx.fillRect(0, 0, 240, 340);
-          
-          ctx.strokeStyle = '#e5e7eb';
-          ctx.lineWidth = 2;
-          ctx.strokeRect(1, 1, 238, 338);
-          
-          ctx.fillStyle = '#374151';
-          ctx.font = 'bold 18px Arial';
-          ctx.textAlign = 'center';
-          ctx.fillText(`Page ${pageNumber}`, 120, 160);
-          ctx.font = '14px Arial';
-          ctx.fillText('Preview unavailable', 120, 190);
-        }
-        
-        resolve(canvas.toDataURL());
-      });
-    }
-  };  const generatePages = async (file: File, pageCount: number) => {
-    console.log(`Starting to generate thumbnails for ${pageCount} pages (mode: ${useRealPreviews ? 'real previews' : 'simple thumbnails'})`);
-    
-    // Check if file is too large and show warning (only for real previews)
-    const fileSize = file.size;
-    const fileSizeMB = fileSize / (1024 * 1024);
-    const isLargeFile = fileSizeMB > 50; // 50MB threshold
-    const isVeryLargeFile = fileSizeMB > 100; // 100MB threshold
-    
-    if (useRealPreviews && isVeryLargeFile && pageCount > 50) {
-      const proceed = confirm(
-        `⚠️ Large File Warning\n\n` +
-        `File size: ${formatFileSize(fileSize)}\n` +
-        `Pages: ${pageCount}\n\n` +
-        `Real preview mode may cause performance issues or freeze your browser. ` +
-        `Consider switching to simple thumbnails or using a smaller file.\n\n` +
-        `Continue anyway?`
-      );
-      if (!proceed) {
-        return;
-      }
-    }
-    
-    // Create new abort controller for this operation
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-    isProcessingRef.current = true;
-    
-    try {
-      const pageList: PageInfo[] = [];
-      // Reduce thumbnail count for large files to prevent memory issues (only for real previews)
-      const maxThumbnails = useRealPreviews && isLargeFile ? Math.min(50, pageCount) : Math.min(100, pageCount);
-      const thumbnailCount = Math.min(pageCount, maxThumbnails);
-      
-      for (let i = 1; i <= thumbnailCount; i++) {
-        pageList.push({
-          pageNumber: i,
-          thumbnail: undefined
-        });
-      }
-      
-      if (pageCount > maxThumbnails) {
-        pageList.push({
-          pageNumber: -1,
-          thumbnail: 'SUMMARY_CARD'
-        });
-      }
-        setPages([...pageList]);
-      
-      // Initialize progress tracking
-      setThumbnailProgress({ current: 0, total: thumbnailCount });
-        // For simple thumbnails, generate them immediately without heavy processing
-      if (!useRealPreviews) {
-        console.log('Generating simple thumbnails...');
-        // No need to show progress for instant generation
-        setThumbnailProgress({ current: 0, total: 0 });
-        
-        for (let i = 0; i < thumbnailCount; i++) {
-          const pageNumber = i + 1;
-          const simpleThumbnail = generateSimpleThumbnail(pageNumber, file.name);
-          pageList[i] = {
-            pageNumber,
-            thumbnail: simpleThumbnail
-          };
-        }
-        setPages([...pageList]);
-        console.log(`Generated ${thumbnailCount} simple thumbnails instantly`);
-        return;
-      }
-      
-      // Generate real PDF previews with adaptive batch size based on file size and memory
-      const baseBatchSize = isLargeFile ? 2 : 3;
-      const batchSize = isMemoryPressure() ? 1 : baseBatchSize;
-      
-      for (let i = 0; i < thumbnailCount; i += batchSize) {
-        // Check if operation was cancelled before processing each batch
-        if (signal.aborted) {
-          console.log('Thumbnail generation cancelled');
-          return;
-        }
-        
-        // Check memory pressure and delay if needed
-        if (isMemoryPressure()) {
-          console.warn('Memory pressure detected, cleaning up before next batch');
-          triggerGarbageCollection();
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-        
-        const batch = [];
-        for (let j = i; j < Math.min(i + batchSize, thumbnailCount); j++) {
-          const pageNumber = j + 1;
-          batch.push(
-            generatePageThumbnail(file, pageNumber, signal).then(thumbnail => ({
-              pageNumber,
-              thumbnail
-            })).catch(error => {
-              if (error.message === 'Operation cancelled') {
-                throw error; // Re-throw cancellation errors
-              }
-              console.error(`Failed to generate thumbnail for page ${pageNumber}:`, error);
-              return {
-                pageNumber,
-                thumbnail: undefined
-              };
-            })
-          );
-        }
-        
-        try {
-          const batchResults = await Promise.all(batch);
-          
-          // Check again after batch completion
-          if (signal.aborted) {
-            console.log('Thumbnail generation cancelled after batch completion');
-            return;
-          }
-            batchResults.forEach(result => {
-            if (result && result.thumbnail) {
-              setPages(prevPages => 
-                prevPages.map(page => 
-                  page.pageNumber === result.pageNumber 
-                    ? { ...page, thumbnail: result.thumbnail }
-                    : page
-                )
-              );
-            }
-          });
-          
-          // Update progress tracking
-          const completedCount = Math.min(i + batchSize, thumbnailCount);
-          setThumbnailProgress({ current: completedCount, total: thumbnailCount });
-        } catch (batchError: unknown) {
-          if (batchError instanceof Error && batchError.message === 'Operation cancelled') {
-            console.log('Thumbnail generation cancelled during batch processing');
-            return;
-          }
-          // Continue with next batch if individual thumbnails fail
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, 50));      }
-        console.log('Thumbnail generation completed successfully');
-        
-        // Show ready status for real previews and auto-hide after 3 seconds
-        if (useRealPreviews) {
-          setShowReadyStatus(true);
-          setTimeout(() => {
-            setShowReadyStatus(false);
-          }, 3000);
-        }
-    } catch (processError: unknown) {
-      if (processError instanceof Error && processError.message !== 'Operation cancelled') {
-        console.error('Error during thumbnail generation:', processError);
-      }
-    } finally {
-      isProcessingRef.current = false;
-    }
-  };
   const processFile = async (file: File) => {
     if (!file) return;
 
@@ -442,35 +80,34 @@ const PDFRemover: React.FC = () => {
       return;
     }
 
-    // Cancel any existing processing before starting new upload
-    if (abortControllerRef.current && isProcessingRef.current) {
-      abortControllerRef.current.abort();
-      isProcessingRef.current = false;
+    setIsLoading(true);
+
+    // Password-protected files carry on as a decrypted copy
+    const unlockedFile = await unlockPdf(file);
+    if (!unlockedFile) {
+      setIsLoading(false);
+      return;
     }
 
-    setIsLoading(true);
     const loadingToast = toast.loading('Loading PDF...');
 
     try {
-      const pageCount = await getPageCount(file);
+      const pageCount = await getPageCount(unlockedFile);
       if (pageCount === 0) {
         throw new Error('Invalid PDF file or unable to read pages');
       }
 
       const newFile: PDFFile = {
-        file,
+        file: unlockedFile,
         id: Date.now().toString(),
-        name: file.name,
-        size: formatFileSize(file.size),
+        name: unlockedFile.name,
+        size: formatFileSize(unlockedFile.size),
         pageCount
       };
 
       setPdfFile(newFile);
       setSelectedPages([]);
       setPageRange('');
-      setPages([]);
-
-      await generatePages(file, pageCount);      
       toast.success(`PDF loaded successfully! ${pageCount} pages found.`, { id: loadingToast });
     } catch (loadError: unknown) {
       console.error('Error loading PDF:', loadError);
@@ -515,24 +152,16 @@ const PDFRemover: React.FC = () => {
     setIsDragOver(false);
   };
   const removeFile = () => {
-    // Cancel any ongoing processing
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-    
     setPdfFile(null);
     setSelectedPages([]);
     setPageRange('');
-    setPages([]);
-    isProcessingRef.current = false;
-    
+
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
   const handlePageClick = (pageNumber: number) => {
-    // Normal page selection (summary card is not clickable)
     setSelectedPages(prev => {
       const newSelected = prev.includes(pageNumber)
         ? prev.filter(p => p !== pageNumber)
@@ -542,77 +171,27 @@ const PDFRemover: React.FC = () => {
       updatePageRangeFromSelection(newSelected);
       return newSelected;
     });
-  };  // Handle preview mode toggle
-  const handlePreviewModeToggle = async () => {
-    // Cancel any ongoing thumbnail generation first
-    if (abortControllerRef.current && isProcessingRef.current) {
-      console.log('Canceling ongoing thumbnail generation due to mode toggle');
-      abortControllerRef.current.abort();
-      isProcessingRef.current = false;
-      
-      // Wait a bit for the cancellation to take effect
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    
-    const newMode = !useRealPreviews;
-    setUseRealPreviews(newMode);
   };
 
-  // Effect to regenerate thumbnails when preview mode changes
-  useEffect(() => {
-    // Only regenerate if we have a PDF loaded and this isn't the initial render
-    if (pdfFile && pdfFile.pageCount && pages.length > 0) {
-      const regenerateThumbnails = async () => {
-        const loadingToast = toast.loading(
-          useRealPreviews ? 'Generating real previews...' : 'Switching to simple thumbnails...'
-        );
-        
-        try {
-          await generatePages(pdfFile.file, pdfFile.pageCount!);
-          toast.success(
-            useRealPreviews ? 'Real previews generated!' : 'Switched to simple thumbnails',
-            { id: loadingToast }
-          );
-        } catch (error) {
-          toast.error('Failed to regenerate thumbnails', { id: loadingToast });
-        }
-      };
-      
-      regenerateThumbnails();
-    }
-  }, [useRealPreviews]); // Only depend on useRealPreviews change
+  // Switching modes starts the visible thumbnails again in the new style
+  const handlePreviewModeToggle = () => {
+    setUseRealPreviews(prev => !prev);
+  };
 
   const updatePageRangeFromSelection = (pages: number[]) => {
-    if (pages.length === 0) {
-      setPageRange('');
-      return;
-    }
-
-    const ranges: string[] = [];
-    let start = pages[0];
-    let end = pages[0];
-
-    for (let i = 1; i < pages.length; i++) {
-      if (pages[i] === end + 1) {
-        end = pages[i];
-      } else {
-        if (start === end) {
-          ranges.push(start.toString());
-        } else {
-          ranges.push(`${start}-${end}`);
-        }
-        start = pages[i];
-        end = pages[i];
-      }
-    }
+    setPageRange(formatPageRange(pages));
+  };
 
-    if (start === end) {
-      ranges.push(start.toString());
-    } else {
-      ranges.push(`${start}-${end}`);
-    }
+  // Adds the pages found by the search to the pages being removed
+  const selectMatchingPages = (matchingPages: number[]) => {
+    const newSelected = [...new Set([...selectedPages, ...matchingPages])].sort((a, b) => a - b);
+    setSelectedPages(newSelected);
+    updatePageRangeFromSelection(newSelected);
+    toast.success(`Selected ${matchingPages.length} matching page${matchingPages.length !== 1 ? 's' : ''}.`);
+  };
 
-    setPageRange(ranges.join(', '));
+  const showPage = (pageNumber: number) => {
+    gridRef.current?.scrollToPage(pageNumber);
   };
 
   const handlePageRangeChange = (value: string) => {
@@ -634,7 +213,7 @@ const PDFRemover: React.FC = () => {
       return;
     }
 
-    const invalidPages = pagesToRemoveArray.filter(p => p < 1 || p > maxPages);
+    const invalidPages = findInvalidPages(pagesToRemoveArray, maxPages);
     if (invalidPages.length > 0) {
       toast.error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${maxPages} pages.`);
       return;
@@ -645,59 +224,143 @@ const PDFRemover: React.FC = () => {
       return;
     }
 
+    const protectionProblem = protection && findProtectionProblem(protection);
+    if (protectionProblem) {
+      toast.error(protectionProblem);
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
     setIsLoading(true);
+    setIsOperationRunning(true);
     const loadingToast = toast.loading('Removing pages from PDF...');
 
     try {
-      const arrayBuffer = await pdfFile.file.arrayBuffer();
-      const originalPdf = await PDFDocument.load(arrayBuffer);
-      
-      const newPdf = await PDFDocument.create();
-      const totalPages = originalPdf.getPageCount();
-      
-      const pagesToKeep: number[] = [];
-      for (let i = 1; i <= totalPages; i++) {
-        if (!pagesToRemoveArray.includes(i)) {
-          pagesToKeep.push(i);
-        }
-      }
-
-      if (pagesToKeep.length === 0) {
-        throw new Error('Cannot remove all pages from PDF');
-      }
-
-      const copiedPages = await newPdf.copyPages(originalPdf, pagesToKeep.map(p => p - 1));
-      copiedPages.forEach(page => newPdf.addPage(page));
-
-      const pdfBytes = await newPdf.save();
-      
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      
-      const fileName = pdfFile.name.replace('.pdf', '');
-      link.download = `${fileName}_pages_removed.pdf`;
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const pdfBytes = await removePages(bytes, pagesToRemoveArray, {
+        protection: protection ?? undefined,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      downloadBytes(pdfBytes, `${getBaseName(pdfFile.name)}_pages_removed.pdf`);
 
+      const remainingCount = maxPages - pagesToRemoveArray.length;
       toast.success(
         `Successfully removed ${pagesToRemoveArray.length} page${pagesToRemoveArray.length !== 1 ? 's' : ''} from PDF! ` +
-        `${pagesToKeep.length} page${pagesToKeep.length !== 1 ? 's' : ''} remaining.`, 
+        `${remainingCount} page${remainingCount !== 1 ? 's' : ''} remaining.`, 
         { id: loadingToast }      );
       
     } catch (removeError: unknown) {
+      if (isCancelledError(removeError)) {
+        toast('Page removal cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
       console.error('Error removing pages from PDF:', removeError);
       const errorMessage = removeError instanceof Error ? removeError.message : 'Failed to remove pages from PDF';
       toast.error(errorMessage, { id: loadingToast });
     } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
       setIsLoading(false);
     }
   };
 
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const searchMatches = new Map(pageSearch.matches.map(match => [match.pageNumber, match]));
+
+  const renderPageCard = (pageNumber: number) => {
+    const isSelected = selectedPages.includes(pageNumber);
+    const searchMatch = searchMatches.get(pageNumber);
+    const thumbnail = pageThumbnails.thumbnails.get(pageNumber);
+
+    return (
+      <div
+        onClick={() => handlePageClick(pageNumber)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-pointer hover:shadow-xl ${
+          isSelected
+            ? 'ring-4 ring-red-400 ring-opacity-75 shadow-xl'
+            : searchMatch
+              ? 'ring-4 ring-yellow-300 shadow-lg'
+              : 'hover:shadow-lg'
+        } ${pageSearch.isActive && !searchMatch ? 'opacity-40 hover:opacity-100' : ''}`}
+      >
+        {/* Search Hits Badge */}
+        {searchMatch && (
+          <div className="absolute -top-2 -left-2 z-20 px-2 h-6 rounded-full bg-yellow-300 text-yellow-900 text-xs font-bold flex items-center shadow-md">
+            {searchMatch.count} hit{searchMatch.count !== 1 ? 's' : ''}
+          </div>
+        )}
+
+        {/* Selection Checkbox */}
+        <div className="absolute -top-2 -right-2 z-20">
+          <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
+            isSelected
+              ? 'bg-red-500 border-red-500 text-white'
+              : 'bg-white border-gray-300 hover:border-red-400'
+          }`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative">
+            {thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${pageNumber}`}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+              </div>
+            )}
+
+            {/* Page number overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {pageNumber}
+            </div>
+
+            {/* Remove overlay when selected */}
+            {isSelected && (
+              <div className="absolute inset-0 bg-red-500/20 flex items-center justify-center">
+                <div className="bg-red-500 text-white px-3 py-1 rounded-full text-sm font-medium">
+                  Will Remove
+                </div>
+              </div>
+            )}
+
+            {/* Full-size view */}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setViewedPage(pageNumber);
+              }}
+              className="absolute bottom-2 right-2 z-10 w-8 h-8 bg-white/90 text-gray-700 rounded-lg shadow-md flex items-center justify-center hover:bg-white sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              title={`View page ${pageNumber} full size`}
+              aria-label={`View page ${pageNumber} full size`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white rounded-3xl shadow-2xl shadow-red-500/10 border border-gray-200/50 backdrop-blur-sm">
       {/* Main Content - Full Width Horizontal Layout */}
@@ -759,6 +422,7 @@ const PDFRemover: React.FC = () => {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                       </svg>
                     </button>
+                    <DocumentPropertiesButton file={pdfFile.file} />
                   </div>
                 </div>
                 <input
@@ -772,6 +436,17 @@ const PDFRemover: React.FC = () => {
               </div>
             )}
 
+            {/* Text Search */}
+            {pdfFile && (
+              <PageSearchBox
+                search={pageSearch}
+                theme="red"
+                onSelectMatches={selectMatchingPages}
+                onShowPage={showPage}
+                disabled={isOperationRunning}
+              />
+            )}
+
             {/* Page Selection Controls */}
             {pdfFile && (
               <div className="space-y-4">
@@ -821,6 +496,8 @@ const PDFRemover: React.FC = () => {
                   </div>
                 </div>
 
+                <PasswordProtectionOptions value={protection} onChange={setProtection} theme="red" disabled={isOperationRunning} />
+
                 {/* Remove Button */}
                 <button
                   onClick={() => removePagesFromPDF(pageRange)}
@@ -848,6 +525,10 @@ const PDFRemover: React.FC = () => {
                     </span>
                   )}
                 </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel Removal" />
+                )}
               </div>
             )}
           </div>
@@ -855,7 +536,7 @@ const PDFRemover: React.FC = () => {
 
         {/* Right Side - Pages Grid */}
         <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
-          {pdfFile && pages.length > 0 ? (
+          {pdfFile && (pdfFile.pageCount || 0) > 0 ? (
             <div className="h-full">              <div className="flex items-center justify-between mb-8">
                 <div className="flex items-center gap-6">
                   <div>
@@ -907,21 +588,11 @@ const PDFRemover: React.FC = () => {
                     
                     {/* Progress/Status Indicator */}
                     <div className="flex items-center gap-3">
-                      {useRealPreviews && thumbnailProgress.total > 0 && thumbnailProgress.current < thumbnailProgress.total && (
+                      {useRealPreviews && pageThumbnails.isRendering && (
                         <div className="flex items-center space-x-2">
                           <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
                           <span className="text-xs text-red-600 font-medium">
-                            {Math.round((thumbnailProgress.current / thumbnailProgress.total) * 100)}%
-                          </span>
-                        </div>
-                      )}
-                      
-                      {/* Ready Status */}
-                      {useRealPreviews && showReadyStatus && (
-                        <div className="flex items-center space-x-2">
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <span className="text-xs text-green-600 font-medium">
-                            ✓ Ready
+                            Rendering previews...
                           </span>
                         </div>
                       )}
@@ -939,99 +610,15 @@ const PDFRemover: React.FC = () => {
                     Clear Selection
                   </button>
                 )}
-              </div>              {/* Pages Grid */}
-              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-8">
-                {pages.map((page) => (
-                  <div 
-                    key={page.pageNumber === -1 ? 'summary' : page.pageNumber}
-                    onClick={() => page.pageNumber !== -1 && handlePageClick(page.pageNumber)}
-                    className={`group relative rounded-2xl transition-all duration-200 ${
-                      page.pageNumber === -1 
-                        ? 'cursor-default'
-                        : `cursor-pointer hover:shadow-xl ${
-                            selectedPages.includes(page.pageNumber)
-                            ? 'ring-4 ring-red-400 ring-opacity-75 shadow-xl'
-                            : 'hover:shadow-lg'
-                          }`
-                    }`}
-                  >
-                    {/* Selection Checkbox */}
-                    {page.pageNumber !== -1 && (
-                      <div className="absolute -top-2 -right-2 z-20">
-                        <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
-                          selectedPages.includes(page.pageNumber)
-                            ? 'bg-red-500 border-red-500 text-white'
-                            : 'bg-white border-gray-300 hover:border-red-400'
-                        }`}>
-                          {selectedPages.includes(page.pageNumber) && (
-                            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                            </svg>
-                          )}
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Page content */}
-                    <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
-                      {page.pageNumber === -1 ? (
-                        // Summary card for remaining pages
-                        <div className="aspect-[3/4] flex flex-col items-center justify-center p-4 bg-gradient-to-br from-gray-50 to-gray-100">
-                          <svg className="w-12 h-12 text-gray-400 mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                          <div className="text-center">
-                            <div className="text-lg font-semibold text-gray-700 mb-1">
-                              +{(pdfFile?.pageCount || 0) - 100} more
-                            </div>
-                            <div className="text-xs text-gray-500">
-                              Pages 101-{pdfFile?.pageCount || 0}
-                            </div>
-                            <div className="text-xs text-gray-400 mt-2">
-                              Use page numbers to select
-                            </div>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="aspect-[3/4] relative">
-                          {page.thumbnail ? (
-                            page.thumbnail === 'SUMMARY_CARD' ? null : (
-                              <img 
-                                src={page.thumbnail} 
-                                alt={`Page ${page.pageNumber}`}
-                                className="w-full h-full object-contain"
-                                onError={(e) => {
-                                  console.error(`Error loading thumbnail for page ${page.pageNumber}`);
-                                  const target = e.target as HTMLImageElement;
-                                  target.style.display = 'none';
-                                }}
-                              />
-                            )
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center bg-gray-100">
-                              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
-                            </div>
-                          )}
-
-                          {/* Page number overlay */}
-                          <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
-                            {page.pageNumber}
-                          </div>
-
-                          {/* Remove overlay when selected */}
-                          {selectedPages.includes(page.pageNumber) && (
-                            <div className="absolute inset-0 bg-red-500/20 flex items-center justify-center">
-                              <div className="bg-red-500 text-white px-3 py-1 rounded-full text-sm font-medium">
-                                Will Remove
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                ))}
               </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                ref={gridRef}
+                pageCount={pdfFile.pageCount || 0}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
             </div>
           ) : pdfFile ? (
             <div className="flex items-center justify-center h-64">
@@ -1086,6 +673,20 @@ const PDFRemover: React.FC = () => {
           )}
         </div>
       </div>
+      {pdfFile && viewedPage !== null && (
+        <PageViewer
+          file={pdfFile.file}
+          pageCount={pdfFile.pageCount || 0}
+          initialPage={viewedPage}
+          onClose={closeViewer}
+          isSelected={pageNumber => selectedPages.includes(pageNumber)}
+          onToggleSelect={handlePageClick}
+          selectLabel="Mark for Removal"
+          selectedLabel="Will Remove"
+          theme="red"
+        />
+      )}
+      {passwordPrompt}
     </div>
   );
 };
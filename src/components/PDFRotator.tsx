@@ -0,0 +1,425 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import VirtualPageGrid from './VirtualPageGrid';
+import {
+  readFileBytes,
+  rotatePages as applyRotations,
+  parsePageRange,
+  formatPageRange
+} from '../engine';
+import type { PageRotations } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
+
+const ROTATION_STEPS = [90, 180, 270] as const;
+
+const PDFRotator: React.FC = () => {
+  const [pageRange, setPageRange] = useState('');
+  const [selectedPages, setSelectedPages] = useState<number[]>([]);
+  const [rotations, setRotations] = useState<PageRotations>({});
+
+  const upload = usePdfUpload(() => {
+    setRotations({});
+    setSelectedPages([]);
+    setPageRange('');
+  });
+  const { pdfFile, isLoading, setIsLoading } = upload;
+  // Rotation previews need real renders; only the pages scrolled into view are drawn
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, true);
+
+  const removeFile = () => {
+    upload.removeFile();
+    setPageRange('');
+    setSelectedPages([]);
+    setRotations({});
+  };
+
+  const updatePageRangeFromSelection = (pages: number[]) => {
+    setPageRange(formatPageRange(pages));
+  };
+
+  const handlePageClick = (pageNumber: number) => {
+    setSelectedPages(prev => {
+      const newSelected = prev.includes(pageNumber)
+        ? prev.filter(p => p !== pageNumber)
+        : [...prev, pageNumber].sort((a, b) => a - b);
+
+      updatePageRangeFromSelection(newSelected);
+      return newSelected;
+    });
+  };
+
+  const handlePageRangeChange = (range: string) => {
+    setPageRange(range);
+    const parsedPages = parsePageRange(range);
+    const validPages = parsedPages.filter(p => p >= 1 && p <= (pdfFile?.pageCount || 0));
+    setSelectedPages(validPages);
+  };
+
+  const rotatePages = (pageNumbers: number[], angle: number) => {
+    setRotations(prev => {
+      const next = { ...prev };
+      for (const pageNumber of pageNumbers) {
+        const rotation = ((next[pageNumber] || 0) + angle) % 360;
+        if (rotation === 0) {
+          delete next[pageNumber];
+        } else {
+          next[pageNumber] = rotation;
+        }
+      }
+      return next;
+    });
+  };
+
+  const rotatedPageCount = Object.keys(rotations).length;
+
+  const saveRotatedPDF = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    if (rotatedPageCount === 0) {
+      toast.error('Rotate at least one page before saving.');
+      return;
+    }
+
+    setIsLoading(true);
+    const loadingToast = toast.loading('Applying rotation...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file);
+      const pdfBytes = await applyRotations(bytes, rotations);
+      downloadBytes(pdfBytes, `${getBaseName(pdfFile.name)}-rotated.pdf`);
+
+      toast.success(`Rotated ${rotatedPageCount} page${rotatedPageCount !== 1 ? 's' : ''}! File downloaded.`, { id: loadingToast });
+    } catch (rotateError: unknown) {
+      console.error('Error rotating PDF:', rotateError);
+      const errorMessage = rotateError instanceof Error ? rotateError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to rotate PDF. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderPageCard = (pageNumber: number) => {
+    const rotation = rotations[pageNumber] || 0;
+    const isSelected = selectedPages.includes(pageNumber);
+    const thumbnail = pageThumbnails.thumbnails.get(pageNumber);
+
+    return (
+      <div
+        onClick={() => handlePageClick(pageNumber)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-pointer hover:shadow-xl ${
+          isSelected
+            ? 'ring-4 ring-purple-400 ring-opacity-75 shadow-xl'
+            : 'hover:shadow-lg'
+        }`}
+      >
+        {/* Selection Checkbox */}
+        <div className="absolute -top-2 -right-2 z-20">
+          <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
+            isSelected
+              ? 'bg-purple-500 border-purple-500 text-white'
+              : 'bg-white border-gray-300 hover:border-purple-400'
+          }`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative overflow-hidden">
+            {thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${pageNumber}`}
+                className="w-full h-full object-contain transition-transform duration-300"
+                // Sideways previews are scaled down so they stay inside the portrait card
+                style={{ transform: `rotate(${rotation}deg) scale(${rotation % 180 === 0 ? 1 : 0.75})` }}
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+              </div>
+            )}
+
+            {/* Page number overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {pageNumber}
+            </div>
+
+            {/* Rotation badge */}
+            {rotation !== 0 && (
+              <div className="absolute top-2 left-2 bg-purple-600 text-white px-2 py-1 rounded-full text-xs font-medium">
+                {rotation}°
+              </div>
+            )}
+
+            {/* Per-page rotate buttons */}
+            <div className="absolute bottom-2 right-2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  rotatePages([pageNumber], 270);
+                }}
+                className="w-8 h-8 bg-white/90 text-purple-700 rounded-full shadow flex items-center justify-center hover:bg-purple-100"
+                title="Rotate left"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                </svg>
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  rotatePages([pageNumber], 90);
+                }}
+                className="w-8 h-8 bg-white/90 text-purple-700 rounded-full shadow flex items-center justify-center hover:bg-purple-100"
+                title="Rotate right"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-purple-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-purple-50/50 to-violet-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="Rotate PDF Pages"
+                subtitle="Fix sideways or upside-down pages"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="purple"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="purple"
+              />
+            )}
+
+            {/* Rotate Controls */}
+            {pdfFile && (
+              <div className="border-2 border-purple-200 rounded-2xl p-6 bg-gradient-to-br from-purple-50 to-violet-50">
+                <h4 className="font-bold text-purple-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  Rotate Pages
+                </h4>
+
+                {/* Page Range Input */}
+                <div className="mb-6">
+                  <label htmlFor="rotate-page-range" className="block text-sm font-semibold text-gray-700 mb-3">
+                    Pages to Rotate
+                  </label>
+                  <input
+                    id="rotate-page-range"
+                    type="text"
+                    value={pageRange}
+                    onChange={(e) => handlePageRangeChange(e.target.value)}
+                    placeholder="e.g., 1-3, 5, 7-10"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200"
+                  />
+                  <div className="mt-3 space-y-2">
+                    {selectedPages.length > 0 && (
+                      <p className="text-sm text-purple-600 font-medium">
+                        {selectedPages.length} page{selectedPages.length !== 1 ? 's' : ''} selected
+                      </p>
+                    )}
+                    <div className="grid grid-cols-3 gap-2">
+                      {ROTATION_STEPS.map(angle => (
+                        <button
+                          key={angle}
+                          onClick={() => rotatePages(selectedPages, angle)}
+                          disabled={isLoading || selectedPages.length === 0}
+                          className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                            isLoading || selectedPages.length === 0
+                              ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                              : 'bg-white text-purple-700 border border-purple-300 hover:bg-purple-100'
+                          }`}
+                        >
+                          {angle}°
+                        </button>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-500 space-y-1">
+                      <p><strong>How to use:</strong></p>
+                      <p>• Select pages by clicking them or typing a range</p>
+                      <p>• Apply 90°, 180° or 270° (clockwise) to the selection</p>
+                      <p>• Use the arrows on a page to rotate just that page</p>
+                    </div>
+                  </div>
+                </div>
+
+                {rotatedPageCount > 0 && (
+                  <div className="mb-4 flex items-center justify-between text-sm">
+                    <span className="text-purple-700 font-medium">
+                      {rotatedPageCount} page{rotatedPageCount !== 1 ? 's' : ''} will be rotated
+                    </span>
+                    <button
+                      onClick={() => setRotations({})}
+                      className="text-gray-600 hover:text-gray-800 underline"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                )}
+
+                {/* Save Button */}
+                <button
+                  onClick={saveRotatedPDF}
+                  disabled={isLoading || rotatedPageCount === 0}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading || rotatedPageCount === 0
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-purple-600 to-violet-600 text-white hover:from-purple-700 hover:to-violet-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Rotating...
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Save Rotated PDF
+                    </span>
+                  )}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Pages Grid - Full Width */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Preview ({pdfFile.pageCount} total pages)
+                  </h3>
+                  <p className="text-gray-600">
+                    Click pages to select them, or use the arrows to rotate a single page
+                    {pageThumbnails.isRendering && (
+                      <span className="text-purple-600 ml-2">
+                        • Rendering previews...
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {selectedPages.length > 0 && (
+                  <button
+                    onClick={() => {
+                      setSelectedPages([]);
+                      setPageRange('');
+                    }}
+                    className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Clear Selection
+                  </button>
+                )}
+              </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                pageCount={pdfFile.pageCount}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-purple-100 to-violet-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to rotate your PDF
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file using the upload area to preview its pages and fix their orientation.
+                </p>
+                <div className="bg-gradient-to-br from-purple-50 to-violet-50 rounded-2xl p-6 text-left border border-purple-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-purple-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to rotate pages:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-purple-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-purple-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Select pages by clicking them or enter page ranges (e.g., 1-3, 5, 7-10)</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-purple-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Rotate the selection by 90°, 180° or 270° and check the preview</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-purple-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Click "Save Rotated PDF" to download the corrected document</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFRotator;
@@ -1,17 +1,38 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { PDFDocument } from 'pdf-lib';
-import * as pdfjsLib from 'pdfjs-dist';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import toast from 'react-hot-toast';
 import UploadCard from './UploadCard';
-import { isMemoryPressure, triggerGarbageCollection, getMemoryUsage, formatMemorySize } from '../utils/memoryManagement';
-
-// Set up PDF.js worker with local file
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
-
-// Type for window with garbage collection
-interface WindowWithGC extends Window {
-  gc?: () => void;
-}
+import DocumentPropertiesButton from './DocumentPropertiesButton';
+import CancelOperationButton from './CancelOperationButton';
+import PasswordProtectionOptions from './PasswordProtectionOptions';
+import PageSearchBox from './PageSearchBox';
+import PageViewer from './PageViewer';
+import VirtualPageGrid from './VirtualPageGrid';
+import type { VirtualPageGridHandle } from './VirtualPageGrid';
+import {
+  readFileBytes,
+  getPageCount as getDocumentPageCount,
+  extractPages,
+  splitToZip,
+  splitBySize,
+  parsePageRange,
+  formatPageRange,
+  parsePageGroups,
+  formatPageGroups,
+  chunkPages,
+  readOutline,
+  getOutlineDepth,
+  buildOutlineSections,
+  findInvalidPages,
+  findProtectionProblem,
+  describeProgress,
+  isCancelledError
+} from '../engine';
+import type { OutlineNode, PasswordProtection, SplitPart } from '../engine';
+import { formatFileSize } from '../utils/fileValidation';
+import { downloadBytes, getBaseName, fileNameFromTitle } from '../utils/download';
+import { usePDFUnlock } from '../hooks/usePDFUnlock';
+import { usePageSearch } from '../hooks/usePageSearch';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
 
 interface PDFFile {
   file: File;
@@ -22,426 +43,83 @@ interface PDFFile {
   thumbnail?: string;
 }
 
-interface PageInfo {
-  pageNumber: number;
-  thumbnail?: string;
-}
+// Single mode extracts one combined file; the other modes write one file per group into a ZIP
+type SplitMode = 'single' | 'multiple' | 'bookmarks' | 'size';
+
+const SPLIT_MODES: { id: SplitMode; label: string }[] = [
+  { id: 'single', label: 'One File' },
+  { id: 'multiple', label: 'Multiple' },
+  { id: 'bookmarks', label: 'Bookmarks' },
+  { id: 'size', label: 'By Size' }
+];
+
+// Common attachment limits offered as one-click size presets
+const SIZE_PRESETS_MB = [5, 10, 25];
 
 const PDFSplitter: React.FC = () => {
   const [pdfFile, setPdfFile] = useState<PDFFile | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [pageRange, setPageRange] = useState('');  const [selectedPages, setSelectedPages] = useState<number[]>([]);
-  const [pages, setPages] = useState<PageInfo[]>([]);  // Add preview mode toggle
+  // Add preview mode toggle
   const [useRealPreviews, setUseRealPreviews] = useState(false);
-  // Add thumbnail generation progress tracking
-  const [thumbnailProgress, setThumbnailProgress] = useState({ current: 0, total: 0 });
-  const [showReadyStatus, setShowReadyStatus] = useState(false);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+  const [splitMode, setSplitMode] = useState<SplitMode>('single');
+  const [outputGroups, setOutputGroups] = useState('');
+  const [chunkSize, setChunkSize] = useState(5);
+  // null while the bookmarks are still being read
+  const [outline, setOutline] = useState<OutlineNode[] | null>(null);
+  const [bookmarkDepth, setBookmarkDepth] = useState(1);
+  const [maxPartSizeMB, setMaxPartSizeMB] = useState(10);
+  const [protection, setProtection] = useState<PasswordProtection | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  // Add cancellation control
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const isProcessingRef = useRef(false);
+  const { unlockPdf, passwordPrompt } = usePDFUnlock();
+  const pageSearch = usePageSearch(pdfFile?.file ?? null);
+  // Page open in the full-size viewer
+  const [viewedPage, setViewedPage] = useState<number | null>(null);
+  const closeViewer = useCallback(() => setViewedPage(null), []);
+  // Thumbnails are rendered only for the pages scrolled into view
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, useRealPreviews);
+  const gridRef = useRef<VirtualPageGridHandle>(null);
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Ignores bookmark results for a file that has since been replaced
+  const outlineRequestRef = useRef(0);
   // Cleanup function when component unmounts
   useEffect(() => {
     return () => {
       // Cancel any ongoing processing when component unmounts
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
+      operationControllerRef.current?.abort();
     };
   }, []);
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
-  const parsePageRange = (range: string): number[] => {
-    const pages: number[] = [];
-    const parts = range.split(',').map(part => part.trim());
-    
-    for (const part of parts) {
-      if (part.includes('-')) {
-        const [start, end] = part.split('-').map(num => parseInt(num.trim()));
-        if (!isNaN(start) && !isNaN(end) && start <= end) {
-          for (let i = start; i <= end; i++) {
-            pages.push(i);
-          }
-        }
-      } else {
-        const pageNum = parseInt(part);
-        if (!isNaN(pageNum)) {
-          pages.push(pageNum);
-        }
-      }
-    }
-    
-    return [...new Set(pages)].sort((a, b) => a - b);
-  };
-
   const getPageCount = async (file: File): Promise<number> => {
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await PDFDocument.load(arrayBuffer);
-      return pdf.getPageCount();
+      return await getDocumentPageCount(await readFileBytes(file));
     } catch {
       return 0;
     }
   };
 
-  // Simple thumbnail generator for performance mode
-  const generateSimpleThumbnail = (pageNumber: number, fileName: string): string => {
-    const canvas = document.createElement('canvas');
-    canvas.width = 240;
-    canvas.height = 340;
-    const ctx = canvas.getContext('2d');
-    
-    if (ctx) {
-      // Draw clean background
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, 240, 340);
-      
-      // Draw border
-      ctx.strokeStyle = '#e5e7eb';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(1, 1, 238, 338);
-      
-      // Draw document icon background
-      ctx.fillStyle = '#f8fafc';
-      ctx.fillRect(20, 30, 200, 260);
-      
-      // Draw document fold
-      ctx.fillStyle = '#e2e8f0';
-      ctx.beginPath();
-      ctx.moveTo(180, 30);
-      ctx.lineTo(220, 70);
-      ctx.lineTo(220, 290);
-      ctx.lineTo(20, 290);
-      ctx.lineTo(20, 30);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Draw fold triangle
-      ctx.fillStyle = '#cbd5e1';
-      ctx.beginPath();
-      ctx.moveTo(180, 30);
-      ctx.lineTo(220, 70);
-      ctx.lineTo(180, 70);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Draw page lines
-      ctx.strokeStyle = '#e2e8f0';
-      ctx.lineWidth = 1;
-      for (let i = 0; i < 8; i++) {
-        const y = 80 + (i * 25);
-        ctx.beginPath();
-        ctx.moveTo(40, y);
-        ctx.lineTo(200, y);
-        ctx.stroke();
-      }
-      
-      // Draw page number
-      ctx.fillStyle = '#1f2937';
-      ctx.font = 'bold 24px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText(`${pageNumber}`, 120, 320);
-      
-      // Draw file name (truncated)
-      ctx.fillStyle = '#6b7280';
-      ctx.font = '12px Arial';
-      const truncatedName = fileName.length > 25 ? fileName.substring(0, 22) + '...' : fileName;
-      ctx.fillText(truncatedName, 120, 50);
-    }
-    
-    return canvas.toDataURL('image/jpeg', 0.8);
-  };
+  const loadOutline = async (file: File) => {
+    const requestId = ++outlineRequestRef.current;
+    setOutline(null);
+    setBookmarkDepth(1);
 
-  const generatePageThumbnail = async (file: File, pageNumber: number, signal?: AbortSignal): Promise<string> => {
     try {
-      // Check if operation was cancelled
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
-      }
-
-      // Check memory pressure before starting heavy operations
-      const memoryUsage = getMemoryUsage();
-      if (memoryUsage.used && memoryUsage.limit && (memoryUsage.used / memoryUsage.limit) > 0.85) {
-        console.warn(`Memory pressure detected (${formatMemorySize(memoryUsage.used)}/${formatMemorySize(memoryUsage.limit)}). Delaying thumbnail generation.`);
-        // Force garbage collection and wait a bit
-        triggerGarbageCollection();
-        await new Promise(resolve => setTimeout(resolve, 200));
-        
-        // If still under pressure, use a simplified placeholder
-        if (isMemoryPressure()) {
-          throw new Error('Memory pressure - using placeholder');
-        }
-      }
-
-      console.log(`Generating thumbnail for page ${pageNumber}`);
-      const arrayBuffer = await file.arrayBuffer();
-      
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
-      }
-
-      const loadingTask = pdfjsLib.getDocument({ 
-        data: arrayBuffer,
-        verbosity: 0, // Reduce console noise
-        disableStream: true, // Force complete loading for better memory management
-        disableAutoFetch: true, // Prevent prefetching other pages
-        disableFontFace: true, // Reduce font loading overhead
-        cMapPacked: true, // Use packed CMaps for better performance
-        useSystemFonts: true // Use system fonts when available
-      });
-      const pdf = await loadingTask.promise;
-      
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
-      }
-
-      const page = await pdf.getPage(pageNumber);
-      
-      const viewport = page.getViewport({ scale: 1.0 });
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      
-      if (!context) {
-        throw new Error('Could not get canvas context');
-      }
-        // Use larger thumbnails for better visual appeal, smaller under memory pressure
-      const isUnderPressure = isMemoryPressure();
-      const targetWidth = isUnderPressure ? 180 : 240;
-      const targetHeight = isUnderPressure ? 250 : 340;
-      const scale = Math.min(targetWidth / viewport.width, targetHeight / viewport.height);
-      const scaledViewport = page.getViewport({ scale });
-      
-      canvas.width = scaledViewport.width;
-      canvas.height = scaledViewport.height;
-      
-      // Fill canvas with white background first
-      context.fillStyle = '#ffffff';
-      context.fillRect(0, 0, canvas.width, canvas.height);
-      
-      const renderContext = {
-        canvasContext: context,
-        viewport: scaledViewport,
-        // Use lower quality under memory pressure
-        renderInteractiveForms: false,
-        intent: 'print' // Use print intent for better performance
-      };
-        // Render the actual PDF page content
-      const renderTask = page.render(renderContext);
-      await renderTask.promise;
-      
-      // Final check before returning
-      if (signal?.aborted) {
-        throw new Error('Operation cancelled');
+      const nodes = await readOutline(await readFileBytes(file));
+      if (requestId === outlineRequestRef.current) {
+        setOutline(nodes);
       }
-      
-      // Clean up PDF document to free memory
-      pdf.destroy();
-        console.log(`Successfully generated thumbnail for page ${pageNumber}`);
-      // Use lower quality for thumbnails under memory pressure
-      const quality = isUnderPressure ? 0.6 : 0.8;
-      return canvas.toDataURL('image/jpeg', quality); // Use JPEG for better compression
-    } catch (thumbnailError: unknown) {
-      // Don't log errors for cancelled operations
-      if (thumbnailError instanceof Error && thumbnailError.message === 'Operation cancelled') {
-        throw thumbnailError;
+    } catch (outlineError: unknown) {
+      console.error('Error reading bookmarks:', outlineError);
+      if (requestId === outlineRequestRef.current) {
+        setOutline([]);
       }
-      console.error(`Error generating page thumbnail for page ${pageNumber}:`, thumbnailError);
-      
-      // Only return placeholder if PDF rendering completely fails
-      return new Promise((resolve) => {        const canvas = document.createElement('canvas');
-        canvas.width = 240;
-        canvas.height = 340;
-        const ctx = canvas.getContext('2d');
-        
-        if (ctx) {          // Draw page background
-          ctx.fillStyle = '#ffffff';
-          ctx.fillRect(0, 0, 240, 340);
-          
-          // Draw border
-          ctx.strokeStyle = '#e5e7eb';
-          ctx.lineWidth = 2;
-          ctx.strokeRect(1, 1, 238, 338);
-          
-          // Draw page number
-          ctx.fillStyle = '#374151';
-          ctx.font = 'bold 18px Arial';
-          ctx.textAlign = 'center';
-          ctx.fillText(`Page ${pageNumber}`, 120, 160);
-          ctx.font = '14px Arial';
-          ctx.fillText('Preview unavailable', 120, 190);
-        }
-        
-        resolve(canvas.toDataURL());
-      });
     }
-  };  const generatePages = async (file: File, pageCount: number) => {
-    console.log(`Starting to generate thumbnails for ${pageCount} pages (mode: ${useRealPreviews ? 'real previews' : 'simple thumbnails'})`);
-    
-    // Check if file is too large and show warning (only for real previews)
-    const fileSize = file.size;
-    const fileSizeMB = fileSize / (1024 * 1024);
-    const isLargeFile = fileSizeMB > 50; // 50MB threshold
-    const isVeryLargeFile = fileSizeMB > 100; // 100MB threshold
-    
-    if (useRealPreviews && isVeryLargeFile && pageCount > 50) {
-      const proceed = confirm(
-        `⚠️ Large File Warning\n\n` +
-        `File size: ${formatFileSize(fileSize)}\n` +
-        `Pages: ${pageCount}\n\n` +
-        `Real preview mode may cause performance issues or freeze your browser. ` +
-        `Consider switching to simple thumbnails or using a smaller file.\n\n` +
-        `Continue anyway?`
-      );
-      if (!proceed) {
-        return;
-      }
-    }
-    
-    // Create new abort controller for this operation
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-    isProcessingRef.current = true;
-      try {
-      const pageList: PageInfo[] = [];
-      // Reduce thumbnail count for large files to prevent memory issues (only for real previews)
-      const maxThumbnails = useRealPreviews && isLargeFile ? Math.min(50, pageCount) : Math.min(100, pageCount);
-      const thumbnailCount = Math.min(pageCount, maxThumbnails);
-      console.log(`Generating thumbnails for first ${thumbnailCount} pages${pageCount > maxThumbnails ? ` (pages ${maxThumbnails + 1}-${pageCount} will be shown as one summary card)` : ''}`);
-        // Add pages 1-50/100 (or less if PDF has fewer pages)
-      for (let i = 1; i <= thumbnailCount; i++) {
-        pageList.push({
-          pageNumber: i,
-          thumbnail: undefined
-        });
-      }
-      
-      // If there are more than maxThumbnails pages, add ONE summary card for the rest
-      if (pageCount > maxThumbnails) {
-        pageList.push({
-          pageNumber: -1, // Special marker for summary card
-          thumbnail: 'SUMMARY_CARD' // Special marker
-        });
-      }
-        // Set initial state with pages
-      setPages([...pageList]);
-      
-      // Initialize progress tracking
-      setThumbnailProgress({ current: 0, total: thumbnailCount });
-        // For simple thumbnails, generate them immediately without heavy processing
-      if (!useRealPreviews) {
-        console.log('Generating simple thumbnails...');
-        // No need to show progress for instant generation
-        setThumbnailProgress({ current: 0, total: 0 });
-        
-        for (let i = 0; i < thumbnailCount; i++) {
-          const pageNumber = i + 1;
-          const simpleThumbnail = generateSimpleThumbnail(pageNumber, file.name);
-          pageList[i] = {
-            pageNumber,
-            thumbnail: simpleThumbnail
-          };
-        }
-        setPages([...pageList]);
-        console.log(`Generated ${thumbnailCount} simple thumbnails instantly`);
-        return;
-      }
-      
-      // Generate real PDF previews with adaptive batch size based on file size and memory
-      const baseBatchSize = isLargeFile ? 2 : 3;
-      const batchSize = isMemoryPressure() ? 1 : baseBatchSize;
-      
-      for (let i = 0; i < thumbnailCount; i += batchSize) {
-        // Check if operation was cancelled before processing each batch
-        if (signal.aborted) {
-          console.log('Thumbnail generation cancelled');
-          return;
-        }
-        
-        // Check memory pressure and delay if needed
-        if (isMemoryPressure()) {
-          console.warn('Memory pressure detected, cleaning up before next batch');
-          triggerGarbageCollection();
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-        
-        const batch = [];
-        for (let j = i; j < Math.min(i + batchSize, thumbnailCount); j++) {
-          const pageNumber = j + 1;
-          batch.push(
-            generatePageThumbnail(file, pageNumber, signal).then(thumbnail => ({
-              pageNumber,
-              thumbnail            })).catch((thumbnailError: unknown) => {
-              if (thumbnailError instanceof Error && thumbnailError.message === 'Operation cancelled') {
-                throw thumbnailError; // Re-throw cancellation errors
-              }
-              console.error(`Failed to generate thumbnail for page ${pageNumber}:`, thumbnailError);
-              return {
-                pageNumber,
-                thumbnail: undefined
-              };
-            })
-          );
-        }
-        
-        try {
-          const batchResults = await Promise.all(batch);
-          
-          // Check again after batch completion
-          if (signal.aborted) {
-            console.log('Thumbnail generation cancelled after batch completion');
-            return;
-          }
-            // Update thumbnails in the existing pageList
-          batchResults.forEach(result => {
-            const index = pageList.findIndex(p => p.pageNumber === result.pageNumber);
-            if (index !== -1) {
-              pageList[index] = result;
-            }
-          });
-          
-          // Update progress tracking
-          const completedCount = Math.min(i + batchSize, thumbnailCount);
-          setThumbnailProgress({ current: completedCount, total: thumbnailCount });
-          
-          // Update pages incrementally so user sees progress
-          setPages([...pageList]);
-        } catch (batchError: unknown) {
-          if (batchError instanceof Error && batchError.message === 'Operation cancelled') {
-            console.log('Thumbnail generation cancelled during batch processing');
-            return;
-          }
-          // Continue with next batch if individual thumbnails fail
-        }
-        
-        // Increase delay between batches for large files and under memory pressure
-        const delay = isLargeFile ? (isMemoryPressure() ? 200 : 100) : 50;
-        await new Promise(resolve => setTimeout(resolve, delay));      }
-        console.log(`Completed generating ${thumbnailCount} page thumbnails out of ${pageCount} total pages`);
-        
-        // Show ready status for real previews and auto-hide after 3 seconds
-        if (useRealPreviews) {
-          setShowReadyStatus(true);
-          setTimeout(() => {
-            setShowReadyStatus(false);
-          }, 3000);
-        }
-    } catch (processError: unknown) {
-      if (processError instanceof Error && processError.message !== 'Operation cancelled') {
-        console.error('Error during thumbnail generation:', processError);
-      }
-    } finally {
-      isProcessingRef.current = false;
-    }
-  };  const processFile = async (file: File) => {
+  };
+
+  const processFile = async (file: File) => {
     // Check file size limit (100MB)
     const maxFileSize = 100 * 1024 * 1024; // 100MB in bytes
     if (file.size > maxFileSize) {
@@ -452,21 +130,25 @@ const PDFSplitter: React.FC = () => {
       return;
     }
 
-    // Cancel any existing processing before starting new upload
-    if (abortControllerRef.current && isProcessingRef.current) {
-      abortControllerRef.current.abort();
-      isProcessingRef.current = false;
-    }
-
     setIsLoading(true);
 
+    // Password-protected files carry on as a decrypted copy
+    const unlockedFile = await unlockPdf(file);
+    if (!unlockedFile) {
+      setIsLoading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      return;
+    }
+
     if (file.type === 'application/pdf') {
-      const pageCount = await getPageCount(file);
+      const pageCount = await getPageCount(unlockedFile);
       const newPdfFile: PDFFile = {
-        file,
+        file: unlockedFile,
         id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        name: file.name,
-        size: formatFileSize(file.size),
+        name: unlockedFile.name,
+        size: formatFileSize(unlockedFile.size),
         pageCount
       };
       setPdfFile(newPdfFile);
@@ -474,7 +156,7 @@ const PDFSplitter: React.FC = () => {
       // Automatically load pages for the uploaded file
       if (pageCount > 0) {
         toast.success(`PDF loaded successfully! ${pageCount} pages found.`);
-        await generatePages(file, pageCount);
+        loadOutline(unlockedFile);
       } else {
         toast.error('Could not read PDF pages. Please check if the file is valid.');
       }
@@ -515,19 +197,14 @@ const PDFSplitter: React.FC = () => {
       await processFile(files[0]); // Only process the first file
     }
   };  const removeFile = () => {
-    // Cancel any ongoing processing
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-    
     setPdfFile(null);
     setPageRange('');
+    setOutputGroups('');
+    outlineRequestRef.current++;
+    setOutline(null);
     setSelectedPages([]);
-    setPages([]);
-    isProcessingRef.current = false;
     toast.success('File removed successfully');
   };const handlePageClick = (pageNumber: number) => {
-    // Normal page selection (summary card is not clickable)
     setSelectedPages(prev => {
       const newSelected = prev.includes(pageNumber)
         ? prev.filter(p => p !== pageNumber)
@@ -537,83 +214,39 @@ const PDFSplitter: React.FC = () => {
       updatePageRangeFromSelection(newSelected);
       return newSelected;
     });
-  };  // Handle preview mode toggle
-  const handlePreviewModeToggle = async () => {
-    // Cancel any ongoing thumbnail generation first
-    if (abortControllerRef.current && isProcessingRef.current) {
-      console.log('Canceling ongoing thumbnail generation due to mode toggle');
-      abortControllerRef.current.abort();
-      isProcessingRef.current = false;
-      
-      // Wait a bit for the cancellation to take effect
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    
-    const newMode = !useRealPreviews;
-    setUseRealPreviews(newMode);
   };
-  // Effect to regenerate thumbnails when preview mode changes
-  useEffect(() => {
-    // Only regenerate if we have a PDF loaded and this isn't the initial render
-    if (pdfFile && pdfFile.pageCount && pages.length > 0) {
-      const regenerateThumbnails = async () => {
-        const loadingToast = toast.loading(
-          useRealPreviews ? 'Generating real previews...' : 'Switching to simple thumbnails...'
-        );
-        
-        try {
-          await generatePages(pdfFile.file, pdfFile.pageCount!);
-          toast.success(
-            useRealPreviews ? 'Real previews generated!' : 'Switched to simple thumbnails',
-            { id: loadingToast }
-          );
-        } catch (error) {
-          toast.error('Failed to regenerate thumbnails', { id: loadingToast });
-        }
-      };
-      
-      regenerateThumbnails();
-    }
-  }, [useRealPreviews]); // Only depend on useRealPreviews change
 
-  const updatePageRangeFromSelection = (pages: number[]) => {
-    if (pages.length === 0) {
-      setPageRange('');
-      return;
-    }
-
-    const ranges: string[] = [];
-    let start = pages[0];
-    let end = pages[0];
+  // Switching modes starts the visible thumbnails again in the new style
+  const handlePreviewModeToggle = () => {
+    setUseRealPreviews(prev => !prev);
+  };
 
-    for (let i = 1; i < pages.length; i++) {
-      if (pages[i] === end + 1) {
-        end = pages[i];
-      } else {
-        if (start === end) {
-          ranges.push(start.toString());
-        } else {
-          ranges.push(`${start}-${end}`);
-        }
-        start = pages[i];
-        end = pages[i];
-      }
-    }
+  const updatePageRangeFromSelection = (pages: number[]) => {
+    setPageRange(formatPageRange(pages));
+  };
 
-    if (start === end) {
-      ranges.push(start.toString());
-    } else {
-      ranges.push(`${start}-${end}`);
-    }
+  // Adds the pages found by the search to the selection for a single-file extract
+  const selectMatchingPages = (matchingPages: number[]) => {
+    const newSelected = [...new Set([...selectedPages, ...matchingPages])].sort((a, b) => a - b);
+    setSelectedPages(newSelected);
+    updatePageRangeFromSelection(newSelected);
+    setSplitMode('single');
+    toast.success(`Selected ${matchingPages.length} matching page${matchingPages.length !== 1 ? 's' : ''}.`);
+  };
 
-    setPageRange(ranges.join(', '));
+  const showPage = (pageNumber: number) => {
+    gridRef.current?.scrollToPage(pageNumber);
   };
   const handlePageRangeChange = (range: string) => {
     setPageRange(range);
     const parsedPages = parsePageRange(range);
     const validPages = parsedPages.filter(p => p >= 1 && p <= (pdfFile?.pageCount || 0));
     setSelectedPages(validPages);
-  };  const splitPDF = async (range: string) => {
+  };
+
+  const protectionProblem = protection && findProtectionProblem(protection);
+
+  const splitPDF = async (range: string) => {
     if (!pdfFile) {
       toast.error('No file selected.');
       return;
@@ -626,11 +259,18 @@ const PDFSplitter: React.FC = () => {
     }
 
     const maxPages = pdfFile.pageCount || 0;
-    const invalidPages = pagesToExtract.filter(page => page < 1 || page > maxPages);
+    const invalidPages = findInvalidPages(pagesToExtract, maxPages);
     if (invalidPages.length > 0) {
       toast.error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${maxPages} pages.`);
       return;
-    }// Check if we're dealing with a large extraction
+    }
+
+    if (protectionProblem) {
+      toast.error(protectionProblem);
+      return;
+    }
+
+    // Check if we're dealing with a large extraction
     const isLargeExtraction = pagesToExtract.length > 500;
     const isLargeFile = pdfFile.file.size > 75 * 1024 * 1024; // 75MB (warn for files close to limit)
 
@@ -639,123 +279,47 @@ const PDFSplitter: React.FC = () => {
         `You're extracting ${pagesToExtract.length} pages from a ${formatFileSize(pdfFile.file.size)} file. This may take several minutes and use significant memory. Continue?`
       );
       if (!confirmed) return;
-    }    setIsLoading(true);
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
 
     // Show loading toast
     const loadingToast = toast.loading('Processing PDF split...');
 
-    let arrayBuffer: ArrayBuffer | null = null;
-    
     try {
       console.log(`Starting PDF split: ${pagesToExtract.length} pages from ${formatFileSize(pdfFile.file.size)} file`);
-      
-      // Try to read the file with retry logic
-      let retryCount = 0;
-      const maxRetries = 3;
-      
-      while (retryCount < maxRetries) {
-        try {
-          console.log(`Reading file attempt ${retryCount + 1}/${maxRetries}`);
-          arrayBuffer = await pdfFile.file.arrayBuffer();
-          console.log('File loaded into memory successfully');
-          break;        } catch (readError: unknown) {
-          retryCount++;
-          console.warn(`File read attempt ${retryCount} failed:`, readError);
-            if (retryCount >= maxRetries) {
-            throw new Error('Failed to read file after multiple attempts. The file may be too large or corrupted.');
-          }
-          
+
+      const bytes = await readFileBytes(pdfFile.file, {
+        signal,
+        onRetry: (attempt, maxAttempts) => {
           // Update loading toast with retry info
-          toast.loading(`Reading file... (attempt ${retryCount + 1}/${maxRetries})`, { id: loadingToast });
-          
-          // Wait before retry
-          await new Promise(resolve => setTimeout(resolve, 1000));
+          toast.loading(`Reading file... (attempt ${attempt}/${maxAttempts})`, { id: loadingToast });
         }
-      }      if (!arrayBuffer) {
-        throw new Error('Failed to load file into memory');
-      }
-      
-      toast.loading('Parsing PDF...', { id: loadingToast });
-      const originalPdf = await PDFDocument.load(arrayBuffer);
-      console.log('PDF parsed successfully');
-      
-      const newPdf = await PDFDocument.create();
-      console.log('New PDF document created');
-
-      // Extract specified pages (convert to 0-based index)
-      const pageIndices = pagesToExtract.map(page => page - 1);
-      
-      // For large extractions, process pages in smaller batches to avoid memory issues
-      if (isLargeExtraction || isLargeFile) {
-        const batchSize = isLargeFile && isLargeExtraction ? 50 : 100; // Smaller batches for very large files
-        console.log(`Processing ${pageIndices.length} pages in batches of ${batchSize}`);
-        
-        for (let i = 0; i < pageIndices.length; i += batchSize) {
-          const batchIndices = pageIndices.slice(i, i + batchSize);
-          const batchNum = Math.floor(i / batchSize) + 1;
-          const totalBatches = Math.ceil(pageIndices.length / batchSize);
-            console.log(`Processing batch ${batchNum}/${totalBatches}: pages ${batchIndices[0] + 1}-${batchIndices[batchIndices.length - 1] + 1}`);
-          
-          // Update loading toast with progress
-          toast.loading(`Processing pages... (${batchNum}/${totalBatches})`, { id: loadingToast });
-          
-          try {
-            const copiedPages = await newPdf.copyPages(originalPdf, batchIndices);
-            copiedPages.forEach((page) => newPdf.addPage(page));              // Force garbage collection hint and longer delay for large files
-            if (isLargeFile) {
-              const windowWithGC = window as WindowWithGC;
-              if (windowWithGC.gc) {
-                windowWithGC.gc();
-              }
-            }
-            
-            // Longer delay between batches for large files to prevent memory pressure
-            if (i + batchSize < pageIndices.length) {
-              await new Promise(resolve => setTimeout(resolve, isLargeFile ? 100 : 10));
-            }          } catch (batchError: unknown) {
-            console.error(`Error in batch ${batchNum}:`, batchError);
-            const errorMessage = batchError instanceof Error ? batchError.message : 'Unknown error';
-            throw new Error(`Failed to process pages ${batchIndices[0] + 1}-${batchIndices[batchIndices.length - 1] + 1}. ${errorMessage}`);
-          }
-        }      } else {
-        // For smaller extractions, process all at once
-        console.log('Processing all pages at once');
-        toast.loading('Copying pages...', { id: loadingToast });
-        const copiedPages = await newPdf.copyPages(originalPdf, pageIndices);
-        copiedPages.forEach((page) => newPdf.addPage(page));
-      }
+      });
 
-      console.log('Pages copied successfully, saving PDF...');
-      toast.loading('Saving PDF...', { id: loadingToast });
-      
-      // For large files, use different save options
-      const saveOptions = isLargeFile ? { 
-        useObjectStreams: false, // Reduces memory usage but increases file size slightly
-        addDefaultPage: false 
-      } : {};
-      
-      const pdfBytes = await newPdf.save(saveOptions);
+      const pdfBytes = await extractPages(bytes, pagesToExtract, {
+        protection: protection ?? undefined,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
       console.log(`PDF saved successfully: ${formatFileSize(pdfBytes.length)}`);
-      
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${pdfFile.name.replace('.pdf', '')}-pages-${range.replace(/\s/g, '')}.pdf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      URL.revokeObjectURL(url);
-        // Clear the array buffer to free memory
-      arrayBuffer = null;
-      
+
+      downloadBytes(pdfBytes, `${getBaseName(pdfFile.name)}-pages-${range.replace(/\s/g, '')}.pdf`);
+
       console.log('PDF split completed successfully');
         // Success toast
       toast.success(`Successfully extracted ${pagesToExtract.length} pages! File downloaded.`, { id: loadingToast });
       
     } catch (splitError: unknown) {
+      if (isCancelledError(splitError)) {
+        toast('Split cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
       console.error('Error splitting PDF:', splitError);
         // Provide more specific error messages
       let errorMessage = 'Failed to split PDF. ';
@@ -778,12 +342,283 @@ const PDFSplitter: React.FC = () => {
       
       toast.error(errorMessage, { id: loadingToast });
     } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
       setIsLoading(false);
-      // Clear memory references
-      arrayBuffer = null;
     }
   };
 
+  const parsedGroups = pdfFile?.pageCount ? parsePageGroups(outputGroups, pdfFile.pageCount) : [];
+
+  const applyChunkPreset = (size: number) => {
+    if (!pdfFile?.pageCount) return;
+    setOutputGroups(formatPageGroups(chunkPages(pdfFile.pageCount, size)));
+  };
+
+  const splitIntoFiles = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    const maxPages = pdfFile.pageCount || 0;
+    const groups = parsePageGroups(outputGroups, maxPages);
+    if (groups.length === 0) {
+      toast.error('Please specify at least one group of pages, e.g. 1-3 | 4-10 | 11-end.');
+      return;
+    }
+
+    const invalidPages = findInvalidPages([...new Set(groups.flat())], maxPages);
+    if (invalidPages.length > 0) {
+      toast.error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${maxPages} pages.`);
+      return;
+    }
+
+    const baseName = getBaseName(pdfFile.name);
+    await downloadPartsAsZip(groups.map((group, index) => ({
+      fileName: `${baseName}-part-${index + 1}-pages-${formatPageRange(group).replace(/\s/g, '')}.pdf`,
+      pageNumbers: group
+    })));
+  };
+
+  const outlineDepth = outline ? getOutlineDepth(outline) : 0;
+  const outlineSections = outline && pdfFile?.pageCount
+    ? buildOutlineSections(outline, bookmarkDepth, pdfFile.pageCount)
+    : [];
+
+  const splitByBookmarks = async () => {
+    if (outlineSections.length === 0) {
+      toast.error('No bookmarks point to pages in this PDF.');
+      return;
+    }
+
+    // Number the files so they sort in document order
+    const digits = String(outlineSections.length).length;
+    await downloadPartsAsZip(outlineSections.map((section, index) => ({
+      fileName: `${String(index + 1).padStart(digits, '0')} - ${fileNameFromTitle(section.title)}.pdf`,
+      pageNumbers: section.pageNumbers
+    })));
+  };
+
+  const downloadPartsAsZip = async (parts: SplitPart[]) => {
+    if (!pdfFile) return;
+
+    if (protectionProblem) {
+      toast.error(protectionProblem);
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading(`Splitting into ${parts.length} files...`);
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const zipBytes = await splitToZip(bytes, parts, {
+        protection: protection ?? undefined,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      downloadBytes(zipBytes, `${getBaseName(pdfFile.name)}-split.zip`, 'application/zip');
+
+      toast.success(`Created ${parts.length} PDF file${parts.length !== 1 ? 's' : ''}! ZIP downloaded.`, { id: loadingToast });
+    } catch (splitError: unknown) {
+      if (isCancelledError(splitError)) {
+        toast('Split cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error splitting PDF into files:', splitError);
+      const errorMessage = splitError instanceof Error ? splitError.message : 'Please ensure the file is a valid PDF document and try again.';
+      toast.error(`Failed to split PDF. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const maxPartBytes = Math.round(maxPartSizeMB * 1024 * 1024);
+  // Rough guide only: parts share fonts and images, so the real count can differ
+  const estimatedPartCount = pdfFile && maxPartBytes > 0 ? Math.max(1, Math.ceil(pdfFile.file.size / maxPartBytes)) : 0;
+
+  const splitBySizeLimit = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    if (!(maxPartBytes > 0)) {
+      toast.error('Please enter a size limit above zero.');
+      return;
+    }
+
+    if (protectionProblem) {
+      toast.error(protectionProblem);
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading(`Splitting into parts of at most ${formatFileSize(maxPartBytes)}...`);
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const { archive, parts } = await splitBySize(bytes, maxPartBytes, getBaseName(pdfFile.name), {
+        protection: protection ?? undefined,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      downloadBytes(archive, `${getBaseName(pdfFile.name)}-split.zip`, 'application/zip');
+
+      const largestPart = Math.max(...parts.map(part => part.size));
+      toast.success(
+        `Created ${parts.length} PDF file${parts.length !== 1 ? 's' : ''} (largest ${formatFileSize(largestPart)})! ZIP downloaded.`,
+        { id: loadingToast }
+      );
+
+      const oversizedPages = parts.filter(part => part.size > maxPartBytes).map(part => part.pageNumbers[0]);
+      if (oversizedPages.length > 0) {
+        toast(
+          `Over the limit on their own, so kept as single-page parts: page${oversizedPages.length !== 1 ? 's' : ''} ${oversizedPages.join(', ')}.`,
+          { icon: '⚠️', duration: 8000 }
+        );
+      }
+    } catch (splitError: unknown) {
+      if (isCancelledError(splitError)) {
+        toast('Split cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error splitting PDF by size:', splitError);
+      const errorMessage = splitError instanceof Error ? splitError.message : 'Please ensure the file is a valid PDF document and try again.';
+      toast.error(`Failed to split PDF. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const renderOutlineNodes = (nodes: OutlineNode[]): React.ReactNode => (
+    <ul className={nodes[0]?.depth > 1 ? 'pl-4 border-l border-green-100 ml-1' : ''}>
+      {nodes.map((node, index) => {
+        const isSplitPoint = node.depth <= bookmarkDepth && node.pageNumber !== null;
+        return (
+          <li key={`${node.depth}-${index}`} className="py-0.5">
+            <div className={`flex items-baseline justify-between gap-2 ${isSplitPoint ? 'text-gray-800 font-medium' : 'text-gray-400'}`}>
+              <span className="truncate" title={node.title}>
+                {isSplitPoint && <span className="text-green-600 mr-1">✂</span>}
+                {node.title}
+              </span>
+              <span className="text-xs flex-shrink-0">{node.pageNumber ?? '–'}</span>
+            </div>
+            {node.children.length > 0 && renderOutlineNodes(node.children)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const searchMatches = new Map(pageSearch.matches.map(match => [match.pageNumber, match]));
+
+  const renderPageCard = (pageNumber: number) => {
+    const isSelected = selectedPages.includes(pageNumber);
+    const searchMatch = searchMatches.get(pageNumber);
+    const thumbnail = pageThumbnails.thumbnails.get(pageNumber);
+
+    return (
+      <div
+        onClick={() => handlePageClick(pageNumber)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-pointer hover:shadow-xl ${
+          isSelected
+            ? 'ring-4 ring-green-400 ring-opacity-75 shadow-xl'
+            : searchMatch
+              ? 'ring-4 ring-yellow-300 shadow-lg'
+              : 'hover:shadow-lg'
+        } ${pageSearch.isActive && !searchMatch ? 'opacity-40 hover:opacity-100' : ''}`}
+      >
+        {/* Search Hits Badge */}
+        {searchMatch && (
+          <div className="absolute -top-2 -left-2 z-20 px-2 h-6 rounded-full bg-yellow-300 text-yellow-900 text-xs font-bold flex items-center shadow-md">
+            {searchMatch.count} hit{searchMatch.count !== 1 ? 's' : ''}
+          </div>
+        )}
+
+        {/* Selection Checkbox */}
+        <div className="absolute -top-2 -right-2 z-20">
+          <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
+            isSelected
+              ? 'bg-green-500 border-green-500 text-white'
+              : 'bg-white border-gray-300 hover:border-green-400'
+          }`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative">
+            {thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${pageNumber}`}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+              </div>
+            )}
+
+            {/* Page number overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {pageNumber}
+            </div>
+
+            {/* Split overlay when selected */}
+            {isSelected && (
+              <div className="absolute inset-0 bg-green-500/20 flex items-center justify-center">
+                <div className="bg-green-500 text-white px-3 py-1 rounded-full text-sm font-medium">
+                  Will Split
+                </div>
+              </div>
+            )}
+
+            {/* Full-size view */}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setViewedPage(pageNumber);
+              }}
+              className="absolute bottom-2 right-2 z-10 w-8 h-8 bg-white/90 text-gray-700 rounded-lg shadow-md flex items-center justify-center hover:bg-white sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              title={`View page ${pageNumber} full size`}
+              aria-label={`View page ${pageNumber} full size`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white rounded-3xl shadow-2xl shadow-green-500/10 border border-gray-200/50 backdrop-blur-sm">
       {/* Main Content - Full Width Horizontal Layout */}
@@ -846,6 +681,7 @@ const PDFSplitter: React.FC = () => {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                       </svg>
                     </button>
+                    <DocumentPropertiesButton file={pdfFile.file} />
                   </div>
                 </div>
                 <input
@@ -858,6 +694,17 @@ const PDFSplitter: React.FC = () => {
               </div>
             )}
             
+            {/* Text Search */}
+            {pdfFile && (
+              <PageSearchBox
+                search={pageSearch}
+                theme="green"
+                onSelectMatches={selectMatchingPages}
+                onShowPage={showPage}
+                disabled={isOperationRunning}
+              />
+            )}
+
             {/* Split Controls */}
             {pdfFile && (<div className="border-2 border-green-200 rounded-2xl p-6 bg-gradient-to-br from-green-50 to-teal-50">
                 <h4 className="font-bold text-green-800 mb-4 flex items-center text-lg">
@@ -867,6 +714,25 @@ const PDFSplitter: React.FC = () => {
                   Split Pages
                 </h4>
 
+                {/* Split Mode Toggle */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-1 p-1 mb-6 bg-white rounded-xl border border-green-200">
+                  {SPLIT_MODES.map(mode => (
+                    <button
+                      key={mode.id}
+                      onClick={() => setSplitMode(mode.id)}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        splitMode === mode.id ? 'bg-green-600 text-white shadow-md' : 'text-gray-600 hover:bg-green-50'
+                      }`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+
+                <PasswordProtectionOptions value={protection} onChange={setProtection} theme="green" disabled={isOperationRunning} />
+
+                {splitMode === 'single' && (
+                <>
                 {/* Page Range Input */}                <div className="mb-6">
                   <label htmlFor="page-range" className="block text-sm font-semibold text-gray-700 mb-3">
                     Page Range
@@ -949,12 +815,269 @@ const PDFSplitter: React.FC = () => {
                     </span>
                   )}
                 </button>
+                </>
+                )}
+
+                {splitMode === 'multiple' && (
+                <>
+                {/* Output Groups Input */}
+                <div className="mb-6">
+                  <label htmlFor="output-groups" className="block text-sm font-semibold text-gray-700 mb-3">
+                    Output Files
+                  </label>
+                  <input
+                    id="output-groups"
+                    type="text"
+                    value={outputGroups}
+                    onChange={(e) => setOutputGroups(e.target.value)}
+                    placeholder="e.g., 1-3 | 4-10 | 11-end"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all duration-200"
+                  />
+
+                  {/* Presets */}
+                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600">Every</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={pdfFile.pageCount || 1}
+                        value={chunkSize}
+                        onChange={(e) => setChunkSize(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                        aria-label="Pages per file"
+                      />
+                      <button
+                        onClick={() => applyChunkPreset(chunkSize)}
+                        className="px-3 py-1 text-sm font-medium text-green-700 border border-green-300 rounded-lg hover:bg-green-50 transition-colors"
+                      >
+                        pages
+                      </button>
+                    </div>
+                    <button
+                      onClick={() => applyChunkPreset(1)}
+                      className="px-3 py-1 text-sm font-medium text-green-700 border border-green-300 rounded-lg hover:bg-green-50 transition-colors"
+                    >
+                      One file per page
+                    </button>
+                  </div>
+
+                  <div className="mt-3 space-y-2">
+                    {parsedGroups.length > 0 && (
+                      <div>
+                        <p className="text-sm text-green-600 font-medium">
+                          {parsedGroups.length} file{parsedGroups.length !== 1 ? 's' : ''} will be created
+                        </p>
+                        <ul className="mt-1 text-xs text-gray-600 space-y-0.5 max-h-32 overflow-y-auto">
+                          {parsedGroups.slice(0, 20).map((group, index) => (
+                            <li key={index} className="font-mono">
+                              Part {index + 1}: {formatPageRange(group)}
+                            </li>
+                          ))}
+                          {parsedGroups.length > 20 && (
+                            <li className="text-gray-400">…and {parsedGroups.length - 20} more</li>
+                          )}
+                        </ul>
+                      </div>
+                    )}
+                    <div className="text-xs text-gray-500 space-y-1">
+                      <p><strong>How to use:</strong></p>
+                      <p>• Separate files with <span className="font-mono bg-gray-100 px-1 rounded">|</span></p>
+                      <p>• Use <span className="font-mono bg-gray-100 px-1 rounded">end</span> for the last page</p>
+                      <p>• All files are bundled into one ZIP download</p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Split Into Files Button */}
+                <button
+                  onClick={splitIntoFiles}
+                  disabled={isLoading || parsedGroups.length === 0}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading || parsedGroups.length === 0
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-green-600 to-emerald-600 text-white hover:from-green-700 hover:to-emerald-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Splitting...
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                      </svg>
+                      Split into {parsedGroups.length} File{parsedGroups.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </button>
+                </>
+                )}
+
+                {splitMode === 'bookmarks' && (
+                <>
+                {/* Bookmark Tree */}
+                <div className="mb-6">
+                  <p className="block text-sm font-semibold text-gray-700 mb-3">Bookmarks</p>
+                  {outline === null ? (
+                    <p className="text-sm text-gray-500">Reading bookmarks...</p>
+                  ) : outline.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      This PDF has no bookmarks. Use "Multiple" to split by page groups instead.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {outlineDepth > 1 && (
+                        <div className="flex items-center gap-2">
+                          <label htmlFor="bookmark-depth" className="text-sm text-gray-600">Split at</label>
+                          <select
+                            id="bookmark-depth"
+                            value={bookmarkDepth}
+                            onChange={(e) => setBookmarkDepth(parseInt(e.target.value))}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                          >
+                            {Array.from({ length: outlineDepth }, (_, index) => index + 1).map(depth => (
+                              <option key={depth} value={depth}>
+                                {depth === 1 ? 'Top-level bookmarks' : `Bookmarks up to level ${depth}`}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      <div className="max-h-64 overflow-y-auto bg-white border border-green-200 rounded-xl p-3 text-sm">
+                        {renderOutlineNodes(outline)}
+                      </div>
+                      <p className="text-sm text-green-600 font-medium">
+                        {outlineSections.length} file{outlineSections.length !== 1 ? 's' : ''} will be created, named after their bookmarks
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Split By Bookmarks Button */}
+                <button
+                  onClick={splitByBookmarks}
+                  disabled={isLoading || outlineSections.length === 0}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading || outlineSections.length === 0
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-green-600 to-emerald-600 text-white hover:from-green-700 hover:to-emerald-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Splitting...
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                      </svg>
+                      Split into {outlineSections.length} File{outlineSections.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </button>
+                </>
+                )}
+
+                {splitMode === 'size' && (
+                <>
+                {/* Size Limit Input */}
+                <div className="mb-6">
+                  <label htmlFor="max-part-size" className="block text-sm font-semibold text-gray-700 mb-3">
+                    Maximum Size per File
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="max-part-size"
+                      type="number"
+                      min={0.1}
+                      step={0.5}
+                      value={maxPartSizeMB}
+                      onChange={(e) => setMaxPartSizeMB(Math.max(0, parseFloat(e.target.value) || 0))}
+                      className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all duration-200"
+                    />
+                    <span className="text-sm font-medium text-gray-600">MB</span>
+                  </div>
+
+                  {/* Presets */}
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {SIZE_PRESETS_MB.map(size => (
+                      <button
+                        key={size}
+                        onClick={() => setMaxPartSizeMB(size)}
+                        className={`px-3 py-1 text-sm font-medium border rounded-lg transition-colors ${
+                          maxPartSizeMB === size ? 'bg-green-600 text-white border-green-600' : 'text-green-700 border-green-300 hover:bg-green-50'
+                        }`}
+                      >
+                        {size} MB
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="mt-3 space-y-2">
+                    {estimatedPartCount > 0 && (
+                      <p className="text-sm text-green-600 font-medium">
+                        {pdfFile.size} file, roughly {estimatedPartCount} part{estimatedPartCount !== 1 ? 's' : ''}
+                      </p>
+                    )}
+                    <div className="text-xs text-gray-500 space-y-1">
+                      <p><strong>How it works:</strong></p>
+                      <p>• Pages stay in order; each part is saved and measured as it is built</p>
+                      <p>• Parts are numbered <span className="font-mono bg-gray-100 px-1 rounded">-part-01</span>, <span className="font-mono bg-gray-100 px-1 rounded">-part-02</span>...</p>
+                      <p>• A single page bigger than the limit gets a part of its own</p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Split By Size Button */}
+                <button
+                  onClick={splitBySizeLimit}
+                  disabled={isLoading || !(maxPartBytes > 0)}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading || !(maxPartBytes > 0)
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-green-600 to-emerald-600 text-white hover:from-green-700 hover:to-emerald-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      Splitting...
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+                      </svg>
+                      Split into Parts under {formatFileSize(maxPartBytes)}
+                    </span>
+                  )}
+                </button>
+                </>
+                )}
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel Split" />
+                )}
               </div>
             )}
           </div>
         </div>        {/* Right Side - Pages Grid - Full Width */}
         <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
-          {pdfFile && pages.length > 0 ? (
+          {pdfFile && (pdfFile.pageCount || 0) > 0 ? (
             <div className="h-full">              <div className="flex items-center justify-between mb-8">
                 <div className="flex items-center gap-6">
                   <div>
@@ -1007,21 +1130,11 @@ const PDFSplitter: React.FC = () => {
                     
                     {/* Progress/Status Indicator */}
                     <div className="flex items-center gap-3">
-                      {useRealPreviews && thumbnailProgress.total > 0 && thumbnailProgress.current < thumbnailProgress.total && (
+                      {useRealPreviews && pageThumbnails.isRendering && (
                         <div className="flex items-center space-x-2">
                           <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
                           <span className="text-xs text-green-600 font-medium">
-                            {Math.round((thumbnailProgress.current / thumbnailProgress.total) * 100)}%
-                          </span>
-                        </div>
-                      )}
-                      
-                      {/* Ready Status */}
-                      {useRealPreviews && showReadyStatus && (
-                        <div className="flex items-center space-x-2">
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <span className="text-xs text-green-600 font-medium">
-                            ✓ Ready
+                            Rendering previews...
                           </span>
                         </div>
                       )}
@@ -1042,100 +1155,17 @@ const PDFSplitter: React.FC = () => {
                     Clear Selection
                   </button>
                 )}
-              </div>              {/* Pages Grid */}
-              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-8">
-                {pages.map((page) => (
-                  <div 
-                    key={page.pageNumber === -1 ? 'summary' : page.pageNumber}
-                    onClick={() => page.pageNumber !== -1 && handlePageClick(page.pageNumber)}
-                    className={`group relative rounded-2xl transition-all duration-200 ${
-                      page.pageNumber === -1 
-                        ? 'cursor-default'
-                        : `cursor-pointer hover:shadow-xl ${
-                            selectedPages.includes(page.pageNumber)
-                            ? 'ring-4 ring-green-400 ring-opacity-75 shadow-xl'
-                            : 'hover:shadow-lg'
-                          }`
-                    }`}
-                  >
-                    {/* Selection Checkbox */}
-                    {page.pageNumber !== -1 && (
-                      <div className="absolute -top-2 -right-2 z-20">
-                        <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
-                          selectedPages.includes(page.pageNumber)
-                            ? 'bg-green-500 border-green-500 text-white'
-                            : 'bg-white border-gray-300 hover:border-green-400'
-                        }`}>
-                          {selectedPages.includes(page.pageNumber) && (
-                            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                            </svg>
-                          )}
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Page content */}
-                    <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
-                      {page.pageNumber === -1 ? (
-                        // Summary card for remaining pages
-                        <div className="aspect-[3/4] flex flex-col items-center justify-center p-4 bg-gradient-to-br from-gray-50 to-gray-100">
-                          <svg className="w-12 h-12 text-gray-400 mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                          <div className="text-center">
-                            <div className="text-lg font-semibold text-gray-700 mb-1">
-                              +{(pdfFile?.pageCount || 0) - 100} more
-                            </div>
-                            <div className="text-xs text-gray-500">
-                              Pages 101-{pdfFile?.pageCount || 0}
-                            </div>
-                            <div className="text-xs text-gray-400 mt-2">
-                              Use page numbers to select
-                            </div>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="aspect-[3/4] relative">
-                          {page.thumbnail ? (
-                            page.thumbnail === 'SUMMARY_CARD' ? null : (
-                              <img 
-                                src={page.thumbnail} 
-                                alt={`Page ${page.pageNumber}`}
-                                className="w-full h-full object-contain"
-                                onError={(e) => {
-                                  console.error(`Error loading thumbnail for page ${page.pageNumber}`);
-                                  const target = e.target as HTMLImageElement;
-                                  target.style.display = 'none';
-                                }}
-                              />
-                            )
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center bg-gray-100">
-                              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
-                            </div>
-                          )}
-
-                          {/* Page number overlay */}
-                          <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
-                            {page.pageNumber}
-                          </div>
-
-                          {/* Split overlay when selected */}
-                          {selectedPages.includes(page.pageNumber) && (
-                            <div className="absolute inset-0 bg-green-500/20 flex items-center justify-center">
-                              <div className="bg-green-500 text-white px-3 py-1 rounded-full text-sm font-medium">
-                                Will Split
-                              </div>
-                            </div>
-                          )}                        </div>
-                      )}
-                    </div>
-                  </div>
-                ))}
               </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                ref={gridRef}
+                pageCount={pdfFile.pageCount || 0}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
             </div>
-          ) : pdfFile && pages.length === 0 ? (
+          ) : pdfFile ? (
             <div className="flex items-center justify-center h-full text-center py-20">
               <div className="max-w-lg mx-auto">
                 <div className="w-20 h-20 mx-auto mb-6 bg-blue-100 rounded-full flex items-center justify-center">
@@ -1198,6 +1228,20 @@ const PDFSplitter: React.FC = () => {
           )}
         </div>
       </div>
+      {pdfFile && viewedPage !== null && (
+        <PageViewer
+          file={pdfFile.file}
+          pageCount={pdfFile.pageCount || 0}
+          initialPage={viewedPage}
+          onClose={closeViewer}
+          isSelected={pageNumber => selectedPages.includes(pageNumber)}
+          onToggleSelect={handlePageClick}
+          selectLabel="Select for Extraction"
+          selectedLabel="Will Split"
+          theme="green"
+        />
+      )}
+      {passwordPrompt}
     </div>
   );
 };
@@ -0,0 +1,464 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import VirtualPageGrid from './VirtualPageGrid';
+import CancelOperationButton from './CancelOperationButton';
+import {
+  readFileBytes,
+  extractText,
+  describeProgress,
+  parsePageRange,
+  formatPageRange,
+  isCancelledError
+} from '../engine';
+import type { TextExportFormat } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
+
+interface ExtractedText {
+  text: string;
+  format: TextExportFormat;
+  pageCount: number;
+}
+
+const TEXT_FORMATS: { id: TextExportFormat; label: string; description: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', label: 'Markdown', description: 'Headings and lists for wikis and tickets', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'text', label: 'Plain Text', description: 'Paragraphs only, pastes anywhere', extension: 'txt', mimeType: 'text/plain' }
+];
+
+const PDFTextExtractor: React.FC = () => {
+  const [pageRange, setPageRange] = useState('');
+  const [selectedPages, setSelectedPages] = useState<number[]>([]);
+  const [textFormat, setTextFormat] = useState<TextExportFormat>('markdown');
+  // Shown in place of the page grid until another file is loaded
+  const [extractedText, setExtractedText] = useState<ExtractedText | null>(null);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Cleanup function when component unmounts
+  useEffect(() => {
+    return () => {
+      operationControllerRef.current?.abort();
+    };
+  }, []);
+
+  const upload = usePdfUpload(() => {
+    setSelectedPages([]);
+    setPageRange('');
+    setExtractedText(null);
+  });
+  const { pdfFile, isLoading, setIsLoading } = upload;
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, true);
+
+  const removeFile = () => {
+    operationControllerRef.current?.abort();
+
+    upload.removeFile();
+    setPageRange('');
+    setSelectedPages([]);
+    setExtractedText(null);
+  };
+
+  const updatePageRangeFromSelection = (pages: number[]) => {
+    setPageRange(formatPageRange(pages));
+  };
+
+  const handlePageClick = (pageNumber: number) => {
+    setSelectedPages(prev => {
+      const newSelected = prev.includes(pageNumber)
+        ? prev.filter(p => p !== pageNumber)
+        : [...prev, pageNumber].sort((a, b) => a - b);
+
+      updatePageRangeFromSelection(newSelected);
+      return newSelected;
+    });
+  };
+
+  const handlePageRangeChange = (range: string) => {
+    setPageRange(range);
+    const parsedPages = parsePageRange(range);
+    const validPages = parsedPages.filter(p => p >= 1 && p <= (pdfFile?.pageCount || 0));
+    setSelectedPages(validPages);
+  };
+
+  // No selection extracts every page
+  const pagesToExtract = selectedPages.length > 0
+    ? selectedPages
+    : Array.from({ length: pdfFile?.pageCount || 0 }, (_, index) => index + 1);
+
+  const extractPagesText = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Extracting text...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const { text, emptyPages } = await extractText(bytes, pagesToExtract, {
+        format: textFormat,
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      setExtractedText({ text, format: textFormat, pageCount: pagesToExtract.length });
+
+      toast.success(`Extracted text from ${pagesToExtract.length} page${pagesToExtract.length !== 1 ? 's' : ''}!`, { id: loadingToast });
+      if (emptyPages.length > 0) {
+        toast(`⚠️ Page${emptyPages.length !== 1 ? 's' : ''} ${formatPageRange(emptyPages)} ${emptyPages.length !== 1 ? 'have' : 'has'} no text. ${emptyPages.length !== 1 ? 'They are' : 'It is'} probably scanned and would need OCR.`, {
+          duration: 8000
+        });
+      }
+    } catch (extractError: unknown) {
+      if (isCancelledError(extractError)) {
+        toast('Text extraction cancelled.', { id: loadingToast });
+        return;
+      }
+      console.error('Error extracting text:', extractError);
+      const errorMessage = extractError instanceof Error ? extractError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to extract text. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const copyExtractedText = async () => {
+    if (!extractedText) return;
+    try {
+      await navigator.clipboard.writeText(extractedText.text);
+      toast.success('Text copied to clipboard');
+    } catch {
+      toast.error('Could not copy the text. Please select it and copy it manually.');
+    }
+  };
+
+  const downloadExtractedText = () => {
+    if (!pdfFile || !extractedText) return;
+    const format = TEXT_FORMATS.find(option => option.id === extractedText.format) ?? TEXT_FORMATS[0];
+    downloadBytes(
+      new Blob([extractedText.text], { type: `${format.mimeType};charset=utf-8` }),
+      `${getBaseName(pdfFile.name)}.${format.extension}`
+    );
+  };
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const renderPageCard = (pageNumber: number) => {
+    const isSelected = selectedPages.includes(pageNumber);
+    const thumbnail = pageThumbnails.thumbnails.get(pageNumber);
+
+    return (
+      <div
+        onClick={() => handlePageClick(pageNumber)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-pointer hover:shadow-xl ${
+          isSelected
+            ? 'ring-4 ring-amber-400 ring-opacity-75 shadow-xl'
+            : 'hover:shadow-lg'
+        }`}
+      >
+        {/* Selection Checkbox */}
+        <div className="absolute -top-2 -right-2 z-20">
+          <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
+            isSelected
+              ? 'bg-amber-500 border-amber-500 text-white'
+              : 'bg-white border-gray-300 hover:border-amber-400'
+          }`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative overflow-hidden">
+            {thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${pageNumber}`}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+              </div>
+            )}
+
+            {/* Page number overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {pageNumber}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-amber-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-amber-50/50 to-yellow-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="Extract Text"
+                subtitle="Copy PDF text as plain text or Markdown"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="amber"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="amber"
+              />
+            )}
+
+            {/* Extraction Controls */}
+            {pdfFile && (
+              <div className="border-2 border-amber-200 rounded-2xl p-6 bg-gradient-to-br from-amber-50 to-yellow-50">
+                <h4 className="font-bold text-amber-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  Extract Text
+                </h4>
+
+                {/* Page Range Input */}
+                <div className="mb-6">
+                  <label htmlFor="text-page-range" className="block text-sm font-semibold text-gray-700 mb-3">
+                    Pages to Extract
+                  </label>
+                  <input
+                    id="text-page-range"
+                    type="text"
+                    value={pageRange}
+                    onChange={(e) => handlePageRangeChange(e.target.value)}
+                    placeholder="All pages (or e.g., 1-3, 5)"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition-all duration-200"
+                  />
+                  <p className="mt-2 text-sm text-amber-600 font-medium">
+                    {selectedPages.length > 0
+                      ? `${selectedPages.length} page${selectedPages.length !== 1 ? 's' : ''} selected`
+                      : `All ${pdfFile.pageCount || 0} pages`}
+                  </p>
+                </div>
+
+                {/* Output Format */}
+                <p className="text-sm font-semibold text-gray-700 mb-2">Output Format</p>
+                <div className="grid grid-cols-2 gap-1 p-1 mb-1 bg-white rounded-xl border border-amber-200">
+                  {TEXT_FORMATS.map(format => (
+                    <button
+                      key={format.id}
+                      onClick={() => setTextFormat(format.id)}
+                      className={`px-2 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                        textFormat === format.id ? 'bg-amber-600 text-white shadow-md' : 'text-gray-600 hover:bg-amber-50'
+                      }`}
+                    >
+                      {format.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mb-6">
+                  {TEXT_FORMATS.find(format => format.id === textFormat)?.description}
+                </p>
+                {/* Extract Button */}
+                <button
+                  onClick={extractPagesText}
+                  disabled={isLoading}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    isLoading
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-amber-600 to-yellow-600 text-white hover:from-amber-700 hover:to-yellow-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isOperationRunning ? 'Extracting...' : 'Processing...'}
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Extract {pagesToExtract.length} Page{pagesToExtract.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel Extraction" />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Extracted Text or Pages Grid - Full Width */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile && extractedText ? (
+            <div className="h-full flex flex-col">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">Extracted Text</h3>
+                  <p className="text-gray-600">
+                    {extractedText.pageCount} page{extractedText.pageCount !== 1 ? 's' : ''} • {extractedText.text.length.toLocaleString()} characters • {TEXT_FORMATS.find(format => format.id === extractedText.format)?.label}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={copyExtractedText}
+                    className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors font-medium flex items-center gap-2 shadow-md"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                    Copy
+                  </button>
+                  <button
+                    onClick={downloadExtractedText}
+                    className="px-4 py-2 text-amber-700 border border-amber-300 rounded-lg hover:bg-amber-50 transition-colors font-medium flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                    Download
+                  </button>
+                  <button
+                    onClick={() => setExtractedText(null)}
+                    className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+                  >
+                    Back to Pages
+                  </button>
+                </div>
+              </div>
+              <textarea
+                readOnly
+                value={extractedText.text}
+                aria-label="Extracted text"
+                className="flex-1 min-h-[500px] w-full p-4 font-mono text-sm text-gray-800 bg-white border border-gray-200 rounded-2xl shadow-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 resize-none"
+              />
+            </div>
+          ) : pdfFile ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Preview ({pdfFile.pageCount || 0} total pages)
+                  </h3>
+                  <p className="text-gray-600">
+                    Click pages to extract only those, or leave everything unselected to extract all pages
+                    {pageThumbnails.isRendering && (
+                      <span className="text-amber-600 ml-2">
+                        • Rendering previews...
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {selectedPages.length > 0 && (
+                  <button
+                    onClick={() => {
+                      setSelectedPages([]);
+                      setPageRange('');
+                    }}
+                    className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Clear Selection
+                  </button>
+                )}
+              </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                pageCount={pdfFile.pageCount}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-amber-100 to-yellow-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to extract text
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file using the upload area to copy its text into tickets, wikis and documents.
+                </p>
+                <div className="bg-gradient-to-br from-amber-50 to-yellow-50 rounded-2xl p-6 text-left border border-amber-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-amber-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to extract text:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-amber-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-amber-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Select pages by clicking them or enter page ranges, or keep all pages</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-amber-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Choose Markdown to keep headings and lists, or plain text</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-amber-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Click "Extract", then copy the text or download it as a file</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFTextExtractor;
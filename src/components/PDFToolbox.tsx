@@ -6,6 +6,163 @@ import MemoryWarning from './MemoryWarning';
 const PDFMerger = React.lazy(() => import('./PDFMerger'));
 const PDFSplitter = React.lazy(() => import('./PDFSplitter'));
 const PDFRemover = React.lazy(() => import('./PDFRemover'));
+const PDFRotator = React.lazy(() => import('./PDFRotator'));
+const PDFOrganizer = React.lazy(() => import('./PDFOrganizer'));
+const PDFCompressor = React.lazy(() => import('./PDFCompressor'));
+const PDFImageConverter = React.lazy(() => import('./PDFImageConverter'));
+const PDFImageExporter = React.lazy(() => import('./PDFImageExporter'));
+const PDFTextExtractor = React.lazy(() => import('./PDFTextExtractor'));
+const PDFWatermarker = React.lazy(() => import('./PDFWatermarker'));
+const PDFPageNumberer = React.lazy(() => import('./PDFPageNumberer'));
+const PDFHeaderFooter = React.lazy(() => import('./PDFHeaderFooter'));
+const PDFRedactor = React.lazy(() => import('./PDFRedactor'));
+
+type ToolMode = 'merge' | 'split' | 'remove' | 'rotate' | 'organize' | 'compress' | 'images' | 'export' | 'text' | 'watermark' | 'numbers' | 'header-footer' | 'redact';
+
+interface ModeConfig {
+  id: ToolMode;
+  label: string;
+  iconPath: string;
+  // Full class strings so Tailwind can pick them up at build time
+  mobileActiveClass: string;
+  desktopActiveClass: string;
+  title: string;
+  description: string;
+  features: string[];
+}
+
+const MODES: ModeConfig[] = [
+  {
+    id: 'merge',
+    label: 'Merge',
+    iconPath: 'M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-blue-600 shadow-md shadow-blue-500/20 border border-blue-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-blue-600 shadow-lg shadow-blue-500/30 transform scale-105 border border-blue-100/60',
+    title: 'Merge Multiple PDFs',
+    description: 'Combine multiple PDF files into a single document. Simply upload your files, arrange them in the desired order, and download the merged result.',
+    features: ['No file limit', 'Drag & Drop reordering', 'High quality output']
+  },
+  {
+    id: 'split',
+    label: 'Split',
+    iconPath: 'M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-green-600 shadow-md shadow-green-500/20 border border-green-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-green-600 shadow-lg shadow-green-500/30 transform scale-105 border border-green-100/60',
+    title: 'Split PDF into Pages',
+    description: 'Extract specific pages from your PDF documents. Select individual pages or page ranges to create new PDF files with exactly the content you need.',
+    features: ['Visual page selection', 'Page range support', 'Preview thumbnails']
+  },
+  {
+    id: 'remove',
+    label: 'Remove',
+    iconPath: 'M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-red-600 shadow-md shadow-red-500/20 border border-red-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-red-600 shadow-lg shadow-red-500/30 transform scale-105 border border-red-100/60',
+    title: 'Remove Pages from PDF',
+    description: 'Delete unwanted pages from your PDF documents. Select specific pages or page ranges to remove them and create a cleaner, more focused document.',
+    features: ['Visual page selection', 'Page range support', 'Preview thumbnails']
+  },
+  {
+    id: 'rotate',
+    label: 'Rotate',
+    iconPath: 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-purple-600 shadow-md shadow-purple-500/20 border border-purple-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-purple-600 shadow-lg shadow-purple-500/30 transform scale-105 border border-purple-100/60',
+    title: 'Rotate PDF Pages',
+    description: 'Fix sideways or upside-down scans. Rotate individual pages or whole page ranges by 90, 180 or 270 degrees, preview the result and download the corrected PDF.',
+    features: ['Per-page rotation', 'Page range support', 'Live preview']
+  },
+  {
+    id: 'organize',
+    label: 'Organize',
+    iconPath: 'M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-orange-600 shadow-md shadow-orange-500/20 border border-orange-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-orange-600 shadow-lg shadow-orange-500/30 transform scale-105 border border-orange-100/60',
+    title: 'Organize PDF Pages',
+    description: 'Reorder the pages of a document by dragging them into place. Move several pages at once, duplicate or delete pages, then download the reorganized PDF.',
+    features: ['Drag & Drop pages', 'Multi-select moves', 'Duplicate & delete']
+  },
+  {
+    id: 'compress',
+    label: 'Compress',
+    iconPath: 'M19 14l-7 7m0 0l-7-7m7 7V3',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-teal-600 shadow-md shadow-teal-500/20 border border-teal-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-teal-600 shadow-lg shadow-teal-500/30 transform scale-105 border border-teal-100/60',
+    title: 'Compress PDF',
+    description: 'Shrink large PDFs for email and storage. Downsample and re-encode images, merge duplicate resources and drop unused objects, then compare the size before and after.',
+    features: ['Quality presets', 'Lossless clean-up', 'Before/after report']
+  },
+  {
+    id: 'images',
+    label: 'Images',
+    iconPath: 'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-pink-600 shadow-md shadow-pink-500/20 border border-pink-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-pink-600 shadow-lg shadow-pink-500/30 transform scale-105 border border-pink-100/60',
+    title: 'Convert Images to PDF',
+    description: 'Turn JPG and PNG photos or scans into a single PDF. Arrange the images in order, pick A4, Letter or image-sized pages with the margins you need, and download the document.',
+    features: ['JPG & PNG support', 'Drag & Drop ordering', 'Page size & margins']
+  },
+  {
+    id: 'export',
+    label: 'Export',
+    iconPath: 'M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-indigo-600 shadow-md shadow-indigo-500/20 border border-indigo-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-indigo-600 shadow-lg shadow-indigo-500/30 transform scale-105 border border-indigo-100/60',
+    title: 'Export PDF Pages as Images',
+    description: 'Save PDF pages as PNG, JPEG or WebP images for slides, websites and chat. Choose the pages, the resolution and the quality, and download every image in one ZIP archive.',
+    features: ['PNG, JPEG & WebP', 'Custom DPI', 'ZIP download']
+  },
+  {
+    id: 'text',
+    label: 'Text',
+    iconPath: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-amber-600 shadow-md shadow-amber-500/20 border border-amber-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-amber-600 shadow-lg shadow-amber-500/30 transform scale-105 border border-amber-100/60',
+    title: 'Extract Text from PDF',
+    description: 'Pull the text out of a PDF in reading order, with columns and paragraphs rebuilt. Copy it as plain text or Markdown to paste into tickets and wikis, or download it as a file.',
+    features: ['Reading order & paragraphs', 'Plain text or Markdown', 'Copy or download']
+  },
+  {
+    id: 'watermark',
+    label: 'Watermark',
+    iconPath: 'M9 12l2 2 4-4M7.835 4.697a3.42 3.42 0 001.946-.806 3.42 3.42 0 014.438 0 3.42 3.42 0 001.946.806 3.42 3.42 0 013.138 3.138 3.42 3.42 0 00.806 1.946 3.42 3.42 0 010 4.438 3.42 3.42 0 00-.806 1.946 3.42 3.42 0 01-3.138 3.138 3.42 3.42 0 00-1.946.806 3.42 3.42 0 01-4.438 0 3.42 3.42 0 00-1.946-.806 3.42 3.42 0 01-3.138-3.138 3.42 3.42 0 00-.806-1.946 3.42 3.42 0 010-4.438 3.42 3.42 0 00.806-1.946 3.42 3.42 0 013.138-3.138z',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-cyan-600 shadow-md shadow-cyan-500/20 border border-cyan-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-cyan-600 shadow-lg shadow-cyan-500/30 transform scale-105 border border-cyan-100/60',
+    title: 'Watermark PDF Pages',
+    description: 'Stamp a diagonal CONFIDENTIAL or DRAFT watermark, or your logo, onto the pages you choose. Set the opacity, rotation, size, color and position and see the result on every page before downloading.',
+    features: ['Text or image stamps', 'Live page preview', 'Per-page selection']
+  },
+  {
+    id: 'numbers',
+    label: 'Numbers',
+    iconPath: 'M7 20l4-16m2 16l4-16M6 9h14M4 15h14',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-lime-600 shadow-md shadow-lime-500/20 border border-lime-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-lime-600 shadow-lg shadow-lime-500/30 transform scale-105 border border-lime-100/60',
+    title: 'Number PDF Pages',
+    description: 'Add page numbers such as "Page 3 of 12" or Roman numerals to the pages you choose, or stamp Bates numbers with a prefix that run on from one file to the next across a whole batch.',
+    features: ['Custom formats & Roman numerals', 'Bates numbering', 'Batch across files']
+  },
+  {
+    id: 'header-footer',
+    label: 'Header & Footer',
+    iconPath: 'M4 5h16M4 19h16M8 9h8v6H8z',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-violet-600 shadow-md shadow-violet-500/20 border border-violet-100/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-violet-600 shadow-lg shadow-violet-500/30 transform scale-105 border border-violet-100/60',
+    title: 'Add Headers & Footers',
+    description: 'Add running headers and footers with the document title, date, file name, page number or your own text in left, center and right slots. Skip pages such as the cover and preview every page before downloading.',
+    features: ['Left, center & right slots', 'Title, date & page variables', 'Skip cover pages']
+  },
+  {
+    id: 'redact',
+    label: 'Redact',
+    iconPath: 'M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21',
+    mobileActiveClass: 'bg-white/90 backdrop-blur-sm text-slate-700 shadow-md shadow-slate-500/20 border border-slate-200/60',
+    desktopActiveClass: 'bg-white/90 backdrop-blur-sm text-slate-700 shadow-lg shadow-slate-500/30 transform scale-105 border border-slate-200/60',
+    title: 'Redact PDF Content',
+    description: 'Black out account numbers, names or any other text by searching for it or drawing boxes on the page. Marked pages are flattened to images so the text underneath is really gone, and a report confirms nothing was left behind.',
+    features: ['Pattern search & drawn areas', 'Text removed, not covered', 'Verification report']
+  }
+];
 
 // Loading component for suspense fallback
 const LoadingSpinner = () => (
@@ -15,7 +172,10 @@ const LoadingSpinner = () => (
 );
 
 const PDFToolbox: React.FC = () => {
-  const [activeMode, setActiveMode] = useState<'merge' | 'split' | 'remove'>('merge');  return (
+  const [activeMode, setActiveMode] = useState<ToolMode>('merge');
+  const activeConfig = MODES.find(mode => mode.id === activeMode) ?? MODES[0];
+
+  return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 flex flex-col">
       {/* Mobile-Optimized Header Navigation with Enhanced Glass Effect */}
       <header className="bg-white/20 backdrop-blur-xl border-b border-white/30 sticky top-0 z-50 shadow-lg shadow-black/5 flex-shrink-0">
@@ -93,52 +253,25 @@ const PDFToolbox: React.FC = () => {
               </div>
             </div>
               {/* Mode Toggle - Mobile with Enhanced Glass Effect */}
-            <div className="flex bg-white/30 backdrop-blur-md rounded-xl p-1 shadow-lg shadow-black/10 border border-white/40">
-              <button
-                onClick={() => setActiveMode('merge')}
-                className={`flex-1 py-2 px-3 rounded-lg font-medium text-sm transition-all duration-300 ease-out ${
-                  activeMode === 'merge' 
-                    ? 'bg-white/90 backdrop-blur-sm text-blue-600 shadow-md shadow-blue-500/20 border border-blue-100/60' 
-                    : 'text-gray-600 hover:bg-white/40 hover:backdrop-blur-sm'
-                }`}
-              >
-                <span className="flex items-center justify-center space-x-1">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4" />
-                  </svg>
-                  <span>Merge</span>                </span>
-              </button>
-              
-              <button
-                onClick={() => setActiveMode('split')}
-                className={`flex-1 py-2 px-3 rounded-lg font-medium text-sm transition-all duration-300 ease-out ${
-                  activeMode === 'split' 
-                    ? 'bg-white/90 backdrop-blur-sm text-green-600 shadow-md shadow-green-500/20 border border-green-100/60' 
-                    : 'text-gray-600 hover:bg-white/40 hover:backdrop-blur-sm'
-                }`}
-              >
-                <span className="flex items-center justify-center space-x-1">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
-                  </svg>
-                  <span>Split</span>                </span>
-              </button>
-              
-              <button
-                onClick={() => setActiveMode('remove')}
-                className={`flex-1 py-2 px-3 rounded-lg font-medium text-sm transition-all duration-300 ease-out ${
-                  activeMode === 'remove' 
-                    ? 'bg-white/90 backdrop-blur-sm text-red-600 shadow-md shadow-red-500/20 border border-red-100/60' 
-                    : 'text-gray-600 hover:bg-white/40 hover:backdrop-blur-sm'
-                }`}
-              >
-                <span className="flex items-center justify-center space-x-1">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                  <span>Remove</span>
-                </span>
-              </button>
+            <div className="flex bg-white/30 backdrop-blur-md rounded-xl p-1 shadow-lg shadow-black/10 border border-white/40 overflow-x-auto">
+              {MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => setActiveMode(mode.id)}
+                  className={`flex-1 py-2 px-3 rounded-lg font-medium text-sm transition-all duration-300 ease-out whitespace-nowrap ${
+                    activeMode === mode.id 
+                      ? mode.mobileActiveClass 
+                      : 'text-gray-600 hover:bg-white/40 hover:backdrop-blur-sm'
+                  }`}
+                >
+                  <span className="flex items-center justify-center space-x-1">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={mode.iconPath} />
+                    </svg>
+                    <span>{mode.label}</span>
+                  </span>
+                </button>
+              ))}
             </div>
           </div>
 
@@ -162,52 +295,25 @@ const PDFToolbox: React.FC = () => {
               </div>
             </div>            {/* Mode Toggle - Desktop with Enhanced Glass Effect */}
             <div className="flex-1 flex justify-center">
-              <div className="inline-flex bg-white/30 backdrop-blur-md rounded-2xl p-1.5 shadow-lg shadow-black/10 border border-white/40 space-x-8">
-                <button
-                  onClick={() => setActiveMode('merge')}
-                  className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ease-out ${
-                    activeMode === 'merge' 
-                      ? 'bg-white/90 backdrop-blur-sm text-blue-600 shadow-lg shadow-blue-500/30 transform scale-105 border border-blue-100/60' 
-                      : 'text-gray-600 hover:text-gray-800 hover:bg-white/50 hover:backdrop-blur-sm'
-                  }`}
-                >
-                  <span className="flex items-center space-x-2">
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 100 4m0-4v2m0-6V4" />
-                    </svg>
-                    <span>Merge</span>                  </span>
-                </button>
-                
-                <button
-                  onClick={() => setActiveMode('split')}
-                  className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ease-out ${
-                    activeMode === 'split' 
-                      ? 'bg-white/90 backdrop-blur-sm text-green-600 shadow-lg shadow-green-500/30 transform scale-105 border border-green-100/60' 
-                      : 'text-gray-600 hover:text-gray-800 hover:bg-white/50 hover:backdrop-blur-sm'
-                  }`}
-                >
-                  <span className="flex items-center space-x-2">
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
-                    </svg>
-                    <span>Split</span>                  </span>
-                </button>
-                
-                <button
-                  onClick={() => setActiveMode('remove')}
-                  className={`px-6 py-3 rounded-xl font-semibold transition-all duration-300 ease-out ${
-                    activeMode === 'remove' 
-                      ? 'bg-white/90 backdrop-blur-sm text-red-600 shadow-lg shadow-red-500/30 transform scale-105 border border-red-100/60' 
-                      : 'text-gray-600 hover:text-gray-800 hover:bg-white/50 hover:backdrop-blur-sm'
-                  }`}
-                >
-                  <span className="flex items-center space-x-2">
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                    <span>Remove</span>
-                  </span>
-                </button>
+              <div className="inline-flex bg-white/30 backdrop-blur-md rounded-2xl p-1.5 shadow-lg shadow-black/10 border border-white/40 space-x-2">
+                {MODES.map(mode => (
+                  <button
+                    key={mode.id}
+                    onClick={() => setActiveMode(mode.id)}
+                    className={`px-4 xl:px-6 py-3 rounded-xl font-semibold transition-all duration-300 ease-out ${
+                      activeMode === mode.id 
+                        ? mode.desktopActiveClass 
+                        : 'text-gray-600 hover:text-gray-800 hover:bg-white/50 hover:backdrop-blur-sm'
+                    }`}
+                  >
+                    <span className="flex items-center space-x-2">
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={mode.iconPath} />
+                      </svg>
+                      <span>{mode.label}</span>
+                    </span>
+                  </button>
+                ))}
               </div>
             </div>            {/* Right side - Navigation and Feature badges - Desktop with Glass Effect */}
             <div className="flex items-center space-x-3">
@@ -270,97 +376,25 @@ const PDFToolbox: React.FC = () => {
         {/* Hero Section with Mode Description */}
         <div className="w-full mb-6 sm:mb-8">
           <div className="text-center max-w-4xl mx-auto">
-            {activeMode === 'merge' ? (
-              <div className="space-y-3 sm:space-y-4">
-                <h2 className="text-2xl sm:text-4xl font-bold text-gray-800">
-                  Merge Multiple PDFs
-                </h2>
-                <p className="text-base sm:text-xl text-gray-600 leading-relaxed">
-                  Combine multiple PDF files into a single document. Simply upload your files, arrange them in the desired order, and download the merged result.
-                </p>
-                {/* Mobile: Stacked features */}
-                <div className="flex flex-col sm:flex-row sm:justify-center sm:items-center space-y-2 sm:space-y-0 sm:space-x-8 mt-4 sm:mt-6">
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
+            <div className="space-y-3 sm:space-y-4">
+              <h2 className="text-2xl sm:text-4xl font-bold text-gray-800">
+                {activeConfig.title}
+              </h2>
+              <p className="text-base sm:text-xl text-gray-600 leading-relaxed">
+                {activeConfig.description}
+              </p>
+              {/* Mobile: Stacked features */}
+              <div className="flex flex-col sm:flex-row sm:justify-center sm:items-center space-y-2 sm:space-y-0 sm:space-x-8 mt-4 sm:mt-6">
+                {activeConfig.features.map(feature => (
+                  <div key={feature} className="flex items-center justify-center space-x-2 text-gray-600">
                     <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
                       <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                     </svg>
-                    <span className="text-sm sm:text-base">No file limit</span>
+                    <span className="text-sm sm:text-base">{feature}</span>
                   </div>
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">Drag & Drop reordering</span>
-                  </div>
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">High quality output</span>
-                  </div>
-                </div>
-              </div>
-            ) : activeMode === 'split' ? (
-              <div className="space-y-3 sm:space-y-4">
-                <h2 className="text-2xl sm:text-4xl font-bold text-gray-800">
-                  Split PDF into Pages
-                </h2>
-                <p className="text-base sm:text-xl text-gray-600 leading-relaxed">
-                  Extract specific pages from your PDF documents. Select individual pages or page ranges to create new PDF files with exactly the content you need.
-                </p>
-                {/* Mobile: Stacked features */}
-                <div className="flex flex-col sm:flex-row sm:justify-center sm:items-center space-y-2 sm:space-y-0 sm:space-x-8 mt-4 sm:mt-6">
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">Visual page selection</span>
-                  </div>
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">Page range support</span>
-                  </div>
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">Preview thumbnails</span>
-                  </div>
-                </div>
+                ))}
               </div>
-            ) : (
-              <div className="space-y-3 sm:space-y-4">
-                <h2 className="text-2xl sm:text-4xl font-bold text-gray-800">
-                  Remove Pages from PDF
-                </h2>
-                <p className="text-base sm:text-xl text-gray-600 leading-relaxed">
-                  Delete unwanted pages from your PDF documents. Select specific pages or page ranges to remove them and create a cleaner, more focused document.
-                </p>
-                {/* Mobile: Stacked features */}
-                <div className="flex flex-col sm:flex-row sm:justify-center sm:items-center space-y-2 sm:space-y-0 sm:space-x-8 mt-4 sm:mt-6">
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">Visual page selection</span>
-                  </div>
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">Page range support</span>
-                  </div>
-                  <div className="flex items-center justify-center space-x-2 text-gray-600">
-                    <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                    </svg>
-                    <span className="text-sm sm:text-base">Preview thumbnails</span>
-                  </div>
-                </div>
-              </div>
-            )}
+            </div>
           </div>
         </div>        {/* Content - Full Width */}
         <div className="w-full flex-1">
@@ -372,7 +406,18 @@ const PDFToolbox: React.FC = () => {
           <Suspense fallback={<LoadingSpinner />}>
             {activeMode === 'merge' && <PDFMerger key="merger" />}
             {activeMode === 'split' && <PDFSplitter key="splitter" />}
-            {activeMode === 'remove' && <PDFRemover key="remover" />}          </Suspense>
+            {activeMode === 'remove' && <PDFRemover key="remover" />}
+            {activeMode === 'rotate' && <PDFRotator key="rotator" />}
+            {activeMode === 'organize' && <PDFOrganizer key="organizer" />}
+            {activeMode === 'compress' && <PDFCompressor key="compressor" />}
+            {activeMode === 'images' && <PDFImageConverter key="image-converter" />}
+            {activeMode === 'export' && <PDFImageExporter key="image-exporter" />}
+            {activeMode === 'text' && <PDFTextExtractor key="text-extractor" />}
+            {activeMode === 'watermark' && <PDFWatermarker key="watermarker" />}
+            {activeMode === 'numbers' && <PDFPageNumberer key="page-numberer" />}
+            {activeMode === 'header-footer' && <PDFHeaderFooter key="header-footer" />}
+            {activeMode === 'redact' && <PDFRedactor key="redactor" />}
+          </Suspense>
         </div>
       </main>
 
@@ -0,0 +1,606 @@
+import React, { useState, useRef, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import UploadCard from './UploadCard';
+import PdfFileCard from './PdfFileCard';
+import VirtualPageGrid from './VirtualPageGrid';
+import CancelOperationButton from './CancelOperationButton';
+import WatermarkPreview from './WatermarkPreview';
+import StampPositionPicker from './StampPositionPicker';
+import {
+  readFileBytes,
+  addWatermark,
+  parsePageRange,
+  formatPageRange,
+  describeProgress,
+  isCancelledError
+} from '../engine';
+import type { Watermark } from '../engine';
+import { downloadBytes, getBaseName } from '../utils/download';
+import { usePdfUpload } from '../hooks/usePdfUpload';
+import { usePageThumbnails } from '../hooks/usePageThumbnails';
+
+interface StampImage {
+  file: File;
+  // Decoded image drawn by the previews
+  element: HTMLImageElement;
+  url: string;
+}
+
+const TEXT_PRESETS = ['CONFIDENTIAL', 'DRAFT', 'COPY', 'APPROVED'];
+
+const DEFAULT_WATERMARK: Watermark = {
+  kind: 'text',
+  text: 'CONFIDENTIAL',
+  fontSize: 60,
+  color: '#dc2626',
+  imageScale: 0.3,
+  opacity: 0.3,
+  rotation: 45,
+  position: 'center'
+};
+
+const PDFWatermarker: React.FC = () => {
+  const [pageRange, setPageRange] = useState('');
+  const [selectedPages, setSelectedPages] = useState<number[]>([]);
+  const [watermark, setWatermark] = useState<Watermark>(DEFAULT_WATERMARK);
+  const [stampImage, setStampImage] = useState<StampImage | null>(null);
+  const [isOperationRunning, setIsOperationRunning] = useState(false);
+
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Cleanup function when component unmounts
+  useEffect(() => {
+    return () => {
+      operationControllerRef.current?.abort();
+    };
+  }, []);
+
+  const upload = usePdfUpload(() => {
+    setSelectedPages([]);
+    setPageRange('');
+  });
+  const { pdfFile, isLoading, setIsLoading } = upload;
+  const pageThumbnails = usePageThumbnails(pdfFile?.file ?? null, pdfFile?.pageCount ?? 0, true);
+
+  // Release the stamp image's object URL once it is replaced or the tool closes
+  useEffect(() => {
+    return () => {
+      if (stampImage) URL.revokeObjectURL(stampImage.url);
+    };
+  }, [stampImage]);
+
+  const removeFile = () => {
+    operationControllerRef.current?.abort();
+
+    upload.removeFile();
+    setPageRange('');
+    setSelectedPages([]);
+  };
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.type !== 'image/jpeg' && file.type !== 'image/png') {
+      toast.error(`"${file.name}" is not a JPG or PNG image.`);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    const element = new Image();
+    element.onload = () => {
+      setStampImage({ file, element, url });
+      setWatermark(prev => ({ ...prev, kind: 'image' }));
+    };
+    element.onerror = () => {
+      URL.revokeObjectURL(url);
+      toast.error(`Failed to read "${file.name}". The image may be corrupted.`);
+    };
+    element.src = url;
+  };
+
+  const updateWatermark = <K extends keyof Watermark>(field: K, value: Watermark[K]) => {
+    setWatermark(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updatePageRangeFromSelection = (pages: number[]) => {
+    setPageRange(formatPageRange(pages));
+  };
+
+  const handlePageClick = (pageNumber: number) => {
+    setSelectedPages(prev => {
+      const newSelected = prev.includes(pageNumber)
+        ? prev.filter(p => p !== pageNumber)
+        : [...prev, pageNumber].sort((a, b) => a - b);
+
+      updatePageRangeFromSelection(newSelected);
+      return newSelected;
+    });
+  };
+
+  const handlePageRangeChange = (range: string) => {
+    setPageRange(range);
+    const parsedPages = parsePageRange(range);
+    const validPages = parsedPages.filter(p => p >= 1 && p <= (pdfFile?.pageCount || 0));
+    setSelectedPages(validPages);
+  };
+
+  // With nothing selected every page is stamped
+  const stampedPageCount = selectedPages.length > 0 ? selectedPages.length : (pdfFile?.pageCount || 0);
+  const isStamped = (pageNumber: number) => selectedPages.length === 0 || selectedPages.includes(pageNumber);
+
+  const saveWatermarkedPDF = async () => {
+    if (!pdfFile) {
+      toast.error('No file selected.');
+      return;
+    }
+
+    if (watermark.kind === 'text' && !watermark.text.trim()) {
+      toast.error('Enter the watermark text.');
+      return;
+    }
+
+    if (watermark.kind === 'image' && !stampImage) {
+      toast.error('Choose a JPG or PNG image to stamp.');
+      return;
+    }
+
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsLoading(true);
+    setIsOperationRunning(true);
+    const loadingToast = toast.loading('Adding watermark...');
+
+    try {
+      const bytes = await readFileBytes(pdfFile.file, { signal });
+      const image = watermark.kind === 'image' && stampImage ? await readFileBytes(stampImage.file, { signal }) : undefined;
+      const pdfBytes = await addWatermark(bytes, selectedPages, watermark, image, {
+        signal,
+        onProgress: progress => toast.loading(describeProgress(progress), { id: loadingToast })
+      });
+      downloadBytes(pdfBytes, `${getBaseName(pdfFile.name)}-watermarked.pdf`);
+
+      toast.success(`Watermarked ${stampedPageCount} page${stampedPageCount !== 1 ? 's' : ''}! File downloaded.`, { id: loadingToast });
+    } catch (watermarkError: unknown) {
+      if (isCancelledError(watermarkError)) {
+        toast('Watermarking cancelled. Nothing was downloaded.', { id: loadingToast });
+        return;
+      }
+      console.error('Error adding watermark:', watermarkError);
+      const errorMessage = watermarkError instanceof Error ? watermarkError.message : 'Please ensure the file is a valid PDF document.';
+      toast.error(`Failed to add watermark. ${errorMessage}`, { id: loadingToast });
+    } finally {
+      operationControllerRef.current = null;
+      setIsOperationRunning(false);
+      setIsLoading(false);
+    }
+  };
+
+  const cancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
+  const canSave = !isLoading && (watermark.kind === 'text' ? watermark.text.trim() !== '' : stampImage !== null);
+
+  const renderPageCard = (pageNumber: number) => {
+    const isSelected = selectedPages.includes(pageNumber);
+    const thumbnail = pageThumbnails.thumbnails.get(pageNumber);
+    const pageSize = pageThumbnails.pageSizes.get(pageNumber);
+
+    return (
+      <div
+        onClick={() => handlePageClick(pageNumber)}
+        className={`group relative rounded-2xl transition-all duration-200 cursor-pointer hover:shadow-xl ${
+          isSelected
+            ? 'ring-4 ring-cyan-400 ring-opacity-75 shadow-xl'
+            : 'hover:shadow-lg'
+        }`}
+      >
+        {/* Selection Checkbox */}
+        <div className="absolute -top-2 -right-2 z-20">
+          <div className={`w-8 h-8 rounded-full border-2 flex items-center justify-center shadow-lg transition-all ${
+            isSelected
+              ? 'bg-cyan-500 border-cyan-500 text-white'
+              : 'bg-white border-gray-300 hover:border-cyan-400'
+          }`}>
+            {isSelected && (
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Page content */}
+        <div className="bg-white border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+          <div className="aspect-[3/4] relative overflow-hidden">
+            {thumbnail && pageSize && isStamped(pageNumber) ? (
+              <WatermarkPreview
+                thumbnail={thumbnail}
+                pageWidth={pageSize.width}
+                pageHeight={pageSize.height}
+                watermark={watermark}
+                image={stampImage?.element ?? null}
+                alt={`Page ${pageNumber} with watermark`}
+              />
+            ) : thumbnail ? (
+              <img
+                src={thumbnail}
+                alt={`Page ${pageNumber}`}
+                className="w-full h-full object-contain"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gray-100">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-600"></div>
+              </div>
+            )}
+
+            {/* Page number overlay */}
+            <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {pageNumber}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-cyan-500/10 border border-gray-200/50 backdrop-blur-sm">
+      {/* Main Content - Full Width Horizontal Layout */}
+      <div className="flex flex-col xl:flex-row min-h-[600px]">
+        {/* Left Side - Upload Area & Controls */}
+        <div className="w-full xl:w-96 flex-shrink-0 border-b xl:border-b-0 xl:border-r border-gray-200/50 bg-gradient-to-br from-cyan-50/50 to-sky-50/50">
+          <div className="p-6 sm:p-8 space-y-6">
+            {/* Upload Section with Current File Preview */}
+            {!pdfFile ? (
+              <UploadCard
+                isLoading={isLoading}
+                isDragOver={upload.isDragOver}
+                onDragOver={upload.handleDragOver}
+                onDragLeave={upload.handleDragLeave}
+                onDrop={upload.handleDrop}
+                onFileChange={upload.handleFileUpload}
+                multiple={false}
+                title="Watermark PDF"
+                subtitle="Stamp text or a logo onto pages"
+                loadingText="Processing PDF..."
+                loadingSubtext="Please wait while we analyze your file"
+                supportedFormats="Single PDF file"
+                theme="cyan"
+              />
+            ) : (
+              <PdfFileCard
+                pdf={pdfFile}
+                onFileChange={upload.handleFileUpload}
+                onRemove={removeFile}
+                theme="cyan"
+              />
+            )}
+
+            {/* Watermark Controls */}
+            {pdfFile && (
+              <div className="border-2 border-cyan-200 rounded-2xl p-6 bg-gradient-to-br from-cyan-50 to-sky-50">
+                <h4 className="font-bold text-cyan-800 mb-4 flex items-center text-lg">
+                  <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4M7.835 4.697a3.42 3.42 0 001.946-.806 3.42 3.42 0 014.438 0 3.42 3.42 0 001.946.806 3.42 3.42 0 013.138 3.138 3.42 3.42 0 00.806 1.946 3.42 3.42 0 010 4.438 3.42 3.42 0 00-.806 1.946 3.42 3.42 0 01-3.138 3.138 3.42 3.42 0 00-1.946.806 3.42 3.42 0 01-4.438 0 3.42 3.42 0 00-1.946-.806 3.42 3.42 0 01-3.138-3.138 3.42 3.42 0 00-.806-1.946 3.42 3.42 0 010-4.438 3.42 3.42 0 00.806-1.946 3.42 3.42 0 013.138-3.138z" />
+                  </svg>
+                  Add Watermark
+                </h4>
+
+                {/* Text or Image */}
+                <div className="mb-6">
+                  <div className="flex bg-white rounded-xl p-1 border border-cyan-200">
+                    {(['text', 'image'] as const).map(kind => (
+                      <button
+                        key={kind}
+                        onClick={() => updateWatermark('kind', kind)}
+                        className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                          watermark.kind === kind ? 'bg-cyan-600 text-white shadow' : 'text-gray-600 hover:bg-cyan-50'
+                        }`}
+                      >
+                        {kind === 'text' ? 'Text' : 'Image'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {watermark.kind === 'text' ? (
+                  <div className="mb-6 space-y-3">
+                    <div>
+                      <label htmlFor="watermark-text" className="block text-sm font-semibold text-gray-700 mb-3">
+                        Text
+                      </label>
+                      <input
+                        id="watermark-text"
+                        type="text"
+                        value={watermark.text}
+                        onChange={(e) => updateWatermark('text', e.target.value)}
+                        placeholder="e.g., CONFIDENTIAL"
+                        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-all duration-200"
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {TEXT_PRESETS.map(preset => (
+                        <button
+                          key={preset}
+                          onClick={() => updateWatermark('text', preset)}
+                          className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                            watermark.text === preset
+                              ? 'bg-cyan-600 text-white border-cyan-600'
+                              : 'bg-white text-cyan-700 border-cyan-300 hover:bg-cyan-100'
+                          }`}
+                        >
+                          {preset}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-end gap-3">
+                      <div className="flex-1">
+                        <label htmlFor="watermark-font-size" className="block text-sm text-gray-700 mb-1">
+                          Font size: <span className="font-semibold">{watermark.fontSize} pt</span>
+                        </label>
+                        <input
+                          id="watermark-font-size"
+                          type="range"
+                          min={8}
+                          max={160}
+                          value={watermark.fontSize}
+                          onChange={(e) => updateWatermark('fontSize', Number(e.target.value))}
+                          className="w-full accent-cyan-600"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="watermark-color" className="block text-sm text-gray-700 mb-1">Color</label>
+                        <input
+                          id="watermark-color"
+                          type="color"
+                          value={watermark.color}
+                          onChange={(e) => updateWatermark('color', e.target.value)}
+                          className="w-12 h-9 p-0.5 border border-gray-300 rounded-lg cursor-pointer bg-white"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Drawn in Helvetica Bold, which covers Latin letters, digits and common punctuation.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="mb-6 space-y-3">
+                    <div className="flex items-center gap-3">
+                      {stampImage && (
+                        <div className="w-16 h-16 bg-white border border-gray-200 rounded-lg flex items-center justify-center overflow-hidden flex-shrink-0">
+                          <img src={stampImage.url} alt={stampImage.file.name} className="max-w-full max-h-full object-contain" />
+                        </div>
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <button
+                          onClick={() => imageInputRef.current?.click()}
+                          className="px-4 py-2 bg-white text-cyan-700 border border-cyan-300 rounded-lg hover:bg-cyan-100 transition-colors text-sm font-semibold"
+                        >
+                          {stampImage ? 'Change Image' : 'Choose Image'}
+                        </button>
+                        {stampImage && (
+                          <p className="text-xs text-gray-500 truncate mt-1" title={stampImage.file.name}>{stampImage.file.name}</p>
+                        )}
+                      </div>
+                      <input
+                        ref={imageInputRef}
+                        type="file"
+                        accept=".jpg,.jpeg,.png,image/jpeg,image/png"
+                        onChange={handleImageUpload}
+                        className="hidden"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="watermark-image-scale" className="block text-sm text-gray-700 mb-1">
+                        Width: <span className="font-semibold">{Math.round(watermark.imageScale * 100)}% of the page</span>
+                      </label>
+                      <input
+                        id="watermark-image-scale"
+                        type="range"
+                        min={5}
+                        max={100}
+                        value={Math.round(watermark.imageScale * 100)}
+                        onChange={(e) => updateWatermark('imageScale', Number(e.target.value) / 100)}
+                        className="w-full accent-cyan-600"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">PNG transparency is kept, which suits logos.</p>
+                  </div>
+                )}
+
+                {/* Appearance */}
+                <div className="mb-6 space-y-3">
+                  <div>
+                    <label htmlFor="watermark-opacity" className="block text-sm text-gray-700 mb-1">
+                      Opacity: <span className="font-semibold">{Math.round(watermark.opacity * 100)}%</span>
+                    </label>
+                    <input
+                      id="watermark-opacity"
+                      type="range"
+                      min={5}
+                      max={100}
+                      value={Math.round(watermark.opacity * 100)}
+                      onChange={(e) => updateWatermark('opacity', Number(e.target.value) / 100)}
+                      className="w-full accent-cyan-600"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="watermark-rotation" className="block text-sm text-gray-700 mb-1">
+                      Rotation: <span className="font-semibold">{watermark.rotation}°</span>
+                    </label>
+                    <input
+                      id="watermark-rotation"
+                      type="range"
+                      min={-90}
+                      max={90}
+                      step={5}
+                      value={watermark.rotation}
+                      onChange={(e) => updateWatermark('rotation', Number(e.target.value))}
+                      className="w-full accent-cyan-600"
+                    />
+                  </div>
+                  <div>
+                    <p className="block text-sm text-gray-700 mb-1">Position</p>
+                    <StampPositionPicker
+                      value={watermark.position}
+                      onChange={position => updateWatermark('position', position)}
+                      theme="cyan"
+                    />
+                  </div>
+                </div>
+
+                {/* Page Range Input */}
+                <div className="mb-6">
+                  <label htmlFor="watermark-page-range" className="block text-sm font-semibold text-gray-700 mb-3">
+                    Pages to Stamp
+                  </label>
+                  <input
+                    id="watermark-page-range"
+                    type="text"
+                    value={pageRange}
+                    onChange={(e) => handlePageRangeChange(e.target.value)}
+                    placeholder="All pages, or e.g., 1-3, 5"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-all duration-200"
+                  />
+                  <p className="mt-3 text-sm text-cyan-600 font-medium">
+                    {selectedPages.length > 0
+                      ? `${selectedPages.length} page${selectedPages.length !== 1 ? 's' : ''} selected`
+                      : 'Every page will be stamped'}
+                  </p>
+                </div>
+
+                {/* Save Button */}
+                <button
+                  onClick={saveWatermarkedPDF}
+                  disabled={!canSave}
+                  className={`w-full px-6 py-4 rounded-xl font-bold text-lg transition-all duration-200 ${
+                    !canSave
+                      ? 'bg-gray-400 text-white cursor-not-allowed'
+                      : 'bg-gradient-to-r from-cyan-600 to-sky-600 text-white hover:from-cyan-700 hover:to-sky-700 transform hover:scale-105 shadow-xl'
+                  }`}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center">
+                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      {isOperationRunning ? 'Stamping...' : 'Loading...'}
+                    </div>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Save Watermarked PDF
+                    </span>
+                  )}
+                </button>
+
+                {isOperationRunning && (
+                  <CancelOperationButton onCancel={cancelOperation} label="Cancel Watermarking" />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right Side - Pages Grid - Full Width */}
+        <div className="flex-1 p-6 sm:p-8 bg-gray-50/30">
+          {pdfFile ? (
+            <div className="h-full">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-800 mb-2">
+                    Preview ({pdfFile.pageCount || 0} total pages)
+                  </h3>
+                  <p className="text-gray-600">
+                    Click pages to stamp only those; the preview updates as you change the watermark
+                    {pageThumbnails.isRendering && (
+                      <span className="text-cyan-600 ml-2">
+                        • Rendering previews...
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {selectedPages.length > 0 && (
+                  <button
+                    onClick={() => {
+                      setSelectedPages([]);
+                      setPageRange('');
+                    }}
+                    className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors font-medium flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Clear Selection
+                  </button>
+                )}
+              </div>
+
+              {/* Pages Grid */}
+              <VirtualPageGrid
+                pageCount={pdfFile.pageCount}
+                renderPage={renderPageCard}
+                onVisibleRangeChange={pageThumbnails.showPages}
+              />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-[450px] text-center py-8">
+              <div className="max-w-lg mx-auto h-full flex flex-col justify-center">
+                <div className="w-24 h-24 mx-auto mb-6 bg-gradient-to-br from-cyan-100 to-sky-100 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-cyan-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4M7.835 4.697a3.42 3.42 0 001.946-.806 3.42 3.42 0 014.438 0 3.42 3.42 0 001.946.806 3.42 3.42 0 013.138 3.138 3.42 3.42 0 00.806 1.946 3.42 3.42 0 010 4.438 3.42 3.42 0 00-.806 1.946 3.42 3.42 0 01-3.138 3.138 3.42 3.42 0 00-1.946.806 3.42 3.42 0 01-4.438 0 3.42 3.42 0 00-1.946-.806 3.42 3.42 0 01-3.138-3.138 3.42 3.42 0 00-.806-1.946 3.42 3.42 0 010-4.438 3.42 3.42 0 00.806-1.946 3.42 3.42 0 013.138-3.138z" />
+                  </svg>
+                </div>
+                <h4 className="text-xl font-bold text-gray-900 mb-3">
+                  Ready to watermark your PDF
+                </h4>
+                <p className="text-gray-600 mb-6 text-base leading-relaxed">
+                  Upload a PDF file using the upload area to stamp a watermark or logo onto its pages.
+                </p>
+                <div className="bg-gradient-to-br from-cyan-50 to-sky-50 rounded-2xl p-6 text-left border border-cyan-200">
+                  <h5 className="font-bold text-gray-800 mb-3 flex items-center text-base">
+                    <span className="w-6 h-6 bg-cyan-500 rounded-full flex items-center justify-center mr-3">
+                      <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </span>
+                    How to add a watermark:
+                  </h5>
+                  <div className="space-y-2 text-xs text-gray-700">
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-cyan-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">1</span>
+                      <span>Upload a PDF file by clicking "Choose File" or dragging it into the upload area</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-cyan-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">2</span>
+                      <span>Type the text, such as CONFIDENTIAL or DRAFT, or choose a JPG or PNG logo</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-cyan-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">3</span>
+                      <span>Adjust opacity, rotation, size, color and position while watching the preview</span>
+                    </div>
+                    <div className="flex items-start">
+                      <span className="w-6 h-6 bg-cyan-500 text-white rounded-full flex items-center justify-center text-xs font-bold mr-3 mt-0.5 flex-shrink-0">4</span>
+                      <span>Pick pages or leave all selected, then click "Save Watermarked PDF"</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      {upload.passwordPrompt}
+    </div>
+  );
+};
+
+export default PDFWatermarker;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { formatPageRange } from '../engine';
+import type { PageSearch } from '../hooks/usePageSearch';
+
+interface PageSearchBoxProps {
+  search: PageSearch;
+  theme: 'green' | 'red';
+  onSelectMatches: (pageNumbers: number[]) => void;
+  onShowPage?: (pageNumber: number) => void;
+  disabled?: boolean;
+}
+
+const THEMES = {
+  green: {
+    border: 'border-green-200',
+    title: 'text-green-800',
+    checkbox: 'text-green-600 focus:ring-green-500',
+    input: 'focus:ring-green-500 focus:border-green-500',
+    button: 'bg-green-600 hover:bg-green-700',
+    count: 'text-green-600'
+  },
+  red: {
+    border: 'border-red-200',
+    title: 'text-red-800',
+    checkbox: 'text-red-600 focus:ring-red-500',
+    input: 'focus:ring-red-500 focus:border-red-500',
+    button: 'bg-red-600 hover:bg-red-700',
+    count: 'text-red-600'
+  }
+};
+
+// Hits listed under the search box; the grid highlights all of them
+const MAX_LISTED_MATCHES = 50;
+
+/**
+ * Search box that finds the pages containing some text, lists them with the first hit in
+ * context and selects all of them at once
+ */
+const PageSearchBox: React.FC<PageSearchBoxProps> = ({ search, theme, onSelectMatches, onShowPage, disabled = false }) => {
+  const colors = THEMES[theme];
+  const { query, matches, matchingPages, progress } = search;
+  const hitCount = matches.reduce((total, match) => total + match.count, 0);
+
+  return (
+    <div className={`border-2 ${colors.border} rounded-2xl p-6 bg-white`}>
+      <h4 className={`font-bold ${colors.title} mb-4 flex items-center text-lg`}>
+        <svg className="w-6 h-6 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        Find Pages
+      </h4>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => search.setQuery(e.target.value)}
+        placeholder="Search the text of every page"
+        aria-label="Search page text"
+        className={`w-full px-4 py-3 border border-gray-300 rounded-xl transition-all duration-200 focus:ring-2 ${colors.input}`}
+      />
+      <div className="flex items-center gap-4 mt-3">
+        <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={search.matchCase}
+            onChange={(e) => search.setMatchCase(e.target.checked)}
+            className={`mr-2 h-4 w-4 border-gray-300 rounded ${colors.checkbox}`}
+          />
+          Match case
+        </label>
+        <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={search.wholeWords}
+            onChange={(e) => search.setWholeWords(e.target.checked)}
+            className={`mr-2 h-4 w-4 border-gray-300 rounded ${colors.checkbox}`}
+          />
+          Whole words
+        </label>
+      </div>
+
+      {progress && (
+        <p className="mt-3 text-sm text-gray-500">
+          Indexing text... ({progress.current}/{progress.total} pages)
+        </p>
+      )}
+      {search.error && <p className="mt-3 text-sm text-red-600">{search.error}</p>}
+
+      {search.isActive && (
+        <div className="mt-4">
+          <p className={`text-sm font-medium ${matches.length > 0 ? colors.count : 'text-gray-500'}`}>
+            {matches.length > 0
+              ? `${hitCount} match${hitCount !== 1 ? 'es' : ''} on ${matches.length} page${matches.length !== 1 ? 's' : ''}`
+              : 'No pages contain this text'}
+          </p>
+          {matches.length > 0 && (
+            <p className="text-xs text-gray-500 mt-1 break-words">Pages {formatPageRange(matchingPages)}</p>
+          )}
+          {search.emptyPageCount > 0 && (
+            <p className="text-xs text-amber-600 mt-1">
+              {search.emptyPageCount} page{search.emptyPageCount !== 1 ? 's have' : ' has'} no text layer and can't be searched.
+            </p>
+          )}
+
+          {matches.length > 0 && (
+            <>
+              <button
+                onClick={() => onSelectMatches(matchingPages)}
+                disabled={disabled}
+                className={`w-full mt-3 px-4 py-2 text-white rounded-lg transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed ${colors.button}`}
+              >
+                Select All Matching Pages
+              </button>
+              <ul className="mt-3 max-h-56 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                {matches.slice(0, MAX_LISTED_MATCHES).map(match => (
+                  <li key={match.pageNumber}>
+                    <button
+                      onClick={() => onShowPage?.(match.pageNumber)}
+                      disabled={!onShowPage}
+                      className="w-full text-left px-3 py-2 text-xs text-gray-600 hover:bg-gray-50 disabled:cursor-default"
+                    >
+                      <span className="font-semibold text-gray-800 mr-2">
+                        Page {match.pageNumber}{match.count > 1 ? ` (${match.count})` : ''}
+                      </span>
+                      {match.snippet.before}
+                      <mark className="bg-yellow-200 text-gray-900 rounded px-0.5">{match.snippet.match}</mark>
+                      {match.snippet.after}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {matches.length > MAX_LISTED_MATCHES && (
+                <p className="text-xs text-gray-400 mt-2">
+                  Showing the first {MAX_LISTED_MATCHES} of {matches.length} pages
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageSearchBox;
@@ -0,0 +1,292 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { readFileBytes, loadRenderDocument, getPageSize, renderPageImage, isCancelledError } from '../engine';
+import type { RenderDocument } from '../engine';
+
+interface PageViewerProps {
+  file: File;
+  pageCount: number;
+  initialPage: number;
+  onClose: () => void;
+  // Selection stays with the tool; the viewer only shows it and asks for changes
+  isSelected?: (pageNumber: number) => boolean;
+  onToggleSelect?: (pageNumber: number) => void;
+  selectLabel?: string;
+  selectedLabel?: string;
+  theme: 'blue' | 'green' | 'red';
+}
+
+// Fit modes follow the viewer size; a number is a fixed zoom where 1 is 100%
+type Zoom = 'fit-page' | 'fit-width' | number;
+
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+// 100% shows a PDF point as 1/72 inch, the way desktop viewers do
+const CSS_PIXELS_PER_POINT = 96 / 72;
+// Room kept around the page inside the scroll area, in CSS pixels
+const PAGE_MARGIN = 24;
+// Waits for zooming and resizing to settle before rendering again
+const RENDER_DELAY_MS = 150;
+
+const THEMES = {
+  blue: { selected: 'bg-blue-600 hover:bg-blue-700 text-white border-blue-600', ring: 'ring-blue-500' },
+  green: { selected: 'bg-green-600 hover:bg-green-700 text-white border-green-600', ring: 'ring-green-500' },
+  red: { selected: 'bg-red-600 hover:bg-red-700 text-white border-red-600', ring: 'ring-red-500' }
+};
+
+/**
+ * Full-screen view of one page at a time, rendered sharp at the current zoom. Arrow keys
+ * move between pages, + and - zoom and Escape closes.
+ */
+const PageViewer: React.FC<PageViewerProps> = ({
+  file,
+  pageCount,
+  initialPage,
+  onClose,
+  isSelected,
+  onToggleSelect,
+  selectLabel = 'Select Page',
+  selectedLabel = 'Selected',
+  theme
+}) => {
+  const [pdf, setPdf] = useState<RenderDocument | null>(null);
+  const [pageNumber, setPageNumber] = useState(initialPage);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState<Zoom>('fit-page');
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [image, setImage] = useState<{ url: string; pageNumber: number } | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const colors = THEMES[theme];
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let renderDocument: RenderDocument | null = null;
+
+    const load = async () => {
+      try {
+        const bytes = await readFileBytes(file, { signal: controller.signal });
+        renderDocument = await loadRenderDocument(bytes);
+        if (controller.signal.aborted) {
+          renderDocument.destroy();
+          return;
+        }
+        setPdf(renderDocument);
+      } catch (loadError: unknown) {
+        if (isCancelledError(loadError)) return;
+        console.error('Error opening page viewer:', loadError);
+        setError('Could not open this PDF.');
+      }
+    };
+    load();
+
+    return () => {
+      controller.abort();
+      renderDocument?.destroy();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() => {
+      setViewportSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let isCurrent = true;
+    getPageSize(pdf, pageNumber)
+      .then(size => isCurrent && setPageSize(size))
+      .catch(sizeError => console.error(`Error reading the size of page ${pageNumber}:`, sizeError));
+    return () => {
+      isCurrent = false;
+    };
+  }, [pdf, pageNumber]);
+
+  // CSS pixels per PDF point for the current zoom
+  const getScale = (): number => {
+    if (typeof zoom === 'number') return zoom * CSS_PIXELS_PER_POINT;
+    if (!pageSize || viewportSize.width === 0) return CSS_PIXELS_PER_POINT;
+    const widthScale = Math.max(viewportSize.width - PAGE_MARGIN * 2, 50) / pageSize.width;
+    if (zoom === 'fit-width') return widthScale;
+    const heightScale = Math.max(viewportSize.height - PAGE_MARGIN * 2, 50) / pageSize.height;
+    return Math.min(widthScale, heightScale);
+  };
+  // Rounded so small resizes don't render the page again
+  const scale = Math.round(getScale() * 100) / 100;
+
+  useEffect(() => {
+    if (!pdf || !pageSize) return;
+    const controller = new AbortController();
+
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+      try {
+        const dpi = 72 * scale * (window.devicePixelRatio || 1);
+        const { data } = await renderPageImage(pdf, pageNumber, { dpi, format: 'png', signal: controller.signal });
+        if (controller.signal.aborted) return;
+        setImage({ url: URL.createObjectURL(new Blob([data as BlobPart], { type: 'image/png' })), pageNumber });
+        setError(null);
+      } catch (renderError: unknown) {
+        if (isCancelledError(renderError) || controller.signal.aborted) return;
+        console.error(`Error rendering page ${pageNumber}:`, renderError);
+        setError(`Could not render page ${pageNumber}.`);
+      } finally {
+        if (!controller.signal.aborted) setIsRendering(false);
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [pdf, pageNumber, pageSize, scale]);
+
+  // The image stays on screen until the next one is ready, then its URL is released
+  useEffect(() => {
+    return () => {
+      if (image) URL.revokeObjectURL(image.url);
+    };
+  }, [image]);
+
+  const goToPage = useCallback((page: number) => {
+    setPageNumber(Math.min(Math.max(page, 1), pageCount));
+  }, [pageCount]);
+
+  const currentZoom = scale / CSS_PIXELS_PER_POINT;
+  const zoomIn = useCallback(() => {
+    setZoom(ZOOM_STEPS.find(step => step > currentZoom + 0.01) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1]);
+  }, [currentZoom]);
+  const zoomOut = useCallback(() => {
+    setZoom([...ZOOM_STEPS].reverse().find(step => step < currentZoom - 0.01) ?? ZOOM_STEPS[0]);
+  }, [currentZoom]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === 'ArrowLeft' || event.key === 'PageUp') {
+        event.preventDefault();
+        goToPage(pageNumber - 1);
+      } else if (event.key === 'ArrowRight' || event.key === 'PageDown') {
+        event.preventDefault();
+        goToPage(pageNumber + 1);
+      } else if (event.key === 'Home') {
+        goToPage(1);
+      } else if (event.key === 'End') {
+        goToPage(pageCount);
+      } else if (event.key === '+' || event.key === '=') {
+        zoomIn();
+      } else if (event.key === '-') {
+        zoomOut();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, goToPage, pageNumber, pageCount, zoomIn, zoomOut]);
+
+  const selected = isSelected?.(pageNumber) ?? false;
+  const displayWidth = pageSize ? pageSize.width * scale : 0;
+  const displayHeight = pageSize ? pageSize.height * scale : 0;
+
+  const toolbarButton = 'px-3 py-1.5 text-sm font-medium text-gray-200 border border-white/20 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+  const fitButton = (mode: Zoom) => `${toolbarButton} ${zoom === mode ? 'bg-white/20' : ''}`;
+
+  // Rendered on the body so draggable or clipped page cards don't affect the viewer
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Page ${pageNumber} of ${file.name}`}
+      className="fixed inset-0 z-50 flex flex-col bg-gray-900/95 backdrop-blur-sm"
+    >
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-white/10 text-white">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold truncate" title={file.name}>{file.name}</p>
+          <p className="text-xs text-gray-400">Page {pageNumber} of {pageCount}</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1} className={toolbarButton} title="Previous page (←)">
+            ‹ Prev
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={pageCount}
+            value={pageNumber}
+            onChange={(e) => {
+              const page = parseInt(e.target.value, 10);
+              if (!isNaN(page)) goToPage(page);
+            }}
+            aria-label="Page number"
+            className="w-16 px-2 py-1.5 text-sm text-center text-gray-900 rounded-lg"
+          />
+          <button onClick={() => goToPage(pageNumber + 1)} disabled={pageNumber >= pageCount} className={toolbarButton} title="Next page (→)">
+            Next ›
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={zoomOut} disabled={currentZoom <= ZOOM_STEPS[0]} className={toolbarButton} title="Zoom out (-)">−</button>
+          <span className="w-14 text-center text-sm tabular-nums">{Math.round(currentZoom * 100)}%</span>
+          <button onClick={zoomIn} disabled={currentZoom >= ZOOM_STEPS[ZOOM_STEPS.length - 1]} className={toolbarButton} title="Zoom in (+)">+</button>
+          <button onClick={() => setZoom('fit-width')} className={fitButton('fit-width')}>Fit Width</button>
+          <button onClick={() => setZoom('fit-page')} className={fitButton('fit-page')}>Fit Page</button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {onToggleSelect && (
+            <button
+              onClick={() => onToggleSelect(pageNumber)}
+              className={`px-4 py-1.5 text-sm font-semibold rounded-lg border transition-colors ${
+                selected ? colors.selected : 'text-white border-white/40 hover:bg-white/10'
+              }`}
+            >
+              {selected ? `✓ ${selectedLabel}` : selectLabel}
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 text-gray-300 rounded-lg hover:bg-white/10 transition-colors" title="Close (Esc)">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Page */}
+      <div ref={viewportRef} className="relative flex-1 overflow-auto">
+        {error ? (
+          <div className="h-full flex items-center justify-center text-red-300">{error}</div>
+        ) : !pageSize ? (
+          <div className="h-full flex items-center justify-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+          </div>
+        ) : (
+          <div className="min-w-full min-h-full flex items-center justify-center" style={{ padding: PAGE_MARGIN }}>
+            <div
+              className={`relative flex-shrink-0 bg-white shadow-2xl ${selected ? `ring-4 ${colors.ring}` : ''}`}
+              style={{ width: displayWidth, height: displayHeight }}
+            >
+              {image && image.pageNumber === pageNumber && (
+                <img src={image.url} alt={`Page ${pageNumber}`} className="block w-full h-full" draggable={false} />
+              )}
+              {isRendering && (
+                <div className="absolute top-3 right-3 w-6 h-6 animate-spin rounded-full border-b-2 border-gray-500"></div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PageViewer;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+
+interface PasswordDialogProps {
+  fileName: string;
+  // Shown under the field, e.g. after a wrong password
+  error?: string;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the password of an encrypted PDF
+ */
+const PasswordDialog: React.FC<PasswordDialogProps> = ({ fileName, error, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (password) {
+      onSubmit(password);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="password-dialog-title"
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white rounded-3xl shadow-2xl border border-gray-200/50"
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-slate-100 rounded-xl flex items-center justify-center flex-shrink-0">
+              <svg className="w-5 h-5 text-slate-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            </div>
+            <div className="min-w-0">
+              <h3 id="password-dialog-title" className="text-xl font-bold text-gray-800">Password Required</h3>
+              <p className="text-sm text-gray-500 truncate" title={fileName}>{fileName}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Password */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            This PDF is protected. Enter its password to open it. The password is only used in your browser,
+            and files you download from it are saved without a password unless you protect them again.
+          </p>
+          <div>
+            <label htmlFor="pdf-password" className="block text-sm font-semibold text-gray-700 mb-1">
+              Password
+            </label>
+            <input
+              id="pdf-password"
+              type={showPassword ? 'text' : 'password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              autoComplete="off"
+              className={`w-full px-4 py-2 border rounded-xl focus:ring-2 transition-all duration-200 ${
+                error
+                  ? 'border-red-400 focus:ring-red-500 focus:border-red-500'
+                  : 'border-gray-300 focus:ring-slate-500 focus:border-slate-500'
+              }`}
+            />
+            {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showPassword}
+              onChange={(e) => setShowPassword(e.target.checked)}
+              className="rounded border-gray-300 text-slate-600 focus:ring-slate-500"
+            />
+            Show password
+          </label>
+
+          {/* Actions */}
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-3 text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-100 transition-colors font-medium"
+            >
+              Skip File
+            </button>
+            <button
+              type="submit"
+              disabled={!password}
+              className={`px-6 py-3 rounded-xl font-bold transition-all duration-200 ${
+                password
+                  ? 'bg-gradient-to-r from-slate-700 to-slate-900 text-white hover:from-slate-800 hover:to-black shadow-xl'
+                  : 'bg-gray-400 text-white cursor-not-allowed'
+              }`}
+            >
+              Unlock
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PasswordDialog;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { findProtectionProblem } from '../engine';
+import type { PasswordProtection } from '../engine';
+
+interface PasswordProtectionOptionsProps {
+  // null while protection is switched off
+  value: PasswordProtection | null;
+  onChange: (value: PasswordProtection | null) => void;
+  theme: 'blue' | 'green' | 'red';
+  disabled?: boolean;
+}
+
+type Permission = 'allowPrinting' | 'allowCopying' | 'allowModifying';
+
+const PERMISSIONS: { id: Permission; label: string }[] = [
+  { id: 'allowPrinting', label: 'Printing' },
+  { id: 'allowCopying', label: 'Copying text and images' },
+  { id: 'allowModifying', label: 'Editing, comments and forms' }
+];
+
+const DEFAULT_PROTECTION: PasswordProtection = {
+  userPassword: '',
+  ownerPassword: '',
+  allowPrinting: true,
+  allowCopying: false,
+  allowModifying: false
+};
+
+const THEMES = {
+  blue: { border: 'border-blue-200', checkbox: 'text-blue-600 focus:ring-blue-500', input: 'focus:ring-blue-500 focus:border-blue-500' },
+  green: { border: 'border-green-200', checkbox: 'text-green-600 focus:ring-green-500', input: 'focus:ring-green-500 focus:border-green-500' },
+  red: { border: 'border-red-200', checkbox: 'text-red-600 focus:ring-red-500', input: 'focus:ring-red-500 focus:border-red-500' }
+};
+
+/**
+ * Output setting that encrypts the saved PDF with a password and permission restrictions
+ */
+const PasswordProtectionOptions: React.FC<PasswordProtectionOptionsProps> = ({ value, onChange, theme, disabled = false }) => {
+  const colors = THEMES[theme];
+  const problem = value && findProtectionProblem(value);
+
+  const update = <K extends keyof PasswordProtection>(field: K, fieldValue: PasswordProtection[K]) => {
+    if (value) {
+      onChange({ ...value, [field]: fieldValue });
+    }
+  };
+
+  return (
+    <div className={`mb-6 p-4 bg-white rounded-xl border ${colors.border}`}>
+      <label className="flex items-start text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_PROTECTION : null)}
+          disabled={disabled}
+          className={`mt-0.5 mr-2 h-4 w-4 border-gray-300 rounded ${colors.checkbox}`}
+        />
+        <span>
+          <span className="font-semibold">Protect with a password</span>
+          <span className="block text-xs text-gray-500">AES-256 encryption, applied in your browser</span>
+        </span>
+      </label>
+
+      {value && (
+        <div className="mt-4 space-y-3">
+          <div>
+            <label htmlFor={`${theme}-user-password`} className="block text-sm text-gray-700 mb-1">Password to open</label>
+            <input
+              id={`${theme}-user-password`}
+              type="password"
+              value={value.userPassword}
+              onChange={(e) => update('userPassword', e.target.value)}
+              placeholder="Leave blank to open without one"
+              autoComplete="new-password"
+              disabled={disabled}
+              className={`w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 ${colors.input}`}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${theme}-owner-password`} className="block text-sm text-gray-700 mb-1">Owner password</label>
+            <input
+              id={`${theme}-owner-password`}
+              type="password"
+              value={value.ownerPassword}
+              onChange={(e) => update('ownerPassword', e.target.value)}
+              placeholder="Needed to lift the restrictions"
+              autoComplete="new-password"
+              disabled={disabled}
+              className={`w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 ${colors.input}`}
+            />
+            {!value.ownerPassword && (
+              <p className="text-xs text-gray-500 mt-1">If left blank, a random one is used and the restrictions can't be lifted.</p>
+            )}
+          </div>
+          <fieldset>
+            <legend className="text-sm text-gray-700 mb-1">Allow</legend>
+            <div className="space-y-1">
+              {PERMISSIONS.map(permission => (
+                <label key={permission.id} className="flex items-center text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={value[permission.id]}
+                    onChange={(e) => update(permission.id, e.target.checked)}
+                    disabled={disabled}
+                    className={`mr-2 h-4 w-4 border-gray-300 rounded ${colors.checkbox}`}
+                  />
+                  {permission.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          {problem && (
+            <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-2">{problem}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PasswordProtectionOptions;
@@ -0,0 +1,128 @@
+import React, { useId } from 'react';
+import DocumentPropertiesButton from './DocumentPropertiesButton';
+import type { UploadedPdf } from '../hooks/usePdfUpload';
+
+interface PdfFileCardProps {
+  pdf: UploadedPdf;
+  onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onRemove: () => void;
+  theme: keyof typeof THEMES;
+}
+
+const THEMES = {
+  purple: {
+    card: 'border-purple-400 from-purple-50 to-violet-50',
+    icon: 'from-purple-500 to-violet-600',
+    pageCount: 'text-purple-600',
+    changeButton: 'bg-purple-600 hover:bg-purple-700'
+  },
+  orange: {
+    card: 'border-orange-400 from-orange-50 to-amber-50',
+    icon: 'from-orange-500 to-amber-600',
+    pageCount: 'text-orange-600',
+    changeButton: 'bg-orange-600 hover:bg-orange-700'
+  },
+  indigo: {
+    card: 'border-indigo-400 from-indigo-50 to-violet-50',
+    icon: 'from-indigo-500 to-violet-600',
+    pageCount: 'text-indigo-600',
+    changeButton: 'bg-indigo-600 hover:bg-indigo-700'
+  },
+  amber: {
+    card: 'border-amber-400 from-amber-50 to-yellow-50',
+    icon: 'from-amber-500 to-yellow-600',
+    pageCount: 'text-amber-600',
+    changeButton: 'bg-amber-600 hover:bg-amber-700'
+  },
+  cyan: {
+    card: 'border-cyan-400 from-cyan-50 to-sky-50',
+    icon: 'from-cyan-500 to-sky-600',
+    pageCount: 'text-cyan-600',
+    changeButton: 'bg-cyan-600 hover:bg-cyan-700'
+  },
+  violet: {
+    card: 'border-violet-400 from-violet-50 to-fuchsia-50',
+    icon: 'from-violet-500 to-fuchsia-600',
+    pageCount: 'text-violet-600',
+    changeButton: 'bg-violet-600 hover:bg-violet-700'
+  },
+  teal: {
+    card: 'border-teal-400 from-teal-50 to-cyan-50',
+    icon: 'from-teal-500 to-cyan-600',
+    pageCount: 'text-teal-600',
+    changeButton: 'bg-teal-600 hover:bg-teal-700'
+  },
+  slate: {
+    card: 'border-slate-400 from-slate-50 to-gray-50',
+    icon: 'from-slate-600 to-gray-800',
+    pageCount: 'text-slate-600',
+    changeButton: 'bg-slate-700 hover:bg-slate-800'
+  }
+};
+
+/**
+ * The loaded file in a single-file tool, with buttons to swap it for another file, remove
+ * it or view its document properties
+ */
+const PdfFileCard: React.FC<PdfFileCardProps> = ({ pdf, onFileChange, onRemove, theme }) => {
+  const colors = THEMES[theme];
+  const inputId = useId();
+
+  return (
+    <div className={`border-2 bg-gradient-to-br rounded-2xl p-6 ${colors.card}`}>
+      <div className="space-y-4">
+        {/* File info section */}
+        <div className="flex items-center space-x-4">
+          <div className={`w-16 h-16 bg-gradient-to-br rounded-xl flex items-center justify-center shadow-lg flex-shrink-0 ${colors.icon}`}>
+            <svg className="h-10 w-10 text-white" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd" />
+            </svg>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-gray-800 truncate" title={pdf.name}>
+              {pdf.name}
+            </h3>
+            <div className="flex items-center space-x-3 mt-1">
+              <span className="text-sm text-gray-500">{pdf.size}</span>
+              <span className={`text-sm font-medium ${colors.pageCount}`}>
+                {pdf.pageCount} pages
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Action buttons section */}
+        <div className="flex space-x-3 mt-4">
+          <label
+            htmlFor={inputId}
+            className={`w-10 h-10 text-white rounded-lg transition-all duration-200 cursor-pointer flex items-center justify-center hover:scale-105 shadow-md ${colors.changeButton}`}
+            title="Change File"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          </label>
+          <button
+            onClick={onRemove}
+            className="w-10 h-10 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 hover:border-red-400 transition-all duration-200 flex items-center justify-center hover:scale-105 shadow-md"
+            title="Remove File"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+          <DocumentPropertiesButton file={pdf.file} />
+        </div>
+      </div>
+      <input
+        id={inputId}
+        type="file"
+        accept=".pdf,application/pdf"
+        onChange={onFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default PdfFileCard;
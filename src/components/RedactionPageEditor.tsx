@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import type { RedactionArea } from '../engine';
+
+interface RedactionPageEditorProps {
+  image: string;
+  pageNumber: number;
+  // Page size in PDF points as displayed
+  pageWidth: number;
+  pageHeight: number;
+  areas: RedactionArea[];
+  onAddArea: (area: RedactionArea) => void;
+  onRemoveArea: (area: RedactionArea) => void;
+}
+
+// Drags smaller than this, in PDF points, are treated as clicks
+const MIN_AREA_SIZE = 3;
+
+/**
+ * Full-size page on which redaction areas are drawn by dragging. Marked areas show in
+ * translucent black so the text under them can still be checked, with a button to remove each.
+ */
+const RedactionPageEditor: React.FC<RedactionPageEditorProps> = ({ image, pageNumber, pageWidth, pageHeight, areas, onAddArea, onRemoveArea }) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragEnd, setDragEnd] = useState<{ x: number; y: number } | null>(null);
+
+  // Pointer position in PDF points from the top-left corner of the page
+  const toPagePoint = (event: React.PointerEvent): { x: number; y: number } => {
+    const bounds = surfaceRef.current?.getBoundingClientRect();
+    if (!bounds || bounds.width === 0 || bounds.height === 0) return { x: 0, y: 0 };
+    const x = Math.min(Math.max(event.clientX - bounds.left, 0), bounds.width) / bounds.width;
+    const y = Math.min(Math.max(event.clientY - bounds.top, 0), bounds.height) / bounds.height;
+    return { x: x * pageWidth, y: y * pageHeight };
+  };
+
+  const getDraggedArea = (): RedactionArea | null => {
+    if (!dragStart || !dragEnd) return null;
+    return {
+      pageNumber,
+      x: Math.min(dragStart.x, dragEnd.x),
+      y: Math.min(dragStart.y, dragEnd.y),
+      width: Math.abs(dragEnd.x - dragStart.x),
+      height: Math.abs(dragEnd.y - dragStart.y)
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPagePoint(event);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDragEnd(toPagePoint(event));
+  };
+
+  const handlePointerUp = () => {
+    const area = getDraggedArea();
+    if (area && area.width >= MIN_AREA_SIZE && area.height >= MIN_AREA_SIZE) {
+      onAddArea(area);
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const toStyle = (area: RedactionArea): React.CSSProperties => ({
+    left: `${(area.x / pageWidth) * 100}%`,
+    top: `${(area.y / pageHeight) * 100}%`,
+    width: `${(area.width / pageWidth) * 100}%`,
+    height: `${(area.height / pageHeight) * 100}%`
+  });
+
+  const draggedArea = getDraggedArea();
+
+  return (
+    <div className="relative inline-block max-w-full shadow-xl border border-gray-200 bg-white select-none">
+      <img src={image} alt={`Page ${pageNumber}`} className="block max-w-full h-auto" draggable={false} />
+      <div
+        ref={surfaceRef}
+        className="absolute inset-0 cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => {
+          setDragStart(null);
+          setDragEnd(null);
+        }}
+      >
+        {areas.map((area, index) => (
+          <div
+            key={`${area.x}-${area.y}-${index}`}
+            className="group absolute bg-black/60 border border-black"
+            style={toStyle(area)}
+            title={area.match ? `Matches "${area.match}"` : 'Drawn area'}
+          >
+            <button
+              onPointerDown={(event) => event.stopPropagation()}
+              onClick={() => onRemoveArea(area)}
+              className="absolute -top-3 -right-3 w-6 h-6 rounded-full bg-red-600 text-white shadow-md hidden group-hover:flex items-center justify-center cursor-pointer"
+              title="Remove this area"
+              aria-label="Remove this area"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+        {draggedArea && (
+          <div className="absolute bg-black/40 border-2 border-dashed border-red-500" style={toStyle(draggedArea)}></div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPageEditor;
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { StampPosition } from '../engine';
+
+interface StampPositionPickerProps {
+  value: StampPosition;
+  onChange: (position: StampPosition) => void;
+  theme: 'cyan' | 'lime';
+}
+
+// Reading order of the 3 x 3 grid
+const POSITIONS: { id: StampPosition; label: string }[] = [
+  { id: 'top-left', label: 'Top left' },
+  { id: 'top', label: 'Top' },
+  { id: 'top-right', label: 'Top right' },
+  { id: 'left', label: 'Left' },
+  { id: 'center', label: 'Center' },
+  { id: 'right', label: 'Right' },
+  { id: 'bottom-left', label: 'Bottom left' },
+  { id: 'bottom', label: 'Bottom' },
+  { id: 'bottom-right', label: 'Bottom right' }
+];
+
+const THEMES = {
+  cyan: { active: 'bg-cyan-600 border-cyan-600', hover: 'hover:bg-cyan-100' },
+  lime: { active: 'bg-lime-600 border-lime-600', hover: 'hover:bg-lime-100' }
+};
+
+/**
+ * 3 x 3 grid for choosing where a stamp sits on the page
+ */
+const StampPositionPicker: React.FC<StampPositionPickerProps> = ({ value, onChange, theme }) => {
+  const colors = THEMES[theme];
+
+  return (
+    <div className="grid grid-cols-3 gap-1 w-28">
+      {POSITIONS.map(position => (
+        <button
+          key={position.id}
+          onClick={() => onChange(position.id)}
+          title={position.label}
+          aria-label={position.label}
+          aria-pressed={value === position.id}
+          className={`h-8 rounded-md border flex items-center justify-center transition-colors ${
+            value === position.id ? colors.active : `bg-white border-gray-300 ${colors.hover}`
+          }`}
+        >
+          <span className={`w-2 h-2 rounded-full ${value === position.id ? 'bg-white' : 'bg-gray-400'}`}></span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StampPositionPicker;
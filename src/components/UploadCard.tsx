@@ -16,7 +16,7 @@ interface UploadCardProps {
   maxFileSize?: string;
   supportedFormats?: string;
   className?: string;
-  theme?: 'blue' | 'green' | 'red';
+  theme?: 'blue' | 'green' | 'red' | 'purple' | 'orange' | 'teal' | 'pink' | 'indigo' | 'amber' | 'cyan' | 'lime' | 'violet' | 'slate';
 }
 
 const UploadCard: React.FC<UploadCardProps> = ({
@@ -103,6 +103,226 @@ const UploadCard: React.FC<UploadCardProps> = ({
       dragOverIconBg: 'bg-red-600',
       ballColor1: 'bg-slate-700/60',
       ballColor2: 'bg-red-800/40'
+    },
+    purple: {
+      primary: 'purple',
+      secondary: 'violet',
+      accent: 'fuchsia',
+      shadowColor: 'shadow-purple-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-purple-900',
+      iconBg: 'bg-purple-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-purple-200',
+      borderHover: 'border-purple-600',
+      dropzoneHover: 'bg-purple-900/50',
+      dragOverBorder: 'border-purple-500',
+      dragOverBg: 'bg-purple-800/70',
+      dragOverShadow: 'shadow-purple-700/50',
+      uploadButtonBg: 'bg-purple-700 hover:bg-purple-600',
+      uploadButtonHover: 'group-hover:shadow-purple-600/50',
+      infoTextColor: 'text-purple-600',
+      dragOverIconBg: 'bg-purple-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-purple-800/40'
+    },
+    orange: {
+      primary: 'orange',
+      secondary: 'amber',
+      accent: 'yellow',
+      shadowColor: 'shadow-orange-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-orange-900',
+      iconBg: 'bg-orange-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-orange-200',
+      borderHover: 'border-orange-600',
+      dropzoneHover: 'bg-orange-900/50',
+      dragOverBorder: 'border-orange-500',
+      dragOverBg: 'bg-orange-800/70',
+      dragOverShadow: 'shadow-orange-700/50',
+      uploadButtonBg: 'bg-orange-700 hover:bg-orange-600',
+      uploadButtonHover: 'group-hover:shadow-orange-600/50',
+      infoTextColor: 'text-orange-600',
+      dragOverIconBg: 'bg-orange-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-orange-800/40'
+    },
+    teal: {
+      primary: 'teal',
+      secondary: 'cyan',
+      accent: 'emerald',
+      shadowColor: 'shadow-teal-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-teal-900',
+      iconBg: 'bg-teal-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-teal-200',
+      borderHover: 'border-teal-600',
+      dropzoneHover: 'bg-teal-900/50',
+      dragOverBorder: 'border-teal-500',
+      dragOverBg: 'bg-teal-800/70',
+      dragOverShadow: 'shadow-teal-700/50',
+      uploadButtonBg: 'bg-teal-700 hover:bg-teal-600',
+      uploadButtonHover: 'group-hover:shadow-teal-600/50',
+      infoTextColor: 'text-teal-600',
+      dragOverIconBg: 'bg-teal-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-teal-800/40'
+    },
+    pink: {
+      primary: 'pink',
+      secondary: 'rose',
+      accent: 'fuchsia',
+      shadowColor: 'shadow-pink-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-pink-900',
+      iconBg: 'bg-pink-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-pink-200',
+      borderHover: 'border-pink-600',
+      dropzoneHover: 'bg-pink-900/50',
+      dragOverBorder: 'border-pink-500',
+      dragOverBg: 'bg-pink-800/70',
+      dragOverShadow: 'shadow-pink-700/50',
+      uploadButtonBg: 'bg-pink-700 hover:bg-pink-600',
+      uploadButtonHover: 'group-hover:shadow-pink-600/50',
+      infoTextColor: 'text-pink-600',
+      dragOverIconBg: 'bg-pink-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-pink-800/40'
+    },
+    indigo: {
+      primary: 'indigo',
+      secondary: 'violet',
+      accent: 'sky',
+      shadowColor: 'shadow-indigo-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-indigo-900',
+      iconBg: 'bg-indigo-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-indigo-200',
+      borderHover: 'border-indigo-600',
+      dropzoneHover: 'bg-indigo-900/50',
+      dragOverBorder: 'border-indigo-500',
+      dragOverBg: 'bg-indigo-800/70',
+      dragOverShadow: 'shadow-indigo-700/50',
+      uploadButtonBg: 'bg-indigo-700 hover:bg-indigo-600',
+      uploadButtonHover: 'group-hover:shadow-indigo-600/50',
+      infoTextColor: 'text-indigo-600',
+      dragOverIconBg: 'bg-indigo-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-indigo-800/40'
+    },
+    amber: {
+      primary: 'amber',
+      secondary: 'yellow',
+      accent: 'orange',
+      shadowColor: 'shadow-amber-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-amber-900',
+      iconBg: 'bg-amber-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-amber-200',
+      borderHover: 'border-amber-600',
+      dropzoneHover: 'bg-amber-900/50',
+      dragOverBorder: 'border-amber-500',
+      dragOverBg: 'bg-amber-800/70',
+      dragOverShadow: 'shadow-amber-700/50',
+      uploadButtonBg: 'bg-amber-700 hover:bg-amber-600',
+      uploadButtonHover: 'group-hover:shadow-amber-600/50',
+      infoTextColor: 'text-amber-600',
+      dragOverIconBg: 'bg-amber-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-amber-800/40'
+    },
+    cyan: {
+      primary: 'cyan',
+      secondary: 'sky',
+      accent: 'blue',
+      shadowColor: 'shadow-cyan-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-cyan-900',
+      iconBg: 'bg-cyan-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-cyan-200',
+      borderHover: 'border-cyan-600',
+      dropzoneHover: 'bg-cyan-900/50',
+      dragOverBorder: 'border-cyan-500',
+      dragOverBg: 'bg-cyan-800/70',
+      dragOverShadow: 'shadow-cyan-700/50',
+      uploadButtonBg: 'bg-cyan-700 hover:bg-cyan-600',
+      uploadButtonHover: 'group-hover:shadow-cyan-600/50',
+      infoTextColor: 'text-cyan-600',
+      dragOverIconBg: 'bg-cyan-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-cyan-800/40'
+    },
+    lime: {
+      primary: 'lime',
+      secondary: 'green',
+      accent: 'emerald',
+      shadowColor: 'shadow-lime-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-lime-900',
+      iconBg: 'bg-lime-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-lime-200',
+      borderHover: 'border-lime-600',
+      dropzoneHover: 'bg-lime-900/50',
+      dragOverBorder: 'border-lime-500',
+      dragOverBg: 'bg-lime-800/70',
+      dragOverShadow: 'shadow-lime-700/50',
+      uploadButtonBg: 'bg-lime-700 hover:bg-lime-600',
+      uploadButtonHover: 'group-hover:shadow-lime-600/50',
+      infoTextColor: 'text-lime-600',
+      dragOverIconBg: 'bg-lime-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-lime-800/40'
+    },
+    violet: {
+      primary: 'violet',
+      secondary: 'fuchsia',
+      accent: 'purple',
+      shadowColor: 'shadow-violet-900/40',
+      bgColor: 'bg-gradient-to-br from-slate-800 to-violet-900',
+      iconBg: 'bg-violet-800',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-violet-200',
+      borderHover: 'border-violet-600',
+      dropzoneHover: 'bg-violet-900/50',
+      dragOverBorder: 'border-violet-500',
+      dragOverBg: 'bg-violet-800/70',
+      dragOverShadow: 'shadow-violet-700/50',
+      uploadButtonBg: 'bg-violet-700 hover:bg-violet-600',
+      uploadButtonHover: 'group-hover:shadow-violet-600/50',
+      infoTextColor: 'text-violet-600',
+      dragOverIconBg: 'bg-violet-600',
+      ballColor1: 'bg-slate-700/60',
+      ballColor2: 'bg-violet-800/40'
+    },
+    slate: {
+      primary: 'slate',
+      secondary: 'gray',
+      accent: 'zinc',
+      shadowColor: 'shadow-slate-900/40',
+      bgColor: 'bg-gradient-to-br from-gray-800 to-slate-900',
+      iconBg: 'bg-slate-700',
+      iconColor: 'text-white',
+      titleColor: 'text-white',
+      subtitleColor: 'text-slate-300',
+      borderHover: 'border-slate-500',
+      dropzoneHover: 'bg-slate-800/50',
+      dragOverBorder: 'border-slate-400',
+      dragOverBg: 'bg-slate-700/70',
+      dragOverShadow: 'shadow-slate-600/50',
+      uploadButtonBg: 'bg-slate-600 hover:bg-slate-500',
+      uploadButtonHover: 'group-hover:shadow-slate-500/50',
+      infoTextColor: 'text-slate-600',
+      dragOverIconBg: 'bg-slate-500',
+      ballColor1: 'bg-gray-700/60',
+      ballColor2: 'bg-slate-600/40'
     }
   };
 
@@ -0,0 +1,123 @@
+import React, { useState, useRef, useEffect, useImperativeHandle } from 'react';
+
+export interface VirtualPageGridHandle {
+  scrollToPage: (pageNumber: number) => void;
+}
+
+interface VirtualPageGridProps {
+  pageCount: number;
+  // Draws one page card; it should fill the width of its cell with a 3:4 page area
+  renderPage: (pageNumber: number) => React.ReactNode;
+  // Called with the first and last page on screen whenever they change
+  onVisibleRangeChange: (first: number, last: number) => void;
+  ref?: React.Ref<VirtualPageGridHandle>;
+}
+
+// Matches the gap-8 spacing of the other page grids
+const GAP = 32;
+const MIN_CARD_WIDTH = 150;
+const MAX_COLUMNS = 6;
+// Room for the badges that stick out of the cards
+const PADDING = 12;
+// Rows kept mounted above and below the screen so fast scrolling doesn't show gaps
+const OVERSCAN_ROWS = 2;
+// Cards are 3:4 pages inside a 1px border
+const CARD_BORDER = 2;
+
+/**
+ * Page grid that only mounts the rows on screen, so documents with thousands of pages
+ * scroll as smoothly as short ones. It scrolls inside its own box and reports the pages
+ * in view so their thumbnails can be rendered first.
+ */
+const VirtualPageGrid: React.FC<VirtualPageGridProps> = ({ pageCount, renderPage, onVisibleRangeChange, ref }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => {
+      setSize({ width: element.clientWidth, height: element.clientHeight });
+    });
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  const innerWidth = Math.max(size.width - PADDING * 2, 0);
+  const columns = Math.min(Math.max(Math.floor((innerWidth + GAP) / (MIN_CARD_WIDTH + GAP)), 1), MAX_COLUMNS);
+  const cardWidth = Math.max((innerWidth - GAP * (columns - 1)) / columns, 0);
+  const rowHeight = Math.round(cardWidth * (4 / 3) + CARD_BORDER + GAP);
+  const rowCount = Math.ceil(pageCount / columns);
+  const totalHeight = rowCount > 0 ? rowCount * rowHeight - GAP + PADDING * 2 : 0;
+
+  const firstVisibleRow = rowHeight > 0 ? Math.max(Math.floor((scrollTop - PADDING) / rowHeight), 0) : 0;
+  const lastVisibleRow = rowHeight > 0 ? Math.min(Math.floor((scrollTop + size.height - PADDING) / rowHeight), rowCount - 1) : -1;
+  const firstVisiblePage = firstVisibleRow * columns + 1;
+  const lastVisiblePage = Math.min((lastVisibleRow + 1) * columns, pageCount);
+
+  useEffect(() => {
+    if (size.width > 0 && lastVisiblePage >= firstVisiblePage) {
+      onVisibleRangeChange(firstVisiblePage, lastVisiblePage);
+    }
+  }, [firstVisiblePage, lastVisiblePage, size.width, onVisibleRangeChange]);
+
+  useImperativeHandle(ref, () => ({
+    scrollToPage: (pageNumber: number) => {
+      const element = scrollRef.current;
+      if (!element || rowHeight === 0) return;
+      const row = Math.floor((pageNumber - 1) / columns);
+      element.scrollTo({ top: PADDING + row * rowHeight - (size.height - rowHeight) / 2, behavior: 'smooth' });
+    }
+  }), [columns, rowHeight, size.height]);
+
+  const handleScroll = () => {
+    // One update per frame is enough, however often the browser fires scroll events
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      setScrollTop(scrollRef.current?.scrollTop ?? 0);
+    });
+  };
+
+  const rows: React.ReactNode[] = [];
+  if (size.width > 0) {
+    const firstRow = Math.max(firstVisibleRow - OVERSCAN_ROWS, 0);
+    const lastRow = Math.min(lastVisibleRow + OVERSCAN_ROWS, rowCount - 1);
+    for (let row = firstRow; row <= lastRow; row++) {
+      const firstPage = row * columns + 1;
+      const lastPage = Math.min(firstPage + columns - 1, pageCount);
+      rows.push(
+        <div
+          key={row}
+          className="absolute grid"
+          style={{
+            top: PADDING + row * rowHeight,
+            left: PADDING,
+            right: PADDING,
+            gap: GAP,
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`
+          }}
+        >
+          {Array.from({ length: lastPage - firstPage + 1 }, (_, index) => (
+            <React.Fragment key={firstPage + index}>{renderPage(firstPage + index)}</React.Fragment>
+          ))}
+        </div>
+      );
+    }
+  }
+
+  return (
+    <div ref={scrollRef} onScroll={handleScroll} className="relative max-h-[75vh] min-h-[300px] overflow-y-auto -mx-3">
+      <div className="relative" style={{ height: totalHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualPageGrid;
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { placeStamp, getImageStampSize, TEXT_ASCENT } from '../engine';
+import type { Watermark } from '../engine';
+
+interface WatermarkPreviewProps {
+  thumbnail: string;
+  // Page size in PDF points as displayed
+  pageWidth: number;
+  pageHeight: number;
+  watermark: Watermark;
+  // Loaded stamp image for image watermarks
+  image: HTMLImageElement | null;
+  alt: string;
+}
+
+/**
+ * Draws a page thumbnail with the watermark on top, laid out the way the PDF worker stamps it
+ */
+const WatermarkPreview: React.FC<WatermarkPreviewProps> = ({ thumbnail, pageWidth, pageHeight, watermark, image, alt }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [page, setPage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const pageImage = new Image();
+    pageImage.onload = () => {
+      if (!cancelled) setPage(pageImage);
+    };
+    pageImage.src = thumbnail;
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnail]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !page) return;
+
+    canvas.width = page.naturalWidth;
+    canvas.height = page.naturalHeight;
+    context.drawImage(page, 0, 0);
+
+    const text = watermark.text.trim();
+    let stampSize: { width: number; height: number };
+    if (watermark.kind === 'image') {
+      if (!image) return;
+      stampSize = getImageStampSize(pageWidth, image.naturalWidth, image.naturalHeight, watermark.imageScale);
+    } else {
+      if (!text) return;
+      // Measured in PDF points; Arial shares Helvetica's metrics
+      context.font = `bold ${watermark.fontSize}px Helvetica, Arial, sans-serif`;
+      stampSize = { width: context.measureText(text).width, height: watermark.fontSize * TEXT_ASCENT };
+    }
+    const { width, height } = stampSize;
+    const { x, y } = placeStamp(pageWidth, pageHeight, width, height, watermark.position, watermark.rotation);
+
+    const scale = canvas.width / pageWidth;
+    context.save();
+    context.globalAlpha = watermark.opacity;
+    context.scale(scale, scale);
+    // Canvas y runs down and angles turn clockwise, the opposite of PDF
+    context.translate(x, pageHeight - y);
+    context.rotate((-watermark.rotation * Math.PI) / 180);
+    if (watermark.kind === 'image' && image) {
+      context.drawImage(image, 0, -height, width, height);
+    } else {
+      context.fillStyle = watermark.color;
+      context.textBaseline = 'alphabetic';
+      context.fillText(text, 0, 0);
+    }
+    context.restore();
+  }, [page, pageWidth, pageHeight, watermark, image]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={alt} className="w-full h-full object-contain" />;
+};
+
+export default WatermarkPreview;
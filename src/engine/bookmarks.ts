@@ -0,0 +1,201 @@
+/**
+ * Reading and writing the outline (bookmarks) of pdf-lib documents inside the PDF worker.
+ * For showing bookmarks in the UI, see outline.ts, which reads them with PDF.js.
+ */
+
+import { PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString } from 'pdf-lib';
+import type { PDFDocument, PDFObject } from 'pdf-lib';
+
+/**
+ * One bookmark and its children. pageIndex is 0-based, or null when the destination
+ * can't be resolved to a page of the document.
+ */
+export interface Bookmark {
+  title: string;
+  pageIndex: number | null;
+  children: Bookmark[];
+}
+
+// Guards against malformed outlines whose sibling or child links loop back on themselves
+const MAX_OUTLINE_DEPTH = 32;
+
+const decodeString = (value: PDFObject | undefined): string | null => {
+  if (value instanceof PDFString || value instanceof PDFHexString || value instanceof PDFName) {
+    return value.decodeText();
+  }
+  return null;
+};
+
+/**
+ * Collects every key/value pair of a name tree (such as the catalog's /Names /Dests)
+ */
+const collectNameTree = (node: PDFDict, into: Map<string, PDFObject>, depth = 0) => {
+  if (depth > MAX_OUTLINE_DEPTH) return;
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const key = decodeString(names.lookup(i));
+      const value = names.lookup(i + 1);
+      if (key !== null && value) {
+        into.set(key, value);
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      if (kid instanceof PDFDict) {
+        collectNameTree(kid, into, depth + 1);
+      }
+    }
+  }
+};
+
+/**
+ * Builds a resolver from a destination (explicit array, named destination or GoTo action)
+ * to a 0-based page index of the document
+ */
+const createDestinationResolver = (doc: PDFDocument) => {
+  const pageIndices = new Map<PDFRef, number>();
+  doc.getPages().forEach((page, index) => pageIndices.set(page.ref, index));
+
+  // Named destinations live in the old-style /Dests dictionary or in the /Names tree
+  let namedDestinations: Map<string, PDFObject> | null = null;
+  const lookupNamed = (name: string): PDFObject | undefined => {
+    if (!namedDestinations) {
+      namedDestinations = new Map();
+      const dests = doc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+      dests?.entries().forEach(([key]) => {
+        const value = dests.lookup(key);
+        if (value) namedDestinations?.set(key.decodeText(), value);
+      });
+      const destTree = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+      if (destTree) {
+        collectNameTree(destTree, namedDestinations);
+      }
+    }
+    return namedDestinations.get(name);
+  };
+
+  return (destination: PDFObject | undefined): number | null => {
+    let target = destination;
+    const name = decodeString(target);
+    if (name !== null) {
+      target = lookupNamed(name);
+    }
+    // Named destinations may be wrapped in a dictionary with the array under /D
+    if (target instanceof PDFDict) {
+      target = target.lookup(PDFName.of('D'));
+    }
+    if (!(target instanceof PDFArray) || target.size() === 0) {
+      return null;
+    }
+
+    const page = target.get(0);
+    if (page instanceof PDFRef) {
+      return pageIndices.get(page) ?? null;
+    }
+    return page instanceof PDFNumber ? page.asNumber() : null;
+  };
+};
+
+/**
+ * Reads the bookmark tree of a document. Returns an empty list when there is no outline
+ * or it is too damaged to read; bookmarks are never worth failing an operation over.
+ */
+export function readBookmarks(doc: PDFDocument): Bookmark[] {
+  try {
+    const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+    if (!outlines) return [];
+
+    const resolveDestination = createDestinationResolver(doc);
+    const visited = new Set<PDFDict>();
+
+    const readSiblings = (first: PDFDict | undefined, depth: number): Bookmark[] => {
+      const bookmarks: Bookmark[] = [];
+      for (let item = first; item && !visited.has(item) && depth <= MAX_OUTLINE_DEPTH; item = item.lookupMaybe(PDFName.of('Next'), PDFDict)) {
+        visited.add(item);
+
+        let destination = item.lookup(PDFName.of('Dest'));
+        const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+        if (!destination && action?.lookupMaybe(PDFName.of('S'), PDFName) === PDFName.of('GoTo')) {
+          destination = action.lookup(PDFName.of('D'));
+        }
+
+        bookmarks.push({
+          title: decodeString(item.lookup(PDFName.of('Title')))?.trim() || 'Untitled',
+          pageIndex: resolveDestination(destination),
+          children: readSiblings(item.lookupMaybe(PDFName.of('First'), PDFDict), depth + 1)
+        });
+      }
+      return bookmarks;
+    };
+
+    return readSiblings(outlines.lookupMaybe(PDFName.of('First'), PDFDict), 1);
+  } catch (outlineError: unknown) {
+    console.warn('Could not read document outline:', outlineError);
+    return [];
+  }
+}
+
+/**
+ * Moves bookmarks onto new page indices. Bookmarks whose page has no new index are
+ * dropped, and their children take their place.
+ */
+export function remapBookmarks(bookmarks: Bookmark[], pageMap: Map<number, number>): Bookmark[] {
+  return bookmarks.flatMap(bookmark => {
+    const children = remapBookmarks(bookmark.children, pageMap);
+    const pageIndex = bookmark.pageIndex === null ? undefined : pageMap.get(bookmark.pageIndex);
+    return pageIndex === undefined ? children : [{ title: bookmark.title, pageIndex, children }];
+  });
+}
+
+/**
+ * Replaces the document outline with the given bookmarks and asks viewers to open the
+ * bookmarks panel. Nested bookmarks start collapsed; bookmarks without a page are skipped.
+ */
+export function writeBookmarks(doc: PDFDocument, bookmarks: Bookmark[]): void {
+  const { context } = doc;
+  const pages = doc.getPages();
+
+  const writeSiblings = (items: Bookmark[], parentRef: PDFRef): PDFRef[] => {
+    const usable = items.filter(item => item.pageIndex !== null && pages[item.pageIndex]);
+    const refs = usable.map(() => context.nextRef());
+
+    usable.forEach((item, index) => {
+      const dict = context.obj({}) as PDFDict;
+      dict.set(PDFName.of('Title'), PDFHexString.fromText(item.title));
+      dict.set(PDFName.of('Parent'), parentRef);
+      dict.set(PDFName.of('Dest'), context.obj([pages[item.pageIndex as number].ref, PDFName.of('Fit')]));
+      if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1]);
+      if (index < refs.length - 1) dict.set(PDFName.of('Next'), refs[index + 1]);
+
+      const childRefs = writeSiblings(item.children, refs[index]);
+      if (childRefs.length > 0) {
+        dict.set(PDFName.of('First'), childRefs[0]);
+        dict.set(PDFName.of('Last'), childRefs[childRefs.length - 1]);
+        // A negative count marks the entry as collapsed
+        dict.set(PDFName.of('Count'), PDFNumber.of(-childRefs.length));
+      }
+      context.assign(refs[index], dict);
+    });
+
+    return refs;
+  };
+
+  const outlinesRef = context.nextRef();
+  const topLevelRefs = writeSiblings(bookmarks, outlinesRef);
+  if (topLevelRefs.length === 0) return;
+
+  context.assign(outlinesRef, context.obj({
+    Type: 'Outlines',
+    First: topLevelRefs[0],
+    Last: topLevelRefs[topLevelRefs.length - 1],
+    Count: topLevelRefs.length
+  }));
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
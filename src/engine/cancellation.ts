@@ -0,0 +1,21 @@
+/**
+ * Cancellation helpers shared by engine operations and thumbnail rendering
+ */
+
+export const OPERATION_CANCELLED = 'Operation cancelled';
+
+/**
+ * Throws the standard cancellation error once the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(OPERATION_CANCELLED);
+  }
+}
+
+/**
+ * Returns true for the error thrown when an operation is aborted
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.message === OPERATION_CANCELLED;
+}
@@ -0,0 +1,293 @@
+/**
+ * Size reduction passes for pdf-lib documents, run inside the PDF worker.
+ * Images are re-encoded with OffscreenCanvas; everything else is structural clean-up.
+ */
+
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFRawStream, PDFRef, PDFStream, decodePDFRawStream } from 'pdf-lib';
+import type { PDFDocument, PDFObject } from 'pdf-lib';
+import type { CompressionPreset, OperationOptions } from './types';
+import { checkpoint } from './document';
+import { crc32 } from '../utils/zip';
+
+interface ImageSettings {
+  // Longest side in pixels after downsampling
+  maxDimension: number;
+  // JPEG quality between 0 and 1
+  quality: number;
+}
+
+// Lossless presets leave images alone
+const IMAGE_SETTINGS: Record<CompressionPreset, ImageSettings | null> = {
+  lossless: null,
+  high: { maxDimension: 2400, quality: 0.85 },
+  balanced: { maxDimension: 1600, quality: 0.7 },
+  small: { maxDimension: 1000, quality: 0.5 }
+};
+
+const isImageStream = (object: PDFObject): object is PDFRawStream =>
+  object instanceof PDFRawStream && object.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image');
+
+/**
+ * Returns the single filter of a stream, or null when it has none or a chain of several
+ */
+const getSingleFilter = (dict: PDFDict): PDFName | null => {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return filter;
+  if (filter instanceof PDFArray && filter.size() === 1) {
+    const only = filter.lookup(0);
+    return only instanceof PDFName ? only : null;
+  }
+  return null;
+};
+
+/**
+ * Number of colour components for the colour spaces we can re-encode, or null for anything else
+ * (CMYK, indexed, separation...)
+ */
+const getComponentCount = (dict: PDFDict): number | null => {
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  if (colorSpace === PDFName.of('DeviceRGB')) return 3;
+  if (colorSpace === PDFName.of('DeviceGray')) return 1;
+  if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('ICCBased')) {
+    const profile = colorSpace.lookup(1);
+    const components = profile instanceof PDFStream ? profile.dict.lookup(PDFName.of('N')) : undefined;
+    const count = components instanceof PDFNumber ? components.asNumber() : 0;
+    return count === 1 || count === 3 ? count : null;
+  }
+  return null;
+};
+
+/**
+ * References of the images used as /SMask or /Mask of other images. Those hold
+ * transparency rather than pictures, so they must stay greyscale and keep their size.
+ */
+const collectMaskRefs = (doc: PDFDocument): Set<PDFRef> => {
+  const masks = new Set<PDFRef>();
+  for (const [, object] of doc.context.enumerateIndirectObjects()) {
+    const dict = object instanceof PDFStream ? object.dict : object;
+    if (!(dict instanceof PDFDict)) continue;
+    for (const key of [PDFName.of('SMask'), PDFName.of('Mask')]) {
+      const value = dict.get(key);
+      if (value instanceof PDFRef) {
+        masks.add(value);
+      }
+    }
+  }
+  return masks;
+};
+
+/**
+ * Decodes an image XObject into a bitmap the canvas can draw, or returns null when the
+ * image uses features that a plain JPEG can't reproduce (masks, decode arrays, odd bit depths)
+ */
+const decodeImage = async (stream: PDFRawStream): Promise<ImageBitmap | null> => {
+  const { dict } = stream;
+  const width = dict.lookup(PDFName.of('Width'));
+  const height = dict.lookup(PDFName.of('Height'));
+  const bitsPerComponent = dict.lookup(PDFName.of('BitsPerComponent'));
+  const components = getComponentCount(dict);
+  const filter = getSingleFilter(dict);
+
+  if (!(width instanceof PDFNumber) || !(height instanceof PDFNumber) || components === null) return null;
+  if (!(bitsPerComponent instanceof PDFNumber) || bitsPerComponent.asNumber() !== 8) return null;
+  if (dict.has(PDFName.of('ImageMask')) || dict.has(PDFName.of('Mask')) || dict.has(PDFName.of('Decode'))) return null;
+
+  if (filter === PDFName.of('DCTDecode')) {
+    // The PDF draws the samples as stored, whatever EXIF orientation the JPEG carries
+    return createImageBitmap(new Blob([stream.contents as BlobPart], { type: 'image/jpeg' }), { imageOrientation: 'none' });
+  }
+
+  // Flate images are raw samples; predictors (DecodeParms) aren't supported by the decoder
+  if (filter !== PDFName.of('FlateDecode') || dict.has(PDFName.of('DecodeParms'))) return null;
+
+  const pixelCount = width.asNumber() * height.asNumber();
+  const samples = decodePDFRawStream(stream).decode();
+  if (samples.length < pixelCount * components) return null;
+
+  const rgba = new Uint8ClampedArray(pixelCount * 4);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const source = pixel * components;
+    rgba[pixel * 4] = samples[source];
+    rgba[pixel * 4 + 1] = samples[components === 3 ? source + 1 : source];
+    rgba[pixel * 4 + 2] = samples[components === 3 ? source + 2 : source];
+    rgba[pixel * 4 + 3] = 255;
+  }
+  return createImageBitmap(new ImageData(rgba, width.asNumber(), height.asNumber()));
+};
+
+/**
+ * Downsamples and re-encodes embedded images as JPEG, leaving soft masks and masks alone.
+ * An image is only replaced when the new version is smaller. Returns how many images were replaced; does nothing where
+ * OffscreenCanvas is unavailable.
+ */
+export async function recompressImages(
+  doc: PDFDocument,
+  preset: CompressionPreset,
+  options: OperationOptions = {}
+): Promise<number> {
+  const { onProgress, signal } = options;
+  const settings = IMAGE_SETTINGS[preset];
+  if (!settings || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    return 0;
+  }
+
+  const masks = collectMaskRefs(doc);
+  const images = doc.context.enumerateIndirectObjects().filter(
+    (entry): entry is [PDFRef, PDFRawStream] => isImageStream(entry[1]) && !masks.has(entry[0])
+  );
+
+  let replaced = 0;
+  for (let i = 0; i < images.length; i++) {
+    await checkpoint(signal);
+    onProgress?.({ stage: 'optimizing', current: i + 1, total: images.length });
+    const [ref, stream] = images[i];
+
+    let bitmap: ImageBitmap | null = null;
+    try {
+      bitmap = await decodeImage(stream);
+      if (!bitmap) continue;
+
+      const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+      const canvas = new OffscreenCanvas(width, height);
+      const context = canvas.getContext('2d');
+      if (!context) continue;
+
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, width, height);
+      const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: settings.quality });
+      const jpegBytes = new Uint8Array(await blob.arrayBuffer());
+      if (jpegBytes.length >= stream.contents.length) continue;
+
+      const dict = stream.dict.clone(doc.context);
+      dict.set(PDFName.of('Width'), PDFNumber.of(width));
+      dict.set(PDFName.of('Height'), PDFNumber.of(height));
+      dict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+      dict.delete(PDFName.of('DecodeParms'));
+      // The canvas always writes colour JPEGs, so grey images switch colour space
+      if (getComponentCount(stream.dict) === 1) {
+        dict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+      }
+      doc.context.assign(ref, PDFRawStream.of(dict, jpegBytes));
+      replaced++;
+    } catch (imageError: unknown) {
+      // A single undecodable image shouldn't stop the rest; it is kept as it was
+      console.warn('Skipping image that could not be re-encoded:', imageError);
+    } finally {
+      bitmap?.close();
+    }
+  }
+
+  return replaced;
+}
+
+/**
+ * Points every reference found in the given object at its replacement, in place
+ */
+const rewriteReferences = (object: PDFObject, replacements: Map<PDFRef, PDFRef>) => {
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (replacement) {
+        object.set(key, replacement);
+      } else {
+        rewriteReferences(value, replacements);
+      }
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      const value = object.get(i);
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (replacement) {
+        object.set(i, replacement);
+      } else {
+        rewriteReferences(value, replacements);
+      }
+    }
+  } else if (object instanceof PDFStream) {
+    rewriteReferences(object.dict, replacements);
+  }
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+/**
+ * Merges streams with identical dictionaries and contents (fonts or images embedded once
+ * per page, for example) so only one copy is written. Runs a few passes because merging
+ * images can make the streams that reference them identical too. Returns the number of
+ * duplicates removed.
+ */
+export function deduplicateStreams(doc: PDFDocument): number {
+  let removed = 0;
+
+  for (let pass = 0; pass < 3; pass++) {
+    const canonical = new Map<string, [PDFRef, PDFRawStream][]>();
+    const replacements = new Map<PDFRef, PDFRef>();
+
+    for (const [ref, object] of doc.context.enumerateIndirectObjects()) {
+      if (!(object instanceof PDFRawStream)) continue;
+      const key = `${object.dict.toString()}|${object.contents.length}|${crc32(object.contents)}`;
+      const candidates = canonical.get(key) ?? [];
+      const match = candidates.find(([, candidate]) => bytesEqual(candidate.contents, object.contents));
+      if (match) {
+        replacements.set(ref, match[0]);
+      } else {
+        candidates.push([ref, object]);
+        canonical.set(key, candidates);
+      }
+    }
+
+    if (replacements.size === 0) break;
+    for (const [, object] of doc.context.enumerateIndirectObjects()) {
+      rewriteReferences(object, replacements);
+    }
+    replacements.forEach((_, ref) => doc.context.delete(ref));
+    removed += replacements.size;
+  }
+
+  return removed;
+}
+
+/**
+ * Deletes objects that can't be reached from the document catalog or info dictionary,
+ * such as leftovers from earlier edits. Returns the number of objects removed.
+ */
+export function removeUnusedObjects(doc: PDFDocument): number {
+  const { context } = doc;
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info].filter(
+    (object): object is PDFObject => object !== undefined
+  );
+
+  while (pending.length > 0) {
+    const object = pending.pop() as PDFObject;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      object.values().forEach(value => pending.push(value));
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(value => pending.push(value));
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,103 @@
+/**
+ * Low-level pdf-lib helpers shared by every engine operation
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import type { OperationOptions, PasswordProtection } from './types';
+import { throwIfAborted } from './cancellation';
+import { encryptDocument } from './encryption';
+
+// Inputs above this size are processed in smaller batches and saved in low-memory mode
+export const LARGE_INPUT_BYTES = 75 * 1024 * 1024;
+// Copies above this page count are always batched
+const LARGE_COPY_PAGES = 500;
+
+/**
+ * Waits for the given time so queued messages (such as a cancel request) get handled,
+ * then stops if the operation has been aborted
+ */
+export async function checkpoint(signal?: AbortSignal, delayMs = 0): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, delayMs));
+  throwIfAborted(signal);
+}
+
+/**
+ * Parses PDF bytes into a pdf-lib document. By default pdf-lib stamps itself as the
+ * producer and sets the modification date; pass updateMetadata false to keep them as they are.
+ * Encrypted files are rejected unless ignoreEncryption is set, for callers that decrypt them.
+ */
+export async function loadPdf(
+  bytes: Uint8Array,
+  options: { updateMetadata?: boolean; ignoreEncryption?: boolean } = {}
+): Promise<PDFDocument> {
+  const { updateMetadata = true, ignoreEncryption = false } = options;
+  return PDFDocument.load(bytes, { updateMetadata, ignoreEncryption });
+}
+
+/**
+ * Copies the given 0-based page indices from source into target, appending them in order.
+ * Large copies are split into batches with a short pause in between so the event loop
+ * and garbage collector get a chance to run. With addToDocument false the copies are only
+ * returned, for callers that insert them in their own order.
+ */
+export async function copyPagesInBatches(
+  target: PDFDocument,
+  source: PDFDocument,
+  pageIndices: number[],
+  options: OperationOptions & { sourceSize?: number; addToDocument?: boolean } = {}
+): Promise<PDFPage[]> {
+  const { onProgress, signal, sourceSize = 0, addToDocument = true } = options;
+  const copied: PDFPage[] = [];
+  const isLargeFile = sourceSize > LARGE_INPUT_BYTES;
+  const isLargeCopy = pageIndices.length > LARGE_COPY_PAGES;
+
+  const batchSize = isLargeFile && isLargeCopy ? 50 : (isLargeFile || isLargeCopy ? 100 : pageIndices.length);
+  const totalBatches = Math.max(1, Math.ceil(pageIndices.length / batchSize));
+
+  for (let i = 0; i < pageIndices.length; i += batchSize) {
+    const batchIndices = pageIndices.slice(i, i + batchSize);
+    const batchNum = Math.floor(i / batchSize) + 1;
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'copying', current: batchNum, total: totalBatches });
+
+    try {
+      const copiedPages = await target.copyPages(source, batchIndices);
+      copied.push(...copiedPages);
+      if (addToDocument) {
+        copiedPages.forEach(page => target.addPage(page));
+      }
+    } catch (batchError: unknown) {
+      const errorMessage = batchError instanceof Error ? batchError.message : 'Unknown error';
+      throw new Error(`Failed to process pages ${batchIndices[0] + 1}-${batchIndices[batchIndices.length - 1] + 1}. ${errorMessage}`);
+    }
+
+    if (i + batchSize < pageIndices.length) {
+      await checkpoint(signal, isLargeFile ? 100 : 10);
+    }
+  }
+
+  return copied;
+}
+
+/**
+ * Serialises a document. Low-memory mode skips object streams, which keeps peak memory
+ * down for very large outputs at the cost of a slightly bigger file.
+ * With protection, the document is encrypted first.
+ */
+export async function savePdf(
+  doc: PDFDocument,
+  options: OperationOptions & { lowMemory?: boolean; protection?: PasswordProtection } = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal, lowMemory = false, protection } = options;
+  await checkpoint(signal);
+  onProgress?.({ stage: 'saving', current: 0, total: 1 });
+  const saveOptions = lowMemory ? { useObjectStreams: false, addDefaultPage: false } : {};
+  if (protection) {
+    await encryptDocument(doc, protection);
+  }
+  // pdf-lib would write object streams unencrypted, so encrypted files go without them
+  const bytes = await doc.save(protection ? { ...saveOptions, useObjectStreams: false } : saveOptions);
+  onProgress?.({ stage: 'saving', current: 1, total: 1 });
+  return bytes;
+}
@@ -0,0 +1,508 @@
+/**
+ * The standard (password) security handler, inside the PDF worker. pdf-lib can neither
+ * read nor write encrypted files, so every string and stream is processed here.
+ * Decryption covers RC4 and AES-128 (revisions 2 to 4) and AES-256 (revisions 5 and 6);
+ * new files are encrypted with AES-256 (revision 6).
+ */
+
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString
+} from 'pdf-lib';
+import type { PDFDocument, PDFObject } from 'pdf-lib';
+import type { PasswordProtection } from './types';
+import { md5, rc4, aesCbcDecrypt, aesCbcEncrypt, aesCbcEncryptNative, randomBytes, sha } from '../utils/crypto';
+import { INCORRECT_PASSWORD, findProtectionProblem } from './password';
+
+// Padding string from the PDF specification, appended to passwords shorter than 32 bytes
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a
+]);
+
+type CipherMethod = 'none' | 'rc4' | 'aes128' | 'aes256';
+
+interface SecurityHandler {
+  fileKey: Uint8Array;
+  stringMethod: CipherMethod;
+  streamMethod: CipherMethod;
+  encryptMetadata: boolean;
+}
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+const getStringBytes = (dict: PDFDict, key: string): Uint8Array => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+};
+
+const getNumber = (dict: PDFDict, key: string, fallback: number): number => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+};
+
+// Revisions 2 to 4 take PDFDocEncoding passwords, which match Latin-1 for typeable characters
+const encodeLegacyPassword = (password: string): Uint8Array =>
+  Uint8Array.from(password.slice(0, 32), char => char.charCodeAt(0) & 0xff);
+
+const padPassword = (password: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(32);
+  padded.set(password.subarray(0, 32));
+  padded.set(PASSWORD_PADDING.subarray(0, Math.max(0, 32 - password.length)), Math.min(32, password.length));
+  return padded;
+};
+
+/**
+ * Derives the file key from a padded user password (algorithm 2 of the specification)
+ */
+const computeLegacyKey = (
+  paddedPassword: Uint8Array,
+  owner: Uint8Array,
+  permissions: number,
+  fileId: Uint8Array,
+  revision: number,
+  keyLength: number,
+  encryptMetadata: boolean
+): Uint8Array => {
+  const permissionBytes = new Uint8Array(4);
+  new DataView(permissionBytes.buffer).setInt32(0, permissions, true);
+  const metadataFlag = revision >= 4 && !encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0);
+
+  let key = md5(concatBytes(paddedPassword, owner.subarray(0, 32), permissionBytes, fileId, metadataFlag));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) {
+      key = md5(key.subarray(0, keyLength));
+    }
+  }
+  return key.slice(0, keyLength);
+};
+
+/**
+ * Checks a candidate file key against the /U entry (algorithms 4 and 5)
+ */
+const isUserKey = (key: Uint8Array, user: Uint8Array, fileId: Uint8Array, revision: number): boolean => {
+  if (revision === 2) {
+    return bytesEqual(rc4(key, PASSWORD_PADDING), user.subarray(0, 32));
+  }
+  let value = rc4(key, md5(concatBytes(PASSWORD_PADDING, fileId)));
+  for (let i = 1; i <= 19; i++) {
+    value = rc4(key.map(byte => byte ^ i), value);
+  }
+  return bytesEqual(value.subarray(0, 16), user.subarray(0, 16));
+};
+
+/**
+ * Recovers the padded user password from an owner password (algorithm 7)
+ */
+const decryptOwnerEntry = (paddedPassword: Uint8Array, owner: Uint8Array, revision: number, keyLength: number): Uint8Array => {
+  let key = md5(paddedPassword);
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) {
+      key = md5(key);
+    }
+  }
+  key = key.slice(0, keyLength);
+
+  if (revision === 2) {
+    return rc4(key, owner.subarray(0, 32));
+  }
+  let value = owner.subarray(0, 32);
+  for (let i = 19; i >= 0; i--) {
+    value = rc4(key.map(byte => byte ^ i), value);
+  }
+  return value;
+};
+
+/**
+ * Hashes a password for revisions 5 and 6 (algorithm 2.B; revision 5 uses a single SHA-256)
+ */
+const hashModernPassword = async (
+  password: Uint8Array,
+  salt: Uint8Array,
+  userEntry: Uint8Array,
+  revision: number
+): Promise<Uint8Array> => {
+  let key = await sha('SHA-256', concatBytes(password, salt, userEntry));
+  if (revision === 5) {
+    return key;
+  }
+
+  let encrypted = new Uint8Array(0);
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, key, userEntry);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) {
+      repeated.set(block, i * block.length);
+    }
+    encrypted = aesCbcEncrypt(key.subarray(0, 16), key.subarray(16, 32), repeated, false);
+    const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    key = await sha(remainder === 0 ? 'SHA-256' : remainder === 1 ? 'SHA-384' : 'SHA-512', encrypted);
+  }
+  return key.subarray(0, 32);
+};
+
+const computeModernKey = async (encrypt: PDFDict, password: string, revision: number): Promise<Uint8Array | null> => {
+  const passwordBytes = new TextEncoder().encode(password).subarray(0, 127);
+  const user = getStringBytes(encrypt, 'U');
+  const owner = getStringBytes(encrypt, 'O');
+  const zeroIv = new Uint8Array(16);
+
+  const userHash = await hashModernPassword(passwordBytes, user.subarray(32, 40), new Uint8Array(0), revision);
+  if (bytesEqual(userHash, user.subarray(0, 32))) {
+    const intermediate = await hashModernPassword(passwordBytes, user.subarray(40, 48), new Uint8Array(0), revision);
+    return aesCbcDecrypt(intermediate, zeroIv, getStringBytes(encrypt, 'UE'), false);
+  }
+
+  const userEntry = user.subarray(0, 48);
+  const ownerHash = await hashModernPassword(passwordBytes, owner.subarray(32, 40), userEntry, revision);
+  if (bytesEqual(ownerHash, owner.subarray(0, 32))) {
+    const intermediate = await hashModernPassword(passwordBytes, owner.subarray(40, 48), userEntry, revision);
+    return aesCbcDecrypt(intermediate, zeroIv, getStringBytes(encrypt, 'OE'), false);
+  }
+  return null;
+};
+
+/**
+ * Works out the cipher named by a crypt filter (/StmF or /StrF) of a version 4 or 5 handler
+ */
+const resolveCryptFilter = (encrypt: PDFDict, key: string): CipherMethod => {
+  const filterName = encrypt.lookup(PDFName.of(key));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) {
+    return 'none';
+  }
+  const filters = encrypt.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  if (method === PDFName.of('V2')) return 'rc4';
+  if (method === PDFName.of('AESV2')) return 'aes128';
+  if (method === PDFName.of('AESV3')) return 'aes256';
+  if (method === undefined || method === PDFName.of('None')) return 'none';
+  throw new Error(`This PDF uses an unsupported encryption method (${method.toString()}).`);
+};
+
+/**
+ * Checks the password against the encryption dictionary and returns the file key with the
+ * ciphers in use. Both the user and the owner password are accepted.
+ */
+const createSecurityHandler = async (encrypt: PDFDict, fileId: Uint8Array, password: string): Promise<SecurityHandler> => {
+  if (encrypt.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('This PDF is protected with a certificate or a custom security handler, which is not supported. Only password protection can be removed.');
+  }
+
+  const version = getNumber(encrypt, 'V', 0);
+  const revision = getNumber(encrypt, 'R', 0);
+  const encryptMetadataValue = encrypt.lookup(PDFName.of('EncryptMetadata'));
+  const encryptMetadata = !(encryptMetadataValue instanceof PDFBool) || encryptMetadataValue.asBoolean();
+
+  if (version === 5 && (revision === 5 || revision === 6)) {
+    const fileKey = await computeModernKey(encrypt, password, revision);
+    if (!fileKey) throw new Error(INCORRECT_PASSWORD);
+    return {
+      fileKey,
+      stringMethod: resolveCryptFilter(encrypt, 'StrF'),
+      streamMethod: resolveCryptFilter(encrypt, 'StmF'),
+      encryptMetadata
+    };
+  }
+
+  if (![1, 2, 4].includes(version) || revision < 2 || revision > 4) {
+    throw new Error(`This PDF uses an unsupported encryption version (V${version}, R${revision}).`);
+  }
+
+  const keyLength = version === 1 ? 5 : Math.min(16, Math.floor(getNumber(encrypt, 'Length', 128) / 8));
+  const owner = getStringBytes(encrypt, 'O');
+  const user = getStringBytes(encrypt, 'U');
+  const permissions = getNumber(encrypt, 'P', 0);
+  const candidates = [
+    padPassword(encodeLegacyPassword(password)),
+    decryptOwnerEntry(padPassword(encodeLegacyPassword(password)), owner, revision, keyLength)
+  ];
+
+  for (const candidate of candidates) {
+    const fileKey = computeLegacyKey(candidate, owner, permissions, fileId, revision, keyLength, encryptMetadata);
+    if (isUserKey(fileKey, user, fileId, revision)) {
+      return {
+        fileKey,
+        stringMethod: version === 4 ? resolveCryptFilter(encrypt, 'StrF') : 'rc4',
+        streamMethod: version === 4 ? resolveCryptFilter(encrypt, 'StmF') : 'rc4',
+        encryptMetadata
+      };
+    }
+  }
+  throw new Error(INCORRECT_PASSWORD);
+};
+
+/**
+ * Decrypts the bytes of one string or stream. Revisions 2 to 4 mix the object number
+ * into the key; AES data starts with its initialisation vector.
+ */
+const decryptBytes = (handler: SecurityHandler, method: CipherMethod, ref: PDFRef, data: Uint8Array): Uint8Array => {
+  if (method === 'none') {
+    return data;
+  }
+
+  let key = handler.fileKey;
+  if (method !== 'aes256') {
+    const { objectNumber, generationNumber } = ref;
+    const objectBytes = new Uint8Array([
+      objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff,
+      generationNumber & 0xff, (generationNumber >> 8) & 0xff
+    ]);
+    const salt = method === 'aes128' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0);
+    key = md5(concatBytes(handler.fileKey, objectBytes, salt)).slice(0, Math.min(handler.fileKey.length + 5, 16));
+  }
+
+  if (method === 'rc4') {
+    return rc4(key, data);
+  }
+  if (data.length < 16) {
+    return new Uint8Array(0);
+  }
+  return aesCbcDecrypt(key, data.subarray(0, 16), data.subarray(16));
+};
+
+const toHexString = (bytes: Uint8Array): PDFHexString =>
+  PDFHexString.of(Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(''));
+
+/**
+ * Transforms every string inside an object in place, replacing a string object outright.
+ * Signature values are skipped because they are never encrypted.
+ */
+const mapStrings = (object: PDFObject, transform: (bytes: Uint8Array) => Uint8Array): PDFObject => {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return toHexString(transform(object.asBytes()));
+  }
+  if (object instanceof PDFDict) {
+    const isSignature = object.has(PDFName.of('ByteRange'));
+    for (const [key, value] of object.entries()) {
+      if (isSignature && key === PDFName.of('Contents')) continue;
+      object.set(key, mapStrings(value, transform));
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      object.set(i, mapStrings(object.get(i), transform));
+    }
+  }
+  return object;
+};
+
+/**
+ * pdf-lib keeps objects it could not read, such as object streams whose compressed data
+ * is still encrypted, as raw bytes; parse them again so they can be decrypted
+ */
+const reparseInvalidObject = (object: PDFInvalidObject, doc: PDFDocument): PDFObject | undefined => {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  try {
+    return PDFObjectParser.forBytes(bytes, doc.context).parseObject();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Decrypts an encrypted document in place with the user or owner password and removes
+ * its encryption dictionary. Throws INCORRECT_PASSWORD when the password does not match.
+ */
+export async function decryptDocument(doc: PDFDocument, password: string): Promise<void> {
+  const { context } = doc;
+  const encryptEntry = context.trailerInfo.Encrypt;
+  const encrypt = context.lookupMaybe(encryptEntry, PDFDict);
+  if (!encrypt) {
+    return;
+  }
+
+  const ids = context.lookupMaybe(context.trailerInfo.ID, PDFArray);
+  const firstId = ids && ids.size() > 0 ? ids.lookup(0) : undefined;
+  const fileId = firstId instanceof PDFString || firstId instanceof PDFHexString ? firstId.asBytes() : new Uint8Array(0);
+  const handler = await createSecurityHandler(encrypt, fileId, password);
+
+  const objectStreams: [PDFRef, PDFRawStream][] = [];
+  for (const [ref, indirectObject] of context.enumerateIndirectObjects()) {
+    if (ref === encryptEntry) continue;
+    const object = indirectObject instanceof PDFInvalidObject
+      ? reparseInvalidObject(indirectObject, doc) ?? indirectObject
+      : indirectObject;
+
+    const decryptString = (bytes: Uint8Array) => decryptBytes(handler, handler.stringMethod, ref, bytes);
+    if (object instanceof PDFRawStream) {
+      mapStrings(object.dict, decryptString);
+      const type = object.dict.lookup(PDFName.of('Type'));
+      const isPlainMetadata = type === PDFName.of('Metadata') && !handler.encryptMetadata;
+      const contents = isPlainMetadata ? object.contents : decryptBytes(handler, handler.streamMethod, ref, object.contents);
+      const stream = PDFRawStream.of(object.dict, contents);
+      if (type === PDFName.of('ObjStm')) {
+        objectStreams.push([ref, stream]);
+      } else {
+        context.assign(ref, stream);
+      }
+    } else {
+      context.assign(ref, mapStrings(object, decryptString));
+    }
+  }
+
+  // Objects inside object streams are not encrypted individually, so they are read
+  // only once their stream has been decrypted
+  for (const [ref, stream] of objectStreams) {
+    context.delete(ref);
+    await PDFObjectStreamParser.forStream(stream).parseIntoContext();
+  }
+
+  context.trailerInfo.Encrypt = undefined;
+  if (encryptEntry instanceof PDFRef) {
+    context.delete(encryptEntry);
+  }
+}
+
+// Permission bits of the /P entry; bits 7, 8 and 13 to 32 are reserved and must be set
+const PERMISSIONS_RESERVED = 0xfffff0c0 | 0;
+const PERMISSION_PRINT = 1 << 2;
+const PERMISSION_MODIFY = 1 << 3;
+const PERMISSION_COPY = 1 << 4;
+const PERMISSION_ANNOTATE = 1 << 5;
+const PERMISSION_FILL_FORMS = 1 << 8;
+const PERMISSION_ACCESSIBILITY = 1 << 9;
+const PERMISSION_ASSEMBLE = 1 << 10;
+const PERMISSION_PRINT_HIGH_QUALITY = 1 << 11;
+
+const computePermissions = (protection: PasswordProtection): number => {
+  // Text extraction for screen readers stays allowed, as the specification recommends
+  let permissions = PERMISSIONS_RESERVED | PERMISSION_ACCESSIBILITY;
+  if (protection.allowPrinting) permissions |= PERMISSION_PRINT | PERMISSION_PRINT_HIGH_QUALITY;
+  if (protection.allowCopying) permissions |= PERMISSION_COPY;
+  if (protection.allowModifying) permissions |= PERMISSION_MODIFY | PERMISSION_ANNOTATE | PERMISSION_FILL_FORMS | PERMISSION_ASSEMBLE;
+  return permissions;
+};
+
+interface EncryptionSetup {
+  fileKey: Uint8Array;
+  entries: Record<string, PDFObject>;
+}
+
+/**
+ * Builds the file key and the encryption dictionary entries for revision 6
+ * (algorithms 8 to 10 of the specification). A blank owner password is replaced by a
+ * random one so that the restrictions can't be lifted without the user knowing it.
+ */
+const createEncryptionSetup = async (protection: PasswordProtection): Promise<EncryptionSetup> => {
+  const fileKey = randomBytes(32);
+  const encoder = new TextEncoder();
+  const userPassword = encoder.encode(protection.userPassword).subarray(0, 127);
+  const ownerPassword = protection.ownerPassword
+    ? encoder.encode(protection.ownerPassword).subarray(0, 127)
+    : randomBytes(32);
+  const zeroIv = new Uint8Array(16);
+  const noUserEntry = new Uint8Array(0);
+
+  const [userValidationSalt, userKeySalt, ownerValidationSalt, ownerKeySalt] = [8, 8, 8, 8].map(randomBytes);
+  const userEntry = concatBytes(
+    await hashModernPassword(userPassword, userValidationSalt, noUserEntry, 6),
+    userValidationSalt,
+    userKeySalt
+  );
+  const userKeyEntry = aesCbcEncrypt(await hashModernPassword(userPassword, userKeySalt, noUserEntry, 6), zeroIv, fileKey, false);
+  const ownerEntry = concatBytes(
+    await hashModernPassword(ownerPassword, ownerValidationSalt, userEntry, 6),
+    ownerValidationSalt,
+    ownerKeySalt
+  );
+  const ownerKeyEntry = aesCbcEncrypt(await hashModernPassword(ownerPassword, ownerKeySalt, userEntry, 6), zeroIv, fileKey, false);
+
+  // The permissions are also stored encrypted so that tampering with /P can be detected
+  const permissions = computePermissions(protection);
+  const permsBlock = new Uint8Array(16);
+  new DataView(permsBlock.buffer).setInt32(0, permissions, true);
+  permsBlock.set([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62], 4);
+  permsBlock.set(randomBytes(4), 12);
+
+  return {
+    fileKey,
+    entries: {
+      Filter: PDFName.of('Standard'),
+      V: PDFNumber.of(5),
+      R: PDFNumber.of(6),
+      Length: PDFNumber.of(256),
+      P: PDFNumber.of(permissions),
+      O: toHexString(ownerEntry),
+      U: toHexString(userEntry),
+      OE: toHexString(ownerKeyEntry),
+      UE: toHexString(userKeyEntry),
+      Perms: toHexString(aesCbcEncrypt(fileKey, zeroIv, permsBlock, false)),
+      StmF: PDFName.of('StdCF'),
+      StrF: PDFName.of('StdCF')
+    }
+  };
+};
+
+// Password hashing is deliberately slow, so the parts of one split share their keys
+const encryptionSetups = new WeakMap<PasswordProtection, Promise<EncryptionSetup>>();
+
+/**
+ * Encrypts a document in place with AES-256 so that it needs the user password to open
+ * and the owner password to lift the permission restrictions. Save it without object
+ * streams afterwards, since pdf-lib would write those unencrypted.
+ */
+export async function encryptDocument(doc: PDFDocument, protection: PasswordProtection): Promise<void> {
+  const problem = findProtectionProblem(protection);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  let setup = encryptionSetups.get(protection);
+  if (!setup) {
+    setup = createEncryptionSetup(protection);
+    encryptionSetups.set(protection, setup);
+  }
+  const { fileKey, entries } = await setup;
+
+  // Fonts and images are only written into the document on flush
+  await doc.flush();
+  const { context } = doc;
+  const encryptString = (bytes: Uint8Array) => {
+    const iv = randomBytes(16);
+    return concatBytes(iv, aesCbcEncrypt(fileKey, iv, bytes));
+  };
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      mapStrings(object.dict, encryptString);
+      const iv = randomBytes(16);
+      const contents = concatBytes(iv, await aesCbcEncryptNative(fileKey, iv, object.getContents()));
+      context.assign(ref, PDFRawStream.of(object.dict, contents));
+    } else {
+      context.assign(ref, mapStrings(object, encryptString));
+    }
+  }
+
+  const encrypt = context.obj({
+    ...entries,
+    CF: context.obj({ StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } })
+  });
+  context.trailerInfo.Encrypt = context.register(encrypt);
+  if (!context.trailerInfo.ID) {
+    const id = toHexString(randomBytes(16));
+    context.trailerInfo.ID = context.obj([id, id]);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Draws running headers and footers, each a line of left, center and right slots,
+ * onto existing pages inside the PDF worker
+ */
+
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import type { HeaderFooter, HeaderFooterSlots, StampPosition } from './types';
+import { slotsFit } from './stampLayout';
+import { fillHeaderFooterTemplate } from './pageLabels';
+import { measureStampText, getDisplayedPageSize, drawTextStamp } from './pageStamp';
+
+const SLOTS: (keyof HeaderFooterSlots)[] = ['left', 'center', 'right'];
+
+const LINES: { id: 'header' | 'footer'; positions: Record<keyof HeaderFooterSlots, StampPosition> }[] = [
+  { id: 'header', positions: { left: 'top-left', center: 'top', right: 'top-right' } },
+  { id: 'footer', positions: { left: 'bottom-left', center: 'bottom', right: 'bottom-right' } }
+];
+
+/**
+ * Whether any header or footer slot has text
+ */
+export function hasHeaderFooterText(headerFooter: HeaderFooter): boolean {
+  return LINES.some(line => SLOTS.some(slot => headerFooter[line.id][slot].trim() !== ''));
+}
+
+/**
+ * Draws the header and footer of one page. Text is measured with the embedded font first,
+ * so a line whose slots would run into each other is reported instead of drawn.
+ */
+export function drawHeaderFooter(page: PDFPage, font: PDFFont, headerFooter: HeaderFooter, pageNumber: number, total: number): void {
+  const { fontSize: size } = headerFooter;
+  const pageWidth = getDisplayedPageSize(page).width;
+
+  for (const line of LINES) {
+    const texts = SLOTS.map(slot => fillHeaderFooterTemplate(headerFooter[line.id][slot], headerFooter, pageNumber, total));
+    const [left, center, right] = texts.map(text => (text ? measureStampText(font, text, size) : 0));
+    if (!slotsFit(pageWidth, left, center, right)) {
+      throw new Error(`The ${line.id} on page ${pageNumber} is too wide for the page. Shorten the text or use a smaller font size.`);
+    }
+
+    SLOTS.forEach((slot, index) => {
+      if (texts[index]) {
+        drawTextStamp(page, texts[index], { font, size, color: headerFooter.color, position: line.positions[slot] });
+      }
+    });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Page geometry for images converted to PDF. Kept free of pdf-lib so the UI can
+ * preview the same layout the worker draws.
+ */
+
+import type { ImagePageSize, PageOrientation } from './types';
+
+// Short and long side in PDF points
+const PAGE_SIZES: Record<Exclude<ImagePageSize, 'fit'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792]
+};
+
+export interface ImagePageLayout {
+  pageSize: ImagePageSize;
+  orientation: PageOrientation;
+  // Blank border around the image in PDF points
+  margin: number;
+}
+
+/**
+ * Where an image lands on its page, in PDF points from the bottom-left corner
+ */
+export interface ImagePlacement {
+  pageWidth: number;
+  pageHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lays out one image of the given upright size. On A4 and Letter the image is scaled to
+ * fit inside the margins and centred; with 'fit' the page takes the image's own size
+ * (one point per pixel) plus the margins.
+ */
+export function layoutImagePage(imageWidth: number, imageHeight: number, layout: ImagePageLayout): ImagePlacement {
+  const { pageSize, orientation, margin } = layout;
+
+  if (pageSize === 'fit') {
+    return {
+      pageWidth: imageWidth + 2 * margin,
+      pageHeight: imageHeight + 2 * margin,
+      x: margin,
+      y: margin,
+      width: imageWidth,
+      height: imageHeight
+    };
+  }
+
+  const [shortSide, longSide] = PAGE_SIZES[pageSize];
+  const isLandscape = orientation === 'auto' ? imageWidth > imageHeight : orientation === 'landscape';
+  const [pageWidth, pageHeight] = isLandscape ? [longSide, shortSide] : [shortSide, longSide];
+  const boxWidth = Math.max(1, pageWidth - 2 * margin);
+  const boxHeight = Math.max(1, pageHeight - 2 * margin);
+  const scale = Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+
+  return {
+    pageWidth,
+    pageHeight,
+    x: (pageWidth - width) / 2,
+    y: (pageHeight - height) / 2,
+    width,
+    height
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Helpers for turning JPG and PNG images into PDF pages inside the PDF worker
+ */
+
+import { degrees } from 'pdf-lib';
+import type { PDFDocument, PDFImage } from 'pdf-lib';
+import type { ImageFormat } from './types';
+import { layoutImagePage } from './imageLayout';
+import type { ImagePageLayout } from './imageLayout';
+
+// Clockwise rotation needed to display an image upright, by EXIF orientation value.
+// The mirrored orientations (2, 4, 5, 7) are rare in camera output and are ignored.
+const EXIF_ROTATIONS: Record<number, number> = { 3: 180, 6: 90, 8: 270 };
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+/**
+ * Identifies an image by its file signature rather than its name or MIME type
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0xFF, 0xD8, 0xFF])) return 'jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'png';
+  return null;
+}
+
+/**
+ * Reads the orientation tag from the first IFD of an EXIF (TIFF) block
+ */
+const readExifRotation = (view: DataView, tiffStart: number, tiffEnd: number): number => {
+  if (tiffStart + 8 > tiffEnd) return 0;
+  const byteOrder = view.getUint16(tiffStart);
+  const littleEndian = byteOrder === 0x4949;
+  if (!littleEndian && byteOrder !== 0x4D4D) return 0;
+
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > tiffEnd) return 0;
+  const entryCount = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > tiffEnd) break;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      return EXIF_ROTATIONS[view.getUint16(entry + 8, littleEndian)] ?? 0;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Returns the clockwise rotation (0, 90, 180 or 270) a JPEG needs to appear upright.
+ * Phone cameras store pixels as the sensor saw them and record the turn in EXIF, which
+ * pdf-lib's embedJpg ignores. Unreadable metadata counts as no rotation.
+ */
+export function readJpegRotation(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xFF) return 0;
+    const marker = bytes[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xFF) {
+      offset++;
+      continue;
+    }
+    // Start of scan or end of image: no metadata follows
+    if (marker === 0xDA || marker === 0xD9) return 0;
+
+    const segmentLength = view.getUint16(offset + 2);
+    const segmentEnd = Math.min(offset + 2 + segmentLength, bytes.length);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xE1 && startsWith(bytes, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00], offset + 4)) {
+      return readExifRotation(view, offset + 10, segmentEnd);
+    }
+    offset += 2 + segmentLength;
+  }
+  return 0;
+}
+
+/**
+ * Adds a page holding the image, turned upright by the given clockwise rotation
+ * and placed according to layoutImagePage
+ */
+export function addImagePage(doc: PDFDocument, image: PDFImage, rotation: number, layout: ImagePageLayout): void {
+  const isQuarterTurn = rotation === 90 || rotation === 270;
+  const { pageWidth, pageHeight, x, y, width, height } = layoutImagePage(
+    isQuarterTurn ? image.height : image.width,
+    isQuarterTurn ? image.width : image.height,
+    layout
+  );
+
+  // drawImage turns the image around its bottom-left corner, so move that corner to
+  // where it ends up once the image is upright
+  const origins: Record<number, [number, number]> = {
+    0: [x, y],
+    90: [x, y + height],
+    180: [x + width, y + height],
+    270: [x + width, y]
+  };
+  const [originX, originY] = origins[rotation] ?? origins[0];
+
+  const page = doc.addPage([pageWidth, pageHeight]);
+  page.drawImage(image, {
+    x: originX,
+    y: originY,
+    width: isQuarterTurn ? height : width,
+    height: isQuarterTurn ? width : height,
+    rotate: degrees(-rotation)
+  });
+}
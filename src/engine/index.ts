@@ -0,0 +1,35 @@
+/**
+ * PDF engine: framework-free PDF operations shared by every tool.
+ * Components should import from here rather than from pdf-lib directly.
+ * pdf-lib work runs in a dedicated worker; see workerClient.
+ */
+
+export type { OperationStage, OperationProgress, OperationOptions, PasswordProtection, OutputOptions, MergeOptions, InterleaveOptions, StampPosition, Watermark, StampFont, NumeralStyle, PageNumbering, HeaderFooterSlots, HeaderFooter, RedactionArea, RedactionOptions, RedactionCheck, RedactionLeftover, RedactionReport, RedactionResult, PageRotations, MergePageSelection, SplitPart, SizedSplitPart, SizeSplitResult, CompressionPreset, CompressionStats, CompressResult, ImageFormat, ImagePageSize, PageOrientation, ImagesToPdfOptions, PageImageFormat, PageImageOptions, PageImageExportResult, TextExportFormat, TextExtractionOptions, TextExtractionResult, TextSearchOptions, PageTextMatch, DocumentMetadata, MetadataReport } from './types';
+export { parsePageRange, formatPageRange, parsePageGroups, formatPageGroups, chunkPages, findInvalidPages } from './pageRange';
+export { readFileBytes } from './io';
+export type { ReadFileOptions } from './io';
+export { getPageCount, mergePdfs, interleavePdfs, extractPages, splitToZip, splitBySize, removePages, rotatePages, reorderPages, compressPdf, imagesToPdf, readMetadata, updateMetadata, stripMetadata, decryptPdf, addWatermark, addPageNumbers, addHeaderFooter } from './workerClient';
+export { OPERATION_CANCELLED, isCancelledError } from './cancellation';
+export { INCORRECT_PASSWORD, isIncorrectPasswordError, findProtectionProblem } from './password';
+export {
+  loadRenderDocument,
+  renderPageThumbnail,
+  getPageSize,
+  generatePageThumbnail,
+  generateSimpleThumbnail,
+  generatePlaceholderThumbnail,
+  generateFileIconThumbnail,
+  generateImageThumbnail
+} from './thumbnails';
+export type { RenderDocument, ThumbnailOptions, SimpleThumbnailOptions, ImagePreview } from './thumbnails';
+export { renderPageImage, exportPagesAsImages } from './pageImages';
+export { extractText } from './textExtraction';
+export { indexPageText, searchPageText } from './textSearch';
+export { findTextMatches, redactPdf, formatRedactionReport } from './redaction';
+export { layoutImagePage } from './imageLayout';
+export { placeStamp, getImageStampSize, slotsFit, TEXT_ASCENT } from './stampLayout';
+export { formatNumeral, formatPageLabel, fillHeaderFooterTemplate } from './pageLabels';
+export type { ImagePageLayout, ImagePlacement } from './imageLayout';
+export { describeProgress } from './progress';
+export { readOutline, getOutlineDepth, buildOutlineSections } from './outline';
+export type { OutlineNode, OutlineSection } from './outline';
@@ -0,0 +1,39 @@
+/**
+ * Reading input files into memory
+ */
+
+import { throwIfAborted } from './cancellation';
+
+export interface ReadFileOptions {
+  retries?: number;
+  retryDelayMs?: number;
+  onRetry?: (attempt: number, maxAttempts: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads a File into a Uint8Array, retrying transient read failures.
+ * Large files occasionally fail with NotReadableError on the first attempt.
+ */
+export async function readFileBytes(file: File, options: ReadFileOptions = {}): Promise<Uint8Array> {
+  const { retries = 3, retryDelayMs = 1000, onRetry, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    let buffer: ArrayBuffer;
+    try {
+      buffer = await file.arrayBuffer();
+    } catch (readError) {
+      console.warn(`File read attempt ${attempt} failed:`, readError);
+      if (attempt >= retries) {
+        throw new Error('Failed to read file after multiple attempts. The file may be too large or corrupted.');
+      }
+      onRetry?.(attempt + 1, retries);
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+      continue;
+    }
+    // Drop the buffer straight away if the operation was cancelled while reading
+    throwIfAborted(signal);
+    return new Uint8Array(buffer);
+  }
+}
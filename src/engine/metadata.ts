@@ -0,0 +1,100 @@
+/**
+ * Reading, editing and removing document metadata inside the PDF worker: the
+ * document information dictionary plus XMP metadata streams
+ */
+
+import { PDFDict, PDFName, PDFStream } from 'pdf-lib';
+import type { PDFDocument } from 'pdf-lib';
+import type { DocumentMetadata, MetadataReport } from './types';
+import { removeUnusedObjects } from './compress';
+
+// XMP packets, and private data that authoring applications store alongside pages and images
+const METADATA_KEYS = [PDFName.of('Metadata'), PDFName.of('PieceInfo')];
+
+const TEXT_FIELDS = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  creator: 'Creator',
+  producer: 'Producer'
+} as const;
+
+const DATE_FIELDS = {
+  creationDate: 'CreationDate',
+  modificationDate: 'ModDate'
+} as const;
+
+const getInfoDict = (doc: PDFDocument): PDFDict | undefined =>
+  doc.context.lookupMaybe(doc.context.trailerInfo.Info, PDFDict);
+
+/**
+ * Returns the information dictionary fields and whether the document carries XMP metadata
+ */
+export function getDocumentMetadata(doc: PDFDocument): MetadataReport {
+  return {
+    metadata: {
+      title: doc.getTitle() ?? '',
+      author: doc.getAuthor() ?? '',
+      subject: doc.getSubject() ?? '',
+      keywords: doc.getKeywords() ?? '',
+      creator: doc.getCreator() ?? '',
+      producer: doc.getProducer() ?? '',
+      creationDate: doc.getCreationDate() ?? null,
+      modificationDate: doc.getModificationDate() ?? null
+    },
+    hasXmp: doc.catalog.has(PDFName.of('Metadata'))
+  };
+}
+
+/**
+ * Writes the given fields to the information dictionary. Blank fields are removed rather
+ * than stored empty. The document-level XMP packet is dropped because viewers prefer it
+ * over the information dictionary and it would still hold the old values.
+ */
+export function setDocumentMetadata(doc: PDFDocument, metadata: DocumentMetadata): void {
+  const title = metadata.title.trim();
+  if (title) {
+    doc.setTitle(title, { showInWindowTitleBar: true });
+  }
+  if (metadata.author.trim()) doc.setAuthor(metadata.author.trim());
+  if (metadata.subject.trim()) doc.setSubject(metadata.subject.trim());
+  // Keywords are free text; pdf-lib joins the list with spaces
+  if (metadata.keywords.trim()) doc.setKeywords([metadata.keywords.trim()]);
+  if (metadata.creator.trim()) doc.setCreator(metadata.creator.trim());
+  if (metadata.producer.trim()) doc.setProducer(metadata.producer.trim());
+  if (metadata.creationDate) doc.setCreationDate(metadata.creationDate);
+  if (metadata.modificationDate) doc.setModificationDate(metadata.modificationDate);
+
+  const info = getInfoDict(doc);
+  if (info) {
+    (Object.keys(TEXT_FIELDS) as (keyof typeof TEXT_FIELDS)[])
+      .filter(field => !metadata[field].trim())
+      .forEach(field => info.delete(PDFName.of(TEXT_FIELDS[field])));
+    (Object.keys(DATE_FIELDS) as (keyof typeof DATE_FIELDS)[])
+      .filter(field => !metadata[field])
+      .forEach(field => info.delete(PDFName.of(DATE_FIELDS[field])));
+  }
+
+  doc.catalog.delete(PDFName.of('Metadata'));
+  removeUnusedObjects(doc);
+}
+
+/**
+ * Empties the information dictionary and removes every XMP packet and application data
+ * dictionary, on the catalog, pages, images and fonts alike. The orphaned streams are
+ * deleted so they don't stay in the saved file.
+ */
+export function removeAllMetadata(doc: PDFDocument): void {
+  const info = getInfoDict(doc);
+  info?.keys().forEach(key => info.delete(key));
+
+  for (const [, object] of doc.context.enumerateIndirectObjects()) {
+    const dict = object instanceof PDFStream ? object.dict : object;
+    if (dict instanceof PDFDict) {
+      METADATA_KEYS.forEach(key => dict.delete(key));
+    }
+  }
+
+  removeUnusedObjects(doc);
+}
@@ -0,0 +1,613 @@
+/**
+ * Typed PDF operations. Every operation takes raw PDF bytes and returns new PDF bytes,
+ * so the same code can back any tool regardless of how the UI holds its files.
+ * These run inside the PDF worker; the UI calls them through workerClient.
+ */
+
+import { PDFDocument, degrees } from 'pdf-lib';
+import type { PDFImage, PDFPage, PDFRef } from 'pdf-lib';
+import type { CompressionPreset, CompressResult, DocumentMetadata, HeaderFooter, ImagesToPdfOptions, InterleaveOptions, MergeOptions, MergePageSelection, MetadataReport, OperationOptions, OutputOptions, PageNumbering, PageRotations, SizeSplitResult, SplitPart, Watermark } from './types';
+import { loadPdf, copyPagesInBatches, savePdf, checkpoint, LARGE_INPUT_BYTES } from './document';
+import { findInvalidPages } from './pageRange';
+import { readBookmarks, remapBookmarks, writeBookmarks } from './bookmarks';
+import { recompressImages, deduplicateStreams, removeUnusedObjects } from './compress';
+import { detectImageFormat, readJpegRotation, addImagePage } from './images';
+import { getDocumentMetadata, setDocumentMetadata, removeAllMetadata } from './metadata';
+import { decryptDocument } from './encryption';
+import { embedWatermark, drawWatermark } from './watermark';
+import { embedStampFont, drawTextStamp } from './pageStamp';
+import { formatPageLabel } from './pageLabels';
+import { hasHeaderFooterText, drawHeaderFooter } from './headerFooter';
+import { replacePageWithImage, removeFormFields, removeStructureTree } from './rasterize';
+import type { Bookmark } from './bookmarks';
+import { createZip } from '../utils/zip';
+
+/**
+ * Returns the number of pages in a PDF
+ */
+export async function getPageCount(bytes: Uint8Array): Promise<number> {
+  const pdf = await loadPdf(bytes);
+  return pdf.getPageCount();
+}
+
+/**
+ * Returns the 0-based page indices to take from merge input number inputIndex
+ */
+function resolvePageSelection(pdf: PDFDocument, selection: MergePageSelection | undefined, inputIndex: number): number[] {
+  if (!selection) {
+    return pdf.getPageIndices();
+  }
+
+  const invalidPages = findInvalidPages(selection, pdf.getPageCount());
+  if (invalidPages.length > 0) {
+    throw new Error(`Invalid page numbers in file ${inputIndex + 1}: ${invalidPages.join(', ')}. It has ${pdf.getPageCount()} pages.`);
+  }
+  return selection.map(page => page - 1);
+}
+
+/**
+ * Concatenates the inputs in order. pageSelections[i] lists the 1-based pages to take from
+ * input i, in the order given; a missing or null entry takes every page.
+ * With options.bookmarkTitles, each input also gets a bookmark holding its own outline.
+ */
+export async function mergePdfs(
+  inputs: Uint8Array[],
+  pageSelections: MergePageSelection[] = [],
+  options: MergeOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal, bookmarkTitles, protection } = options;
+  const mergedPdf = await PDFDocument.create();
+  const bookmarks: Bookmark[] = [];
+
+  for (let i = 0; i < inputs.length; i++) {
+    await checkpoint(signal);
+    onProgress?.({ stage: 'loading', current: i + 1, total: inputs.length });
+    const pdf = await loadPdf(inputs[i]);
+
+    const pageIndices = resolvePageSelection(pdf, pageSelections[i], i);
+    const firstMergedIndex = mergedPdf.getPageCount();
+    await copyPagesInBatches(mergedPdf, pdf, pageIndices, { signal, sourceSize: inputs[i].length });
+
+    if (bookmarkTitles && pageIndices.length > 0) {
+      // A page picked more than once keeps its bookmarks on the first copy
+      const pageMap = new Map<number, number>();
+      pageIndices.forEach((sourceIndex, offset) => {
+        if (!pageMap.has(sourceIndex)) pageMap.set(sourceIndex, firstMergedIndex + offset);
+      });
+      bookmarks.push({
+        title: bookmarkTitles[i] ?? `Document ${i + 1}`,
+        pageIndex: firstMergedIndex,
+        children: remapBookmarks(readBookmarks(pdf), pageMap)
+      });
+    }
+  }
+
+  if (mergedPdf.getPageCount() === 0) {
+    throw new Error('No pages selected to merge.');
+  }
+  if (bookmarks.length > 0) {
+    writeBookmarks(mergedPdf, bookmarks);
+  }
+
+  const totalSize = inputs.reduce((total, input) => total + input.length, 0);
+  return savePdf(mergedPdf, { onProgress, signal, protection, lowMemory: totalSize > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Collates the inputs page by page: first page of each input, then the second page of each,
+ * and so on. Typical use is rebuilding a duplex document from a scan of the fronts and a
+ * scan of the backs, where the backs come out last page first (options.reverse[1]).
+ * pageSelections works as in mergePdfs and is applied before reversing.
+ */
+export async function interleavePdfs(
+  inputs: Uint8Array[],
+  pageSelections: MergePageSelection[] = [],
+  options: InterleaveOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal, reverse = [], padWithBlankPages = false, protection } = options;
+  const collatedPdf = await PDFDocument.create();
+
+  const sequences: PDFPage[][] = [];
+  for (let i = 0; i < inputs.length; i++) {
+    await checkpoint(signal);
+    onProgress?.({ stage: 'loading', current: i + 1, total: inputs.length });
+    const pdf = await loadPdf(inputs[i]);
+    const pageIndices = resolvePageSelection(pdf, pageSelections[i], i);
+    if (reverse[i]) {
+      pageIndices.reverse();
+    }
+    sequences.push(await copyPagesInBatches(collatedPdf, pdf, pageIndices, {
+      signal,
+      sourceSize: inputs[i].length,
+      addToDocument: false
+    }));
+  }
+
+  const longest = Math.max(0, ...sequences.map(pages => pages.length));
+  if (longest === 0) {
+    throw new Error('No pages selected to merge.');
+  }
+
+  for (let round = 0; round < longest; round++) {
+    for (const pages of sequences) {
+      if (round < pages.length) {
+        collatedPdf.addPage(pages[round]);
+      } else if (padWithBlankPages && pages.length > 0) {
+        // Keep the alternation intact, sized like the page it would have faced
+        const previousPage = collatedPdf.getPage(collatedPdf.getPageCount() - 1);
+        collatedPdf.addPage([previousPage.getWidth(), previousPage.getHeight()]);
+      }
+    }
+  }
+
+  const totalSize = inputs.reduce((total, input) => total + input.length, 0);
+  return savePdf(collatedPdf, { onProgress, signal, protection, lowMemory: totalSize > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Copies the given 1-based pages of an already loaded document into a new PDF
+ */
+async function extractFromDocument(
+  originalPdf: PDFDocument,
+  sourceSize: number,
+  pageNumbers: number[],
+  options: OutputOptions
+): Promise<Uint8Array> {
+  const { onProgress, signal, protection } = options;
+  const pageCount = originalPdf.getPageCount();
+  const invalidPages = findInvalidPages(pageNumbers, pageCount);
+  if (invalidPages.length > 0) {
+    throw new Error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${pageCount} pages.`);
+  }
+
+  const newPdf = await PDFDocument.create();
+  await copyPagesInBatches(newPdf, originalPdf, pageNumbers.map(page => page - 1), { onProgress, signal, sourceSize });
+
+  return savePdf(newPdf, { onProgress, signal, protection, lowMemory: sourceSize > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Builds a new PDF from the given 1-based page numbers, in the order given.
+ * Page numbers may repeat, in which case the page is duplicated.
+ */
+export async function extractPages(bytes: Uint8Array, pageNumbers: number[], options: OutputOptions = {}): Promise<Uint8Array> {
+  if (pageNumbers.length === 0) {
+    throw new Error('Please specify valid page numbers.');
+  }
+
+  options.onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const originalPdf = await loadPdf(bytes);
+  return extractFromDocument(originalPdf, bytes.length, pageNumbers, options);
+}
+
+/**
+ * Splits one PDF into several files and bundles them into a ZIP archive.
+ * The source is parsed once and every part is copied from it in turn.
+ */
+export async function splitToZip(bytes: Uint8Array, parts: SplitPart[], options: OutputOptions = {}): Promise<Uint8Array> {
+  const { onProgress, signal, protection } = options;
+  if (parts.length === 0) {
+    throw new Error('Please specify at least one group of pages.');
+  }
+
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const originalPdf = await loadPdf(bytes);
+
+  const outputs: Uint8Array[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    await checkpoint(signal);
+    onProgress?.({ stage: 'splitting', current: i + 1, total: parts.length });
+    outputs.push(await extractFromDocument(originalPdf, bytes.length, parts[i].pageNumbers, { signal, protection }));
+  }
+
+  await checkpoint(signal);
+  onProgress?.({ stage: 'packaging', current: 0, total: 1 });
+  return createZip(parts.map((part, index) => ({ name: part.fileName, data: outputs[index] })));
+}
+
+/**
+ * Splits one PDF into consecutive parts whose saved size stays within maxBytes, and bundles
+ * them into a ZIP archive named `${baseName}-part-01.pdf`, `-part-02.pdf`...
+ *
+ * Each part is measured by actually saving it: the page count grows by doubling until a
+ * candidate goes over the limit, then a binary search finds the largest count that fits.
+ * This assumes adding pages never shrinks a file, which holds in practice. A single page
+ * larger than the limit still becomes its own part, so check the returned sizes.
+ */
+export async function splitBySize(
+  bytes: Uint8Array,
+  maxBytes: number,
+  baseName: string,
+  options: OutputOptions = {}
+): Promise<SizeSplitResult> {
+  const { onProgress, signal, protection } = options;
+  if (!(maxBytes > 0)) {
+    throw new Error('Please choose a size limit above zero.');
+  }
+
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const originalPdf = await loadPdf(bytes);
+  const pageCount = originalPdf.getPageCount();
+
+  const pageRun = (first: number, count: number) => Array.from({ length: count }, (_, index) => first + index);
+  const measure = async (first: number, count: number) => {
+    await checkpoint(signal);
+    return extractFromDocument(originalPdf, bytes.length, pageRun(first, count), { signal, protection });
+  };
+
+  const chunks: { pageNumbers: number[]; data: Uint8Array }[] = [];
+  let first = 1;
+  let previousCount = 1;
+  while (first <= pageCount) {
+    onProgress?.({ stage: 'measuring', current: first - 1, total: pageCount });
+    const remaining = pageCount - first + 1;
+
+    // fitCount pages are known to fit (or the part is a single page); overCount pages are known not to
+    let fitCount = 1;
+    let fitData = await measure(first, 1);
+    let overCount = remaining + 1;
+
+    if (fitData.length <= maxBytes) {
+      // Start from the previous part's size, since neighbouring pages tend to weigh the same
+      let probe = Math.min(remaining, Math.max(2, previousCount));
+      while (overCount > remaining && fitCount < remaining) {
+        const data = await measure(first, probe);
+        if (data.length <= maxBytes) {
+          fitCount = probe;
+          fitData = data;
+          probe = Math.min(remaining, probe * 2);
+        } else {
+          overCount = probe;
+        }
+      }
+
+      while (overCount - fitCount > 1) {
+        const middle = Math.floor((fitCount + overCount) / 2);
+        const data = await measure(first, middle);
+        if (data.length <= maxBytes) {
+          fitCount = middle;
+          fitData = data;
+        } else {
+          overCount = middle;
+        }
+      }
+    }
+
+    chunks.push({ pageNumbers: pageRun(first, fitCount), data: fitData });
+    first += fitCount;
+    previousCount = fitCount;
+  }
+
+  const digits = Math.max(2, String(chunks.length).length);
+  const parts = chunks.map((chunk, index) => ({
+    fileName: `${baseName}-part-${String(index + 1).padStart(digits, '0')}.pdf`,
+    pageNumbers: chunk.pageNumbers,
+    size: chunk.data.length
+  }));
+
+  await checkpoint(signal);
+  onProgress?.({ stage: 'packaging', current: 0, total: 1 });
+  const archive = createZip(parts.map((part, index) => ({ name: part.fileName, data: chunks[index].data })));
+  return { archive, parts };
+}
+
+/**
+ * Shrinks a PDF: re-encodes images according to the preset, merges duplicate streams,
+ * drops unreachable objects and saves with object streams
+ */
+export async function compressPdf(bytes: Uint8Array, preset: CompressionPreset, options: OperationOptions = {}): Promise<CompressResult> {
+  const { onProgress, signal } = options;
+  const originalSize = bytes.length;
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes);
+
+  const imagesRecompressed = await recompressImages(pdf, preset, { onProgress, signal });
+  await checkpoint(signal);
+  const duplicateStreamsRemoved = deduplicateStreams(pdf);
+  const unusedObjectsRemoved = removeUnusedObjects(pdf);
+
+  // Object streams are the point here, so never fall back to the low-memory layout
+  const output = await savePdf(pdf, { onProgress, signal });
+  return {
+    output,
+    stats: { originalSize, compressedSize: output.length, imagesRecompressed, duplicateStreamsRemoved, unusedObjectsRemoved }
+  };
+}
+
+/**
+ * Builds a PDF with one page per JPG or PNG image, in the order given. JPEGs are turned
+ * upright according to their EXIF orientation.
+ */
+export async function imagesToPdf(images: Uint8Array[], options: ImagesToPdfOptions = {}): Promise<Uint8Array> {
+  const { onProgress, signal, pageSize = 'a4', orientation = 'auto', margin = 0 } = options;
+  if (images.length === 0) {
+    throw new Error('No images to convert.');
+  }
+
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < images.length; i++) {
+    await checkpoint(signal);
+    onProgress?.({ stage: 'embedding', current: i + 1, total: images.length });
+
+    const bytes = images[i];
+    const format = detectImageFormat(bytes);
+    if (!format) {
+      throw new Error(`Image ${i + 1} is not a JPG or PNG file.`);
+    }
+
+    let image: PDFImage;
+    try {
+      image = format === 'jpeg' ? await doc.embedJpg(bytes) : await doc.embedPng(bytes);
+    } catch (embedError: unknown) {
+      const errorMessage = embedError instanceof Error ? embedError.message : 'Unknown error';
+      throw new Error(`Could not read image ${i + 1}. ${errorMessage}`);
+    }
+    addImagePage(doc, image, format === 'jpeg' ? readJpegRotation(bytes) : 0, { pageSize, orientation, margin });
+  }
+
+  return savePdf(doc, { onProgress, signal });
+}
+
+/**
+ * Builds a new PDF without the given 1-based page numbers. At least one page must remain.
+ */
+export async function removePages(bytes: Uint8Array, pageNumbers: number[], options: OutputOptions = {}): Promise<Uint8Array> {
+  options.onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const originalPdf = await loadPdf(bytes);
+  const pageCount = originalPdf.getPageCount();
+
+  const invalidPages = findInvalidPages(pageNumbers, pageCount);
+  if (invalidPages.length > 0) {
+    throw new Error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${pageCount} pages.`);
+  }
+
+  const toRemove = new Set(pageNumbers);
+  const pagesToKeep: number[] = [];
+  for (let page = 1; page <= pageCount; page++) {
+    if (!toRemove.has(page)) {
+      pagesToKeep.push(page);
+    }
+  }
+
+  if (pagesToKeep.length === 0) {
+    throw new Error('Cannot remove all pages from PDF. At least one page must remain.');
+  }
+
+  return extractFromDocument(originalPdf, bytes.length, pagesToKeep, options);
+}
+
+/**
+ * Adds the given clockwise rotation to each listed page, on top of its current rotation
+ */
+export async function rotatePages(bytes: Uint8Array, rotations: PageRotations, options: OperationOptions = {}): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes);
+  const pages = pdf.getPages();
+
+  for (const [pageNumber, angle] of Object.entries(rotations)) {
+    const page = pages[Number(pageNumber) - 1];
+    if (!page) continue;
+    // Page rotation must stay a multiple of 90, normalised to 0-270
+    const currentAngle = page.getRotation().angle;
+    page.setRotation(degrees((((currentAngle + angle) % 360) + 360) % 360));
+  }
+
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Stamps a text or image watermark onto the given 1-based pages; an empty list stamps every page.
+ * Image watermarks pass the JPG or PNG bytes as image.
+ */
+export async function addWatermark(
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  watermark: Watermark,
+  image?: Uint8Array,
+  options: OperationOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes);
+  const pages = pdf.getPages();
+
+  const invalidPages = findInvalidPages(pageNumbers, pages.length);
+  if (invalidPages.length > 0) {
+    throw new Error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${pages.length} pages.`);
+  }
+
+  const stamp = await embedWatermark(pdf, watermark, image);
+  const targets = pageNumbers.length > 0 ? pageNumbers : pdf.getPageIndices().map(index => index + 1);
+  for (let i = 0; i < targets.length; i++) {
+    if (i % 50 === 0) {
+      await checkpoint(signal);
+      onProgress?.({ stage: 'stamping', current: i + 1, total: targets.length });
+    }
+    drawWatermark(pages[targets[i] - 1], stamp, watermark);
+  }
+
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Stamps page or Bates numbers onto the given 1-based pages; an empty list numbers every page.
+ * The first numbered page gets numbering.startNumber and the rest count on from there.
+ */
+export async function addPageNumbers(
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  numbering: PageNumbering,
+  options: OperationOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  if (numbering.kind === 'page' && !numbering.template.trim()) {
+    throw new Error('Enter the page number format.');
+  }
+
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes);
+  const pages = pdf.getPages();
+
+  const invalidPages = findInvalidPages(pageNumbers, pages.length);
+  if (invalidPages.length > 0) {
+    throw new Error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${pages.length} pages.`);
+  }
+
+  const font = await embedStampFont(pdf, numbering.font);
+  const targets = pageNumbers.length > 0
+    ? [...pageNumbers].sort((a, b) => a - b)
+    : pdf.getPageIndices().map(index => index + 1);
+  const lastValue = numbering.startNumber + targets.length - 1;
+  for (let i = 0; i < targets.length; i++) {
+    if (i % 50 === 0) {
+      await checkpoint(signal);
+      onProgress?.({ stage: 'stamping', current: i + 1, total: targets.length });
+    }
+    drawTextStamp(pages[targets[i] - 1], formatPageLabel(numbering, numbering.startNumber + i, lastValue), {
+      font,
+      size: numbering.fontSize,
+      color: numbering.color,
+      position: numbering.position
+    });
+  }
+
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Draws the running header and footer on every page except skipPages. {page} and {total}
+ * always count every page of the document, skipped or not.
+ */
+export async function addHeaderFooter(
+  bytes: Uint8Array,
+  skipPages: number[],
+  headerFooter: HeaderFooter,
+  options: OperationOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  if (!hasHeaderFooterText(headerFooter)) {
+    throw new Error('Enter the header or footer text.');
+  }
+
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes);
+  const pages = pdf.getPages();
+
+  const invalidPages = findInvalidPages(skipPages, pages.length);
+  if (invalidPages.length > 0) {
+    throw new Error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${pages.length} pages.`);
+  }
+
+  const skipped = new Set(skipPages);
+  const targets = pdf.getPageIndices().map(index => index + 1).filter(pageNumber => !skipped.has(pageNumber));
+  if (targets.length === 0) {
+    throw new Error('Every page is skipped. Leave at least one page for the header and footer.');
+  }
+
+  const font = await embedStampFont(pdf, headerFooter.font);
+  for (let i = 0; i < targets.length; i++) {
+    if (i % 50 === 0) {
+      await checkpoint(signal);
+      onProgress?.({ stage: 'stamping', current: i + 1, total: targets.length });
+    }
+    drawHeaderFooter(pages[targets[i] - 1], font, headerFooter, targets[i], pages.length);
+  }
+
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Replaces each given page with its rendered image (PNG or JPG) in which the redactions are
+ * already blacked out. Form fields on those pages and the structure tree go too, and unused
+ * objects are dropped so the original page content isn't left in the file.
+ */
+export async function redactPages(
+  bytes: Uint8Array,
+  pageImages: { pageNumber: number; image: Uint8Array }[],
+  removeMetadata: boolean,
+  options: OperationOptions = {}
+): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes);
+  const pages = pdf.getPages();
+
+  const invalidPages = findInvalidPages(pageImages.map(({ pageNumber }) => pageNumber), pages.length);
+  if (invalidPages.length > 0) {
+    throw new Error(`Invalid page numbers: ${invalidPages.join(', ')}. This PDF has ${pages.length} pages.`);
+  }
+
+  const widgetRefs: PDFRef[] = [];
+  const pageRefs: PDFRef[] = [];
+  for (let i = 0; i < pageImages.length; i++) {
+    await checkpoint(signal);
+    onProgress?.({ stage: 'redacting', current: i + 1, total: pageImages.length });
+    const { pageNumber, image } = pageImages[i];
+    const format = detectImageFormat(image);
+    if (!format) {
+      throw new Error(`The image of page ${pageNumber} is not a JPG or PNG file.`);
+    }
+    const embedded = format === 'jpeg' ? await pdf.embedJpg(image) : await pdf.embedPng(image);
+    const page = pages[pageNumber - 1];
+    widgetRefs.push(...replacePageWithImage(pdf, page, embedded));
+    pageRefs.push(page.ref);
+  }
+
+  removeFormFields(pdf, widgetRefs, pageRefs);
+  removeStructureTree(pdf);
+  if (removeMetadata) {
+    removeAllMetadata(pdf);
+  } else {
+    removeUnusedObjects(pdf);
+  }
+
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Returns the document information fields and whether an XMP packet is present
+ */
+export async function readMetadata(bytes: Uint8Array): Promise<MetadataReport> {
+  const pdf = await loadPdf(bytes, { updateMetadata: false });
+  return getDocumentMetadata(pdf);
+}
+
+/**
+ * Saves a copy with the given document information. Nothing else is changed, so the
+ * producer and dates end up exactly as given.
+ */
+export async function updateMetadata(bytes: Uint8Array, metadata: DocumentMetadata, options: OperationOptions = {}): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes, { updateMetadata: false });
+  setDocumentMetadata(pdf, metadata);
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Saves a copy without document information, XMP packets or application data
+ */
+export async function stripMetadata(bytes: Uint8Array, options: OperationOptions = {}): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes, { updateMetadata: false });
+  removeAllMetadata(pdf);
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
+
+/**
+ * Saves a decrypted copy of a password-protected PDF. Either the user or the owner
+ * password works; a PDF that isn't encrypted comes back unchanged.
+ */
+export async function decryptPdf(bytes: Uint8Array, password: string, options: OperationOptions = {}): Promise<Uint8Array> {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadPdf(bytes, { updateMetadata: false, ignoreEncryption: true });
+  if (!pdf.isEncrypted) {
+    return bytes;
+  }
+  await checkpoint(signal);
+  await decryptDocument(pdf, password);
+  return savePdf(pdf, { onProgress, signal, lowMemory: bytes.length > LARGE_INPUT_BYTES });
+}
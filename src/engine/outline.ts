@@ -0,0 +1,111 @@
+/**
+ * Document outline (bookmarks) reading with PDF.js, and turning bookmarks into split sections
+ */
+
+import { loadRenderDocument } from './thumbnails';
+import type { RenderDocument } from './thumbnails';
+
+export interface OutlineNode {
+  title: string;
+  // 1-based page the bookmark points to, or null when its destination can't be resolved
+  pageNumber: number | null;
+  // 1 for top-level bookmarks
+  depth: number;
+  children: OutlineNode[];
+}
+
+export interface OutlineSection {
+  title: string;
+  pageNumbers: number[];
+}
+
+type OutlineItem = Awaited<ReturnType<RenderDocument['getOutline']>>[number];
+type PageRef = Parameters<RenderDocument['getPageIndex']>[0];
+
+const resolvePageNumber = async (pdf: RenderDocument, dest: OutlineItem['dest']): Promise<number | null> => {
+  try {
+    const explicitDest = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!explicitDest || explicitDest.length === 0) {
+      return null;
+    }
+
+    const target = explicitDest[0];
+    // Destinations point at a page reference, or occasionally at a 0-based page index
+    if (typeof target === 'number') {
+      return target + 1;
+    }
+    return (await pdf.getPageIndex(target as PageRef)) + 1;
+  } catch {
+    return null;
+  }
+};
+
+const convertItems = async (pdf: RenderDocument, items: OutlineItem[], depth: number): Promise<OutlineNode[]> => {
+  const nodes: OutlineNode[] = [];
+  for (const item of items) {
+    nodes.push({
+      title: item.title.trim() || 'Untitled',
+      pageNumber: await resolvePageNumber(pdf, item.dest),
+      depth,
+      children: await convertItems(pdf, item.items ?? [], depth + 1)
+    });
+  }
+  return nodes;
+};
+
+/**
+ * Reads the bookmark tree of a PDF. Returns an empty list when the document has no outline.
+ */
+export async function readOutline(bytes: Uint8Array): Promise<OutlineNode[]> {
+  const pdf = await loadRenderDocument(bytes);
+  try {
+    const outline = await pdf.getOutline();
+    return outline ? await convertItems(pdf, outline, 1) : [];
+  } finally {
+    pdf.destroy();
+  }
+}
+
+/**
+ * Returns how many levels deep the bookmark tree goes
+ */
+export function getOutlineDepth(nodes: OutlineNode[]): number {
+  return nodes.reduce((deepest, node) => Math.max(deepest, node.depth, getOutlineDepth(node.children)), 0);
+}
+
+/**
+ * Turns bookmarks down to the given depth into consecutive page sections. Each section runs
+ * from its bookmark's page up to the page before the next bookmark. Pages before the first
+ * bookmark become a "Front matter" section, and when several bookmarks share a page the
+ * first (shallowest) one names the section.
+ */
+export function buildOutlineSections(nodes: OutlineNode[], maxDepth: number, pageCount: number): OutlineSection[] {
+  const starts: { title: string; pageNumber: number }[] = [];
+  const collect = (items: OutlineNode[]) => {
+    for (const node of items) {
+      if (node.depth > maxDepth) continue;
+      if (node.pageNumber !== null && node.pageNumber >= 1 && node.pageNumber <= pageCount) {
+        starts.push({ title: node.title, pageNumber: node.pageNumber });
+      }
+      collect(node.children);
+    }
+  };
+  collect(nodes);
+
+  // Stable sort keeps outline order for bookmarks on the same page
+  starts.sort((a, b) => a.pageNumber - b.pageNumber);
+  const uniqueStarts = starts.filter((start, index) => index === 0 || start.pageNumber !== starts[index - 1].pageNumber);
+
+  if (uniqueStarts.length > 0 && uniqueStarts[0].pageNumber > 1) {
+    uniqueStarts.unshift({ title: 'Front matter', pageNumber: 1 });
+  }
+
+  return uniqueStarts.map((start, index) => {
+    const endPage = index + 1 < uniqueStarts.length ? uniqueStarts[index + 1].pageNumber - 1 : pageCount;
+    const pageNumbers: number[] = [];
+    for (let page = start.pageNumber; page <= endPage; page++) {
+      pageNumbers.push(page);
+    }
+    return { title: start.title, pageNumbers };
+  });
+}
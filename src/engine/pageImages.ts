@@ -0,0 +1,145 @@
+/**
+ * Full-resolution page rendering with PDF.js for exporting pages as image files.
+ * Runs on the UI thread like thumbnails.ts, one page at a time to keep memory flat.
+ */
+
+import type { OperationOptions, PageImageExportResult, PageImageFormat, PageImageOptions } from './types';
+import { loadRenderDocument } from './thumbnails';
+import type { RenderDocument } from './thumbnails';
+import { throwIfAborted } from './cancellation';
+import { createZip } from '../utils/zip';
+import type { ZipEntry } from '../utils/zip';
+
+// PDF user space has 72 points per inch
+const POINTS_PER_INCH = 72;
+// Stays within the canvas limits of every current browser (Safari is the strictest)
+const MAX_CANVAS_PIXELS = 16_777_216;
+const MAX_CANVAS_SIDE = 16_384;
+
+const MIME_TYPES: Record<PageImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+const FILE_EXTENSIONS: Record<PageImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp'
+};
+
+interface RenderedPageImage {
+  data: Uint8Array;
+  // False when the page had to be rendered below the requested DPI
+  fullResolution: boolean;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The page is too large to export as an image.'))),
+      mimeType,
+      quality
+    );
+  });
+
+/**
+ * Renders one page of an open document at the given DPI and encodes it. Pages are drawn
+ * on white, as viewers show them. Very large pages are scaled down to fit canvas limits.
+ * draw, when given, paints over the page before encoding; scale turns PDF points into pixels.
+ */
+export async function renderPageImage(
+  pdf: RenderDocument,
+  pageNumber: number,
+  options: PageImageOptions & { signal?: AbortSignal; draw?: (context: CanvasRenderingContext2D, scale: number) => void }
+): Promise<RenderedPageImage> {
+  const { dpi, format, quality = 0.92, signal, draw } = options;
+  throwIfAborted(signal);
+
+  const page = await pdf.getPage(pageNumber);
+  const canvas = document.createElement('canvas');
+  try {
+    const baseViewport = page.getViewport({ scale: 1 });
+    const requestedScale = dpi / POINTS_PER_INCH;
+    const maxScale = Math.min(
+      Math.sqrt(MAX_CANVAS_PIXELS / (baseViewport.width * baseViewport.height)),
+      MAX_CANVAS_SIDE / Math.max(baseViewport.width, baseViewport.height)
+    );
+    const scale = Math.min(requestedScale, maxScale);
+    const viewport = page.getViewport({ scale });
+
+    canvas.width = Math.max(1, Math.floor(viewport.width));
+    canvas.height = Math.max(1, Math.floor(viewport.height));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not get canvas context');
+    }
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport, intent: 'print' }).promise;
+    throwIfAborted(signal);
+    draw?.(context, scale);
+
+    const mimeType = MIME_TYPES[format];
+    const blob = await canvasToBlob(canvas, mimeType, format === 'png' ? undefined : quality);
+    // Browsers fall back to PNG for formats they can't encode
+    if (blob.type !== mimeType) {
+      throw new Error(`This browser can't create ${format.toUpperCase()} images. Please choose another format.`);
+    }
+
+    return { data: new Uint8Array(await blob.arrayBuffer()), fullResolution: scale >= requestedScale };
+  } finally {
+    page.cleanup();
+    // Release the bitmap memory straight away instead of waiting for garbage collection
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
+
+/**
+ * Renders the given 1-based pages as image files named `${baseName}-page-01.png`... and
+ * bundles them into a ZIP archive. Repeated page numbers are exported once.
+ */
+export async function exportPagesAsImages(
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  baseName: string,
+  options: PageImageOptions & OperationOptions
+): Promise<PageImageExportResult> {
+  const { onProgress, signal, ...imageOptions } = options;
+  const uniquePages = [...new Set(pageNumbers)];
+  if (uniquePages.length === 0) {
+    throw new Error('No pages selected to export.');
+  }
+
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadRenderDocument(bytes);
+  try {
+    const digits = Math.max(2, String(pdf.numPages).length);
+    const extension = FILE_EXTENSIONS[imageOptions.format];
+    const entries: ZipEntry[] = [];
+    const downscaledPages: number[] = [];
+
+    for (let i = 0; i < uniquePages.length; i++) {
+      const pageNumber = uniquePages[i];
+      if (pageNumber < 1 || pageNumber > pdf.numPages) {
+        throw new Error(`Page ${pageNumber} does not exist. The document has ${pdf.numPages} pages.`);
+      }
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'rendering', current: i + 1, total: uniquePages.length });
+
+      const { data, fullResolution } = await renderPageImage(pdf, pageNumber, { ...imageOptions, signal });
+      entries.push({ name: `${baseName}-page-${String(pageNumber).padStart(digits, '0')}.${extension}`, data });
+      if (!fullResolution) {
+        downscaledPages.push(pageNumber);
+      }
+    }
+
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'packaging', current: 1, total: 1 });
+    return { archive: createZip(entries), downscaledPages };
+  } finally {
+    pdf.destroy();
+  }
+}
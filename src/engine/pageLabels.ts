@@ -0,0 +1,60 @@
+/**
+ * Text of page numbers, Bates numbers and header/footer templates. Kept free of pdf-lib
+ * so the UI can show a sample of what the worker will stamp.
+ */
+
+import type { HeaderFooter, NumeralStyle, PageNumbering } from './types';
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'],
+  [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'],
+  [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+/**
+ * Writes a number in the given style. Roman numerals only exist from 1 to 3999,
+ * so numbers outside that range stay arabic.
+ */
+export function formatNumeral(value: number, style: NumeralStyle): string {
+  if (style === 'arabic' || value < 1 || value > 3999) {
+    return String(value);
+  }
+
+  let remaining = value;
+  let roman = '';
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (remaining >= amount) {
+      roman += numeral;
+      remaining -= amount;
+    }
+  }
+  return style === 'upper-roman' ? roman.toUpperCase() : roman;
+}
+
+/**
+ * Label for the page given the number it gets and the last number in its document.
+ * Bates labels ignore the last number.
+ */
+export function formatPageLabel(numbering: PageNumbering, value: number, lastValue: number): string {
+  if (numbering.kind === 'bates') {
+    return `${numbering.batesPrefix}${String(value).padStart(numbering.batesDigits, '0')}`;
+  }
+  return numbering.template
+    .replace(/\{n\}/g, formatNumeral(value, numbering.numeralStyle))
+    .replace(/\{total\}/g, formatNumeral(lastValue, numbering.numeralStyle));
+}
+
+/**
+ * Fills the variables of a header or footer slot for one page. Unknown variables are
+ * printed as typed.
+ */
+export function fillHeaderFooterTemplate(template: string, headerFooter: HeaderFooter, page: number, total: number): string {
+  const values: Record<string, string> = {
+    filename: headerFooter.fileName,
+    title: headerFooter.title,
+    date: headerFooter.date,
+    page: String(page),
+    total: String(total)
+  };
+  return template.replace(/\{(\w+)\}/g, (variable, name: string) => values[name] ?? variable).trim();
+}
@@ -0,0 +1,97 @@
+/**
+ * Page range parsing and formatting
+ * Page numbers are 1-based everywhere a range string is involved
+ */
+
+/**
+ * Parses a range string like "1-3, 5, 7-10" into a sorted list of unique page numbers
+ */
+export function parsePageRange(range: string): number[] {
+  const pages: number[] = [];
+  const parts = range.split(',').map(part => part.trim());
+
+  for (const part of parts) {
+    if (part.includes('-')) {
+      const [start, end] = part.split('-').map(num => parseInt(num.trim()));
+      if (!isNaN(start) && !isNaN(end) && start <= end) {
+        for (let i = start; i <= end; i++) {
+          pages.push(i);
+        }
+      }
+    } else {
+      const pageNum = parseInt(part);
+      if (!isNaN(pageNum)) {
+        pages.push(pageNum);
+      }
+    }
+  }
+
+  return [...new Set(pages)].sort((a, b) => a - b);
+}
+
+/**
+ * Collapses a sorted list of page numbers back into a range string ("1-3, 5")
+ */
+export function formatPageRange(pages: number[]): string {
+  if (pages.length === 0) {
+    return '';
+  }
+
+  const ranges: string[] = [];
+  let start = pages[0];
+  let end = pages[0];
+
+  for (let i = 1; i < pages.length; i++) {
+    if (pages[i] === end + 1) {
+      end = pages[i];
+    } else {
+      ranges.push(start === end ? start.toString() : `${start}-${end}`);
+      start = pages[i];
+      end = pages[i];
+    }
+  }
+  ranges.push(start === end ? start.toString() : `${start}-${end}`);
+
+  return ranges.join(', ');
+}
+
+/**
+ * Parses output groups separated by "|", e.g. "1-3 | 4-10 | 11-end".
+ * "end" stands for the last page; empty groups are dropped.
+ */
+export function parsePageGroups(text: string, pageCount: number): number[][] {
+  return text
+    .split('|')
+    .map(group => parsePageRange(group.replace(/\bend\b/gi, String(pageCount))))
+    .filter(group => group.length > 0);
+}
+
+/**
+ * Formats groups back into the "1-3 | 4-10" notation accepted by parsePageGroups
+ */
+export function formatPageGroups(groups: number[][]): string {
+  return groups.map(formatPageRange).join(' | ');
+}
+
+/**
+ * Splits pages 1..pageCount into consecutive groups of at most `size` pages
+ */
+export function chunkPages(pageCount: number, size: number): number[][] {
+  const groups: number[][] = [];
+  const step = Math.max(1, Math.floor(size));
+  for (let start = 1; start <= pageCount; start += step) {
+    const group: number[] = [];
+    for (let page = start; page < start + step && page <= pageCount; page++) {
+      group.push(page);
+    }
+    groups.push(group);
+  }
+  return groups;
+}
+
+/**
+ * Returns the page numbers that fall outside 1..pageCount
+ */
+export function findInvalidPages(pages: number[], pageCount: number): number[] {
+  return pages.filter(page => page < 1 || page > pageCount);
+}
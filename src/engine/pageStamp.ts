@@ -0,0 +1,118 @@
+/**
+ * Helpers for drawing stamps (watermarks, page numbers, headers) onto existing pages
+ * inside the PDF worker. Positions are worked out on the page as displayed and then
+ * mapped back through the page's own rotation and crop box.
+ */
+
+import { StandardFonts, degrees, rgb } from 'pdf-lib';
+import type { Color, PDFDocument, PDFFont, PDFPage, Rotation } from 'pdf-lib';
+import type { StampFont, StampPosition } from './types';
+import { placeStamp } from './stampLayout';
+
+const STANDARD_FONTS: Record<StampFont, StandardFonts> = {
+  helvetica: StandardFonts.Helvetica,
+  'helvetica-bold': StandardFonts.HelveticaBold,
+  'times-roman': StandardFonts.TimesRoman,
+  courier: StandardFonts.Courier
+};
+
+/**
+ * Embeds one of the standard PDF fonts, which every viewer has built in
+ */
+export async function embedStampFont(doc: PDFDocument, font: StampFont): Promise<PDFFont> {
+  return doc.embedFont(STANDARD_FONTS[font]);
+}
+
+/**
+ * Width of the text in PDF points. The standard fonts only cover WinAnsi characters,
+ * so anything else is reported as a readable error.
+ */
+export function measureStampText(font: PDFFont, text: string, size: number): number {
+  try {
+    return font.widthOfTextAtSize(text, size);
+  } catch {
+    throw new Error(`"${text}" contains characters the built-in fonts cannot draw. Use Latin letters, digits and common punctuation.`);
+  }
+}
+
+/**
+ * Parses a hex colour such as #dc2626; anything unreadable comes out black
+ */
+export function parseHexColor(hex: string): Color {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) {
+    return rgb(0, 0, 0);
+  }
+  return rgb(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255);
+}
+
+/**
+ * Size of the page as displayed, in PDF points, and its clockwise /Rotate normalised to 0-270
+ */
+export function getDisplayedPageSize(page: PDFPage): { width: number; height: number; rotation: number } {
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const isQuarterTurn = rotation === 90 || rotation === 270;
+  return {
+    width: isQuarterTurn ? box.height : box.width,
+    height: isQuarterTurn ? box.width : box.height,
+    rotation
+  };
+}
+
+/**
+ * Maps a point measured on the displayed page to the page's own coordinates
+ */
+const toPageSpace = (page: PDFPage, rotation: number, x: number, y: number): [number, number] => {
+  const box = page.getCropBox();
+  switch (rotation) {
+    case 90:
+      return [box.x + box.width - y, box.y + x];
+    case 180:
+      return [box.x + box.width - x, box.y + box.height - y];
+    case 270:
+      return [box.x + y, box.y + box.height - x];
+    default:
+      return [box.x + x, box.y + y];
+  }
+};
+
+/**
+ * Works out the drawing origin and rotation for a stamp of the given size, so that once
+ * drawn it appears at position on the displayed page, turned by rotation counter-clockwise
+ */
+export function placeOnPage(
+  page: PDFPage,
+  width: number,
+  height: number,
+  position: StampPosition,
+  rotation = 0
+): { x: number; y: number; rotate: Rotation } {
+  const displayed = getDisplayedPageSize(page);
+  const origin = placeStamp(displayed.width, displayed.height, width, height, position, rotation);
+  const [x, y] = toPageSpace(page, displayed.rotation, origin.x, origin.y);
+  // The viewer turns page content clockwise by the page rotation, so add it back
+  return { x, y, rotate: degrees(rotation + displayed.rotation) };
+}
+
+export interface TextStampOptions {
+  font: PDFFont;
+  size: number;
+  // Hex colour such as #000000
+  color: string;
+  position: StampPosition;
+  rotation?: number;
+  opacity?: number;
+}
+
+/**
+ * Draws one line of text at a position on the displayed page. The text is laid out as
+ * a box as tall as the font's ascender, sitting on its baseline.
+ */
+export function drawTextStamp(page: PDFPage, text: string, options: TextStampOptions): void {
+  const { font, size, color, position, rotation = 0, opacity = 1 } = options;
+  const width = measureStampText(font, text, size);
+  const height = font.heightAtSize(size, { descender: false });
+  const { x, y, rotate } = placeOnPage(page, width, height, position, rotation);
+  page.drawText(text, { x, y, size, font, color: parseHexColor(color), opacity, rotate });
+}
@@ -0,0 +1,28 @@
+/**
+ * Password errors and checks shared by the PDF worker and the UI
+ */
+
+import type { PasswordProtection } from './types';
+
+export const INCORRECT_PASSWORD = 'Incorrect password';
+
+/**
+ * Returns true for the error thrown when a password does not open an encrypted PDF
+ */
+export function isIncorrectPasswordError(error: unknown): boolean {
+  return error instanceof Error && error.message === INCORRECT_PASSWORD;
+}
+
+/**
+ * Returns why a password protection setting would not protect anything, or null when it is usable
+ */
+export function findProtectionProblem(protection: PasswordProtection): string | null {
+  const restrictsSomething = !protection.allowPrinting || !protection.allowCopying || !protection.allowModifying;
+  if (!protection.userPassword && !restrictsSomething) {
+    return 'Enter a password to open the file, or restrict at least one permission.';
+  }
+  if (restrictsSomething && protection.ownerPassword && protection.ownerPassword === protection.userPassword) {
+    return 'The owner password must differ from the password to open, or anyone who can open the file can lift the restrictions.';
+  }
+  return null;
+}
@@ -0,0 +1,120 @@
+/**
+ * Dedicated worker that runs every pdf-lib operation off the UI thread
+ */
+
+import type { OperationOptions } from './types';
+import type { OperationName, OperationResults, WorkerMessage, WorkerRequest, WorkerResponse } from './protocol';
+import { toTransferableBuffer } from './protocol';
+import { getPageCount, mergePdfs, interleavePdfs, extractPages, splitToZip, splitBySize, removePages, rotatePages, compressPdf, imagesToPdf, readMetadata, updateMetadata, stripMetadata, decryptPdf, addWatermark, addPageNumbers, addHeaderFooter, redactPages } from './operations';
+
+// Abort controllers for operations still running, keyed by request id
+const running = new Map<number, AbortController>();
+
+const respond = (response: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+// Buffers in a result that can be moved back to the UI thread instead of copied
+const getTransferables = (result: OperationResults[OperationName]): Transferable[] => {
+  if (result instanceof ArrayBuffer) return [result];
+  if (typeof result === 'object' && 'archive' in result) return [result.archive];
+  if (typeof result === 'object' && 'output' in result) return [result.output];
+  return [];
+};
+
+const runOperation = async (request: WorkerRequest, options: OperationOptions): Promise<OperationResults[WorkerRequest['operation']]> => {
+  switch (request.operation) {
+    case 'getPageCount':
+      return getPageCount(new Uint8Array(request.input));
+    case 'merge':
+      return toTransferableBuffer(await mergePdfs(
+        request.inputs.map(input => new Uint8Array(input)),
+        request.pageSelections,
+        { ...options, bookmarkTitles: request.bookmarkTitles, protection: request.protection }
+      ));
+    case 'interleave':
+      return toTransferableBuffer(await interleavePdfs(
+        request.inputs.map(input => new Uint8Array(input)),
+        request.pageSelections,
+        { ...options, reverse: request.reverse, padWithBlankPages: request.padWithBlankPages, protection: request.protection }
+      ));
+    case 'extract':
+      return toTransferableBuffer(await extractPages(new Uint8Array(request.input), request.pageNumbers, { ...options, protection: request.protection }));
+    case 'splitToZip':
+      return toTransferableBuffer(await splitToZip(new Uint8Array(request.input), request.parts, { ...options, protection: request.protection }));
+    case 'splitBySize': {
+      const { archive, parts } = await splitBySize(
+        new Uint8Array(request.input),
+        request.maxBytes,
+        request.baseName,
+        { ...options, protection: request.protection }
+      );
+      return { archive: toTransferableBuffer(archive), parts };
+    }
+    case 'remove':
+      return toTransferableBuffer(await removePages(new Uint8Array(request.input), request.pageNumbers, { ...options, protection: request.protection }));
+    case 'rotate':
+      return toTransferableBuffer(await rotatePages(new Uint8Array(request.input), request.rotations, options));
+    case 'compress': {
+      const { output, stats } = await compressPdf(new Uint8Array(request.input), request.preset, options);
+      return { output: toTransferableBuffer(output), stats };
+    }
+    case 'imagesToPdf':
+      return toTransferableBuffer(await imagesToPdf(
+        request.inputs.map(input => new Uint8Array(input)),
+        { ...options, pageSize: request.pageSize, orientation: request.orientation, margin: request.margin }
+      ));
+    case 'readMetadata':
+      return readMetadata(new Uint8Array(request.input));
+    case 'updateMetadata':
+      return toTransferableBuffer(await updateMetadata(new Uint8Array(request.input), request.metadata, options));
+    case 'stripMetadata':
+      return toTransferableBuffer(await stripMetadata(new Uint8Array(request.input), options));
+    case 'decrypt':
+      return toTransferableBuffer(await decryptPdf(new Uint8Array(request.input), request.password, options));
+    case 'watermark':
+      return toTransferableBuffer(await addWatermark(
+        new Uint8Array(request.input),
+        request.pageNumbers,
+        request.watermark,
+        request.image && new Uint8Array(request.image),
+        options
+      ));
+    case 'pageNumbers':
+      return toTransferableBuffer(await addPageNumbers(new Uint8Array(request.input), request.pageNumbers, request.numbering, options));
+    case 'headerFooter':
+      return toTransferableBuffer(await addHeaderFooter(new Uint8Array(request.input), request.skipPages, request.headerFooter, options));
+    case 'redact':
+      return toTransferableBuffer(await redactPages(
+        new Uint8Array(request.input),
+        request.pageImages.map(({ pageNumber, image }) => ({ pageNumber, image: new Uint8Array(image) })),
+        request.removeMetadata,
+        options
+      ));
+  }
+};
+
+self.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
+  const message = event.data;
+  if (message.operation === 'cancel') {
+    running.get(message.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(message.id, controller);
+  const options: OperationOptions = {
+    onProgress: progress => respond({ id: message.id, type: 'progress', progress }),
+    signal: controller.signal
+  };
+
+  try {
+    const result = await runOperation(message, options);
+    respond({ id: message.id, type: 'result', result }, getTransferables(result));
+  } catch (operationError: unknown) {
+    const errorMessage = operationError instanceof Error ? operationError.message : 'Unknown error';
+    respond({ id: message.id, type: 'error', message: errorMessage });
+  } finally {
+    running.delete(message.id);
+  }
+});
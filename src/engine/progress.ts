@@ -0,0 +1,42 @@
+/**
+ * Human-readable progress messages for engine operations
+ */
+
+import type { OperationProgress } from './types';
+
+/**
+ * Turns a progress update into a short status line suitable for a loading toast
+ */
+export function describeProgress(progress: OperationProgress, subject = 'PDF'): string {
+  const { stage, current, total } = progress;
+  switch (stage) {
+    case 'loading':
+      return total > 1 ? `Loading ${subject} ${current} of ${total}...` : `Parsing ${subject}...`;
+    case 'copying':
+      return total > 1 ? `Processing pages... (${current}/${total})` : 'Copying pages...';
+    case 'saving':
+      return current >= total ? `${subject} saved` : `Saving ${subject}...`;
+    case 'splitting':
+      return `Creating file ${current} of ${total}...`;
+    case 'measuring':
+      return `Measuring part sizes... (${current}/${total} pages placed)`;
+    case 'optimizing':
+      return `Optimizing images... (${current}/${total})`;
+    case 'embedding':
+      return `Adding image ${current} of ${total}...`;
+    case 'rendering':
+      return `Rendering page ${current} of ${total}...`;
+    case 'reading':
+      return `Reading text from page ${current} of ${total}...`;
+    case 'packaging':
+      return 'Building ZIP archive...';
+    case 'stamping':
+      return `Stamping page ${current} of ${total}...`;
+    case 'redacting':
+      return `Redacting page ${current} of ${total}...`;
+    case 'verifying':
+      return `Verifying page ${current} of ${total}...`;
+    case 'indexing':
+      return `Indexing text on page ${current} of ${total}...`;
+  }
+}
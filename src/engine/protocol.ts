@@ -0,0 +1,87 @@
+/**
+ * Typed message protocol between the UI thread and the PDF worker.
+ * PDF bytes always travel as ArrayBuffers listed in the transfer list, so they are
+ * moved between threads instead of copied.
+ */
+
+import type { CompressionPreset, CompressionStats, DocumentMetadata, HeaderFooter, ImagePageSize, MergePageSelection, MetadataReport, OperationProgress, PageNumbering, PageOrientation, PageRotations, PasswordProtection, SizedSplitPart, SplitPart, Watermark } from './types';
+
+/**
+ * Payload sent with each operation, keyed by operation name
+ */
+export interface OperationPayloads {
+  getPageCount: { input: ArrayBuffer };
+  merge: { inputs: ArrayBuffer[]; pageSelections: MergePageSelection[]; bookmarkTitles?: string[]; protection?: PasswordProtection };
+  interleave: { inputs: ArrayBuffer[]; pageSelections: MergePageSelection[]; reverse: boolean[]; padWithBlankPages: boolean; protection?: PasswordProtection };
+  extract: { input: ArrayBuffer; pageNumbers: number[]; protection?: PasswordProtection };
+  splitToZip: { input: ArrayBuffer; parts: SplitPart[]; protection?: PasswordProtection };
+  splitBySize: { input: ArrayBuffer; maxBytes: number; baseName: string; protection?: PasswordProtection };
+  remove: { input: ArrayBuffer; pageNumbers: number[]; protection?: PasswordProtection };
+  rotate: { input: ArrayBuffer; rotations: PageRotations };
+  compress: { input: ArrayBuffer; preset: CompressionPreset };
+  imagesToPdf: { inputs: ArrayBuffer[]; pageSize: ImagePageSize; orientation: PageOrientation; margin: number };
+  readMetadata: { input: ArrayBuffer };
+  updateMetadata: { input: ArrayBuffer; metadata: DocumentMetadata };
+  stripMetadata: { input: ArrayBuffer };
+  decrypt: { input: ArrayBuffer; password: string };
+  watermark: { input: ArrayBuffer; pageNumbers: number[]; watermark: Watermark; image?: ArrayBuffer };
+  pageNumbers: { input: ArrayBuffer; pageNumbers: number[]; numbering: PageNumbering };
+  headerFooter: { input: ArrayBuffer; skipPages: number[]; headerFooter: HeaderFooter };
+  redact: { input: ArrayBuffer; pageImages: { pageNumber: number; image: ArrayBuffer }[]; removeMetadata: boolean };
+}
+
+/**
+ * Value each operation resolves with, keyed by operation name
+ */
+export interface OperationResults {
+  getPageCount: number;
+  merge: ArrayBuffer;
+  interleave: ArrayBuffer;
+  extract: ArrayBuffer;
+  splitToZip: ArrayBuffer;
+  splitBySize: { archive: ArrayBuffer; parts: SizedSplitPart[] };
+  remove: ArrayBuffer;
+  rotate: ArrayBuffer;
+  compress: { output: ArrayBuffer; stats: CompressionStats };
+  imagesToPdf: ArrayBuffer;
+  readMetadata: MetadataReport;
+  updateMetadata: ArrayBuffer;
+  stripMetadata: ArrayBuffer;
+  decrypt: ArrayBuffer;
+  watermark: ArrayBuffer;
+  pageNumbers: ArrayBuffer;
+  headerFooter: ArrayBuffer;
+  redact: ArrayBuffer;
+}
+
+export type OperationName = keyof OperationPayloads;
+
+export type WorkerRequest = {
+  [K in OperationName]: { id: number; operation: K } & OperationPayloads[K];
+}[OperationName];
+
+// Asks the worker to stop the operation with the given id at its next checkpoint
+export interface WorkerCancelMessage {
+  id: number;
+  operation: 'cancel';
+}
+
+export type WorkerMessage = WorkerRequest | WorkerCancelMessage;
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: OperationProgress }
+  | { id: number; type: 'result'; result: OperationResults[OperationName] }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Returns an ArrayBuffer holding exactly the given bytes, suitable for a transfer list.
+ * The underlying buffer is reused when the view covers all of it, so the caller's
+ * bytes are detached once transferred.
+ */
+export function toTransferableBuffer(bytes: Uint8Array): ArrayBuffer {
+  const { buffer } = bytes;
+  if (buffer instanceof ArrayBuffer && bytes.byteOffset === 0 && bytes.byteLength === buffer.byteLength) {
+    return buffer;
+  }
+  return bytes.slice().buffer as ArrayBuffer;
+}
@@ -0,0 +1,78 @@
+/**
+ * Replaces the content of redacted pages with a flat image inside the PDF worker, so
+ * none of the original text, fonts or annotations survive in the saved file
+ */
+
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFRef } from 'pdf-lib';
+import type { PDFDocument, PDFImage, PDFPage } from 'pdf-lib';
+import { getDisplayedPageSize } from './pageStamp';
+
+// Entries that carry page content or data derived from it; the rest, such as /Parent, stay
+const CONTENT_KEYS = ['Contents', 'Resources', 'Annots', 'Thumb', 'PieceInfo', 'Metadata', 'B', 'StructParents', 'Group', 'AA', 'Tabs'];
+
+// Set on the page itself so boxes inherited from a parent /Pages node can't crop the image
+const PAGE_BOXES = ['MediaBox', 'CropBox', 'BleedBox', 'TrimBox', 'ArtBox'];
+
+const IMAGE_NAME = 'Redacted';
+
+/**
+ * Turns the page into a single image filling a page of its displayed size. The page object
+ * itself is kept, so links and bookmarks that point at it still work. Returns the page's
+ * old annotation references so form fields on it can be removed too.
+ */
+export function replacePageWithImage(doc: PDFDocument, page: PDFPage, image: PDFImage): PDFRef[] {
+  const { context } = doc;
+  const { width, height } = getDisplayedPageSize(page);
+  const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+  const annotRefs = annots ? annots.asArray().filter((entry): entry is PDFRef => entry instanceof PDFRef) : [];
+
+  CONTENT_KEYS.forEach(key => page.node.delete(PDFName.of(key)));
+  // The image already shows the page as displayed, so the rotation and crop go
+  PAGE_BOXES.forEach(key => page.node.set(PDFName.of(key), context.obj([0, 0, width, height])));
+  page.node.set(PDFName.of('Rotate'), PDFNumber.of(0));
+  page.node.set(PDFName.of('Resources'), context.obj({ XObject: { [IMAGE_NAME]: image.ref } }));
+  const contents = context.flateStream(`q ${width} 0 0 ${height} 0 0 cm /${IMAGE_NAME} Do Q`);
+  page.node.set(PDFName.of('Contents'), context.register(contents));
+
+  return annotRefs;
+}
+
+/**
+ * Removes form fields whose widgets were on redacted pages, since field values keep their
+ * text in the form even once the widget is gone. Fields left without widgets are dropped.
+ */
+export function removeFormFields(doc: PDFDocument, widgetRefs: PDFRef[], pageRefs: PDFRef[]): void {
+  const acroForm = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  const fields = acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  if (!fields) return;
+
+  const widgets = new Set(widgetRefs);
+  const pages = new Set(pageRefs);
+  const isOnRedactedPage = (ref: PDFRef, dict: PDFDict): boolean => {
+    const pageRef = dict.get(PDFName.of('P'));
+    return widgets.has(ref) || (pageRef instanceof PDFRef && pages.has(pageRef));
+  };
+
+  // Walks the field tree bottom-up, returning whether anything is left under each entry
+  const prune = (kids: PDFArray): boolean => {
+    for (let i = kids.size() - 1; i >= 0; i--) {
+      const ref = kids.get(i);
+      const dict = doc.context.lookupMaybe(ref, PDFDict);
+      if (!(ref instanceof PDFRef) || !dict) continue;
+      const children = dict.lookupMaybe(PDFName.of('Kids'), PDFArray);
+      const keep = children ? prune(children) : !isOnRedactedPage(ref, dict);
+      if (!keep) kids.remove(i);
+    }
+    return kids.size() > 0;
+  };
+  prune(fields);
+}
+
+/**
+ * Drops the tagged-PDF structure tree, whose alternate and actual text can repeat what was
+ * on the page and which no longer matches the redacted content
+ */
+export function removeStructureTree(doc: PDFDocument): void {
+  doc.catalog.delete(PDFName.of('StructTreeRoot'));
+  doc.catalog.delete(PDFName.of('MarkInfo'));
+}
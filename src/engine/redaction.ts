@@ -0,0 +1,403 @@
+/**
+ * Redaction with PDF.js on the UI thread: finds text to redact from the positions of text
+ * items, renders each marked page with its areas blacked out, has the worker swap the
+ * pages for those images and then reads the output back to check nothing is left.
+ */
+
+import type { OperationOptions, RedactionArea, RedactionCheck, RedactionLeftover, RedactionOptions, RedactionReport, RedactionResult } from './types';
+import { loadRenderDocument } from './thumbnails';
+import type { RenderDocument } from './thumbnails';
+import { renderPageImage } from './pageImages';
+import { redactPages } from './workerClient';
+import { throwIfAborted } from './cancellation';
+
+type PageProxy = Awaited<ReturnType<RenderDocument['getPage']>>;
+type TextContentItem = Awaited<ReturnType<PageProxy['getTextContent']>>['items'][number];
+type TextItem = Extract<TextContentItem, { str: string }>;
+type PageViewport = ReturnType<PageProxy['getViewport']>;
+type OutlineItem = Awaited<ReturnType<RenderDocument['getOutline']>>[number];
+
+// A text item and where its characters start in the page text
+interface TextSpan {
+  item: TextItem;
+  start: number;
+}
+
+// Text of a page with every item's characters in reading order of the content stream
+interface PageText {
+  text: string;
+  spans: TextSpan[];
+  viewport: PageViewport;
+}
+
+// The parts of PDF.js annotation data that carry text besides the appearance
+interface AnnotationData {
+  subtype?: string;
+  contentsObj?: { str?: string };
+  titleObj?: { str?: string };
+  richText?: { str?: string };
+  alternativeText?: string;
+  fieldValue?: string | string[];
+  textContent?: string[];
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Share of the font size a box reaches above the baseline and below it
+const ASCENT = 1;
+const DESCENT = 0.3;
+// Extra room around each match so antialiased glyph edges are covered too
+const PADDING = 1;
+// Entries PDF.js adds to the document information that don't come from the file's Info dictionary
+const DERIVED_INFO_KEYS = new Set(['PDFFormatVersion', 'Language', 'EncryptFilterName']);
+
+let measuringContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Share of an item's width taken up by its first count characters. Widths are measured
+ * with a generic font, which follows narrow and wide letters far better than counting.
+ */
+const widthFraction = (text: string, count: number): number => {
+  if (count <= 0) return 0;
+  if (count >= text.length) return 1;
+  measuringContext ??= document.createElement('canvas').getContext('2d');
+  if (measuringContext) {
+    measuringContext.font = '10px sans-serif';
+    const total = measuringContext.measureText(text).width;
+    if (total > 0) {
+      return measuringContext.measureText(text.slice(0, count)).width / total;
+    }
+  }
+  return count / text.length;
+};
+
+const readPageText = async (page: PageProxy): Promise<PageText> => {
+  const content = await page.getTextContent();
+  const spans: TextSpan[] = [];
+  let text = '';
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    spans.push({ item, start: text.length });
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+  }
+  return { text, spans, viewport: page.getViewport({ scale: 1 }) };
+};
+
+/**
+ * Box of the characters from start to end of one item, in points on the displayed page
+ */
+const measureCharacters = (item: TextItem, start: number, end: number, viewport: PageViewport): Box => {
+  const [a, b, c, d, e, f] = item.transform as number[];
+  const scale = Math.hypot(a, b) || 1;
+  const fontSize = Math.hypot(c, d) || item.height || scale;
+  // Unit vectors along the baseline and up from it
+  const [ux, uy] = [a / scale, b / scale];
+  const [vx, vy] = [c / fontSize, d / fontSize];
+  const from = item.width * widthFraction(item.str, start);
+  const to = item.width * widthFraction(item.str, end);
+
+  const corners = [
+    [from, -DESCENT * fontSize], [to, -DESCENT * fontSize],
+    [from, ASCENT * fontSize], [to, ASCENT * fontSize]
+  ].map(([along, up]) => viewport.convertToViewportPoint(e + ux * along + vx * up, f + uy * along + vy * up));
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const x = Math.min(...xs) - PADDING;
+  const y = Math.min(...ys) - PADDING;
+  return { x, y, width: Math.max(...xs) + PADDING - x, height: Math.max(...ys) + PADDING - y };
+};
+
+/**
+ * Boxes covering the page text from start to end, one per text item it runs through
+ */
+const measureRange = (pageText: PageText, start: number, end: number): Box[] =>
+  pageText.spans
+    .filter(({ item, start: itemStart }) => itemStart < end && itemStart + item.str.length > start && item.str.length > 0)
+    .map(({ item, start: itemStart }) =>
+      measureCharacters(item, Math.max(0, start - itemStart), Math.min(item.str.length, end - itemStart), pageText.viewport)
+    );
+
+const findMatches = (text: string, pattern: RegExp): { index: number; text: string }[] => {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  return [...text.matchAll(new RegExp(pattern.source, flags))]
+    .filter(match => match[0].length > 0)
+    .map(match => ({ index: match.index ?? 0, text: match[0] }));
+};
+
+/**
+ * Text under an area, read character by character. A character counts when the middle
+ * of its box lies inside the area; separate runs are joined with a space.
+ */
+const readTextInArea = (pageText: PageText, area: Box): string => {
+  const runs: string[] = [];
+  for (const { item } of pageText.spans) {
+    let run = '';
+    for (let i = 0; i < item.str.length; i++) {
+      const box = measureCharacters(item, i, i + 1, pageText.viewport);
+      const middleX = box.x + box.width / 2;
+      const middleY = box.y + box.height / 2;
+      if (middleX >= area.x && middleX <= area.x + area.width && middleY >= area.y && middleY <= area.y + area.height) {
+        run += item.str[i];
+      } else if (run) {
+        runs.push(run);
+        run = '';
+      }
+    }
+    if (run) runs.push(run);
+  }
+  return runs.join(' ').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Searches every page for the pattern and returns an area over each match, split where
+ * a match runs across several text items. Matches can span items but not pages.
+ */
+export async function findTextMatches(pdf: RenderDocument, pattern: RegExp, options: OperationOptions = {}): Promise<RedactionArea[]> {
+  const { onProgress, signal } = options;
+  const areas: RedactionArea[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'reading', current: pageNumber, total: pdf.numPages });
+    const page = await pdf.getPage(pageNumber);
+    try {
+      const pageText = await readPageText(page);
+      for (const match of findMatches(pageText.text, pattern)) {
+        measureRange(pageText, match.index, match.index + match.text.length).forEach(box => {
+          areas.push({ pageNumber, ...box, match: match.text });
+        });
+      }
+    } finally {
+      page.cleanup();
+    }
+  }
+
+  return areas;
+}
+
+/**
+ * Redacted text and pattern matches in text kept outside the page content
+ */
+const findLeftovers = (location: string, text: string, expectedTexts: string[], pattern: RegExp | undefined): RedactionLeftover[] => {
+  const flattened = text.replace(/\s+/g, ' ');
+  const leftovers = expectedTexts
+    .filter(expectedText => flattened.includes(expectedText))
+    .map(expectedText => ({ location, text: expectedText }));
+  if (pattern) {
+    findMatches(text, pattern).forEach(match => leftovers.push({ location, text: match.text }));
+  }
+  return leftovers;
+};
+
+const collectOutlineTitles = (items: OutlineItem[]): string[] =>
+  items.flatMap(item => [item.title, ...collectOutlineTitles(item.items ?? [])]);
+
+const readAnnotationText = (annotation: AnnotationData): string =>
+  [
+    annotation.contentsObj?.str,
+    annotation.titleObj?.str,
+    annotation.richText?.str,
+    annotation.alternativeText,
+    annotation.fieldValue,
+    annotation.textContent
+  ]
+    .flat()
+    .filter((value): value is string => typeof value === 'string')
+    .join('\n');
+
+/**
+ * Document information entries as [key, value], with custom entries flattened in
+ */
+const readInfoEntries = (info: Record<string, unknown>): [string, string][] =>
+  Object.entries(info).flatMap(([key, value]): [string, string][] => {
+    if (DERIVED_INFO_KEYS.has(key)) return [];
+    if (typeof value === 'string') return [[key, value]];
+    if (key === 'Custom' && value && typeof value === 'object') return readInfoEntries(value as Record<string, unknown>);
+    return [];
+  });
+
+/**
+ * Looks for what was redacted in the places a reader can see without the page content:
+ * bookmark titles, annotations and form field values, document information and XMP metadata
+ */
+const verifyDocumentText = async (
+  pdf: RenderDocument,
+  expectedTexts: string[],
+  pattern: RegExp | undefined
+): Promise<RedactionLeftover[]> => {
+  const leftovers: RedactionLeftover[] = [];
+
+  const outline = await pdf.getOutline();
+  collectOutlineTitles(outline ?? []).forEach(title => leftovers.push(...findLeftovers('Bookmark', title, expectedTexts, pattern)));
+
+  const { info, metadata } = await pdf.getMetadata();
+  readInfoEntries(info as Record<string, unknown>).forEach(([key, value]) => {
+    leftovers.push(...findLeftovers(`Document information (${key})`, value, expectedTexts, pattern));
+  });
+  const xmp = metadata?.getRaw();
+  if (typeof xmp === 'string') {
+    leftovers.push(...findLeftovers('XMP metadata', xmp.replace(/<[^>]*>/g, ' '), expectedTexts, pattern));
+  }
+
+  return leftovers;
+};
+
+/**
+ * Reads the output back with PDF.js: redacted pages should carry no text at all, the text
+ * that was under each area should be gone and the pattern should no longer match anywhere,
+ * in the page text or in bookmarks, annotations, form fields and metadata
+ */
+const verifyRedaction = async (
+  bytes: Uint8Array,
+  redactedPages: number[],
+  expected: { pageNumber: number; text: string }[],
+  pattern: RegExp | undefined,
+  options: OperationOptions
+): Promise<RedactionReport> => {
+  const { onProgress, signal } = options;
+  const pdf = await loadRenderDocument(bytes);
+  const checks: RedactionCheck[] = [];
+  const remainingMatches: { pageNumber: number; text: string }[] = [];
+  const expectedTexts = [...new Set(expected.map(entry => entry.text))];
+  let leftovers: RedactionLeftover[] = [];
+  let textOnRedactedPages = 0;
+
+  try {
+    leftovers = await verifyDocumentText(pdf, expectedTexts, pattern);
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'verifying', current: pageNumber, total: pdf.numPages });
+      const page = await pdf.getPage(pageNumber);
+      try {
+        const { text } = await readPageText(page);
+        if (redactedPages.includes(pageNumber)) {
+          textOnRedactedPages += text.replace(/\s/g, '').length;
+        }
+        const flattened = text.replace(/\s+/g, ' ');
+        expected
+          .filter(entry => entry.pageNumber === pageNumber)
+          .forEach(entry => checks.push({ ...entry, found: flattened.includes(entry.text) }));
+        if (pattern) {
+          findMatches(text, pattern).forEach(match => remainingMatches.push({ pageNumber, text: match.text }));
+        }
+        const annotations: AnnotationData[] = await page.getAnnotations();
+        annotations.forEach(annotation => {
+          const location = `Page ${pageNumber} ${annotation.subtype === 'Widget' ? 'form field' : 'annotation'}`;
+          leftovers.push(...findLeftovers(location, readAnnotationText(annotation), expectedTexts, pattern));
+        });
+      } finally {
+        page.cleanup();
+      }
+    }
+  } finally {
+    pdf.destroy();
+  }
+
+  return {
+    redactedPages,
+    checks,
+    textOnRedactedPages,
+    pattern: pattern?.source,
+    remainingMatches,
+    leftovers,
+    passed: textOnRedactedPages === 0 && remainingMatches.length === 0 && leftovers.length === 0 && checks.every(check => !check.found)
+  };
+};
+
+/**
+ * Redacts the areas: every page with an area is rendered at options.dpi with the areas
+ * painted black and replaces the original page, so the text under them no longer exists.
+ * Text elsewhere on those pages stays visible but is no longer selectable. The output is
+ * then read back to build the verification report.
+ */
+export async function redactPdf(
+  bytes: Uint8Array,
+  areas: RedactionArea[],
+  options: RedactionOptions & OperationOptions
+): Promise<RedactionResult> {
+  const { dpi, removeMetadata, pattern, onProgress, signal } = options;
+  const pageNumbers = [...new Set(areas.map(area => area.pageNumber))].sort((a, b) => a - b);
+  if (pageNumbers.length === 0) {
+    throw new Error('Mark at least one area to redact.');
+  }
+
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadRenderDocument(bytes);
+  const pageImages: { pageNumber: number; image: Uint8Array }[] = [];
+  const expected: { pageNumber: number; text: string }[] = [];
+  try {
+    for (let i = 0; i < pageNumbers.length; i++) {
+      const pageNumber = pageNumbers[i];
+      if (pageNumber < 1 || pageNumber > pdf.numPages) {
+        throw new Error(`Page ${pageNumber} does not exist. The document has ${pdf.numPages} pages.`);
+      }
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'rendering', current: i + 1, total: pageNumbers.length });
+
+      const pageAreas = areas.filter(area => area.pageNumber === pageNumber);
+      // Note what is under each area now, so the report can confirm it is gone
+      const page = await pdf.getPage(pageNumber);
+      try {
+        const pageText = await readPageText(page);
+        pageAreas.forEach(area => {
+          const text = (area.match ?? readTextInArea(pageText, area)).replace(/\s+/g, ' ').trim();
+          if (text && !expected.some(entry => entry.pageNumber === pageNumber && entry.text === text)) {
+            expected.push({ pageNumber, text });
+          }
+        });
+      } finally {
+        page.cleanup();
+      }
+
+      const { data } = await renderPageImage(pdf, pageNumber, {
+        dpi,
+        format: 'png',
+        signal,
+        draw: (context, scale) => {
+          context.fillStyle = '#000000';
+          pageAreas.forEach(area => context.fillRect(area.x * scale, area.y * scale, area.width * scale, area.height * scale));
+        }
+      });
+      pageImages.push({ pageNumber, image: data });
+    }
+  } finally {
+    pdf.destroy();
+  }
+
+  const output = await redactPages(bytes, pageImages, removeMetadata, { onProgress, signal });
+  const report = await verifyRedaction(output, pageNumbers, expected, pattern, { onProgress, signal });
+  return { bytes: output, report };
+}
+
+/**
+ * Plain-text version of the report, for keeping alongside the redacted file
+ */
+export function formatRedactionReport(report: RedactionReport, fileName: string, date: Date = new Date()): string {
+  const lines = [
+    'Redaction verification report',
+    `File: ${fileName}`,
+    `Checked: ${date.toISOString()}`,
+    `Result: ${report.passed ? 'PASSED' : 'FAILED'}`,
+    '',
+    `Redacted pages (rasterized): ${report.redactedPages.join(', ')}`,
+    `Text characters left on redacted pages: ${report.textOnRedactedPages}`
+  ];
+  if (report.pattern) {
+    lines.push(`Search pattern: /${report.pattern}/`, `Matches left in the output: ${report.remainingMatches.length}`);
+    report.remainingMatches.forEach(match => lines.push(`  Page ${match.pageNumber}: ${match.text}`));
+  }
+  lines.push('', 'Redacted text:');
+  if (report.checks.length === 0) {
+    lines.push('  (no text was under the marked areas)');
+  }
+  report.checks.forEach(check => lines.push(`  Page ${check.pageNumber}: "${check.text}" - ${check.found ? 'STILL PRESENT' : 'removed'}`));
+  lines.push('', `Bookmarks, annotations, form fields and metadata: ${report.leftovers.length === 0 ? 'nothing found' : `${report.leftovers.length} found`}`);
+  report.leftovers.forEach(leftover => lines.push(`  ${leftover.location}: "${leftover.text}"`));
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,85 @@
+/**
+ * Geometry for watermarks, page numbers and other stamps drawn on existing pages.
+ * Kept free of pdf-lib so the UI can preview exactly where the worker will stamp.
+ */
+
+import type { StampPosition } from './types';
+
+// Gap between the page edge and a stamp placed against it, in PDF points
+export const STAMP_MARGIN = 36;
+
+// Ascender height of Helvetica Bold as a share of the font size; text is laid out
+// as a box this tall sitting on its baseline
+export const TEXT_ASCENT = 0.718;
+
+// Horizontal and vertical alignment of each position: 0 start, 0.5 middle, 1 end
+const ALIGNMENTS: Record<StampPosition, [number, number]> = {
+  'top-left': [0, 1],
+  top: [0.5, 1],
+  'top-right': [1, 1],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  'bottom-left': [0, 0],
+  bottom: [0.5, 0],
+  'bottom-right': [1, 0]
+};
+
+/**
+ * Size of an image stamp in PDF points: imageScale of the page width, keeping the image's aspect ratio
+ */
+export function getImageStampSize(pageWidth: number, imageWidth: number, imageHeight: number, imageScale: number): { width: number; height: number } {
+  const width = pageWidth * imageScale;
+  return { width, height: width * (imageHeight / imageWidth) };
+}
+
+/**
+ * Returns where to draw a stamp of the given size, in PDF points from the bottom-left corner
+ * of the displayed page. The stamp is turned around that point by rotation (counter-clockwise
+ * degrees), and the point is chosen so the turned stamp's bounding box lands at position.
+ */
+export function placeStamp(
+  pageWidth: number,
+  pageHeight: number,
+  stampWidth: number,
+  stampHeight: number,
+  position: StampPosition,
+  rotation = 0
+): { x: number; y: number } {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  // Corners of the stamp once turned around its bottom-left corner
+  const xs = [0, stampWidth * cos, -stampHeight * sin, stampWidth * cos - stampHeight * sin];
+  const ys = [0, stampWidth * sin, stampHeight * cos, stampWidth * sin + stampHeight * cos];
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const boundsWidth = Math.max(...xs) - minX;
+  const boundsHeight = Math.max(...ys) - minY;
+
+  const [alignX, alignY] = ALIGNMENTS[position];
+  const alignedX = alignX === 0.5 ? (pageWidth - boundsWidth) / 2 : STAMP_MARGIN + alignX * (pageWidth - boundsWidth - 2 * STAMP_MARGIN);
+  const alignedY = alignY === 0.5 ? (pageHeight - boundsHeight) / 2 : STAMP_MARGIN + alignY * (pageHeight - boundsHeight - 2 * STAMP_MARGIN);
+  return { x: alignedX - minX, y: alignedY - minY };
+}
+
+// Smallest gap kept between neighbouring header or footer slots, in PDF points
+const SLOT_GAP = 12;
+
+/**
+ * Whether left, center and right slots of the given widths fit on one line of a page
+ * without running into each other. Empty slots have a width of 0.
+ */
+export function slotsFit(pageWidth: number, left: number, center: number, right: number): boolean {
+  const lineWidth = pageWidth - 2 * STAMP_MARGIN;
+  if (center > 0) {
+    // The center slot is centred on the page, so each side has half of what remains
+    const side = (lineWidth - center) / 2;
+    return side >= 0 && (left === 0 || left + SLOT_GAP <= side) && (right === 0 || right + SLOT_GAP <= side);
+  }
+  if (left > 0 && right > 0) {
+    return left + SLOT_GAP + right <= lineWidth;
+  }
+  return Math.max(left, right) <= lineWidth;
+}
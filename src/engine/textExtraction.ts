@@ -0,0 +1,314 @@
+/**
+ * Text extraction with PDF.js. Rebuilds reading order, lines and paragraphs from the
+ * positions of text items, then formats them as plain text or Markdown.
+ */
+
+import type { TextExportFormat, TextExtractionOptions, TextExtractionResult } from './types';
+import { loadRenderDocument } from './thumbnails';
+import type { RenderDocument } from './thumbnails';
+import { throwIfAborted } from './cancellation';
+
+type PageProxy = Awaited<ReturnType<RenderDocument['getPage']>>;
+type TextContentItem = Awaited<ReturnType<PageProxy['getTextContent']>>['items'][number];
+type TextItem = Extract<TextContentItem, { str: string }>;
+
+// A run of text with its box in top-down page coordinates
+interface TextFragment {
+  text: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  fontSize: number;
+}
+
+interface TextLine {
+  text: string;
+  top: number;
+  bottom: number;
+  fontSize: number;
+}
+
+interface TextParagraph {
+  text: string;
+  fontSize: number;
+  isListItem: boolean;
+}
+
+// Glyphs commonly used as list bullets
+const BULLET_PATTERN = /^[•◦▪▫■□●○‣⁃∙·]\s*/;
+
+// Gaps between columns must be at least this many times the font size
+const MIN_COLUMN_GAP = 1.5;
+
+const toFragment = (item: TextItem): TextFragment => {
+  const [, , c, d, x, y] = item.transform as number[];
+  const fontSize = Math.max(item.height || Math.hypot(c, d), 1);
+  // PDF y grows upwards; flip it so sorting runs top to bottom
+  const baseline = -y;
+  return {
+    text: item.str,
+    left: x,
+    right: x + item.width,
+    top: baseline - fontSize * 0.75,
+    bottom: baseline + fontSize * 0.15,
+    fontSize
+  };
+};
+
+/**
+ * Splits fragments into groups separated by empty bands along one axis. Fragments in
+ * a group overlap, or nearly overlap, their neighbours on that axis.
+ */
+const splitAtGaps = (
+  fragments: TextFragment[],
+  start: (fragment: TextFragment) => number,
+  end: (fragment: TextFragment) => number,
+  minGap: number
+): TextFragment[][] => {
+  const sorted = [...fragments].sort((a, b) => start(a) - start(b));
+  const groups: TextFragment[][] = [];
+  let current: TextFragment[] = [];
+  let reach = -Infinity;
+
+  for (const fragment of sorted) {
+    if (current.length > 0 && start(fragment) - reach > minGap) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(fragment);
+    reach = current.length === 1 ? end(fragment) : Math.max(reach, end(fragment));
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+};
+
+const medianFontSize = (fragments: TextFragment[]): number => {
+  const sizes = fragments.map(fragment => fragment.fontSize).sort((a, b) => a - b);
+  return sizes[Math.floor(sizes.length / 2)];
+};
+
+/**
+ * Orders fragments by recursive XY-cut: columns are split apart before rows so that each
+ * column is read top to bottom before the next one starts. Rows are cut at the widest
+ * gap first, which separates full-width titles from the columns below them.
+ */
+const orderFragments = (fragments: TextFragment[]): TextFragment[][] => {
+  if (fragments.length <= 1) {
+    return fragments.length === 1 ? [fragments] : [];
+  }
+
+  const columns = splitAtGaps(fragments, f => f.left, f => f.right, medianFontSize(fragments) * MIN_COLUMN_GAP);
+  if (columns.length > 1) {
+    return columns.flatMap(orderFragments);
+  }
+
+  const rows = splitAtGaps(fragments, f => f.top, f => f.bottom, 0);
+  if (rows.length <= 1) {
+    // A single line, possibly with sub- and superscripts
+    return [fragments];
+  }
+
+  let widestGap = -Infinity;
+  let cutIndex = 1;
+  for (let i = 1; i < rows.length; i++) {
+    const gap = Math.min(...rows[i].map(f => f.top)) - Math.max(...rows[i - 1].map(f => f.bottom));
+    if (gap > widestGap) {
+      widestGap = gap;
+      cutIndex = i;
+    }
+  }
+  return [...orderFragments(rows.slice(0, cutIndex).flat()), ...orderFragments(rows.slice(cutIndex).flat())];
+};
+
+/**
+ * Joins the fragments of one line left to right, adding spaces where the gap between
+ * two runs is wider than a narrow space
+ */
+const buildLine = (fragments: TextFragment[]): TextLine => {
+  const sorted = [...fragments].sort((a, b) => a.left - b.left);
+  let text = '';
+  let previous: TextFragment | null = null;
+
+  for (const fragment of sorted) {
+    if (previous && fragment.left - previous.right > Math.min(previous.fontSize, fragment.fontSize) * 0.2
+      && !/\s$/.test(text) && !/^\s/.test(fragment.text)) {
+      text += ' ';
+    }
+    text += fragment.text;
+    previous = fragment;
+  }
+
+  const body = sorted.filter(fragment => fragment.fontSize >= medianFontSize(sorted) * 0.8);
+  return {
+    text: text.replace(/\s+/g, ' ').trim(),
+    top: Math.min(...body.map(fragment => fragment.top)),
+    bottom: Math.max(...body.map(fragment => fragment.bottom)),
+    fontSize: Math.max(...body.map(fragment => fragment.fontSize))
+  };
+};
+
+/**
+ * Joins the next line onto a paragraph, undoing end-of-line hyphenation
+ */
+const appendLine = (paragraph: string, line: string): string => {
+  if (/\p{L}-$/u.test(paragraph) && /^\p{Ll}/u.test(line)) {
+    return paragraph.slice(0, -1) + line;
+  }
+  return `${paragraph} ${line}`;
+};
+
+/**
+ * Groups ordered lines into paragraphs. A new paragraph starts after a gap wider than
+ * the line spacing, on a change of font size, at a list bullet, or where the text
+ * jumps back up the page into the next column.
+ */
+const buildParagraphs = (lines: TextLine[]): TextParagraph[] => {
+  const paragraphs: TextParagraph[] = [];
+  let current: TextParagraph | null = null;
+  let previous: TextLine | null = null;
+
+  for (const line of lines) {
+    if (!line.text) continue;
+    const isListItem = BULLET_PATTERN.test(line.text);
+    const text = line.text.replace(BULLET_PATTERN, '');
+
+    const startsParagraph = !current || !previous
+      || isListItem
+      || line.top - previous.bottom > previous.fontSize * 0.6
+      || line.bottom <= previous.top
+      || Math.abs(line.fontSize - current.fontSize) > current.fontSize * 0.15;
+
+    if (startsParagraph || !current) {
+      current = { text, fontSize: line.fontSize, isListItem };
+      paragraphs.push(current);
+    } else {
+      current.text = appendLine(current.text, text);
+    }
+    previous = line;
+  }
+
+  return paragraphs;
+};
+
+const extractPageParagraphs = async (pdf: RenderDocument, pageNumber: number): Promise<TextParagraph[]> => {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const content = await page.getTextContent();
+    const fragments = content.items
+      .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+      .map(toFragment);
+    return buildParagraphs(orderFragments(fragments).map(buildLine));
+  } finally {
+    page.cleanup();
+  }
+};
+
+/**
+ * The most common font size weighted by the amount of text, taken as the body text size
+ */
+const findBodyFontSize = (pages: TextParagraph[][]): number => {
+  const weights = new Map<number, number>();
+  for (const paragraph of pages.flat()) {
+    const size = Math.round(paragraph.fontSize);
+    weights.set(size, (weights.get(size) ?? 0) + paragraph.text.length);
+  }
+  let bodySize = 0;
+  let maxWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > maxWeight) {
+      bodySize = size;
+      maxWeight = weight;
+    }
+  }
+  return bodySize;
+};
+
+const headingLevel = (paragraph: TextParagraph, bodyFontSize: number): number => {
+  // Long runs of large type are pull quotes or cover text rather than headings
+  if (paragraph.isListItem || paragraph.text.length > 150 || bodyFontSize <= 0) return 0;
+  const ratio = paragraph.fontSize / bodyFontSize;
+  if (ratio >= 1.8) return 1;
+  if (ratio >= 1.4) return 2;
+  if (ratio >= 1.15) return 3;
+  return 0;
+};
+
+// Stops body text that starts like Markdown syntax from being read as such
+const escapeMarkdown = (text: string): string =>
+  text.replace(/^(#|>|[-+*]\s|\d+[.)]\s)/, '\\$1');
+
+const formatParagraph = (paragraph: TextParagraph, format: TextExportFormat, bodyFontSize: number): string => {
+  if (format === 'text') {
+    return paragraph.isListItem ? `• ${paragraph.text}` : paragraph.text;
+  }
+  if (paragraph.isListItem) {
+    return `- ${paragraph.text}`;
+  }
+  const level = headingLevel(paragraph, bodyFontSize);
+  return level > 0 ? `${'#'.repeat(level)} ${paragraph.text}` : escapeMarkdown(paragraph.text);
+};
+
+const formatPage = (
+  pageNumber: number,
+  paragraphs: TextParagraph[],
+  format: TextExportFormat,
+  bodyFontSize: number
+): string => {
+  const separator = format === 'markdown' ? `*Page ${pageNumber}*` : `--- Page ${pageNumber} ---`;
+  const blocks: string[] = [];
+  paragraphs.forEach((paragraph, index) => {
+    const block = formatParagraph(paragraph, format, bodyFontSize);
+    // Consecutive list items stay together as one list
+    if (index > 0 && paragraph.isListItem && paragraphs[index - 1].isListItem) {
+      blocks[blocks.length - 1] += `\n${block}`;
+    } else {
+      blocks.push(block);
+    }
+  });
+  return [separator, ...blocks].join('\n\n');
+};
+
+/**
+ * Extracts the text of the given 1-based pages in reading order as plain text or
+ * Markdown, with a separator before each page. Repeated page numbers are read once.
+ */
+export async function extractText(
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  options: TextExtractionOptions
+): Promise<TextExtractionResult> {
+  const { format, onProgress, signal } = options;
+  const uniquePages = [...new Set(pageNumbers)];
+  if (uniquePages.length === 0) {
+    throw new Error('No pages selected to extract.');
+  }
+
+  onProgress?.({ stage: 'loading', current: 1, total: 1 });
+  const pdf = await loadRenderDocument(bytes);
+  try {
+    const pages: TextParagraph[][] = [];
+    for (let i = 0; i < uniquePages.length; i++) {
+      const pageNumber = uniquePages[i];
+      if (pageNumber < 1 || pageNumber > pdf.numPages) {
+        throw new Error(`Page ${pageNumber} does not exist. The document has ${pdf.numPages} pages.`);
+      }
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'reading', current: i + 1, total: uniquePages.length });
+      pages.push(await extractPageParagraphs(pdf, pageNumber));
+    }
+    throwIfAborted(signal);
+
+    const bodyFontSize = findBodyFontSize(pages);
+    const emptyPages = uniquePages.filter((_, index) => pages[index].length === 0);
+    const text = pages
+      .map((paragraphs, index) => formatPage(uniquePages[index], paragraphs, format, bodyFontSize))
+      .join(format === 'markdown' ? '\n\n---\n\n' : '\n\n');
+
+    return { text: `${text}\n`, emptyPages };
+  } finally {
+    pdf.destroy();
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Page text search with PDF.js: reads the text of every page once into an index, then
+ * finds the pages containing a query without going back to the document
+ */
+
+import type { OperationOptions, PageTextMatch, TextSearchOptions } from './types';
+import { loadRenderDocument } from './thumbnails';
+import { throwIfAborted } from './cancellation';
+
+// Characters of context kept on each side of the first hit on a page
+const SNIPPET_CONTEXT = 40;
+
+const escapePattern = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Reads the text of every page, with runs of whitespace collapsed so queries match
+ * across line breaks. Entry i holds page i + 1; pages without a text layer are empty.
+ */
+export async function indexPageText(bytes: Uint8Array, options: OperationOptions = {}): Promise<string[]> {
+  const { onProgress, signal } = options;
+  const pdf = await loadRenderDocument(bytes);
+  try {
+    const index: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'indexing', current: pageNumber, total: pdf.numPages });
+      const page = await pdf.getPage(pageNumber);
+      try {
+        const content = await page.getTextContent();
+        const text = content.items
+          .map(item => ('str' in item ? `${item.str}${item.hasEOL ? ' ' : ''}` : ''))
+          .join('');
+        index.push(text.replace(/\s+/g, ' ').trim());
+      } finally {
+        page.cleanup();
+      }
+    }
+    return index;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+/**
+ * Finds the pages whose indexed text contains the query, in page order. Spaces in the
+ * query match any whitespace, so a phrase broken over two lines is still found.
+ */
+export function searchPageText(index: string[], query: string, options: TextSearchOptions): PageTextMatch[] {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const source = words.map(escapePattern).join('\\s+');
+  const pattern = new RegExp(options.wholeWords ? `(?<![\\p{L}\\p{N}])${source}(?![\\p{L}\\p{N}])` : source, options.matchCase ? 'gu' : 'giu');
+
+  const matches: PageTextMatch[] = [];
+  index.forEach((text, i) => {
+    const hits = [...text.matchAll(pattern)];
+    if (hits.length === 0) return;
+    const first = hits[0];
+    const start = first.index ?? 0;
+    const end = start + first[0].length;
+    matches.push({
+      pageNumber: i + 1,
+      count: hits.length,
+      snippet: {
+        before: `${start > SNIPPET_CONTEXT ? '…' : ''}${text.slice(Math.max(0, start - SNIPPET_CONTEXT), start)}`,
+        match: first[0],
+        after: `${text.slice(end, end + SNIPPET_CONTEXT)}${end + SNIPPET_CONTEXT < text.length ? '…' : ''}`
+      }
+    });
+  });
+  return matches;
+}
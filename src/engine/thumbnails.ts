@@ -0,0 +1,322 @@
+/**
+ * Page thumbnail rendering with PDF.js plus canvas-drawn fallbacks
+ */
+
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { throwIfAborted } from './cancellation';
+import { isMemoryPressure, triggerGarbageCollection, getMemoryUsage, formatMemorySize } from '../utils/memoryManagement';
+
+// Set up PDF.js worker with local file
+pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+
+// Open PDF.js document used for rendering previews
+export type RenderDocument = PDFDocumentProxy;
+
+export interface ThumbnailOptions {
+  width?: number;
+  height?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Opens a PDF for rendering. PDF.js takes ownership of the buffer it is given,
+ * so a copy is passed and the caller's bytes stay usable.
+ * Call destroy() on the result once done to free the worker-side copy.
+ */
+export async function loadRenderDocument(bytes: Uint8Array): Promise<RenderDocument> {
+  const loadingTask = pdfjsLib.getDocument({
+    data: bytes.slice(),
+    verbosity: 0, // Reduce console noise
+    disableStream: true, // Force complete loading for better memory management
+    disableAutoFetch: true, // Prevent prefetching other pages
+    disableFontFace: true, // Reduce font loading overhead
+    cMapPacked: true, // Use packed CMaps for better performance
+    useSystemFonts: true // Use system fonts when available
+  });
+  return loadingTask.promise;
+}
+
+/**
+ * Renders one page of an open document into a JPEG data URL that fits within width x height.
+ * Throws on failure so callers can pick their own fallback image.
+ */
+export async function renderPageThumbnail(
+  pdf: RenderDocument,
+  pageNumber: number,
+  options: ThumbnailOptions = {}
+): Promise<string> {
+  const { width = 240, height = 340, signal } = options;
+  throwIfAborted(signal);
+
+  // Check memory pressure before starting heavy operations
+  const memoryUsage = getMemoryUsage();
+  if (memoryUsage.used && memoryUsage.limit && (memoryUsage.used / memoryUsage.limit) > 0.85) {
+    console.warn(`Memory pressure detected (${formatMemorySize(memoryUsage.used)}/${formatMemorySize(memoryUsage.limit)}). Delaying thumbnail generation.`);
+    triggerGarbageCollection();
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    // If still under pressure, let the caller use a placeholder
+    if (isMemoryPressure()) {
+      throw new Error('Memory pressure - using placeholder');
+    }
+  }
+
+  const page = await pdf.getPage(pageNumber);
+  throwIfAborted(signal);
+
+  const viewport = page.getViewport({ scale: 1.0 });
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+
+  // Smaller thumbnails under memory pressure
+  const isUnderPressure = isMemoryPressure();
+  const targetWidth = isUnderPressure ? width * 0.75 : width;
+  const targetHeight = isUnderPressure ? height * 0.75 : height;
+  const scale = Math.min(targetWidth / viewport.width, targetHeight / viewport.height);
+  const scaledViewport = page.getViewport({ scale });
+
+  canvas.width = scaledViewport.width;
+  canvas.height = scaledViewport.height;
+
+  // Fill canvas with white background first
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({
+    canvasContext: context,
+    viewport: scaledViewport,
+    intent: 'print' // Use print intent for better performance
+  }).promise;
+  page.cleanup();
+
+  throwIfAborted(signal);
+
+  // Use lower quality for thumbnails under memory pressure
+  const quality = isUnderPressure ? 0.6 : 0.8;
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * Returns the size of a page in PDF points as it is displayed, after its rotation and crop box
+ */
+export async function getPageSize(pdf: RenderDocument, pageNumber: number): Promise<{ width: number; height: number }> {
+  const page = await pdf.getPage(pageNumber);
+  const { width, height } = page.getViewport({ scale: 1.0 });
+  return { width, height };
+}
+
+/**
+ * One-shot helper: opens the bytes, renders a single page and releases the document
+ */
+export async function generatePageThumbnail(
+  bytes: Uint8Array,
+  pageNumber: number,
+  options: ThumbnailOptions = {}
+): Promise<string> {
+  throwIfAborted(options.signal);
+  const pdf = await loadRenderDocument(bytes);
+  try {
+    return await renderPageThumbnail(pdf, pageNumber, options);
+  } finally {
+    pdf.destroy();
+  }
+}
+
+export interface SimpleThumbnailOptions {
+  // Optional label drawn above the page number, e.g. "DELETE" in the remover
+  badge?: string;
+  badgeColor?: string;
+}
+
+/**
+ * Simple thumbnail generator for performance mode: a drawn document icon, no PDF rendering
+ */
+export function generateSimpleThumbnail(pageNumber: number, fileName: string, options: SimpleThumbnailOptions = {}): string {
+  const { badge, badgeColor = '#dc2626' } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = 240;
+  canvas.height = 340;
+  const ctx = canvas.getContext('2d');
+
+  if (ctx) {
+    // Draw clean background
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 240, 340);
+
+    // Draw border
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(1, 1, 238, 338);
+
+    // Draw document icon background
+    ctx.fillStyle = '#f8fafc';
+    ctx.fillRect(20, 30, 200, 260);
+
+    // Draw document fold
+    ctx.fillStyle = '#e2e8f0';
+    ctx.beginPath();
+    ctx.moveTo(180, 30);
+    ctx.lineTo(220, 70);
+    ctx.lineTo(220, 290);
+    ctx.lineTo(20, 290);
+    ctx.lineTo(20, 30);
+    ctx.closePath();
+    ctx.fill();
+
+    // Draw fold triangle
+    ctx.fillStyle = '#cbd5e1';
+    ctx.beginPath();
+    ctx.moveTo(180, 30);
+    ctx.lineTo(220, 70);
+    ctx.lineTo(180, 70);
+    ctx.closePath();
+    ctx.fill();
+
+    // Draw page lines
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.lineWidth = 1;
+    for (let i = 0; i < 8; i++) {
+      const y = 80 + (i * 25);
+      ctx.beginPath();
+      ctx.moveTo(40, y);
+      ctx.lineTo(200, y);
+      ctx.stroke();
+    }
+
+    ctx.textAlign = 'center';
+    if (badge) {
+      ctx.fillStyle = badgeColor;
+      ctx.font = 'bold 18px Arial';
+      ctx.fillText(badge, 120, 320);
+    }
+
+    // Draw page number
+    ctx.fillStyle = '#1f2937';
+    ctx.font = 'bold 24px Arial';
+    ctx.fillText(`${pageNumber}`, 120, badge ? 290 : 320);
+
+    // Draw file name (truncated)
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '12px Arial';
+    const truncatedName = fileName.length > 25 ? fileName.substring(0, 22) + '...' : fileName;
+    ctx.fillText(truncatedName, 120, 50);
+  }
+
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+/**
+ * Placeholder used when rendering a real preview fails
+ */
+export function generatePlaceholderThumbnail(pageNumber: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = 240;
+  canvas.height = 340;
+  const ctx = canvas.getContext('2d');
+
+  if (ctx) {
+    // Draw page background
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 240, 340);
+
+    // Draw border
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(1, 1, 238, 338);
+
+    // Draw page number
+    ctx.fillStyle = '#374151';
+    ctx.font = 'bold 18px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(`Page ${pageNumber}`, 120, 160);
+    ctx.font = '14px Arial';
+    ctx.fillText('Preview unavailable', 120, 190);
+  }
+
+  return canvas.toDataURL();
+}
+
+/**
+ * File-level fallback thumbnail: a red PDF icon with the file name underneath
+ */
+export function generateFileIconThumbnail(fileName: string): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = 200;
+  canvas.height = 260;
+  const ctx = canvas.getContext('2d');
+
+  if (ctx) {
+    // Draw PDF icon background
+    ctx.fillStyle = '#f3f4f6';
+    ctx.fillRect(0, 0, 200, 260);
+
+    // Draw PDF icon
+    ctx.fillStyle = '#ef4444';
+    ctx.fillRect(40, 40, 120, 160);
+
+    // Draw fold corner
+    ctx.fillStyle = '#dc2626';
+    ctx.beginPath();
+    ctx.moveTo(140, 40);
+    ctx.lineTo(160, 40);
+    ctx.lineTo(160, 60);
+    ctx.closePath();
+    ctx.fill();
+
+    // Draw text
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 20px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('PDF', 100, 130);
+
+    // Draw filename
+    ctx.fillStyle = '#374151';
+    ctx.font = '12px Arial';
+    const truncatedName = fileName.length > 20 ? fileName.substring(0, 17) + '...' : fileName;
+    ctx.fillText(truncatedName, 100, 230);
+  }
+
+  return canvas.toDataURL();
+}
+
+export interface ImagePreview {
+  thumbnail: string;
+  // Size in pixels as displayed, after any EXIF rotation
+  width: number;
+  height: number;
+}
+
+/**
+ * Scales a JPG or PNG file down to a JPEG data URL that fits within width x height.
+ * The browser applies EXIF orientation while decoding, as the PDF conversion does.
+ */
+export async function generateImageThumbnail(image: Blob, options: ThumbnailOptions = {}): Promise<ImagePreview> {
+  const { width = 240, height = 340, signal } = options;
+  throwIfAborted(signal);
+
+  const bitmap = await createImageBitmap(image);
+  try {
+    throwIfAborted(signal);
+    const scale = Math.min(1, width / bitmap.width, height / bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not get canvas context');
+    }
+
+    // Transparent PNG areas end up white on the PDF page too
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return { thumbnail: canvas.toDataURL('image/jpeg', 0.8), width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+}
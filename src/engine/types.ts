@@ -0,0 +1,341 @@
+/**
+ * Shared types for the PDF engine
+ */
+
+/**
+ * Progress stages reported by long-running engine operations
+ */
+export type OperationStage = 'loading' | 'copying' | 'saving' | 'splitting' | 'measuring' | 'optimizing' | 'embedding' | 'rendering' | 'reading' | 'packaging' | 'stamping' | 'redacting' | 'verifying' | 'indexing';
+
+export interface OperationProgress {
+  stage: OperationStage;
+  current: number;
+  total: number;
+}
+
+export interface OperationOptions {
+  onProgress?: (progress: OperationProgress) => void;
+  // Checked between file loads and page batches; aborting rejects with OPERATION_CANCELLED
+  signal?: AbortSignal;
+}
+
+/**
+ * Password protection for saved PDFs, applied with AES-256 encryption
+ */
+export interface PasswordProtection {
+  // Needed to open the file; leave blank to open freely with the restrictions below
+  userPassword: string;
+  // Lifts the restrictions; a random one is used when blank
+  ownerPassword: string;
+  allowPrinting: boolean;
+  allowCopying: boolean;
+  // Editing, annotating, filling forms and rearranging pages
+  allowModifying: boolean;
+}
+
+export interface OutputOptions extends OperationOptions {
+  // Encrypts every PDF the operation saves
+  protection?: PasswordProtection;
+}
+
+export interface MergeOptions extends OutputOptions {
+  // When given, adds a top-level bookmark per input with this title and nests the input's own outline under it
+  bookmarkTitles?: string[];
+}
+
+export interface InterleaveOptions extends OutputOptions {
+  // reverse[i] takes the pages of input i last to first
+  reverse?: boolean[];
+  // When inputs have different page counts, insert blank pages for the shorter ones instead
+  // of letting the longer ones continue on their own
+  padWithBlankPages?: boolean;
+}
+
+/**
+ * Where a stamp such as a watermark or page number sits, as seen when the page is displayed
+ */
+export type StampPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/**
+ * Standard PDF fonts available for text stamps; every viewer has them built in
+ */
+export type StampFont = 'helvetica' | 'helvetica-bold' | 'times-roman' | 'courier';
+
+/**
+ * How page numbers are written: 1, 2, 3 or i, ii, iii or I, II, III
+ */
+export type NumeralStyle = 'arabic' | 'lower-roman' | 'upper-roman';
+
+/**
+ * Page numbers or Bates numbers stamped onto pages
+ */
+export interface PageNumbering {
+  // 'bates' prints batesPrefix and a zero-padded counter instead of the template
+  kind: 'page' | 'bates';
+  // {n} becomes the page number and {total} the last number, e.g. "Page {n} of {total}"
+  template: string;
+  numeralStyle: NumeralStyle;
+  batesPrefix: string;
+  // The Bates counter is padded with zeros to at least this many digits
+  batesDigits: number;
+  // Number given to the first numbered page
+  startNumber: number;
+  position: StampPosition;
+  font: StampFont;
+  fontSize: number;
+  // Hex colour such as #000000
+  color: string;
+}
+
+/**
+ * Text of the left, center and right slots of a header or footer line; blank slots stay empty
+ */
+export interface HeaderFooterSlots {
+  left: string;
+  center: string;
+  right: string;
+}
+
+/**
+ * Running header and footer drawn on every page. Slot text can use the variables
+ * {filename}, {title}, {date}, {page} and {total}.
+ */
+export interface HeaderFooter {
+  header: HeaderFooterSlots;
+  footer: HeaderFooterSlots;
+  font: StampFont;
+  fontSize: number;
+  // Hex colour such as #000000
+  color: string;
+  // Values of {filename}, {title} and {date}; {page} and {total} come from the document
+  fileName: string;
+  title: string;
+  date: string;
+}
+
+/**
+ * Text or image stamped onto pages. The image itself travels separately as JPG or PNG bytes.
+ */
+export interface Watermark {
+  kind: 'text' | 'image';
+  // Single line drawn in Helvetica Bold
+  text: string;
+  fontSize: number;
+  // Hex colour such as #dc2626
+  color: string;
+  // Image width as a share of the page width, between 0 and 1
+  imageScale: number;
+  // Between 0 and 1
+  opacity: number;
+  // Counter-clockwise degrees; 45 runs from bottom-left to top-right
+  rotation: number;
+  position: StampPosition;
+}
+
+/**
+ * Extra clockwise rotation in degrees keyed by 1-based page number
+ */
+export type PageRotations = Record<number, number>;
+
+/**
+ * 1-based pages to take from one merge input, in order; null takes every page
+ */
+export type MergePageSelection = number[] | null;
+
+/**
+ * One output file of a multi-file split
+ */
+export interface SplitPart {
+  fileName: string;
+  pageNumbers: number[];
+}
+
+/**
+ * One output file of a size-limited split, with its saved size in bytes
+ */
+export interface SizedSplitPart extends SplitPart {
+  size: number;
+}
+
+export interface SizeSplitResult {
+  archive: Uint8Array;
+  parts: SizedSplitPart[];
+}
+
+/**
+ * How hard compression may go: lossless only cleans up structure, the others also
+ * downsample and re-encode images at decreasing quality
+ */
+export type CompressionPreset = 'lossless' | 'high' | 'balanced' | 'small';
+
+export interface CompressionStats {
+  originalSize: number;
+  compressedSize: number;
+  imagesRecompressed: number;
+  duplicateStreamsRemoved: number;
+  unusedObjectsRemoved: number;
+}
+
+export interface CompressResult {
+  output: Uint8Array;
+  stats: CompressionStats;
+}
+
+/**
+ * Image formats that can be placed on PDF pages
+ */
+export type ImageFormat = 'jpeg' | 'png';
+
+/**
+ * Page size for images converted to PDF; 'fit' makes each page the size of its image
+ */
+export type ImagePageSize = 'a4' | 'letter' | 'fit';
+
+// 'auto' turns each page to match its image
+export type PageOrientation = 'auto' | 'portrait' | 'landscape';
+
+export interface ImagesToPdfOptions extends OperationOptions {
+  pageSize?: ImagePageSize;
+  // Ignored when pageSize is 'fit'
+  orientation?: PageOrientation;
+  // Blank border around each image in PDF points
+  margin?: number;
+}
+
+/**
+ * Image formats pages can be exported to
+ */
+export type PageImageFormat = 'png' | 'jpeg' | 'webp';
+
+export interface PageImageOptions {
+  // Output resolution; 72 DPI renders one pixel per PDF point
+  dpi: number;
+  format: PageImageFormat;
+  // Between 0 and 1; ignored for PNG
+  quality?: number;
+}
+
+export interface PageImageExportResult {
+  archive: Uint8Array;
+  // Pages rendered below the requested DPI because the image would exceed canvas limits
+  downscaledPages: number[];
+}
+
+/**
+ * Output format for extracted text
+ */
+export type TextExportFormat = 'text' | 'markdown';
+
+export interface TextExtractionOptions extends OperationOptions {
+  format: TextExportFormat;
+}
+
+export interface TextExtractionResult {
+  text: string;
+  // Pages without any text layer, usually scans that need OCR
+  emptyPages: number[];
+}
+
+export interface TextSearchOptions {
+  matchCase: boolean;
+  wholeWords: boolean;
+}
+
+// A page containing the search text, with the first hit in context
+export interface PageTextMatch {
+  pageNumber: number;
+  count: number;
+  snippet: {
+    before: string;
+    match: string;
+    after: string;
+  };
+}
+
+/**
+ * Document information dictionary fields. Blank text and null dates mean the field is absent.
+ */
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  // Free text, usually comma- or space-separated
+  keywords: string;
+  // Application the document was originally authored in
+  creator: string;
+  // Software that produced the PDF
+  producer: string;
+  creationDate: Date | null;
+  modificationDate: Date | null;
+}
+
+export interface MetadataReport {
+  metadata: DocumentMetadata;
+  // True when the document carries an XMP metadata packet
+  hasXmp: boolean;
+}
+
+/**
+ * Area to black out, in PDF points from the top-left corner of the page as displayed
+ */
+export interface RedactionArea {
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Text a search matched here; areas drawn by hand leave it out
+  match?: string;
+}
+
+export interface RedactionOptions {
+  // Resolution the redacted pages are rasterized at
+  dpi: number;
+  // Also remove the document information and XMP metadata
+  removeMetadata: boolean;
+  // Pattern the areas were found with; the output is searched for it again
+  pattern?: RegExp;
+}
+
+/**
+ * Text that was under a redaction area, and whether it can still be found in the output
+ */
+export interface RedactionCheck {
+  pageNumber: number;
+  text: string;
+  found: boolean;
+}
+
+/**
+ * Redacted text or a pattern match found outside the page text of the output
+ */
+export interface RedactionLeftover {
+  // Where it was found, e.g. "Bookmark" or "Page 3 form field"
+  location: string;
+  text: string;
+}
+
+/**
+ * What the redacted output was checked for, read back with PDF.js after saving
+ */
+export interface RedactionReport {
+  redactedPages: number[];
+  checks: RedactionCheck[];
+  // Characters of text still on redacted pages; rasterized pages have none
+  textOnRedactedPages: number;
+  // Source of the search pattern, when there was one
+  pattern?: string;
+  // Pattern matches anywhere in the output, on redacted pages or not
+  remainingMatches: { pageNumber: number; text: string }[];
+  // Redacted text and pattern matches in bookmarks, annotations, form fields and metadata
+  leftovers: RedactionLeftover[];
+  passed: boolean;
+}
+
+export interface RedactionResult {
+  bytes: Uint8Array;
+  report: RedactionReport;
+}
@@ -0,0 +1,60 @@
+/**
+ * Stamps text and image watermarks onto existing pages inside the PDF worker
+ */
+
+import type { PDFDocument, PDFFont, PDFImage, PDFPage } from 'pdf-lib';
+import type { Watermark } from './types';
+import { detectImageFormat } from './images';
+import { getImageStampSize } from './stampLayout';
+import { embedStampFont, measureStampText, getDisplayedPageSize, placeOnPage, drawTextStamp } from './pageStamp';
+
+/**
+ * Font or image embedded once and drawn on every stamped page
+ */
+export type WatermarkStamp =
+  | { kind: 'text'; font: PDFFont }
+  | { kind: 'image'; image: PDFImage };
+
+/**
+ * Embeds what the watermark needs. Image watermarks take JPG or PNG bytes.
+ */
+export async function embedWatermark(doc: PDFDocument, watermark: Watermark, image?: Uint8Array): Promise<WatermarkStamp> {
+  if (watermark.kind === 'image') {
+    const format = image && detectImageFormat(image);
+    if (!image || !format) {
+      throw new Error('The watermark image must be a JPG or PNG file.');
+    }
+    return { kind: 'image', image: format === 'jpeg' ? await doc.embedJpg(image) : await doc.embedPng(image) };
+  }
+
+  const text = watermark.text.trim();
+  if (!text) {
+    throw new Error('Enter the watermark text.');
+  }
+  const font = await embedStampFont(doc, 'helvetica-bold');
+  // Fail before any page is touched if the text can't be drawn
+  measureStampText(font, text, watermark.fontSize);
+  return { kind: 'text', font };
+}
+
+/**
+ * Draws the stamp on one page, laid out on the page as it is displayed whatever its own rotation
+ */
+export function drawWatermark(page: PDFPage, stamp: WatermarkStamp, watermark: Watermark): void {
+  const { position, rotation, opacity } = watermark;
+  if (stamp.kind === 'text') {
+    drawTextStamp(page, watermark.text.trim(), {
+      font: stamp.font,
+      size: watermark.fontSize,
+      color: watermark.color,
+      position,
+      rotation,
+      opacity
+    });
+    return;
+  }
+
+  const { width, height } = getImageStampSize(getDisplayedPageSize(page).width, stamp.image.width, stamp.image.height, watermark.imageScale);
+  const { x, y, rotate } = placeOnPage(page, width, height, position, rotation);
+  page.drawImage(stamp.image, { x, y, width, height, opacity, rotate });
+}
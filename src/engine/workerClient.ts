@@ -0,0 +1,299 @@
+/**
+ * UI-side entry points for PDF operations. Each call is forwarded to the PDF worker,
+ * so loading, copying and saving never block the page.
+ *
+ * Input bytes are transferred to the worker, which leaves the caller's Uint8Array
+ * detached (empty) once the call starts. Read the file again if the bytes are needed later.
+ *
+ * Aborting options.signal rejects the call straight away with OPERATION_CANCELLED and tells
+ * the worker to stop at its next checkpoint; any result it still sends back is discarded.
+ */
+
+import type { CompressionPreset, CompressResult, DocumentMetadata, HeaderFooter, ImagesToPdfOptions, InterleaveOptions, MergeOptions, MergePageSelection, MetadataReport, OperationOptions, OperationProgress, OutputOptions, PageNumbering, PageRotations, SizeSplitResult, SplitPart, Watermark } from './types';
+import type { OperationName, OperationPayloads, OperationResults, WorkerMessage, WorkerResponse } from './protocol';
+import { toTransferableBuffer } from './protocol';
+import { OPERATION_CANCELLED } from './cancellation';
+
+interface PendingOperation {
+  resolve: (result: OperationResults[OperationName]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: OperationProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingOperation>();
+
+const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+  const response = event.data;
+  const operation = pending.get(response.id);
+  if (!operation) return;
+
+  switch (response.type) {
+    case 'progress':
+      operation.onProgress?.(response.progress);
+      break;
+    case 'result':
+      pending.delete(response.id);
+      operation.resolve(response.result);
+      break;
+    case 'error':
+      pending.delete(response.id);
+      operation.reject(new Error(response.message));
+      break;
+  }
+};
+
+const handleWorkerError = (event: ErrorEvent) => {
+  console.error('PDF worker crashed:', event);
+  // Fail everything in flight and start a fresh worker on the next call
+  const message = event.message || 'The PDF worker stopped unexpectedly.';
+  pending.forEach(operation => operation.reject(new Error(message)));
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./pdf.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleWorkerError);
+  }
+  return worker;
+};
+
+const runInWorker = <K extends OperationName>(
+  operation: K,
+  payload: OperationPayloads[K],
+  transfer: ArrayBuffer[],
+  options: OperationOptions = {}
+): Promise<OperationResults[K]> => {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new Error(OPERATION_CANCELLED));
+  }
+
+  const id = nextRequestId++;
+  const target = getWorker();
+  const handleAbort = () => {
+    const operation = pending.get(id);
+    if (!operation) return;
+    pending.delete(id);
+    target.postMessage({ id, operation: 'cancel' } satisfies WorkerMessage);
+    operation.reject(new Error(OPERATION_CANCELLED));
+  };
+
+  return new Promise<OperationResults[K]>((resolve, reject) => {
+    pending.set(id, {
+      resolve: result => resolve(result as OperationResults[K]),
+      reject,
+      onProgress
+    });
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    target.postMessage({ id, operation, ...payload } as WorkerMessage, transfer);
+  }).finally(() => signal?.removeEventListener('abort', handleAbort));
+};
+
+/**
+ * Returns the number of pages in a PDF
+ */
+export async function getPageCount(bytes: Uint8Array): Promise<number> {
+  const input = toTransferableBuffer(bytes);
+  return runInWorker('getPageCount', { input }, [input]);
+}
+
+/**
+ * Concatenates the inputs in order. pageSelections[i] lists the 1-based pages to take from
+ * input i; a missing or null entry takes every page.
+ * With options.bookmarkTitles, each input also gets a bookmark holding its own outline.
+ */
+export async function mergePdfs(
+  inputs: Uint8Array[],
+  pageSelections: MergePageSelection[] = [],
+  options: MergeOptions = {}
+): Promise<Uint8Array> {
+  const { bookmarkTitles, protection, ...operationOptions } = options;
+  const buffers = inputs.map(toTransferableBuffer);
+  return new Uint8Array(await runInWorker('merge', { inputs: buffers, pageSelections, bookmarkTitles, protection }, buffers, operationOptions));
+}
+
+/**
+ * Collates the inputs page by page (first page of each, then the second of each...),
+ * e.g. to rebuild a duplex document from separate scans of the fronts and the backs.
+ * pageSelections works as in mergePdfs and is applied before reversing.
+ */
+export async function interleavePdfs(
+  inputs: Uint8Array[],
+  pageSelections: MergePageSelection[] = [],
+  options: InterleaveOptions = {}
+): Promise<Uint8Array> {
+  const { reverse = [], padWithBlankPages = false, protection, ...operationOptions } = options;
+  const buffers = inputs.map(toTransferableBuffer);
+  return new Uint8Array(await runInWorker(
+    'interleave',
+    { inputs: buffers, pageSelections, reverse, padWithBlankPages, protection },
+    buffers,
+    operationOptions
+  ));
+}
+
+/**
+ * Builds a new PDF from the given 1-based page numbers, in the order given.
+ * Page numbers may repeat, in which case the page is duplicated.
+ */
+export async function extractPages(bytes: Uint8Array, pageNumbers: number[], options: OutputOptions = {}): Promise<Uint8Array> {
+  const { protection, ...operationOptions } = options;
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('extract', { input, pageNumbers, protection }, [input], operationOptions));
+}
+
+/**
+ * Splits one PDF into several files and returns them bundled as a ZIP archive
+ */
+export async function splitToZip(bytes: Uint8Array, parts: SplitPart[], options: OutputOptions = {}): Promise<Uint8Array> {
+  const { protection, ...operationOptions } = options;
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('splitToZip', { input, parts, protection }, [input], operationOptions));
+}
+
+/**
+ * Splits one PDF into consecutive parts that each save to at most maxBytes, bundled as a ZIP.
+ * A page that is larger than the limit on its own still gets a part, so check the part sizes.
+ */
+export async function splitBySize(
+  bytes: Uint8Array,
+  maxBytes: number,
+  baseName: string,
+  options: OutputOptions = {}
+): Promise<SizeSplitResult> {
+  const { protection, ...operationOptions } = options;
+  const input = toTransferableBuffer(bytes);
+  const { archive, parts } = await runInWorker('splitBySize', { input, maxBytes, baseName, protection }, [input], operationOptions);
+  return { archive: new Uint8Array(archive), parts };
+}
+
+/**
+ * Builds a new PDF without the given 1-based page numbers. At least one page must remain.
+ */
+export async function removePages(bytes: Uint8Array, pageNumbers: number[], options: OutputOptions = {}): Promise<Uint8Array> {
+  const { protection, ...operationOptions } = options;
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('remove', { input, pageNumbers, protection }, [input], operationOptions));
+}
+
+/**
+ * Adds the given clockwise rotation to each listed page, on top of its current rotation
+ */
+export async function rotatePages(bytes: Uint8Array, rotations: PageRotations, options: OperationOptions = {}): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('rotate', { input, rotations }, [input], options));
+}
+
+/**
+ * Shrinks a PDF by re-encoding images (per the preset), merging duplicate streams and
+ * dropping unused objects. The result reports the sizes before and after.
+ */
+export async function compressPdf(bytes: Uint8Array, preset: CompressionPreset, options: OperationOptions = {}): Promise<CompressResult> {
+  const input = toTransferableBuffer(bytes);
+  const { output, stats } = await runInWorker('compress', { input, preset }, [input], options);
+  return { output: new Uint8Array(output), stats };
+}
+
+/**
+ * Builds a PDF with one page per JPG or PNG image, in the order given
+ */
+export async function imagesToPdf(images: Uint8Array[], options: ImagesToPdfOptions = {}): Promise<Uint8Array> {
+  const { pageSize = 'a4', orientation = 'auto', margin = 0, ...operationOptions } = options;
+  const buffers = images.map(toTransferableBuffer);
+  return new Uint8Array(await runInWorker('imagesToPdf', { inputs: buffers, pageSize, orientation, margin }, buffers, operationOptions));
+}
+
+/**
+ * Reads the document information fields and whether the PDF carries XMP metadata
+ */
+export async function readMetadata(bytes: Uint8Array): Promise<MetadataReport> {
+  const input = toTransferableBuffer(bytes);
+  return runInWorker('readMetadata', { input }, [input]);
+}
+
+/**
+ * Saves a copy with the given document information; blank fields are removed
+ */
+export async function updateMetadata(bytes: Uint8Array, metadata: DocumentMetadata, options: OperationOptions = {}): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('updateMetadata', { input, metadata }, [input], options));
+}
+
+/**
+ * Saves a copy without document information, XMP metadata or application data
+ */
+export async function stripMetadata(bytes: Uint8Array, options: OperationOptions = {}): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('stripMetadata', { input }, [input], options));
+}
+
+/**
+ * Returns a copy of a password-protected PDF without its encryption, opened with the user
+ * or owner password. Rejects with INCORRECT_PASSWORD when the password doesn't match.
+ */
+export async function decryptPdf(bytes: Uint8Array, password: string, options: OperationOptions = {}): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('decrypt', { input, password }, [input], options));
+}
+
+/**
+ * Stamps a text or image watermark onto the given 1-based pages; an empty list stamps every page.
+ * Image watermarks need the JPG or PNG bytes, which are transferred like the PDF.
+ */
+export async function addWatermark(
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  watermark: Watermark,
+  image?: Uint8Array,
+  options: OperationOptions = {}
+): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  const imageBuffer = image && toTransferableBuffer(image);
+  const transfer = imageBuffer ? [input, imageBuffer] : [input];
+  return new Uint8Array(await runInWorker('watermark', { input, pageNumbers, watermark, image: imageBuffer }, transfer, options));
+}
+
+/**
+ * Stamps page or Bates numbers onto the given 1-based pages; an empty list numbers every page.
+ * For a Bates batch, start each file where the previous one stopped via numbering.startNumber.
+ */
+export async function addPageNumbers(bytes: Uint8Array, pageNumbers: number[], numbering: PageNumbering, options: OperationOptions = {}): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('pageNumbers', { input, pageNumbers, numbering }, [input], options));
+}
+
+/**
+ * Draws the running header and footer on every page except the given 1-based skipPages
+ */
+export async function addHeaderFooter(bytes: Uint8Array, skipPages: number[], headerFooter: HeaderFooter, options: OperationOptions = {}): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  return new Uint8Array(await runInWorker('headerFooter', { input, skipPages, headerFooter }, [input], options));
+}
+
+/**
+ * Replaces the given 1-based pages with images of them that already have their redactions
+ * blacked out. Used by redactPdf, which renders the images and checks the result.
+ */
+export async function redactPages(
+  bytes: Uint8Array,
+  pageImages: { pageNumber: number; image: Uint8Array }[],
+  removeMetadata: boolean,
+  options: OperationOptions = {}
+): Promise<Uint8Array> {
+  const input = toTransferableBuffer(bytes);
+  const images = pageImages.map(({ pageNumber, image }) => ({ pageNumber, image: toTransferableBuffer(image) }));
+  return new Uint8Array(await runInWorker('redact', { input, pageImages: images, removeMetadata }, [input, ...images.map(({ image }) => image)], options));
+}
+
+/**
+ * Rebuilds a PDF in the given page order
+ */
+export async function reorderPages(bytes: Uint8Array, order: number[], options: OperationOptions = {}): Promise<Uint8Array> {
+  return extractPages(bytes, order, options);
+}
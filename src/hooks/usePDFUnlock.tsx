@@ -0,0 +1,93 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import toast from 'react-hot-toast';
+import { readFileBytes, decryptPdf, isIncorrectPasswordError } from '../engine';
+import { isEncryptedPdf } from '../utils/fileValidation';
+import PasswordDialog from '../components/PasswordDialog';
+
+interface PasswordRequest {
+  fileName: string;
+  attempt: number;
+  error?: string;
+  resolve: (password: string | null) => void;
+}
+
+/**
+ * Opens password-protected PDFs before a tool loads them. unlockPdf returns the file
+ * unchanged when it isn't encrypted, a decrypted copy once the right password has been
+ * entered, or null when the user skips the file or it can't be decrypted.
+ * Render passwordPrompt somewhere in the tool so the password dialog can show.
+ */
+export function usePDFUnlock() {
+  const [request, setRequest] = useState<PasswordRequest | null>(null);
+  const requestRef = useRef<PasswordRequest | null>(null);
+
+  // A prompt left open when the tool goes away counts as skipped
+  useEffect(() => {
+    return () => {
+      requestRef.current?.resolve(null);
+    };
+  }, []);
+
+  const askForPassword = useCallback((fileName: string, attempt: number, error?: string) => {
+    return new Promise<string | null>(resolve => {
+      const next: PasswordRequest = {
+        fileName,
+        attempt,
+        error,
+        resolve: password => {
+          requestRef.current = null;
+          setRequest(null);
+          resolve(password);
+        }
+      };
+      requestRef.current = next;
+      setRequest(next);
+    });
+  }, []);
+
+  const unlockPdf = useCallback(async (file: File): Promise<File | null> => {
+    if (!(await isEncryptedPdf(file))) {
+      return file;
+    }
+
+    // Files that only restrict printing or editing open with an empty password
+    let password = '';
+    for (let attempt = 0; ; attempt++) {
+      const loadingToast = password ? toast.loading(`Unlocking "${file.name}"...`) : undefined;
+      try {
+        const bytes = await decryptPdf(await readFileBytes(file), password);
+        if (loadingToast) toast.dismiss(loadingToast);
+        return new File([bytes as BlobPart], file.name, { type: 'application/pdf', lastModified: file.lastModified });
+      } catch (unlockError: unknown) {
+        if (loadingToast) toast.dismiss(loadingToast);
+        if (!isIncorrectPasswordError(unlockError)) {
+          console.error('Error decrypting PDF:', unlockError);
+          const errorMessage = unlockError instanceof Error ? unlockError.message : 'The file may be corrupted.';
+          toast.error(`Could not decrypt "${file.name}". ${errorMessage}`);
+          return null;
+        }
+      }
+
+      const nextPassword = await askForPassword(file.name, attempt, password ? 'Incorrect password. Please try again.' : undefined);
+      if (nextPassword === null) {
+        toast.error(`Skipped "${file.name}" because it is password-protected.`);
+        return null;
+      }
+      password = nextPassword;
+    }
+  }, [askForPassword]);
+
+  const passwordPrompt = request && createPortal(
+    <PasswordDialog
+      key={request.attempt}
+      fileName={request.fileName}
+      error={request.error}
+      onSubmit={password => request.resolve(password)}
+      onCancel={() => request.resolve(null)}
+    />,
+    document.body
+  );
+
+  return { unlockPdf, passwordPrompt };
+}
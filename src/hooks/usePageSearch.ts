@@ -0,0 +1,81 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { readFileBytes, indexPageText, searchPageText, isCancelledError } from '../engine';
+import type { OperationProgress, PageTextMatch } from '../engine';
+
+/**
+ * Text search over the pages of a tool's PDF. The text is indexed the first time a query
+ * is entered and kept until the file changes, so later searches are instant.
+ */
+export function usePageSearch(file: File | null) {
+  const [query, setQuery] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [wholeWords, setWholeWords] = useState(false);
+  const [index, setIndex] = useState<string[] | null>(null);
+  const [progress, setProgress] = useState<OperationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const indexedFileRef = useRef<File | null>(null);
+
+  // A new file starts with a fresh index and an empty search box
+  useEffect(() => {
+    setQuery('');
+    setIndex(null);
+    setError(null);
+  }, [file]);
+
+  const hasQuery = query.trim() !== '';
+
+  useEffect(() => {
+    if (!file || !hasQuery || indexedFileRef.current === file) return;
+    indexedFileRef.current = file;
+
+    const controller = new AbortController();
+    let finished = false;
+    const buildIndex = async () => {
+      try {
+        const bytes = await readFileBytes(file, { signal: controller.signal });
+        const pages = await indexPageText(bytes, { signal: controller.signal, onProgress: setProgress });
+        setIndex(pages);
+      } catch (indexError: unknown) {
+        if (isCancelledError(indexError)) return;
+        console.error('Error indexing page text:', indexError);
+        setError('Could not read the text of this PDF.');
+      } finally {
+        finished = true;
+        setProgress(null);
+      }
+    };
+    buildIndex();
+
+    return () => {
+      // Indexing stopped early is started again on the next search
+      if (!finished) {
+        controller.abort();
+        indexedFileRef.current = null;
+      }
+    };
+  }, [file, hasQuery]);
+
+  const matches = useMemo<PageTextMatch[]>(
+    () => (index && hasQuery ? searchPageText(index, query, { matchCase, wholeWords }) : []),
+    [index, query, hasQuery, matchCase, wholeWords]
+  );
+
+  return {
+    query,
+    setQuery,
+    matchCase,
+    setMatchCase,
+    wholeWords,
+    setWholeWords,
+    matches,
+    matchingPages: matches.map(match => match.pageNumber),
+    isIndexing: progress !== null,
+    progress,
+    // Pages without a text layer cannot be found by searching
+    emptyPageCount: index ? index.filter(text => text === '').length : 0,
+    isActive: hasQuery && index !== null,
+    error
+  };
+}
+
+export type PageSearch = ReturnType<typeof usePageSearch>;
@@ -0,0 +1,280 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  readFileBytes,
+  loadRenderDocument,
+  renderPageThumbnail,
+  getPageSize,
+  generateSimpleThumbnail,
+  generatePlaceholderThumbnail,
+  isCancelledError
+} from '../engine';
+import type { RenderDocument } from '../engine';
+import { isMemoryPressure, triggerGarbageCollection } from '../utils/memoryManagement';
+
+// Thumbnails are only kept for pages within this many screens of the visible ones
+const KEEP_SCREENS = 3;
+const MIN_KEEP_PAGES = 30;
+// Hard limit on cached thumbnails, whatever the screen size
+const MAX_CACHED_THUMBNAILS = 300;
+// Pause between thumbnails so scrolling stays smooth; longer under memory pressure
+const RENDER_PAUSE_MS = 16;
+const PRESSURE_PAUSE_MS = 300;
+
+// Displayed size in PDF points, for previews drawn on top of a thumbnail
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface PageThumbnailOptions {
+  // Drawn on simple thumbnails, e.g. DELETE in the page remover
+  badge?: string;
+  // The page shown at each grid position when the grid isn't in page order, e.g. after
+  // pages were moved or duplicated in the organizer
+  pageOrder?: readonly number[];
+}
+
+// Everything that belongs to one file in one preview mode
+interface ThumbnailSession {
+  file: File;
+  pageCount: number;
+  realPreviews: boolean;
+  badge?: string;
+  controller: AbortController;
+  // Opened on the first real preview and shared by all of them
+  document: Promise<RenderDocument> | null;
+  cache: Map<number, string>;
+  // Sizes are tiny, so they are kept for every page rendered so far
+  sizes: Map<number, PageSize>;
+  isRunning: boolean;
+}
+
+// Grid positions from the first to the last one on screen
+interface PageWindow {
+  first: number;
+  last: number;
+}
+
+// How many positions the grid has and which page each of them shows
+interface GridLayout {
+  count: number;
+  pageAt: (position: number) => number;
+}
+
+const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * The next page to render: visible pages first, nearest the middle of the screen first,
+ * then about one screen of pages below and above unless prefetching is off. Returns null
+ * when all of them are done.
+ */
+const pickNextPage = (session: ThumbnailSession, layout: GridLayout, visible: PageWindow, prefetch: boolean): number | null => {
+  const first = Math.max(visible.first, 1);
+  const last = Math.min(visible.last, layout.count);
+  const middle = (first + last) / 2;
+  let best: number | null = null;
+  let bestDistance = Infinity;
+  for (let position = first; position <= last; position++) {
+    const pageNumber = layout.pageAt(position);
+    if (session.cache.has(pageNumber)) continue;
+    if (Math.abs(position - middle) < bestDistance) {
+      best = pageNumber;
+      bestDistance = Math.abs(position - middle);
+    }
+  }
+  if (best !== null || !prefetch) return best;
+
+  const screen = last - first + 1;
+  for (let distance = 1; distance <= screen; distance++) {
+    for (const position of [last + distance, first - distance]) {
+      if (position < 1 || position > layout.count) continue;
+      const pageNumber = layout.pageAt(position);
+      if (!session.cache.has(pageNumber)) {
+        return pageNumber;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Drops thumbnails of pages far from the visible ones, farthest first, so memory stays
+ * flat however far the grid is scrolled
+ */
+const evictDistantThumbnails = (session: ThumbnailSession, layout: GridLayout, visible: PageWindow, limit: number): boolean => {
+  const keep = Math.max((visible.last - visible.first + 1) * KEEP_SCREENS, MIN_KEEP_PAGES);
+
+  // A page shown more than once counts as close as its nearest copy
+  const distances = new Map<number, number>();
+  const from = Math.max(visible.first - keep, 1);
+  const to = Math.min(visible.last + keep, layout.count);
+  for (let position = from; position <= to; position++) {
+    const offset = position < visible.first ? visible.first - position : Math.max(position - visible.last, 0);
+    const pageNumber = layout.pageAt(position);
+    distances.set(pageNumber, Math.min(distances.get(pageNumber) ?? Infinity, offset));
+  }
+  const distance = (pageNumber: number) => distances.get(pageNumber) ?? Infinity;
+
+  const cached = [...session.cache.keys()].sort((a, b) => distance(b) - distance(a));
+  let evicted = false;
+  for (const pageNumber of cached) {
+    if (distance(pageNumber) <= keep && session.cache.size <= limit) break;
+    if (distance(pageNumber) === 0) break;
+    session.cache.delete(pageNumber);
+    evicted = true;
+  }
+  return evicted;
+};
+
+/**
+ * Thumbnails for a windowed page grid. The grid reports which positions are on screen
+ * with showPages; only those pages and their neighbours are rendered, one at a time in
+ * order of how close they are to the middle of the screen, and thumbnails that scroll far
+ * away are released again. Simple thumbnails skip PDF.js and are drawn straight away.
+ */
+export function usePageThumbnails(
+  file: File | null,
+  pageCount: number,
+  realPreviews: boolean,
+  options: PageThumbnailOptions = {}
+) {
+  const { badge, pageOrder } = options;
+  const [thumbnails, setThumbnails] = useState<ReadonlyMap<number, string>>(new Map());
+  const [pageSizes, setPageSizes] = useState<ReadonlyMap<number, PageSize>>(new Map());
+  const [isRendering, setIsRendering] = useState(false);
+  const sessionRef = useRef<ThumbnailSession | null>(null);
+  const windowRef = useRef<PageWindow>({ first: 1, last: 0 });
+  const pageOrderRef = useRef<readonly number[] | null>(null);
+
+  const getLayout = useCallback((session: ThumbnailSession): GridLayout => {
+    const order = pageOrderRef.current;
+    return order
+      ? { count: order.length, pageAt: position => order[position - 1] }
+      : { count: session.pageCount, pageAt: position => position };
+  }, []);
+
+  const publish = useCallback((session: ThumbnailSession) => {
+    if (sessionRef.current === session) {
+      setThumbnails(new Map(session.cache));
+      setPageSizes(new Map(session.sizes));
+    }
+  }, []);
+
+  const renderThumbnail = useCallback(async (session: ThumbnailSession, pageNumber: number): Promise<string> => {
+    if (!session.realPreviews) {
+      return generateSimpleThumbnail(pageNumber, session.file.name, { badge: session.badge });
+    }
+    try {
+      session.document ??= readFileBytes(session.file, { signal: session.controller.signal }).then(loadRenderDocument);
+      const pdf = await session.document;
+      const thumbnail = await renderPageThumbnail(pdf, pageNumber, { signal: session.controller.signal });
+      if (!session.sizes.has(pageNumber)) {
+        session.sizes.set(pageNumber, await getPageSize(pdf, pageNumber));
+      }
+      return thumbnail;
+    } catch (thumbnailError: unknown) {
+      if (isCancelledError(thumbnailError) || session.controller.signal.aborted) {
+        throw thumbnailError;
+      }
+      console.error(`Error generating page thumbnail for page ${pageNumber}:`, thumbnailError);
+      return generatePlaceholderThumbnail(pageNumber);
+    }
+  }, []);
+
+  const run = useCallback(async (session: ThumbnailSession) => {
+    if (session.isRunning) return;
+    session.isRunning = true;
+    setIsRendering(true);
+    try {
+      for (;;) {
+        if (session.controller.signal.aborted) return;
+        // Under memory pressure only the pages on screen are rendered, so nothing is
+        // prefetched just to be released again
+        const underPressure = session.realPreviews && isMemoryPressure();
+        const pageNumber = pickNextPage(session, getLayout(session), windowRef.current, !underPressure);
+        if (pageNumber === null) break;
+
+        if (underPressure) {
+          // Keep only what is on screen and give the browser a moment to free memory
+          evictDistantThumbnails(session, getLayout(session), windowRef.current, 0);
+          publish(session);
+          triggerGarbageCollection();
+          await pause(PRESSURE_PAUSE_MS);
+          if (session.controller.signal.aborted) return;
+        }
+
+        const thumbnail = await renderThumbnail(session, pageNumber);
+        if (session.controller.signal.aborted) return;
+        session.cache.set(pageNumber, thumbnail);
+        evictDistantThumbnails(session, getLayout(session), windowRef.current, MAX_CACHED_THUMBNAILS);
+        publish(session);
+        if (session.realPreviews) {
+          await pause(RENDER_PAUSE_MS);
+        }
+      }
+    } catch (renderError: unknown) {
+      if (!isCancelledError(renderError) && !session.controller.signal.aborted) {
+        console.error('Error during thumbnail generation:', renderError);
+      }
+    } finally {
+      session.isRunning = false;
+      if (sessionRef.current === session) {
+        setIsRendering(false);
+      }
+    }
+  }, [getLayout, publish, renderThumbnail]);
+
+  // A new order shows other pages in the same positions, so those are rendered next
+  useEffect(() => {
+    pageOrderRef.current = pageOrder ?? null;
+    const session = sessionRef.current;
+    if (!session) return;
+    if (evictDistantThumbnails(session, getLayout(session), windowRef.current, MAX_CACHED_THUMBNAILS)) {
+      publish(session);
+    }
+    run(session);
+  }, [pageOrder, getLayout, publish, run]);
+
+  useEffect(() => {
+    setThumbnails(new Map());
+    setPageSizes(new Map());
+    setIsRendering(false);
+    if (!file || pageCount === 0) return;
+
+    const session: ThumbnailSession = {
+      file,
+      pageCount,
+      realPreviews,
+      badge,
+      controller: new AbortController(),
+      document: null,
+      cache: new Map(),
+      sizes: new Map(),
+      isRunning: false
+    };
+    sessionRef.current = session;
+    run(session);
+
+    return () => {
+      session.controller.abort();
+      session.document?.then(pdf => pdf.destroy()).catch(() => undefined);
+      session.cache.clear();
+      if (sessionRef.current === session) {
+        sessionRef.current = null;
+      }
+    };
+  }, [file, pageCount, realPreviews, badge, run]);
+
+  // Called by the grid whenever the positions on screen change
+  const showPages = useCallback((first: number, last: number) => {
+    windowRef.current = { first, last };
+    const session = sessionRef.current;
+    if (!session) return;
+    if (evictDistantThumbnails(session, getLayout(session), windowRef.current, MAX_CACHED_THUMBNAILS)) {
+      publish(session);
+    }
+    run(session);
+  }, [getLayout, publish, run]);
+
+  return { thumbnails, pageSizes, showPages, isRendering };
+}
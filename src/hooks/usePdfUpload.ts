@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import type { ChangeEvent, DragEvent } from 'react';
+import toast from 'react-hot-toast';
+import { readFileBytes, getPageCount, generatePageThumbnail, generateFileIconThumbnail } from '../engine';
+import { formatFileSize } from '../utils/fileValidation';
+import { isMemoryPressure, triggerGarbageCollection } from '../utils/memoryManagement';
+import { usePDFUnlock } from './usePDFUnlock';
+
+// Larger files are refused before anything is read
+const MAX_FILE_SIZE = 100 * 1024 * 1024;
+// Batches above this many files ask before loading
+const LARGE_BATCH_FILES = 10;
+
+export interface UploadedPdf {
+  file: File;
+  name: string;
+  size: string;
+  pageCount: number;
+}
+
+// A file of a batch, with a first-page preview for the file list
+export interface BatchPdf extends UploadedPdf {
+  id: string;
+  thumbnail: string;
+}
+
+/**
+ * File input and drag-and-drop handling shared by both upload hooks
+ */
+function useFileInput(onFiles: (files: File[]) => Promise<void>) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Lets the same file be picked again after it was removed or rejected
+    event.target.value = '';
+    if (files.length === 0) return;
+    await onFiles(files);
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+  };
+
+  const handleDrop = async (e: DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+
+    const files = e.dataTransfer.files;
+    if (files.length > 0) {
+      await onFiles(Array.from(files));
+    }
+  };
+
+  return { isDragOver, handleFileUpload, handleDragOver, handleDragLeave, handleDrop };
+}
+
+const countPages = async (file: File): Promise<number> => {
+  try {
+    return await getPageCount(await readFileBytes(file));
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Upload and drag-and-drop handling for the tools that work on one PDF at a time. Files
+ * are checked, unlocked when password-protected and counted before onLoad lets the tool
+ * reset its own state for the new file; the file is only shown once onLoad has finished,
+ * and not at all when onLoad throws.
+ * Render passwordPrompt somewhere in the tool.
+ */
+export function usePdfUpload(onLoad?: (pdf: UploadedPdf) => void | Promise<void>) {
+  const [pdfFile, setPdfFile] = useState<UploadedPdf | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { unlockPdf, passwordPrompt } = usePDFUnlock();
+
+  const processFile = async (file: File) => {
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error(`File size (${formatFileSize(file.size)}) exceeds the 100MB limit. Please use a smaller PDF file.`);
+      return;
+    }
+
+    if (file.type !== 'application/pdf') {
+      toast.error(`"${file.name}" is not a PDF. Only PDF files are allowed.`);
+      return;
+    }
+
+    setIsLoading(true);
+
+    // Password-protected files carry on as a decrypted copy
+    const unlockedFile = await unlockPdf(file);
+    if (!unlockedFile) {
+      setIsLoading(false);
+      return;
+    }
+
+    const pageCount = await countPages(unlockedFile);
+    if (pageCount === 0) {
+      toast.error('Could not read PDF pages. Please check if the file is valid.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const pdf: UploadedPdf = {
+        file: unlockedFile,
+        name: unlockedFile.name,
+        size: formatFileSize(unlockedFile.size),
+        pageCount
+      };
+      await onLoad?.(pdf);
+      setPdfFile(pdf);
+      toast.success(`PDF loaded successfully! ${pageCount} pages found.`);
+    } catch (loadError) {
+      console.error('Error loading PDF:', loadError);
+      toast.error('Could not read PDF pages. Please check if the file is valid.');
+    }
+
+    setIsLoading(false);
+  };
+
+  // Only process the first file
+  const input = useFileInput(files => processFile(files[0]));
+
+  const removeFile = () => {
+    setPdfFile(null);
+    toast.success('File removed successfully');
+  };
+
+  return {
+    pdfFile,
+    isLoading,
+    setIsLoading,
+    isDragOver: input.isDragOver,
+    handleFileUpload: input.handleFileUpload,
+    handleDragOver: input.handleDragOver,
+    handleDragLeave: input.handleDragLeave,
+    handleDrop: input.handleDrop,
+    removeFile,
+    passwordPrompt
+  };
+}
+
+/**
+ * Upload handling for the tools that take a list of PDFs. Every file goes through the same
+ * checks and unlocking as usePdfUpload and gets a first-page preview; onLoad receives the
+ * files that loaded and the tool adds them to its own list.
+ */
+export function usePdfBatchUpload(onLoad: (pdfs: BatchPdf[]) => void) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { unlockPdf, passwordPrompt } = usePDFUnlock();
+
+  const loadFile = async (file: File): Promise<BatchPdf | null> => {
+    // Password-protected files carry on as a decrypted copy
+    const unlockedFile = await unlockPdf(file);
+    if (!unlockedFile) return null;
+
+    const bytes = await readFileBytes(unlockedFile);
+    // Render first: counting pages hands the bytes over to the PDF worker
+    let thumbnail: string;
+    try {
+      thumbnail = await generatePageThumbnail(bytes, 1, { width: 200, height: 260 });
+    } catch (thumbnailError) {
+      console.error('Error generating thumbnail:', thumbnailError);
+      thumbnail = generateFileIconThumbnail(unlockedFile.name);
+    }
+    const pageCount = await getPageCount(bytes);
+
+    return {
+      file: unlockedFile,
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: unlockedFile.name,
+      size: formatFileSize(unlockedFile.size),
+      pageCount,
+      thumbnail
+    };
+  };
+
+  const processFiles = async (files: File[]) => {
+    const oversizedFiles = files.filter(file => file.size > MAX_FILE_SIZE);
+    if (oversizedFiles.length > 0) {
+      toast.error(`File size limit exceeded (100MB). Large files: ${oversizedFiles.map(f => f.name).join(', ')}`);
+      return;
+    }
+
+    if (files.length > LARGE_BATCH_FILES) {
+      const proceed = confirm(
+        `⚠️ Processing ${files.length} files\n\n` +
+        `Processing many files at once may cause performance issues. ` +
+        `Consider uploading fewer files at a time.\n\n` +
+        `Continue anyway?`
+      );
+      if (!proceed) {
+        return;
+      }
+    }
+
+    setIsLoading(true);
+    const loaded: BatchPdf[] = [];
+
+    for (const file of files) {
+      if (file.type !== 'application/pdf') {
+        toast.error(`"${file.name}" is not a PDF file. Only PDF files are allowed.`);
+        continue;
+      }
+
+      try {
+        if (isMemoryPressure()) {
+          console.warn('Memory pressure detected, cleaning up before processing next file');
+          triggerGarbageCollection();
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
+        const pdf = await loadFile(file);
+        if (pdf) {
+          loaded.push(pdf);
+        }
+
+        // Add a small delay between files to prevent overwhelming the system
+        if (files.length > 5) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+      } catch (processError) {
+        console.error('Error processing file:', processError);
+        toast.error(`Failed to process "${file.name}". File may be corrupted.`);
+      }
+    }
+
+    if (loaded.length > 0) {
+      onLoad(loaded);
+      toast.success(`Successfully uploaded ${loaded.length} PDF file${loaded.length > 1 ? 's' : ''}`);
+    }
+
+    setIsLoading(false);
+  };
+
+  const input = useFileInput(processFiles);
+
+  return {
+    isLoading,
+    setIsLoading,
+    isDragOver: input.isDragOver,
+    handleFileUpload: input.handleFileUpload,
+    handleDragOver: input.handleDragOver,
+    handleDragLeave: input.handleDragLeave,
+    handleDrop: input.handleDrop,
+    passwordPrompt
+  };
+}
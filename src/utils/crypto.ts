@@ -0,0 +1,297 @@
+/**
+ * Minimal cryptographic primitives for the PDF standard security handler: MD5, RC4 and
+ * AES-CBC are implemented here because Web Crypto lacks MD5 and RC4 and always pads AES.
+ * SHA-2 hashes, random bytes and bulk padded AES encryption come from Web Crypto.
+ */
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+/**
+ * Computes the MD5 digest of the given bytes
+ */
+export function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = data.length * 8;
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 2 ** 32), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const words = new Uint32Array(16);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let j = 0; j < 16; j++) {
+      words[j] = view.getUint32(offset + j * 4, true);
+    }
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      f = (f + a + MD5_CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((f << MD5_SHIFTS[i]) | (f >>> (32 - MD5_SHIFTS[i])))) | 0;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((value, index) => digestView.setUint32(index * 4, value >>> 0, true));
+  return digest;
+}
+
+/**
+ * Encrypts or decrypts (the two are the same) data with the RC4 stream cipher
+ */
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const state = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    state[i] = i;
+  }
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[k] = data[k] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+// AES substitution boxes, generated from the multiplicative inverse in GF(2^8)
+const SBOX = new Uint8Array(256);
+const INV_SBOX = new Uint8Array(256);
+(() => {
+  const rotl8 = (value: number, shift: number) => ((value << shift) | (value >>> (8 - shift))) & 0xff;
+  let p = 1;
+  let q = 1;
+  do {
+    p = (p ^ (p << 1) ^ (p & 0x80 ? 0x1b : 0)) & 0xff;
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    const value = q ^ rotl8(q, 1) ^ rotl8(q, 2) ^ rotl8(q, 3) ^ rotl8(q, 4) ^ 0x63;
+    SBOX[p] = value;
+    INV_SBOX[value] = p;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+  INV_SBOX[0x63] = 0;
+})();
+
+const xtime = (value: number) => ((value << 1) ^ (value & 0x80 ? 0x1b : 0)) & 0xff;
+
+const multiply = (value: number, factor: number): number => {
+  let result = 0;
+  for (let a = value, b = factor; b > 0; b >>= 1, a = xtime(a)) {
+    if (b & 1) result ^= a;
+  }
+  return result;
+};
+
+const MUL_9 = Uint8Array.from({ length: 256 }, (_, i) => multiply(i, 9));
+const MUL_11 = Uint8Array.from({ length: 256 }, (_, i) => multiply(i, 11));
+const MUL_13 = Uint8Array.from({ length: 256 }, (_, i) => multiply(i, 13));
+const MUL_14 = Uint8Array.from({ length: 256 }, (_, i) => multiply(i, 14));
+
+/**
+ * Expands a 16- or 32-byte AES key into the round keys
+ */
+const expandKey = (key: Uint8Array): { roundKeys: Uint8Array; rounds: number } => {
+  if (key.length !== 16 && key.length !== 32) {
+    throw new Error(`Unsupported AES key length: ${key.length} bytes.`);
+  }
+  const keyWords = key.length / 4;
+  const rounds = keyWords + 6;
+  const roundKeys = new Uint8Array(16 * (rounds + 1));
+  roundKeys.set(key);
+
+  let rcon = 1;
+  const temp = new Uint8Array(4);
+  for (let i = keyWords; i < 4 * (rounds + 1); i++) {
+    temp.set(roundKeys.subarray((i - 1) * 4, i * 4));
+    if (i % keyWords === 0) {
+      const first = temp[0];
+      temp[0] = SBOX[temp[1]] ^ rcon;
+      temp[1] = SBOX[temp[2]];
+      temp[2] = SBOX[temp[3]];
+      temp[3] = SBOX[first];
+      rcon = xtime(rcon);
+    } else if (keyWords > 6 && i % keyWords === 4) {
+      for (let k = 0; k < 4; k++) temp[k] = SBOX[temp[k]];
+    }
+    for (let k = 0; k < 4; k++) {
+      roundKeys[i * 4 + k] = roundKeys[(i - keyWords) * 4 + k] ^ temp[k];
+    }
+  }
+  return { roundKeys, rounds };
+};
+
+const addRoundKey = (state: Uint8Array, roundKeys: Uint8Array, round: number) => {
+  for (let i = 0; i < 16; i++) state[i] ^= roundKeys[round * 16 + i];
+};
+
+const encryptBlock = (state: Uint8Array, roundKeys: Uint8Array, rounds: number) => {
+  const copy = new Uint8Array(16);
+  addRoundKey(state, roundKeys, 0);
+  for (let round = 1; round <= rounds; round++) {
+    // SubBytes and ShiftRows: row r moves r columns to the left
+    copy.set(state);
+    for (let i = 0; i < 16; i++) {
+      const row = i % 4;
+      const column = (Math.floor(i / 4) + row) % 4;
+      state[i] = SBOX[copy[row + 4 * column]];
+    }
+    if (round < rounds) {
+      for (let c = 0; c < 16; c += 4) {
+        const [a0, a1, a2, a3] = [state[c], state[c + 1], state[c + 2], state[c + 3]];
+        const all = a0 ^ a1 ^ a2 ^ a3;
+        state[c] ^= all ^ xtime(a0 ^ a1);
+        state[c + 1] ^= all ^ xtime(a1 ^ a2);
+        state[c + 2] ^= all ^ xtime(a2 ^ a3);
+        state[c + 3] ^= all ^ xtime(a3 ^ a0);
+      }
+    }
+    addRoundKey(state, roundKeys, round);
+  }
+};
+
+const decryptBlock = (state: Uint8Array, roundKeys: Uint8Array, rounds: number) => {
+  const copy = new Uint8Array(16);
+  addRoundKey(state, roundKeys, rounds);
+  for (let round = rounds - 1; round >= 0; round--) {
+    // Inverse ShiftRows and SubBytes: row r moves r columns to the right
+    copy.set(state);
+    for (let i = 0; i < 16; i++) {
+      const row = i % 4;
+      const column = (Math.floor(i / 4) - row + 4) % 4;
+      state[i] = INV_SBOX[copy[row + 4 * column]];
+    }
+    addRoundKey(state, roundKeys, round);
+    if (round > 0) {
+      for (let c = 0; c < 16; c += 4) {
+        const [a0, a1, a2, a3] = [state[c], state[c + 1], state[c + 2], state[c + 3]];
+        state[c] = MUL_14[a0] ^ MUL_11[a1] ^ MUL_13[a2] ^ MUL_9[a3];
+        state[c + 1] = MUL_9[a0] ^ MUL_14[a1] ^ MUL_11[a2] ^ MUL_13[a3];
+        state[c + 2] = MUL_13[a0] ^ MUL_9[a1] ^ MUL_14[a2] ^ MUL_11[a3];
+        state[c + 3] = MUL_11[a0] ^ MUL_13[a1] ^ MUL_9[a2] ^ MUL_14[a3];
+      }
+    }
+  }
+};
+
+/**
+ * Encrypts with AES in CBC mode. With padding, PKCS #7 padding is added first;
+ * without it the data must be a whole number of 16-byte blocks.
+ */
+export function aesCbcEncrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding = true): Uint8Array {
+  const { roundKeys, rounds } = expandKey(key);
+  const padLength = padding ? 16 - (data.length % 16) : 0;
+  if (!padding && data.length % 16 !== 0) {
+    throw new Error('AES data must be a multiple of 16 bytes without padding.');
+  }
+
+  const output = new Uint8Array(data.length + padLength);
+  output.set(data);
+  output.fill(padLength, data.length);
+
+  let previous = iv;
+  for (let offset = 0; offset < output.length; offset += 16) {
+    const block = output.subarray(offset, offset + 16);
+    for (let i = 0; i < 16; i++) block[i] ^= previous[i];
+    encryptBlock(block, roundKeys, rounds);
+    previous = block;
+  }
+  return output;
+}
+
+/**
+ * Decrypts AES-CBC data. With padding, valid PKCS #7 padding is removed. A trailing
+ * partial block, which some PDF writers leave behind, is ignored.
+ */
+export function aesCbcDecrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding = true): Uint8Array {
+  const { roundKeys, rounds } = expandKey(key);
+  const length = data.length - (data.length % 16);
+  const output = new Uint8Array(length);
+  output.set(data.subarray(0, length));
+
+  let previous = iv;
+  for (let offset = 0; offset < length; offset += 16) {
+    const block = output.subarray(offset, offset + 16);
+    const cipherBlock = data.subarray(offset, offset + 16);
+    decryptBlock(block, roundKeys, rounds);
+    for (let i = 0; i < 16; i++) block[i] ^= previous[i];
+    previous = cipherBlock;
+  }
+
+  if (padding && length > 0) {
+    const padLength = output[length - 1];
+    if (padLength >= 1 && padLength <= 16 && output.subarray(length - padLength).every(byte => byte === padLength)) {
+      return output.subarray(0, length - padLength);
+    }
+  }
+  return output;
+}
+
+/**
+ * Computes a SHA-256, SHA-384 or SHA-512 digest with Web Crypto
+ */
+export async function sha(algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+}
+
+/**
+ * Encrypts large data with AES-CBC and PKCS #7 padding through Web Crypto, which is much
+ * faster than aesCbcEncrypt
+ */
+export async function aesCbcEncryptNative(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, ['encrypt']);
+  return new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource));
+}
+
+/**
+ * Returns cryptographically secure random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
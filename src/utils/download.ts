@@ -0,0 +1,43 @@
+/**
+ * Browser download helpers
+ */
+
+/**
+ * Triggers a browser download of the given bytes under the given file name
+ */
+export function downloadBytes(bytes: Uint8Array | Blob, fileName: string, mimeType = 'application/pdf'): void {
+  const blob = bytes instanceof Blob ? bytes : new Blob([bytes as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Strips the .pdf extension from a file name
+ */
+export function getBaseName(fileName: string): string {
+  return fileName.replace(/\.pdf$/i, '');
+}
+
+/**
+ * Turns free text such as a bookmark title into a safe file name (without extension).
+ * Unlike sanitizeFilename this keeps spaces and non-ASCII letters.
+ */
+export function fileNameFromTitle(title: string, fallback = 'Untitled'): string {
+  const printable = [...title].map(char => (char.charCodeAt(0) < 32 ? ' ' : char)).join('');
+  const cleaned = printable
+    .replace(/[\\/:*?"<>|]/g, ' ') // Characters not allowed in file names
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '') // Remove leading dots
+    .substring(0, 100)
+    .trim();
+  return cleaned || fallback;
+}
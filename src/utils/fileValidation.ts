@@ -16,10 +16,33 @@ export interface FileValidationOptions {
   checkMagicNumbers?: boolean;
 }
 
-// Magic numbers (file signatures) for PDF files
-const PDF_MAGIC_NUMBERS = [
-  [0x25, 0x50, 0x44, 0x46], // %PDF
-];
+// Magic numbers (file signatures) by MIME type
+const MAGIC_NUMBERS: Record<string, number[][]> = {
+  'application/pdf': [
+    [0x25, 0x50, 0x44, 0x46], // %PDF
+  ],
+  'image/jpeg': [
+    [0xFF, 0xD8, 0xFF],
+  ],
+  'image/png': [
+    [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], // \x89PNG\r\n\x1a\n
+  ],
+};
+
+// Shown when a file's contents don't match its type
+const MAGIC_NUMBER_ERRORS: Record<string, string> = {
+  'application/pdf': 'The file does not appear to be a valid PDF document.',
+  'image/jpeg': 'The file does not appear to be a valid JPG image.',
+  'image/png': 'The file does not appear to be a valid PNG image.',
+};
+
+/**
+ * Validation options for the JPG and PNG images accepted by the image converter
+ */
+export const IMAGE_VALIDATION_OPTIONS: FileValidationOptions = {
+  allowedTypes: ['image/jpeg', 'image/png'],
+  allowedExtensions: ['.jpg', '.jpeg', '.png'],
+};
 
 // Common suspicious file patterns to avoid
 const SUSPICIOUS_PATTERNS = [
@@ -91,13 +114,14 @@ export async function validateFile(
     };
   }
 
-  // Check magic numbers for PDF files
-  if (checkMagicNumbers && allowedTypes.includes('application/pdf')) {
-    const magicNumberValid = await validatePDFMagicNumber(file);
+  // Check magic numbers for file types we know the signature of
+  const signatures = MAGIC_NUMBERS[file.type];
+  if (checkMagicNumbers && signatures) {
+    const magicNumberValid = await validateMagicNumber(file, signatures);
     if (!magicNumberValid) {
       return {
         isValid: false,
-        error: 'The file does not appear to be a valid PDF document.',
+        error: MAGIC_NUMBER_ERRORS[file.type],
       };
     }
   }
@@ -142,15 +166,15 @@ export async function validateFiles(
 }
 
 /**
- * Validates PDF magic number by reading the first few bytes
+ * Validates a file's magic number by reading the first few bytes
  */
-async function validatePDFMagicNumber(file: File): Promise<boolean> {
+async function validateMagicNumber(file: File, signatures: number[][]): Promise<boolean> {
   try {
-    const slice = file.slice(0, 4);
+    const slice = file.slice(0, Math.max(...signatures.map(signature => signature.length)));
     const arrayBuffer = await slice.arrayBuffer();
     const bytes = new Uint8Array(arrayBuffer);
 
-    return PDF_MAGIC_NUMBERS.some(magicNumber =>
+    return signatures.some(magicNumber =>
       magicNumber.every((byte, index) => bytes[index] === byte)
     );
   } catch {
@@ -159,6 +183,30 @@ async function validatePDFMagicNumber(file: File): Promise<boolean> {
   }
 }
 
+// An /Encrypt entry pointing at the encryption dictionary, in a trailer or cross-reference stream
+const ENCRYPT_ENTRY_PATTERN = /\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/;
+
+/**
+ * Checks whether a PDF is encrypted by looking for an /Encrypt entry in its trailer.
+ * Only the start (where linearized files keep their first trailer) and the end of the
+ * file are read, so this stays fast for large files.
+ */
+export async function isEncryptedPdf(file: Blob): Promise<boolean> {
+  const headSize = 64 * 1024;
+  const tailSize = 1024 * 1024;
+  const decoder = new TextDecoder('latin1');
+  try {
+    const head = decoder.decode(await file.slice(0, headSize).arrayBuffer());
+    if (ENCRYPT_ENTRY_PATTERN.test(head)) return true;
+    if (file.size <= headSize) return false;
+    const tail = decoder.decode(await file.slice(Math.max(headSize, file.size - tailSize)).arrayBuffer());
+    return ENCRYPT_ENTRY_PATTERN.test(tail);
+  } catch {
+    // Unreadable files fail later with a clearer message
+    return false;
+  }
+}
+
 /**
  * Gets the file extension from a filename
  */
@@ -0,0 +1,132 @@
+/**
+ * Minimal ZIP archive writer for bundling generated files into one download.
+ * Entries are stored without compression: PDFs and images are already compressed,
+ * so deflating them again would cost time for almost no size gain.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum ZIP uses to verify each entry
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields used by ZIP headers
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Appends " (2)", " (3)"... before the extension until the name is unused
+ */
+const makeUniqueName = (name: string, usedNames: Set<string>): string => {
+  let candidate = name;
+  const dotIndex = name.lastIndexOf('.');
+  const base = dotIndex > 0 ? name.slice(0, dotIndex) : name;
+  const extension = dotIndex > 0 ? name.slice(dotIndex) : '';
+  for (let counter = 2; usedNames.has(candidate.toLowerCase()); counter++) {
+    candidate = `${base} (${counter})${extension}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Builds a ZIP archive from the given entries. Duplicate names get a numeric suffix.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const usedNames = new Set<string>();
+
+  const prepared = entries.map(entry => ({
+    name: encoder.encode(makeUniqueName(entry.name, usedNames)),
+    data: entry.data,
+    crc: crc32(entry.data)
+  }));
+
+  const localSize = prepared.reduce((total, entry) => total + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = prepared.reduce((total, entry) => total + 46 + entry.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  // Local file headers followed by the stored data
+  for (const entry of prepared) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // Version needed to extract
+    view.setUint16(offset + 6, 0x0800, true); // UTF-8 file names
+    view.setUint16(offset + 8, 0, true); // Stored, no compression
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(entry.name, offset + 30);
+    output.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  prepared.forEach((entry, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed to extract
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    view.setUint16(offset + 30, 0, true); // Extra field length
+    view.setUint16(offset + 32, 0, true); // Comment length
+    view.setUint16(offset + 34, 0, true); // Disk number
+    view.setUint16(offset + 36, 0, true); // Internal attributes
+    view.setUint32(offset + 38, 0, true); // External attributes
+    view.setUint32(offset + 42, localOffsets[index], true);
+    output.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 4, 0, true);
+  view.setUint16(offset + 6, 0, true);
+  view.setUint16(offset + 8, prepared.length, true);
+  view.setUint16(offset + 10, prepared.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  view.setUint16(offset + 20, 0, true);
+
+  return output;
+}
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react-swc'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    // The PDF worker is created with { type: 'module' }, so emit it as an ES module
+    format: 'es',
+  },
   build: {
     // Increase chunk size warning limit since PDF libraries are inherently large
     chunkSizeWarningLimit: 1000,